@@ -1,20 +1,35 @@
 "use client"
 
 import { useState, useCallback, useMemo, useEffect, useRef } from "react"
-import { ArrowLeft, Download, Copy, Check, ChevronDown, Braces, Globe } from "lucide-react"
+import { ArrowLeft, Download, Copy, Check, ChevronDown, Braces, Globe, Upload, AudioWaveform, MonitorSpeaker, Link2 } from "lucide-react"
 import Link from "next/link"
+import { useShallow } from "zustand/react/shallow"
 import { useRouter } from "next/navigation"
 import { EQProfilePills } from "@/components/eq-profile-pills"
 import { ExportCurvePreview } from "@/components/export-curve-preview"
-import { useEQProfileStore, PROFILE_COLORS } from "@/lib/stores/eqProfileStore"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { PROFILE_COLOR_CLASSES, profileColorStyle } from "@/lib/utils/profileColors"
 import { useToast } from "@/components/common/ToastManager"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
 import {
   getFormatsByPlatform,
   type FormatEntry,
   type ExportInput,
   type ExportResult,
+  type ChannelExportMode,
+  hasChannelBands,
+  hasMidSideBands,
+  splitInputForChannels,
 } from "@/lib/utils/eqExport"
+import { importEQ, EQImportError } from "@/lib/utils/eqImport"
+import { flattenProfiles } from "@/lib/utils/eqLayers"
+import { buildShareUrl } from "@/lib/utils/eqShare"
 
 // ── Accordion panel with JS-measured height ────────────────────────────
 
@@ -102,26 +117,55 @@ const PLATFORM_ICONS: Record<string, React.ComponentType<{ className?: string }>
   macOS: AppleIcon,
   Windows: WindowsIcon,
   Android: AndroidIcon,
+  "Portable players": MonitorSpeaker,
   "Cross-platform": Globe,
+  Convolution: AudioWaveform,
 }
 
 const FORMAT_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
   json: Braces,
 }
 
+// Sample rates offered for rendered (FIR) exports
+const FIR_SAMPLE_RATES = [44100, 48000, 96000]
+
+// The registry is fixed, so it's grouped once rather than on every render
+const FORMAT_GROUPS = getFormatsByPlatform()
+const FORMAT_ENTRIES = FORMAT_GROUPS.flatMap((group) => group.formats)
+
+// Formats without L/R support get a merged result or one file per side
+function convertFormat(entry: FormatEntry, input: ExportInput, channelMode: ChannelExportMode): ExportResult[] {
+  const inputs = entry.meta.supportsChannels ? [input] : splitInputForChannels(input, channelMode)
+  return inputs.map((i) => entry.convert(i))
+}
+
 // ── Page ────────────────────────────────────────────────────────────────
 
 export default function ExportPage() {
   const [expandedFormatId, setExpandedFormatId] = useState<string | null>(null)
+  // The last two rendered formats opened: the open one and one still animating closed
+  const [openedRenderedIds, setOpenedRenderedIds] = useState<string[]>([])
   const [copiedFormatId, setCopiedFormatId] = useState<string | null>(null)
+  const [firSampleRate, setFirSampleRate] = useState(48000)
+  const [channelMode, setChannelMode] = useState<ChannelExportMode>("merge")
+  const [flattenLayers, setFlattenLayers] = useState(true)
   const [mounted, setMounted] = useState(false)
   const [isExiting, setIsExiting] = useState(false)
   const router = useRouter()
 
   const getActiveProfile = useEQProfileStore((s) => s.getActiveProfile)
+  // Shallow-compared so the list (and the export results) only change with its profiles
+  const playbackProfiles = useEQProfileStore(useShallow((s) => s.getPlaybackProfiles()))
   const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
+  const updateProfile = useEQProfileStore((s) => s.updateProfile)
+  const setActiveProfile = useEQProfileStore((s) => s.setActiveProfile)
+  const createProfile = useEQProfileStore((s) => s.createProfile)
   const { showToast } = useToast()
 
+  // Profile the next imported file is loaded into (null: a new profile)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const importTargetRef = useRef<string | null>(null)
+
   useEffect(() => setMounted(true), [])
 
   const triggerExit = useCallback(() => {
@@ -146,60 +190,79 @@ export default function ExportPage() {
     return () => window.removeEventListener("keydown", onKey)
   }, [triggerExit])
 
-  const profile = getActiveProfile()
-  const groups = getFormatsByPlatform()
-
-  const pc =
-    activeProfileId && activeProfileId in PROFILE_COLORS
-      ? PROFILE_COLORS[activeProfileId as keyof typeof PROFILE_COLORS]
-      : PROFILE_COLORS["profile-1"]
+  // Layers under the active profile can be flattened into one exported preset
+  const layerNames = playbackProfiles.slice(0, -1).map((p) => p.name)
+  const isLayered = layerNames.length > 0
+  const flattenedProfile = useMemo(() => flattenProfiles(playbackProfiles), [playbackProfiles])
+  const profile = isLayered && flattenLayers ? flattenedProfile : getActiveProfile()
 
   const hasBands = profile && (profile.bands?.length ?? 0) > 0
+  const hasPerChannelBands = hasChannelBands(profile?.bands ?? [])
+  const hasMidSide = hasMidSideBands(profile?.bands ?? [])
+
+  const exportInput = useMemo<ExportInput | null>(
+    () => (profile ? { profileName: profile.name, bands: profile.bands ?? [], preampDb: profile.volume ?? 0 } : null),
+    [profile]
+  )
 
-  // Pre-compute all format results so accordion content is always in the DOM
-  const allResults = useMemo(() => {
-    if (!profile) return {} as Record<string, ExportResult>
-    const input: ExportInput = {
-      profileName: profile.name,
-      bands: profile.bands ?? [],
-      preampDb: profile.volume ?? 0,
+  // Pre-compute text format results so accordion content is always in the DOM.
+  // Rendered (FIR WAV) formats are only converted once opened or downloaded.
+  const textResults = useMemo(() => {
+    const map: Record<string, ExportResult[]> = {}
+    if (!exportInput) return map
+    for (const entry of FORMAT_ENTRIES) {
+      if (!entry.meta.rendered) map[entry.meta.id] = convertFormat(entry, exportInput, channelMode)
     }
-    const map: Record<string, ExportResult> = {}
-    for (const group of groups) {
-      for (const entry of group.formats) {
-        map[entry.meta.id] = entry.convert(input)
+    return map
+  }, [exportInput, channelMode])
+
+  const renderedResults = useMemo(() => {
+    const map: Record<string, ExportResult[]> = {}
+    if (!exportInput) return map
+    for (const entry of FORMAT_ENTRIES) {
+      if (openedRenderedIds.includes(entry.meta.id)) {
+        map[entry.meta.id] = convertFormat(entry, { ...exportInput, sampleRate: firSampleRate }, channelMode)
       }
     }
     return map
-  }, [profile, groups])
+  }, [exportInput, channelMode, firSampleRate, openedRenderedIds])
+
+  const allResults = useMemo(() => ({ ...textResults, ...renderedResults }), [textResults, renderedResults])
 
   const handleDownload = useCallback(
     (entry: FormatEntry, e: React.MouseEvent) => {
       e.stopPropagation()
-      const result = allResults[entry.meta.id]
-      if (!result) return
-      const blob = new Blob([result.content], { type: result.mimeType })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = result.fileName
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
-      showToast({ message: `Downloaded ${result.fileName}`, variant: "success" })
+      const results =
+        allResults[entry.meta.id] ??
+        (exportInput ? convertFormat(entry, { ...exportInput, sampleRate: firSampleRate }, channelMode) : [])
+      if (!results.length) return
+      for (const result of results) {
+        const blob = new Blob([result.data ?? result.content], { type: result.mimeType })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = result.fileName
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+      }
+      showToast({
+        message: results.length === 1 ? `Downloaded ${results[0].fileName}` : `Downloaded ${results.length} files`,
+        variant: "success",
+      })
     },
-    [allResults, showToast]
+    [allResults, exportInput, firSampleRate, channelMode, showToast]
   )
 
   const handleCopy = useCallback(
-    async (entry: FormatEntry, e: React.MouseEvent) => {
+    async (entry: FormatEntry, index: number, e: React.MouseEvent) => {
       e.stopPropagation()
-      const result = allResults[entry.meta.id]
+      const result = allResults[entry.meta.id]?.[index]
       if (!result) return
       try {
         await navigator.clipboard.writeText(result.content)
-        setCopiedFormatId(entry.meta.id)
+        setCopiedFormatId(`${entry.meta.id}:${index}`)
         showToast({ message: "Copied to clipboard", variant: "success" })
         setTimeout(() => setCopiedFormatId(null), 2000)
       } catch {
@@ -209,7 +272,60 @@ export default function ExportPage() {
     [allResults, showToast]
   )
 
-  const toggleExpand = useCallback((id: string) => {
+  // Link that opens Cabin with an import prompt for the profile as shown
+  const handleCopyShareLink = useCallback(async () => {
+    if (!profile) return
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(profile, window.location.origin))
+      showToast({ message: "Share link copied to clipboard", variant: "success" })
+    } catch {
+      showToast({ message: "Failed to copy", variant: "error" })
+    }
+  }, [profile, showToast])
+
+  const handleImportClick = useCallback((profileId: string | null) => {
+    importTargetRef.current = profileId
+    importInputRef.current?.click()
+  }, [])
+
+  const handleImportFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]
+      e.target.value = ""
+      if (!file) return
+
+      try {
+        const result = importEQ(await file.text(), { fileName: file.name })
+        const curve = { bands: result.bands, volume: result.preampDb }
+        let profileId = importTargetRef.current
+        if (profileId) {
+          updateProfile(profileId, {
+            ...(result.profileName ? { name: result.profileName } : {}),
+            ...curve,
+          })
+        } else {
+          profileId = createProfile(result.profileName ?? file.name.replace(/\.[^.]+$/, ""), curve)
+        }
+        setActiveProfile(profileId)
+        showToast({
+          message: `Imported ${result.bands.length} bands into ${useEQProfileStore.getState().profiles[profileId]?.name}`,
+          variant: "success",
+        })
+      } catch (error) {
+        showToast({
+          message: error instanceof EQImportError ? error.message : "Failed to import EQ preset",
+          variant: "error",
+        })
+      }
+    },
+    [updateProfile, createProfile, setActiveProfile, showToast]
+  )
+
+  const toggleExpand = useCallback((entry: FormatEntry) => {
+    const id = entry.meta.id
+    if (entry.meta.rendered) {
+      setOpenedRenderedIds((prev) => (prev.at(-1) === id ? prev : [...prev.filter((p) => p !== id), id].slice(-2)))
+    }
     setExpandedFormatId((prev) => (prev === id ? null : id))
   }, [])
 
@@ -242,10 +358,54 @@ export default function ExportPage() {
           </h1>
           <EQProfilePills size="md" />
           {mounted && profile && (
-            <span className={cn("text-[13px] font-medium", pc.label)}>
+            <span
+              className={cn("text-[13px] font-medium", PROFILE_COLOR_CLASSES.label)}
+              style={profileColorStyle(getActiveProfile()?.color)}
+            >
               {profile.name}
             </span>
           )}
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleCopyShareLink}
+              disabled={!hasBands}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-medium bg-white/8 hover:bg-white/15 text-white/60 hover:text-white/90 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              title="Copy a link that imports this profile into Cabin"
+            >
+              <Link2 className="h-3.5 w-3.5" />
+              Share link
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".txt,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-medium bg-white/8 hover:bg-white/15 text-white/60 hover:text-white/90 transition-colors"
+                  title="Import an Equalizer APO, AutoEQ, GraphicEQ, eqMac, PowerAmp or JSON preset"
+                >
+                  <Upload className="h-3.5 w-3.5" />
+                  Import
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleImportClick(null)}>
+                  As a new profile
+                </DropdownMenuItem>
+                {activeProfileId && (
+                  <DropdownMenuItem onClick={() => handleImportClick(activeProfileId)}>
+                    Into {getActiveProfile()?.name}
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
         {/* EQ curve hero */}
@@ -259,6 +419,40 @@ export default function ExportPage() {
           />
         </div>
 
+        {isLayered && (
+          <div
+            className={cn(
+              "glass-panel rounded-xl px-4 py-3 mb-5 flex items-center gap-3 flex-wrap",
+              isExiting ? "animate-page-exit" : "animate-page-enter"
+            )}
+            style={{ animationDelay: isExiting ? "75ms" : "125ms" }}
+          >
+            <p className="flex-1 min-w-[200px] text-[12px] text-white/50 leading-relaxed">
+              Playing under this profile: {layerNames.join(", ")}.
+            </p>
+            <div className="flex items-center gap-1.5">
+              {([
+                [true, "Flatten layers"],
+                [false, "Active profile only"],
+              ] as const).map(([flatten, label]) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setFlattenLayers(flatten)}
+                  className={cn(
+                    "px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors",
+                    flattenLayers === flatten
+                      ? "bg-white/15 text-white/90"
+                      : "bg-white/[0.04] text-white/40 hover:text-white/70"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Format list */}
         {!hasBands ? (
           <div
@@ -274,7 +468,41 @@ export default function ExportPage() {
           </div>
         ) : (
           <div className="space-y-5">
-            {groups.map((group, gi) => {
+            {hasPerChannelBands && (
+              <div
+                className={cn(
+                  "glass-panel rounded-xl px-4 py-3 flex items-center gap-3 flex-wrap",
+                  isExiting ? "animate-page-exit" : "animate-page-enter"
+                )}
+                style={{ animationDelay: isExiting ? "90ms" : "150ms" }}
+              >
+                <p className="flex-1 min-w-[200px] text-[12px] text-amber-200/70 leading-relaxed">
+                  This profile has left/right- or mid/side-only bands. Formats marked &quot;No L/R&quot; can&apos;t store them
+                  {hasMidSide && <>; those marked &quot;No M/S&quot; approximate the mid/side bands as shared ones</>}.
+                </p>
+                <div className="flex items-center gap-1.5">
+                  {([
+                    ["merge", "Merge as average"],
+                    ["separate", "Separate L/R files"],
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setChannelMode(mode)}
+                      className={cn(
+                        "px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors",
+                        channelMode === mode
+                          ? "bg-white/15 text-white/90"
+                          : "bg-white/[0.04] text-white/40 hover:text-white/70"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {FORMAT_GROUPS.map((group, gi) => {
               const PlatformIcon = PLATFORM_ICONS[group.platform]
               return (
                 <div
@@ -293,8 +521,7 @@ export default function ExportPage() {
                   <div className="space-y-1.5">
                     {group.formats.map((entry) => {
                       const isExpanded = expandedFormatId === entry.meta.id
-                      const isCopied = copiedFormatId === entry.meta.id
-                      const result = allResults[entry.meta.id]
+                      const results = allResults[entry.meta.id] ?? []
                       const FormatIcon =
                         FORMAT_ICONS[entry.meta.id] ??
                         PLATFORM_ICONS[entry.meta.platform]
@@ -308,11 +535,11 @@ export default function ExportPage() {
                           <div
                             role="button"
                             tabIndex={0}
-                            onClick={() => toggleExpand(entry.meta.id)}
+                            onClick={() => toggleExpand(entry)}
                             onKeyDown={(e) => {
                               if (e.key === "Enter" || e.key === " ") {
                                 e.preventDefault()
-                                toggleExpand(entry.meta.id)
+                                toggleExpand(entry)
                               }
                             }}
                             className="w-full flex items-center gap-3 px-4 py-3.5 text-left hover:bg-white/[0.04] transition-colors cursor-pointer select-none"
@@ -325,6 +552,16 @@ export default function ExportPage() {
                               <span className="text-[13px] font-medium text-white/80">
                                 {entry.meta.name}
                               </span>
+                              {hasPerChannelBands && !entry.meta.supportsChannels && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-400/10 text-amber-200/70">
+                                  No L/R
+                                </span>
+                              )}
+                              {hasMidSide && entry.meta.supportsChannels && !entry.meta.supportsMidSide && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-400/10 text-amber-200/70">
+                                  No M/S
+                                </span>
+                              )}
                               <p className="text-[11px] text-white/35 mt-0.5">
                                 {entry.meta.description}
                               </p>
@@ -354,25 +591,52 @@ export default function ExportPage() {
                                 {entry.meta.instructions}
                               </p>
 
-                              {result && (
-                                <div className="relative group/code">
-                                  <pre className="text-[11px] leading-relaxed text-white/60 bg-white/[0.03] rounded-lg p-4 pr-12 overflow-x-auto max-h-[260px] overflow-y-auto font-mono whitespace-pre-wrap break-all border border-white/[0.06]">
-                                    {result.content}
-                                  </pre>
-                                  <button
-                                    type="button"
-                                    onClick={(e) => handleCopy(entry, e)}
-                                    className="absolute top-2.5 right-2.5 p-1.5 rounded-md bg-white/8 hover:bg-white/15 text-white/40 hover:text-white/80 opacity-0 group-hover/code:opacity-100 transition-all"
-                                    title="Copy to clipboard"
-                                  >
-                                    {isCopied ? (
-                                      <Check className="h-3.5 w-3.5" />
-                                    ) : (
-                                      <Copy className="h-3.5 w-3.5" />
-                                    )}
-                                  </button>
+                              {results[0]?.data && (
+                                <div className="flex items-center gap-1.5">
+                                  {FIR_SAMPLE_RATES.map((rate) => (
+                                    <button
+                                      key={rate}
+                                      type="button"
+                                      onClick={() => setFirSampleRate(rate)}
+                                      className={cn(
+                                        "px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors",
+                                        firSampleRate === rate
+                                          ? "bg-white/15 text-white/90"
+                                          : "bg-white/[0.04] text-white/40 hover:text-white/70"
+                                      )}
+                                    >
+                                      {rate / 1000} kHz
+                                    </button>
+                                  ))}
                                 </div>
                               )}
+
+                              {results.map((result, index) => (
+                                <div key={result.fileName} className="space-y-1.5">
+                                  {results.length > 1 && (
+                                    <p className="text-[11px] font-medium text-white/40">{result.fileName}</p>
+                                  )}
+                                  <div className="relative group/code">
+                                    <pre className="text-[11px] leading-relaxed text-white/60 bg-white/[0.03] rounded-lg p-4 pr-12 overflow-x-auto max-h-[260px] overflow-y-auto font-mono whitespace-pre-wrap break-all border border-white/[0.06]">
+                                      {result.content}
+                                    </pre>
+                                    {!result.data && (
+                                      <button
+                                        type="button"
+                                        onClick={(e) => handleCopy(entry, index, e)}
+                                        className="absolute top-2.5 right-2.5 p-1.5 rounded-md bg-white/8 hover:bg-white/15 text-white/40 hover:text-white/80 opacity-0 group-hover/code:opacity-100 transition-all"
+                                        title="Copy to clipboard"
+                                      >
+                                        {copiedFormatId === `${entry.meta.id}:${index}` ? (
+                                          <Check className="h-3.5 w-3.5" />
+                                        ) : (
+                                          <Copy className="h-3.5 w-3.5" />
+                                        )}
+                                      </button>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
                             </div>
                           </AccordionPanel>
                         </div>
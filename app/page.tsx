@@ -5,6 +5,7 @@ import { MainView } from "@/components/main-view"
 import { ControlPanel } from "@/components/control-panel"
 import { EQOverlay } from "@/components/eq-overlay"
 import { LibraryPanel } from "@/components/library-panel"
+import { SharedProfilePrompt } from "@/components/shared-profile-prompt"
 import { usePlayerStore, useTrackStore } from "@/lib/stores"
 import type { QualityLevel } from "@/components/unified-particle-scene"
 import type { HighlightTarget } from "@/components/top-overlay"
@@ -63,7 +64,7 @@ export default function Home() {
     try { localStorage.setItem("cabin:quality", JSON.stringify(quality)) } catch { /* ignore */ }
   }, [quality])
 
-  // Auto-select startup track once tracks finish loading:
+  // Auto-select startup track once tracks finish loading (after restoring the saved play queue):
   // 1) last played track saved in localStorage (if still present)
   // 2) first track in library (trackStore default)
   const currentTrackId = usePlayerStore(s => s.currentTrackId)
@@ -75,6 +76,7 @@ export default function Home() {
 
     const unsub = useTrackStore.subscribe((state) => {
       if (!state.isLoading && !usePlayerStore.getState().currentTrackId) {
+        usePlayerStore.getState().restoreQueue((id) => !!state.tracks[id])
         const savedTrackId = getSavedLastPlayedTrackId()
         const startupTrackId =
           savedTrackId && state.tracks[savedTrackId]
@@ -91,6 +93,7 @@ export default function Home() {
     // Also check immediately in case store already loaded
     const state = useTrackStore.getState()
     if (!state.isLoading && state.currentTrackId) {
+      usePlayerStore.getState().restoreQueue((id) => !!state.tracks[id])
       const savedTrackId = getSavedLastPlayedTrackId()
       const startupTrackId =
         savedTrackId && state.tracks[savedTrackId]
@@ -149,6 +152,9 @@ export default function Home() {
         highlightTarget={highlightTarget}
         quality={quality}
       />
+
+      {/* Import prompt for share links (/?eq=…) */}
+      <SharedProfilePrompt />
     </div>
   )
 }
@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import {
+  useABXStore,
+  ABX_BYPASS,
+  ABX_SIGNIFICANCE,
+  ABX_TRIAL_COUNTS,
+  type ABXLevelMatch,
+  type ABXSlot,
+} from "@/lib/stores/abxStore"
+import { cn } from "@/lib/utils"
+
+const SLOTS: ABXSlot[] = ["A", "B", "X"]
+
+const LEVEL_MATCH_OPTIONS: { id: ABXLevelMatch; label: string; title: string }[] = [
+  { id: "rms", label: "Loudness", title: "Match average loudness (pink noise RMS)" },
+  { id: "autoGain", label: "Auto-gain", title: "Use each source's playback auto-gain" },
+]
+
+const pillClass = (active: boolean) =>
+  cn(
+    "px-2 py-1 rounded-md text-[10px] font-medium transition-colors",
+    active
+      ? "dark:bg-white/15 bg-black/10 dark:text-white/90 text-black/80"
+      : "dark:bg-white/[0.04] bg-black/[0.03] dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
+  )
+
+const formatPValue = (p: number) => (p < 0.001 ? "< 0.001" : p.toFixed(3))
+
+// Blind ABX comparison between two profiles (or a profile and EQ off),
+// shown in place of the EQ graph while music plays
+export function ABXPanel() {
+  const profiles = useEQProfileStore((s) => s.profiles)
+  const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
+  const favorites = useEQProfileStore((s) => s.favorites)
+  const { isActive, totalTrials, selected, trials, result, startSession, select, answer, endSession, clearResult } =
+    useABXStore()
+
+  const [firstId, setFirstId] = useState<string>(activeProfileId ?? favorites[0] ?? ABX_BYPASS)
+  const [secondId, setSecondId] = useState<string>(ABX_BYPASS)
+  const [trialCount, setTrialCount] = useState<number>(16)
+  const [levelMatch, setLevelMatch] = useState<ABXLevelMatch>("rms")
+
+  const sourceOptions = [
+    // The pinned favourites, plus the active profile if it isn't one
+    ...[...favorites, ...(activeProfileId && !favorites.includes(activeProfileId) ? [activeProfileId] : [])]
+      .filter((pid) => !!profiles[pid])
+      .map((pid) => ({ id: pid, label: profiles[pid].name })),
+    { id: ABX_BYPASS, label: "EQ off" },
+  ]
+
+  // A/B/X keys switch while a test runs
+  useEffect(() => {
+    if (!isActive) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      const slot = e.key.toUpperCase()
+      if (slot === "A" || slot === "B" || slot === "X") {
+        e.preventDefault()
+        select(slot)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [isActive, select])
+
+  // Return to the active profile if the panel closes mid-test
+  useEffect(() => () => useABXStore.getState().endSession(), [])
+
+  if (isActive) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-4 select-none">
+        <p className="text-[11px] dark:text-white/40 text-black/40">
+          Trial {trials.length + 1} of {totalTrials} — listen to A, B and X, then say which one X is
+        </p>
+        <div className="flex items-center gap-3">
+          {SLOTS.map((slot) => (
+            <button
+              key={slot}
+              type="button"
+              onClick={() => select(slot)}
+              className={cn(
+                "h-14 w-14 rounded-xl text-lg font-semibold transition-colors",
+                selected === slot
+                  ? "text-teal-300 bg-teal-400/30"
+                  : "dark:bg-white/[0.06] bg-black/[0.05] dark:text-white/60 text-black/60 dark:hover:bg-white/10 hover:bg-black/10"
+              )}
+            >
+              {slot}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {(["A", "B"] as const).map((choice) => (
+            <button
+              key={choice}
+              type="button"
+              onClick={() => answer(choice)}
+              className="px-3 py-1.5 rounded-md text-[12px] font-medium dark:bg-white/10 bg-black/10 dark:text-white/80 text-black/70 dark:hover:bg-white/15 hover:bg-black/15 transition-colors"
+            >
+              X is {choice}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={endSession}
+            className="px-2 py-1.5 text-[11px] dark:text-white/30 text-black/30 dark:hover:text-white/60 hover:text-black/60 transition-colors"
+          >
+            End test
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (result) {
+    const significant = result.pValue <= ABX_SIGNIFICANCE
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-3 select-none text-center">
+        <p className="text-[15px] font-medium dark:text-white/85 text-black/75">
+          {result.correct} / {result.total} correct · p = {formatPValue(result.pValue)}
+        </p>
+        <p className={cn("text-[12px]", significant ? "text-teal-400" : "dark:text-white/50 text-black/50")}>
+          {significant
+            ? "You can reliably hear the difference."
+            : "Not enough evidence of an audible difference."}
+        </p>
+        <p className="text-[11px] dark:text-white/40 text-black/40">
+          A was {result.a}, B was {result.b}
+        </p>
+        <div className="flex items-center gap-1">
+          {result.trials.map((trial, i) => (
+            <span
+              key={i}
+              title={`Trial ${i + 1}: X was ${trial.x}, answered ${trial.answer}`}
+              className={cn("h-2 w-2 rounded-full", trial.correct ? "bg-teal-400" : "bg-rose-400/70")}
+            />
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={clearResult}
+          className="px-3 py-1.5 rounded-md text-[12px] font-medium dark:bg-white/10 bg-black/10 dark:text-white/80 text-black/70 dark:hover:bg-white/15 hover:bg-black/15 transition-colors"
+        >
+          New test
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-3 select-none">
+      <p className="text-[11px] dark:text-white/40 text-black/40">
+        Blind test: A and B are assigned at random and X is one of them. Start music playback first.
+      </p>
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1">
+          {sourceOptions.map((option) => (
+            <button key={option.id} type="button" onClick={() => setFirstId(option.id)} className={pillClass(firstId === option.id)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] dark:text-white/30 text-black/30">vs</span>
+        <div className="flex items-center gap-1">
+          {sourceOptions.map((option) => (
+            <button key={option.id} type="button" onClick={() => setSecondId(option.id)} className={pillClass(secondId === option.id)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] dark:text-white/30 text-black/30 mr-1">Trials</span>
+          {ABX_TRIAL_COUNTS.map((count) => (
+            <button key={count} type="button" onClick={() => setTrialCount(count)} className={pillClass(trialCount === count)}>
+              {count}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] dark:text-white/30 text-black/30 mr-1">Level match</span>
+          {LEVEL_MATCH_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              title={option.title}
+              onClick={() => setLevelMatch(option.id)}
+              className={pillClass(levelMatch === option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <button
+        type="button"
+        disabled={firstId === secondId}
+        onClick={() => startSession(firstId, secondId, { totalTrials: trialCount, levelMatch })}
+        className="px-3 py-1.5 rounded-md text-[12px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors disabled:opacity-40"
+      >
+        Start ABX test
+      </button>
+    </div>
+  )
+}
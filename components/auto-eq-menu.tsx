@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { useFrequencyResponseStore } from "@/lib/stores/frequencyResponseStore"
+import { getAutoEQFitter, DEFAULT_AUTOEQ_OPTIONS, type AutoEQOptions } from "@/lib/utils/autoEQ"
+import { useToast } from "@/components/common/ToastManager"
+import { Switch } from "@/components/ui/switch"
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+
+interface OptionControl {
+  key: Exclude<keyof AutoEQOptions, "shelves">
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+const CONTROLS: OptionControl[] = [
+  { key: "bandCount", label: "Bands", min: 1, max: 20, step: 1, format: (v) => `${v}` },
+  { key: "maxBoostDb", label: "Max boost", min: 0, max: 12, step: 0.5, format: (v) => `+${v.toFixed(1)} dB` },
+  { key: "maxCutDb", label: "Max cut", min: 0, max: 24, step: 0.5, format: (v) => `−${v.toFixed(1)} dB` },
+  { key: "minQ", label: "Min Q", min: 0.1, max: 2, step: 0.05, format: (v) => v.toFixed(2) },
+  { key: "maxQ", label: "Max Q", min: 0.5, max: 12, step: 0.1, format: (v) => v.toFixed(1) },
+]
+
+// Fit bands that bring the selected measurement onto the selected target,
+// into a new profile
+export function AutoEQMenu() {
+  const { showToast } = useToast()
+  const catalog = useFrequencyResponseStore((s) => s.catalog)
+  const curves = useFrequencyResponseStore((s) => s.curves)
+  const measurementId = useFrequencyResponseStore((s) => s.measurementId)
+  const targetId = useFrequencyResponseStore((s) => s.targetId)
+  const createProfile = useEQProfileStore((s) => s.createProfile)
+  const setActiveProfile = useEQProfileStore((s) => s.setActiveProfile)
+
+  const [options, setOptions] = useState<AutoEQOptions>(DEFAULT_AUTOEQ_OPTIONS)
+  const [isFitting, setIsFitting] = useState(false)
+
+  const measurement = measurementId ? curves[measurementId] : undefined
+  const target = targetId ? curves[targetId] : undefined
+  const canFit = !!measurement && !!target
+
+  const handleFit = async () => {
+    if (!measurement || !target) return
+    setIsFitting(true)
+    try {
+      const result = await getAutoEQFitter().fit(measurement, target, options)
+      const nameOf = (id: string | null) => catalog.find((entry) => entry.id === id)?.name ?? "Curve"
+      const profileId = createProfile(`${nameOf(measurementId)} → ${nameOf(targetId)}`, {
+        bands: result.bands,
+        volume: 0,
+      })
+      setActiveProfile(profileId)
+      showToast({
+        message: `Fitted ${result.bands.length} bands: ${result.initialErrorDb.toFixed(1)} → ${result.rmsErrorDb.toFixed(1)} dB RMS`,
+        variant: "success",
+      })
+    } catch (error) {
+      console.error("AutoEQ fit failed:", error)
+      showToast({ message: "Failed to fit the EQ", variant: "error" })
+    } finally {
+      setIsFitting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={!canFit}
+          className={cn(
+            "text-[10px] font-medium px-2 py-1 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none",
+            "dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04]"
+          )}
+          title={canFit ? "Fit bands to the target" : "Pick a measurement and a target to fit an EQ"}
+        >
+          AutoEQ
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-[11px] font-medium dark:text-white/50 text-black/50">
+          Fit the measurement to the target
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {CONTROLS.map((control) => (
+          <div key={control.key} className="px-2 py-1.5">
+            <div className="flex items-center justify-between gap-3 text-[11px] mb-1.5">
+              <span className="dark:text-white/60 text-black/60">{control.label}</span>
+              <span className="tabular-nums dark:text-white/40 text-black/40">{control.format(options[control.key])}</span>
+            </div>
+            <Slider
+              value={[options[control.key]]}
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              onValueChange={([next]) => setOptions((prev) => ({ ...prev, [control.key]: next }))}
+              aria-label={control.label}
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-3 px-2 py-1.5 text-[11px]">
+          <span className="dark:text-white/60 text-black/60">Low and high shelf</span>
+          <Switch
+            checked={options.shelves}
+            onCheckedChange={(shelves) => setOptions((prev) => ({ ...prev, shelves }))}
+            aria-label="Allow shelf bands"
+          />
+        </div>
+        <div className="px-2 pt-1 pb-1.5">
+          <button
+            type="button"
+            onClick={handleFit}
+            disabled={!canFit || isFitting}
+            className="w-full py-1.5 rounded-md text-[12px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors disabled:opacity-40"
+          >
+            {isFitting ? "Fitting…" : "Fit to a new profile"}
+          </button>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
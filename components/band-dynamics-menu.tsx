@@ -0,0 +1,106 @@
+"use client"
+
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { EQBandDynamics } from "@/lib/models/EQBand"
+import { DEFAULT_BAND_DYNAMICS } from "@/lib/audio/bandDynamics"
+import { usesGain } from "@/lib/utils/filterStages"
+import { Switch } from "@/components/ui/switch"
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+
+interface DynamicsControl {
+  key: keyof EQBandDynamics
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+const CONTROLS: DynamicsControl[] = [
+  { key: "threshold", label: "Threshold", min: -60, max: 0, step: 0.5, format: (v) => `${v.toFixed(1)} dB` },
+  { key: "ratio", label: "Ratio", min: 1, max: 10, step: 0.1, format: (v) => `${v.toFixed(1)}:1` },
+  { key: "range", label: "Range", min: 0, max: 24, step: 0.5, format: (v) => `${v.toFixed(1)} dB` },
+  { key: "attack", label: "Attack", min: 0.1, max: 100, step: 0.1, format: (v) => `${v.toFixed(1)} ms` },
+  { key: "release", label: "Release", min: 10, max: 1000, step: 5, format: (v) => `${Math.round(v)} ms` },
+]
+
+interface BandDynamicsMenuProps {
+  bandId: string | null
+}
+
+// Dynamic section of the selected band: it cuts by up to `range` dB while the
+// band's own frequency region is over the threshold
+export function BandDynamicsMenu({ bandId }: BandDynamicsMenuProps) {
+  const profile = useEQProfileStore((s) => (s.activeProfileId ? s.profiles[s.activeProfileId] : null))
+  const updateProfile = useEQProfileStore((s) => s.updateProfile)
+
+  const band = profile?.bands.find((b) => b.id === bandId) ?? null
+  const canBeDynamic = !!band && usesGain(band.type)
+  const dynamics = canBeDynamic ? band.dynamics : undefined
+
+  const setDynamics = (next: EQBandDynamics | undefined) => {
+    if (!profile || !band) return
+    updateProfile(profile.id, {
+      bands: profile.bands.map((b) => (b.id === band.id ? { ...b, dynamics: next } : b)),
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={!canBeDynamic}
+          className={cn(
+            "text-[10px] font-medium px-2 py-1 rounded-md transition-colors disabled:opacity-40 disabled:pointer-events-none",
+            dynamics
+              ? "dark:text-white/70 text-black/70 dark:bg-white/[0.08] bg-black/[0.06]"
+              : "dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04]"
+          )}
+          title={canBeDynamic ? "Dynamic EQ for the selected band" : "Select a bell or shelf band to make it dynamic"}
+        >
+          Dynamic
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="flex items-center justify-between gap-3 text-[11px] font-medium dark:text-white/50 text-black/50">
+          Dynamic band
+          <Switch
+            checked={!!dynamics}
+            onCheckedChange={(checked) => setDynamics(checked ? { ...DEFAULT_BAND_DYNAMICS } : undefined)}
+            aria-label="Make the selected band dynamic"
+          />
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {CONTROLS.map((control) => {
+          const value = dynamics?.[control.key] ?? DEFAULT_BAND_DYNAMICS[control.key]
+          return (
+            <div key={control.key} className="px-2 py-1.5">
+              <div className="flex items-center justify-between gap-3 text-[11px] mb-1.5">
+                <span className="dark:text-white/60 text-black/60">{control.label}</span>
+                <span className="tabular-nums dark:text-white/40 text-black/40">{control.format(value)}</span>
+              </div>
+              <Slider
+                value={[value]}
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                disabled={!dynamics}
+                onValueChange={([next]) => dynamics && setDynamics({ ...dynamics, [control.key]: next })}
+                aria-label={control.label}
+              />
+            </div>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,11 +1,12 @@
 "use client"
 
 import { useState, useEffect, useRef, useMemo, useCallback } from "react"
-import { Pause, Play, SkipBack, SkipForward, Volume2, VolumeX, Volume1, Loader2, Power } from "lucide-react"
+import { Pause, Play, SkipBack, SkipForward, Volume2, VolumeX, Volume1, Loader2, Power, Shuffle, Repeat, Repeat1 } from "lucide-react"
 import { Slider } from "@/components/ui/slider"
 import { useToast } from "@/components/common/ToastManager"
 import { usePlayerStore, useTrackStore, useArtistStore, useAlbumStore } from "@/lib/stores"
-import { useEQProfileStore, PROFILE_COLORS } from "@/lib/stores/eqProfileStore"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { PROFILE_COLOR_CLASSES as pc, profileColorStyle } from "@/lib/utils/profileColors"
 import { useBassReactive } from "@/lib/hooks/useBassReactive"
 import { getAudioRouting } from "@/lib/audio/audioRouting"
 import { cn } from "@/lib/utils"
@@ -161,15 +162,19 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
     isMuted,
     loadingState,
     error,
-    setCurrentTrack,
+    shuffle,
+    repeatMode,
     setIsPlaying,
     setVolume,
     setIsMuted,
-    seekTo
+    seekTo,
+    nextTrack,
+    previousTrack,
+    setShuffle,
+    cycleRepeatMode
   } = usePlayerStore()
 
   const getTrackById = useTrackStore(state => state.getTrackById)
-  const getTracks = useTrackStore(state => state.getTracks)
   const currentTrack = currentTrackId ? getTrackById(currentTrackId) : null
 
   const getArtistById = useArtistStore(state => state.getArtistById)
@@ -179,10 +184,6 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
   const profiles = useEQProfileStore((s) => s.profiles)
   const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
 
-  const pc = activeProfileId && activeProfileId in PROFILE_COLORS
-    ? PROFILE_COLORS[activeProfileId as keyof typeof PROFILE_COLORS]
-    : PROFILE_COLORS['profile-1']
-
   const activeBands = useMemo(() => {
     if (!activeProfileId) return []
     return profiles[activeProfileId]?.bands ?? []
@@ -411,18 +412,16 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
   const handlePause = useCallback(() => setIsPlaying(false), [setIsPlaying])
 
   const handleSkipForward = useCallback(() => {
-    const allTracks = getTracks()
-    if (!allTracks.length || !currentTrackId) return
-    const idx = allTracks.findIndex(t => t.id === currentTrackId)
-    setCurrentTrack(allTracks[(idx + 1) % allTracks.length].id)
-  }, [getTracks, currentTrackId, setCurrentTrack])
+    if (!currentTrackId) return
+    nextTrack()
+  }, [currentTrackId, nextTrack])
 
   const handleSkipBack = useCallback(() => {
-    const allTracks = getTracks()
-    if (!allTracks.length || !currentTrackId) return
-    const idx = allTracks.findIndex(t => t.id === currentTrackId)
-    setCurrentTrack(allTracks[(idx - 1 + allTracks.length) % allTracks.length].id)
-  }, [getTracks, currentTrackId, setCurrentTrack])
+    if (!currentTrackId) return
+    previousTrack()
+  }, [currentTrackId, previousTrack])
+
+  const toggleShuffle = useCallback(() => setShuffle(!shuffle), [setShuffle, shuffle])
 
   const toggleMute = useCallback(() => setIsMuted(!isMuted), [setIsMuted, isMuted])
 
@@ -512,6 +511,18 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
 
             {/* Transport controls */}
             <div className="flex items-center gap-0.5 flex-shrink-0">
+              <button
+                className={cn(
+                  "p-1.5 rounded-full transition-all",
+                  shuffle
+                    ? "dark:text-cyan-300 text-cyan-600"
+                    : "dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/60"
+                )}
+                onClick={toggleShuffle}
+                title={shuffle ? "Shuffle on" : "Shuffle off"}
+              >
+                <Shuffle className="h-3.5 w-3.5" />
+              </button>
               <button
                 className="p-1.5 rounded-full dark:text-white/50 text-black/40 dark:hover:text-white/90 hover:text-black/80 dark:hover:bg-white/[0.06] hover:bg-black/[0.06] transition-all disabled:opacity-30"
                 onClick={handleSkipBack}
@@ -545,6 +556,18 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
               >
                 <SkipForward className="h-4 w-4" />
               </button>
+              <button
+                className={cn(
+                  "p-1.5 rounded-full transition-all",
+                  repeatMode !== 'off'
+                    ? "dark:text-cyan-300 text-cyan-600"
+                    : "dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/60"
+                )}
+                onClick={cycleRepeatMode}
+                title={repeatMode === 'one' ? "Repeat one" : repeatMode === 'all' ? "Repeat all" : "Repeat off"}
+              >
+                {repeatMode === 'one' ? <Repeat1 className="h-3.5 w-3.5" /> : <Repeat className="h-3.5 w-3.5" />}
+              </button>
             </div>
           </div>
 
@@ -571,7 +594,10 @@ export function ControlPanel({ showEQOverlay, onToggleEQOverlay, onToggleLibrary
           {/* Bottom toolbar: EQ / volume / library */}
           <div className="px-3 pb-2.5 pt-0.5 flex items-center justify-between relative z-10">
             {/* EQ inline strip: profiles + power + separator + curve preview */}
-            <div className="flex items-center gap-1.5">
+            <div
+              className="flex items-center gap-1.5"
+              style={profileColorStyle(activeProfileId ? profiles[activeProfileId]?.color : undefined)}
+            >
               <EQProfilePills size="sm" />
               <button
                 type="button"
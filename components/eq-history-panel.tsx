@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { Redo2, Trash2, Undo2 } from "lucide-react"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { useEQSnapshotStore } from "@/lib/stores/eqSnapshotStore"
+import { ExportCurvePreview } from "@/components/export-curve-preview"
+import { cn } from "@/lib/utils"
+
+const buttonClass =
+  "flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-medium dark:bg-white/[0.06] bg-black/[0.05] dark:text-white/60 text-black/60 dark:hover:bg-white/10 hover:bg-black/10 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+
+// Undo/redo for the active profile and its named snapshots. Pick a snapshot
+// to preview its curve, then restore it (which can itself be undone).
+export function EQHistoryPanel() {
+  const profile = useEQProfileStore((s) => (s.activeProfileId ? s.profiles[s.activeProfileId] : null))
+  const history = useEQProfileStore((s) => (s.activeProfileId ? s.history[s.activeProfileId] : undefined))
+  const undo = useEQProfileStore((s) => s.undo)
+  const redo = useEQProfileStore((s) => s.redo)
+  // Subscribed so the list follows saves and deletes
+  useEQSnapshotStore((s) => s.snapshots)
+  const getSnapshotsForProfile = useEQSnapshotStore((s) => s.getSnapshotsForProfile)
+  const saveSnapshot = useEQSnapshotStore((s) => s.saveSnapshot)
+  const deleteSnapshot = useEQSnapshotStore((s) => s.deleteSnapshot)
+  const restoreSnapshot = useEQSnapshotStore((s) => s.restoreSnapshot)
+
+  const [name, setName] = useState("")
+  const [previewId, setPreviewId] = useState<string | null>(null)
+
+  if (!profile) return null
+
+  const snapshots = getSnapshotsForProfile(profile.id)
+  const preview = snapshots.find((snapshot) => snapshot.id === previewId) ?? null
+  const undoCount = history?.past.length ?? 0
+  const redoCount = history?.future.length ?? 0
+
+  const handleSave = () => {
+    const id = saveSnapshot(profile.id, name)
+    if (id) setPreviewId(id)
+    setName("")
+  }
+
+  return (
+    <div className="h-full flex gap-3 min-h-0 select-none">
+      <div className="w-64 shrink-0 flex flex-col gap-2 min-h-0">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => undo(profile.id)}
+            disabled={undoCount === 0}
+            className={buttonClass}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-3 w-3" />
+            Undo{undoCount > 0 && ` (${undoCount})`}
+          </button>
+          <button
+            type="button"
+            onClick={() => redo(profile.id)}
+            disabled={redoCount === 0}
+            className={buttonClass}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-3 w-3" />
+            Redo{redoCount > 0 && ` (${redoCount})`}
+          </button>
+        </div>
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSave()
+          }}
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Snapshot name"
+            className="flex-1 min-w-0 h-6 px-2 rounded-md border dark:border-white/10 border-black/10 bg-transparent text-[11px] dark:text-white/80 text-black/70 placeholder:dark:text-white/25 placeholder:text-black/25 focus:outline-none focus:dark:border-white/25 focus:border-black/25"
+          />
+          <button type="submit" className={buttonClass}>
+            Save
+          </button>
+        </form>
+        <div className="flex-1 min-h-0 overflow-y-auto -mx-1 px-1">
+          {snapshots.length === 0 ? (
+            <p className="text-[11px] dark:text-white/30 text-black/30 py-1">
+              No snapshots of {profile.name} yet
+            </p>
+          ) : (
+            snapshots.map((snapshot) => (
+              <div
+                key={snapshot.id}
+                onClick={() => setPreviewId(snapshot.id === previewId ? null : snapshot.id)}
+                className={cn(
+                  "group flex items-center justify-between gap-2 px-2 py-1 rounded-md cursor-pointer transition-colors",
+                  snapshot.id === previewId
+                    ? "dark:bg-white/[0.08] bg-black/[0.06]"
+                    : "dark:hover:bg-white/[0.04] hover:bg-black/[0.03]"
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="text-[11px] truncate dark:text-white/75 text-black/70">{snapshot.name}</p>
+                  <p className="text-[10px] dark:text-white/30 text-black/30">
+                    {formatDate(snapshot.dateCreated)} · {snapshot.bands.length} bands
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (snapshot.id === previewId) setPreviewId(null)
+                    deleteSnapshot(snapshot.id)
+                  }}
+                  className="p-0.5 rounded opacity-0 group-hover:opacity-100 dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/70 transition-opacity"
+                  title="Delete snapshot"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0 flex flex-col gap-1.5 min-h-0">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[11px] truncate dark:text-white/50 text-black/50">
+            {preview ? `Snapshot: ${preview.name}` : `Current: ${profile.name}`}
+          </p>
+          {preview && (
+            <button
+              type="button"
+              onClick={() => {
+                restoreSnapshot(preview.id)
+                setPreviewId(null)
+              }}
+              className="px-2 py-1 rounded-md text-[10px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors"
+            >
+              Restore
+            </button>
+          )}
+        </div>
+        <ExportCurvePreview
+          bands={preview ? preview.bands : profile.bands}
+          className="flex-1 min-h-0 w-full rounded-lg overflow-hidden"
+        />
+      </div>
+    </div>
+  )
+}
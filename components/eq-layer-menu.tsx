@@ -0,0 +1,100 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { useEQProfileStore, listProfiles } from "@/lib/stores/eqProfileStore"
+import { PROFILE_COLOR_CLASSES, profileColorStyle } from "@/lib/utils/profileColors"
+import { Switch } from "@/components/ui/switch"
+import { cn } from "@/lib/utils"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+
+// Stack other profiles under the active one, e.g. a headphone correction
+// under a taste curve. Each layer has its own on/off switch.
+export function EQLayerMenu() {
+  const profiles = useEQProfileStore((s) => s.profiles)
+  const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
+  const layers = useEQProfileStore((s) => s.layers)
+  const addLayer = useEQProfileStore((s) => s.addLayer)
+  const removeLayer = useEQProfileStore((s) => s.removeLayer)
+  const setLayerEnabled = useEQProfileStore((s) => s.setLayerEnabled)
+
+  const playingCount = layers.filter((layer) => layer.enabled && layer.profileId !== activeProfileId).length
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "text-[10px] font-medium px-2 py-1 rounded-md transition-colors",
+            playingCount > 0
+              ? "dark:text-white/70 text-black/70 dark:bg-white/[0.08] bg-black/[0.06]"
+              : "dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04]"
+          )}
+          title="Play other profiles underneath the active one"
+        >
+          {playingCount > 0 ? `Layers (${playingCount})` : "Layers"}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60 max-h-80 overflow-y-auto">
+        <DropdownMenuLabel className="text-[11px] font-medium dark:text-white/50 text-black/50">
+          Layers under the active profile
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {listProfiles(profiles).map((profile) => {
+          const pid = profile.id
+          const name = profile.name
+          const layer = layers.find((l) => l.profileId === pid)
+
+          if (pid === activeProfileId) {
+            return (
+              <div key={pid} style={profileColorStyle(profile.color)} className="flex items-center justify-between gap-3 px-2 py-1.5 text-[12px]">
+                <span className={cn("truncate", PROFILE_COLOR_CLASSES.label)}>{name}</span>
+                <span className="text-[10px] dark:text-white/35 text-black/35">Active · top</span>
+              </div>
+            )
+          }
+
+          return (
+            <div key={pid} style={profileColorStyle(profile.color)} className="flex items-center justify-between gap-3 px-2 py-1.5 text-[12px]">
+              <span className={cn("truncate", layer ? PROFILE_COLOR_CLASSES.label : "dark:text-white/40 text-black/40")}>
+                {name}
+              </span>
+              {layer ? (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={layer.enabled}
+                    onCheckedChange={(checked) => setLayerEnabled(pid, checked)}
+                    aria-label={`Play ${name} as a layer`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeLayer(pid)}
+                    className="p-0.5 rounded dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/70 transition-colors"
+                    title="Remove layer"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => addLayer(pid)}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 dark:hover:bg-white/[0.06] hover:bg-black/[0.05] transition-colors"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -1,13 +1,56 @@
 "use client"
 
-import { useState } from "react"
-import { X, Power } from "lucide-react"
+import { useEffect, useState } from "react"
+import { X, Power, ChevronDown } from "lucide-react"
 import Link from "next/link"
 import { FrequencyEQ } from "@/components/parametric-eq"
 import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
 import { EQProfilePills } from "@/components/eq-profile-pills"
+import { ABXPanel } from "@/components/abx-panel"
+import { EQHistoryPanel } from "@/components/eq-history-panel"
+import { EQLayerMenu } from "@/components/eq-layer-menu"
+import { EQReferenceMenu } from "@/components/eq-reference-menu"
+import { AutoEQMenu } from "@/components/auto-eq-menu"
+import { BandDynamicsMenu } from "@/components/band-dynamics-menu"
 import { cn } from "@/lib/utils"
 import type { EQBandChannel } from "@/lib/models/EQBand"
+import { DEFAULT_FILTER_SLOPE, FILTER_SLOPES, hasSlope } from "@/lib/utils/filterStages"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+
+const BAND_TYPE_OPTIONS: { type: BiquadFilterType; label: string }[] = [
+  { type: "peaking", label: "Bell" },
+  { type: "lowshelf", label: "Low shelf" },
+  { type: "highshelf", label: "High shelf" },
+  { type: "lowpass", label: "Low-pass" },
+  { type: "highpass", label: "High-pass" },
+  { type: "notch", label: "Notch" },
+  { type: "bandpass", label: "Band-pass" },
+  { type: "allpass", label: "All-pass" },
+]
+
+const CHANNEL_OPTIONS: { id: EQBandChannel; label: string; title: string; activeClass: string }[] = [
+  { id: "left", label: "L", title: "the left channel", activeClass: "dark:bg-blue-400/20 bg-blue-500/20 dark:text-blue-200 text-blue-700" },
+  { id: "both", label: "L+R", title: "both channels", activeClass: "dark:bg-white/10 bg-black/10 dark:text-white/80 text-black/70" },
+  { id: "right", label: "R", title: "the right channel", activeClass: "dark:bg-rose-400/20 bg-rose-500/20 dark:text-rose-200 text-rose-700" },
+  { id: "mid", label: "M", title: "the mid (centre) signal", activeClass: "dark:bg-amber-400/20 bg-amber-500/20 dark:text-amber-200 text-amber-700" },
+  { id: "side", label: "S", title: "the side (stereo width) signal", activeClass: "dark:bg-violet-400/20 bg-violet-500/20 dark:text-violet-200 text-violet-700" },
+]
+
+// What fills the overlay below the toolbar
+type EQOverlayView = "eq" | "history" | "abx"
+
+const toolbarButtonClass = (active: boolean) =>
+  cn(
+    "text-[10px] font-medium px-2 py-1 rounded-md transition-colors",
+    active
+      ? "dark:text-white/70 text-black/70 dark:bg-white/[0.08] bg-black/[0.06]"
+      : "dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04]"
+  )
 
 interface EQOverlayProps {
   isOpen: boolean
@@ -18,12 +61,34 @@ interface EQOverlayProps {
 export function EQOverlay({ isOpen, onClose, onActiveBandChange }: EQOverlayProps) {
   const [instruction, setInstruction] = useState("Click + drag on the center line to add a band")
   const [activeChannel, setActiveChannel] = useState<EQBandChannel>("both")
+  const [activeBandType, setActiveBandType] = useState<BiquadFilterType>("peaking")
+  const [activeSlope, setActiveSlope] = useState<number>(DEFAULT_FILTER_SLOPE)
+  const [view, setView] = useState<EQOverlayView>("eq")
+  const [selectedBandId, setSelectedBandId] = useState<string | null>(null)
   const getActiveProfile = useEQProfileStore((s) => s.getActiveProfile)
   const isEQEnabled = useEQProfileStore((s) => s.isEQEnabled)
   const setEQEnabled = useEQProfileStore((s) => s.setEQEnabled)
   const autoGainDb = useEQProfileStore((s) => s.autoGainDb)
   const isAutoGainEnabled = useEQProfileStore((s) => s.isAutoGainEnabled)
   const setAutoGainEnabled = useEQProfileStore((s) => s.setAutoGainEnabled)
+  const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
+  const undo = useEQProfileStore((s) => s.undo)
+  const redo = useEQProfileStore((s) => s.redo)
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo edits to the active profile
+  useEffect(() => {
+    if (!isOpen || !activeProfileId) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") return
+      e.preventDefault()
+      if (e.shiftKey) redo(activeProfileId)
+      else undo(activeProfileId)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [isOpen, activeProfileId, undo, redo])
 
   return (
     <div
@@ -56,19 +121,55 @@ export function EQOverlay({ isOpen, onClose, onActiveBandChange }: EQOverlayProp
             </div>
           </div>
           <div className="flex items-center gap-3 shrink-0 ml-3">
-            {/* L / Both / R channel selector for new bands */}
+            {/* Filter type (and slope) for new bands */}
+            <div className="flex items-center gap-1.5" onPointerDown={(e) => e.stopPropagation()}>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 px-2 py-1 rounded-md border dark:border-white/10 border-black/10 text-[10px] font-medium tracking-wide dark:text-white/70 text-black/60 dark:hover:text-white/90 hover:text-black/80 transition-colors"
+                    title="Filter type for new bands"
+                  >
+                    {BAND_TYPE_OPTIONS.find((o) => o.type === activeBandType)?.label}
+                    <ChevronDown className="h-3 w-3" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="z-[70]">
+                  {BAND_TYPE_OPTIONS.map((option) => (
+                    <DropdownMenuItem key={option.type} onClick={() => setActiveBandType(option.type)}>
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {hasSlope(activeBandType) && (
+                <div className="flex items-center rounded-md border dark:border-white/10 border-black/10 overflow-hidden">
+                  {FILTER_SLOPES.map((slope) => (
+                    <button
+                      key={slope}
+                      type="button"
+                      onClick={() => setActiveSlope(slope)}
+                      className={cn(
+                        "px-1.5 py-1 text-[10px] font-medium tabular-nums transition-colors",
+                        activeSlope === slope
+                          ? "dark:bg-white/10 bg-black/10 dark:text-white/80 text-black/70"
+                          : "dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
+                      )}
+                      title={`${slope} dB/octave`}
+                    >
+                      {slope}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {/* L / Both / R / Mid / Side channel selector for new bands */}
             <div
               className="flex items-center rounded-md border dark:border-white/10 border-black/10 overflow-hidden"
               onPointerDown={(e) => e.stopPropagation()}
             >
-              {(["left", "both", "right"] as const).map((ch) => {
-                const label = ch === "left" ? "L" : ch === "right" ? "R" : "L+R"
+              {CHANNEL_OPTIONS.map(({ id: ch, label, title, activeClass }) => {
                 const active = activeChannel === ch
-                const activeClass = ch === "left"
-                  ? "dark:bg-blue-400/20 bg-blue-500/20 dark:text-blue-200 text-blue-700"
-                  : ch === "right"
-                  ? "dark:bg-rose-400/20 bg-rose-500/20 dark:text-rose-200 text-rose-700"
-                  : "dark:bg-white/10 bg-black/10 dark:text-white/80 text-black/70"
                 return (
                   <button
                     key={ch}
@@ -80,7 +181,7 @@ export function EQOverlay({ isOpen, onClose, onActiveBandChange }: EQOverlayProp
                         ? activeClass
                         : "dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
                     )}
-                    title={`Add new bands to ${ch === "both" ? "both channels" : ch + " channel"}`}
+                    title={`Add new bands to ${title}`}
                   >
                     {label}
                   </button>
@@ -107,7 +208,26 @@ export function EQOverlay({ isOpen, onClose, onActiveBandChange }: EQOverlayProp
             </button>
           </div>
         </div>
-        <div className="flex justify-end mb-1.5">
+        <div className="flex justify-end gap-1 mb-1.5">
+          <BandDynamicsMenu bandId={selectedBandId} />
+          <EQLayerMenu />
+          <EQReferenceMenu />
+          <AutoEQMenu />
+          <button
+            type="button"
+            onClick={() => setView(view === "history" ? "eq" : "history")}
+            className={toolbarButtonClass(view === "history")}
+            title="Undo history and snapshots"
+          >
+            {view === "history" ? "Back to EQ" : "History"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setView(view === "abx" ? "eq" : "abx")}
+            className={toolbarButtonClass(view === "abx")}
+          >
+            {view === "abx" ? "Back to EQ" : "ABX test"}
+          </button>
           <Link
             href="/export"
             className="text-[10px] font-medium dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04] px-2 py-1 rounded-md transition-colors"
@@ -116,14 +236,24 @@ export function EQOverlay({ isOpen, onClose, onActiveBandChange }: EQOverlayProp
           </Link>
         </div>
         <div className="min-h-0 flex-1">
-          <FrequencyEQ
-            profileId={getActiveProfile()?.id}
-            disabled={false}
-            activeChannel={activeChannel}
-            onInstructionChange={setInstruction}
-            onRequestEnable={() => setEQEnabled(true)}
-            onActiveBandChange={onActiveBandChange}
-          />
+          {view === "abx" ? (
+            <ABXPanel />
+          ) : view === "history" ? (
+            <EQHistoryPanel />
+          ) : (
+            <FrequencyEQ
+              profileId={getActiveProfile()?.id}
+              disabled={false}
+              activeChannel={activeChannel}
+              activeBandType={activeBandType}
+              activeSlope={activeSlope}
+              onInstructionChange={setInstruction}
+              onRequestEnable={() => setEQEnabled(true)}
+              onActiveBandChange={onActiveBandChange}
+              onSelectedBandChange={setSelectedBandId}
+              showReferenceCurves
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState } from "react"
+import { Copy, Pencil, Plus, Search, Star, Trash2 } from "lucide-react"
+import { useEQProfileStore, listProfiles, FAVORITE_SLOTS } from "@/lib/stores/eqProfileStore"
+import { PROFILE_COLOR_CLASSES, profileColorStyle } from "@/lib/utils/profileColors"
+import { cn } from "@/lib/utils"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog"
+
+const iconButtonClass =
+  "p-1 rounded dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/70 dark:hover:bg-white/[0.06] hover:bg-black/[0.05] transition-colors disabled:opacity-30 disabled:pointer-events-none"
+
+interface EQProfileLibraryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Every saved profile: search, switch, pin to the pills, rename, duplicate
+// and delete
+export function EQProfileLibrary({ open, onOpenChange }: EQProfileLibraryProps) {
+  const profiles = useEQProfileStore((s) => s.profiles)
+  const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
+  const favorites = useEQProfileStore((s) => s.favorites)
+  const setActiveProfile = useEQProfileStore((s) => s.setActiveProfile)
+  const createProfile = useEQProfileStore((s) => s.createProfile)
+  const duplicateProfile = useEQProfileStore((s) => s.duplicateProfile)
+  const renameProfile = useEQProfileStore((s) => s.renameProfile)
+  const deleteProfile = useEQProfileStore((s) => s.deleteProfile)
+  const pinFavorite = useEQProfileStore((s) => s.pinFavorite)
+  const unpinFavorite = useEQProfileStore((s) => s.unpinFavorite)
+
+  const [query, setQuery] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+
+  const all = listProfiles(profiles)
+  const needle = query.trim().toLowerCase()
+  const shown = needle ? all.filter((p) => p.name.toLowerCase().includes(needle)) : all
+  const favoritesFull = favorites.length >= FAVORITE_SLOTS
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id)
+    setEditingName(name)
+  }
+
+  const commitRename = () => {
+    if (editingId) renameProfile(editingId, editingName)
+    setEditingId(null)
+  }
+
+  const handleCreate = () => {
+    const id = createProfile(query)
+    setActiveProfile(id)
+    setQuery("")
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setEditingId(null)
+          setPendingDeleteId(null)
+        }
+        onOpenChange(next)
+      }}
+    >
+      {/* Keep clicks from reaching the pills' parents through the portal */}
+      <DialogContent
+        className="max-w-md z-[70]"
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>EQ profiles</DialogTitle>
+          <DialogDescription>
+            Star up to {FAVORITE_SLOTS} profiles to pin them to the quick-switch pills.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 h-8 px-2.5 rounded-md border dark:border-white/10 border-black/10">
+              <Search className="h-3.5 w-3.5 shrink-0 dark:text-white/30 text-black/30" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search profiles"
+                className="flex-1 min-w-0 bg-transparent text-[12px] focus:outline-none placeholder:dark:text-white/25 placeholder:text-black/25"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleCreate}
+              className="flex items-center gap-1 h-8 px-3 rounded-md text-[12px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors"
+              title={query.trim() ? `Create "${query.trim()}"` : "Create an empty profile"}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto rounded-md dark:border-white/10 border-black/10 border">
+            {shown.length === 0 && (
+              <p className="px-3 py-2 text-[12px] text-muted-foreground">No profiles match &ldquo;{query.trim()}&rdquo;</p>
+            )}
+            {shown.map((profile) => {
+              const isActive = profile.id === activeProfileId
+              const isFavorite = favorites.includes(profile.id)
+              return (
+                <div
+                  key={profile.id}
+                  style={profileColorStyle(profile.color)}
+                  className={cn(
+                    "group flex items-center gap-2.5 px-3 py-1.5 transition-colors",
+                    isActive ? "dark:bg-white/[0.06] bg-black/[0.04]" : "dark:hover:bg-white/[0.03] hover:bg-black/[0.02]"
+                  )}
+                >
+                  <span className={cn("h-2.5 w-2.5 rounded-full shrink-0", PROFILE_COLOR_CLASSES.dot)} />
+                  {editingId === profile.id ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename()
+                        if (e.key === "Escape") setEditingId(null)
+                      }}
+                      className="flex-1 min-w-0 h-6 px-1.5 rounded border dark:border-white/20 border-black/20 bg-transparent text-[13px] focus:outline-none"
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setActiveProfile(profile.id)}
+                      onDoubleClick={() => startRename(profile.id, profile.name)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className={cn("text-[13px] font-medium truncate leading-tight", isActive && PROFILE_COLOR_CLASSES.label)}>
+                        {profile.name}
+                      </p>
+                      <p className="text-[11px] text-muted-foreground leading-tight">
+                        {profile.bands.length} bands{isActive && " · active"}
+                      </p>
+                    </button>
+                  )}
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => (isFavorite ? unpinFavorite(profile.id) : pinFavorite(profile.id))}
+                      disabled={!isFavorite && favoritesFull}
+                      className={cn(iconButtonClass, isFavorite && "!text-amber-400")}
+                      title={isFavorite ? "Unpin from the pills" : favoritesFull ? `All ${FAVORITE_SLOTS} pills are taken` : "Pin to the pills"}
+                    >
+                      <Star className={cn("h-3.5 w-3.5", isFavorite && "fill-current")} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startRename(profile.id, profile.name)}
+                      className={iconButtonClass}
+                      title="Rename"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => duplicateProfile(profile.id)}
+                      className={iconButtonClass}
+                      title="Duplicate"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                    </button>
+                    {pendingDeleteId === profile.id ? (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          deleteProfile(profile.id)
+                          setPendingDeleteId(null)
+                        }}
+                        onBlur={() => setPendingDeleteId(null)}
+                        autoFocus
+                        className="px-1.5 py-0.5 rounded text-[11px] font-medium text-rose-400 dark:hover:bg-rose-400/10 hover:bg-rose-500/10 transition-colors"
+                      >
+                        Delete?
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setPendingDeleteId(profile.id)}
+                        disabled={all.length <= 1}
+                        className={iconButtonClass}
+                        title={all.length <= 1 ? "The last profile can't be deleted" : "Delete"}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
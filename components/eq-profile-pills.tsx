@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useRef, type ReactNode } from "react"
 import { createPortal } from "react-dom"
-import { useEQProfileStore, PROFILE_IDS, PROFILE_COLORS } from "@/lib/stores/eqProfileStore"
+import { Library } from "lucide-react"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { PROFILE_COLOR_CLASSES, profileColorStyle } from "@/lib/utils/profileColors"
+import { EQProfileLibrary } from "@/components/eq-profile-library"
 import { cn } from "@/lib/utils"
 
 // ---------------------------------------------------------------------------
@@ -60,31 +63,41 @@ interface EQProfilePillsProps {
   size?: "sm" | "md"
 }
 
+// Favourite profiles as numbered pills, plus the button to the full library
 export function EQProfilePills({ size = "md" }: EQProfilePillsProps) {
+  const profiles = useEQProfileStore((s) => s.profiles)
+  const favorites = useEQProfileStore((s) => s.favorites)
   const activeProfileId = useEQProfileStore((s) => s.activeProfileId)
   const setActiveProfile = useEQProfileStore((s) => s.setActiveProfile)
+  const [showLibrary, setShowLibrary] = useState(false)
 
   const dim = size === "sm" ? "h-5 w-5 text-[10px]" : "h-6 w-6 text-[11px]"
+  const icon = size === "sm" ? "h-3 w-3" : "h-3.5 w-3.5"
+  // A profile picked from the library that isn't pinned lights up the library button
+  const activeProfile = activeProfileId ? profiles[activeProfileId] : undefined
+  const isActiveUnpinned = !!activeProfile && !favorites.includes(activeProfile.id)
 
   return (
     <div className="flex items-center gap-1">
-      {PROFILE_IDS.map((pid, i) => {
+      {favorites.map((pid, i) => {
+        const profile = profiles[pid]
+        if (!profile) return null
         const isActive = activeProfileId === pid
-        const c = PROFILE_COLORS[pid]
         return (
-          <Tip key={pid} text={`EQ Profile ${i + 1}`}>
+          <Tip key={pid} text={profile.name}>
             <button
               type="button"
               onClick={(e) => {
                 e.stopPropagation()
                 setActiveProfile(pid)
               }}
+              style={profileColorStyle(profile.color)}
               className={cn(
                 "rounded-full font-semibold flex items-center justify-center transition-all",
                 dim,
                 isActive
                   ? "text-teal-300 bg-teal-400/30"
-                  : cn(c.text, "opacity-30 hover:opacity-60 hover:bg-white/[0.06]")
+                  : cn(PROFILE_COLOR_CLASSES.text, "opacity-30 hover:opacity-60 hover:bg-white/[0.06]")
               )}
             >
               {i + 1}
@@ -92,6 +105,25 @@ export function EQProfilePills({ size = "md" }: EQProfilePillsProps) {
           </Tip>
         )
       })}
+      <Tip text={isActiveUnpinned ? `${activeProfile.name} · All profiles` : "All profiles"}>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            setShowLibrary(true)
+          }}
+          className={cn(
+            "rounded-full flex items-center justify-center transition-all",
+            dim,
+            isActiveUnpinned
+              ? "text-teal-300 bg-teal-400/30"
+              : "dark:text-white/30 text-black/30 hover:opacity-80 hover:bg-white/[0.06]"
+          )}
+        >
+          <Library className={icon} />
+        </button>
+      </Tip>
+      <EQProfileLibrary open={showLibrary} onOpenChange={setShowLibrary} />
     </div>
   )
 }
@@ -0,0 +1,162 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { Check, Upload, X } from "lucide-react"
+import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { useFrequencyResponseStore, type FrequencyResponseKind } from "@/lib/stores/frequencyResponseStore"
+import { compareCurves, FrequencyResponseError } from "@/lib/utils/frequencyResponse"
+import { useToast } from "@/components/common/ToastManager"
+import { Switch } from "@/components/ui/switch"
+import { cn } from "@/lib/utils"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+
+const SECTIONS: { kind: FrequencyResponseKind; label: string }[] = [
+  { kind: "measurement", label: "Headphone measurement" },
+  { kind: "target", label: "Target curve" },
+]
+
+const itemClass = "flex items-center gap-2 text-[12px]"
+
+// Pick a headphone measurement and a target to draw under the EQ graph, and
+// see how far measurement + EQ is from the target
+export function EQReferenceMenu() {
+  const { showToast } = useToast()
+  const catalog = useFrequencyResponseStore((s) => s.catalog)
+  const curves = useFrequencyResponseStore((s) => s.curves)
+  const measurementId = useFrequencyResponseStore((s) => s.measurementId)
+  const targetId = useFrequencyResponseStore((s) => s.targetId)
+  const showCorrected = useFrequencyResponseStore((s) => s.showCorrected)
+  const showDeviation = useFrequencyResponseStore((s) => s.showDeviation)
+  const selectMeasurement = useFrequencyResponseStore((s) => s.selectMeasurement)
+  const selectTarget = useFrequencyResponseStore((s) => s.selectTarget)
+  const setShowCorrected = useFrequencyResponseStore((s) => s.setShowCorrected)
+  const setShowDeviation = useFrequencyResponseStore((s) => s.setShowDeviation)
+  const importCurve = useFrequencyResponseStore((s) => s.importCurve)
+  const removeImported = useFrequencyResponseStore((s) => s.removeImported)
+  const profile = useEQProfileStore((s) => (s.activeProfileId ? s.profiles[s.activeProfileId] : null))
+
+  const inputRef = useRef<HTMLInputElement>(null)
+  const importKindRef = useRef<FrequencyResponseKind>("measurement")
+
+  const rmsErrorDb = useMemo(() => {
+    const measurement = measurementId ? curves[measurementId] : undefined
+    const target = targetId ? curves[targetId] : undefined
+    if (!measurement || !target) return null
+    return compareCurves(measurement, target, profile?.bands ?? []).rmsErrorDb
+  }, [curves, measurementId, targetId, profile])
+
+  const selected = { measurement: measurementId, target: targetId }
+  const select = { measurement: selectMeasurement, target: selectTarget }
+  const isActive = !!(measurementId || targetId)
+
+  const handleImportClick = (kind: FrequencyResponseKind) => {
+    importKindRef.current = kind
+    inputRef.current?.click()
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      importCurve(file.name.replace(/\.[^.]+$/, ""), importKindRef.current, await file.text())
+    } catch (error) {
+      showToast({
+        message: error instanceof FrequencyResponseError ? error.message : "Failed to read the frequency response",
+        variant: "error",
+      })
+    }
+  }
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleImportFile} />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              "text-[10px] font-medium px-2 py-1 rounded-md transition-colors",
+              isActive
+                ? "dark:text-white/70 text-black/70 dark:bg-white/[0.08] bg-black/[0.06]"
+                : "dark:text-white/35 text-black/35 dark:hover:text-white/60 hover:text-black/60 hover:dark:bg-white/[0.05] hover:bg-black/[0.04]"
+            )}
+            title="Headphone measurement and target curve"
+          >
+            {rmsErrorDb !== null ? `Target · ${rmsErrorDb.toFixed(1)} dB` : "Target"}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64 max-h-96 overflow-y-auto">
+          {SECTIONS.map(({ kind, label }) => (
+            <div key={kind}>
+              <DropdownMenuLabel className="text-[11px] font-medium dark:text-white/50 text-black/50">
+                {label}
+              </DropdownMenuLabel>
+              <DropdownMenuItem className={itemClass} onSelect={() => select[kind](null)}>
+                <Check className={cn("h-3 w-3", selected[kind] !== null && "invisible")} />
+                None
+              </DropdownMenuItem>
+              {catalog
+                .filter((entry) => entry.kind === kind)
+                .map((entry) => (
+                  <DropdownMenuItem key={entry.id} className={itemClass} onSelect={() => select[kind](entry.id)}>
+                    <Check className={cn("h-3 w-3 shrink-0", selected[kind] !== entry.id && "invisible")} />
+                    <span className="flex-1 truncate">{entry.name}</span>
+                    {!entry.file && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          removeImported(entry.id)
+                        }}
+                        className="p-0.5 rounded dark:text-white/30 text-black/30 dark:hover:text-white/70 hover:text-black/70 transition-colors"
+                        title="Remove"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </DropdownMenuItem>
+                ))}
+              <DropdownMenuItem className={cn(itemClass, "dark:text-white/50 text-black/50")} onSelect={() => handleImportClick(kind)}>
+                <Upload className="h-3 w-3" />
+                Load CSV…
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-3 px-2 py-1.5 text-[12px]">
+            <span className={cn(!measurementId && "opacity-40")}>Measurement + EQ</span>
+            <Switch
+              checked={showCorrected}
+              onCheckedChange={setShowCorrected}
+              disabled={!measurementId}
+              aria-label="Show the measurement with the EQ applied"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3 px-2 py-1.5 text-[12px]">
+            <span className={cn(rmsErrorDb === null && "opacity-40")}>Deviation from target</span>
+            <Switch
+              checked={showDeviation}
+              onCheckedChange={setShowDeviation}
+              disabled={rmsErrorDb === null}
+              aria-label="Shade the deviation from the target"
+            />
+          </div>
+          <p className="px-2 pb-1.5 text-[10px] dark:text-white/35 text-black/35">
+            {rmsErrorDb !== null
+              ? `${rmsErrorDb.toFixed(2)} dB RMS from the target, 20 Hz – 10 kHz`
+              : "Pick a measurement and a target to see the error"}
+          </p>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  )
+}
@@ -1,7 +1,12 @@
 "use client"
 
+import { useState } from "react"
 import { X, Plus } from "lucide-react"
 import { MusicLibrary } from "@/components/music-library/MusicLibrary"
+import { PlaylistsView } from "@/components/music-library/PlaylistsView"
+import { cn } from "@/lib/utils"
+
+type LibraryView = "tracks" | "playlists"
 
 interface LibraryPanelProps {
   isOpen: boolean
@@ -9,6 +14,8 @@ interface LibraryPanelProps {
 }
 
 export function LibraryPanel({ isOpen, onClose }: LibraryPanelProps) {
+  const [view, setView] = useState<LibraryView>("tracks")
+
   const handleHeaderImportClick = () => {
     const fileInput = document.getElementById("file-upload") as HTMLInputElement
     if (fileInput) {
@@ -27,12 +34,28 @@ export function LibraryPanel({ isOpen, onClose }: LibraryPanelProps) {
       <div className="glass-panel rounded-2xl max-h-[50vh] flex flex-col overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between px-4 pt-3 pb-2 flex-shrink-0 border-b dark:border-white/[0.06] border-black/[0.06]">
-          <div className="flex items-center gap-2">
-            <h4 className="text-xs font-semibold uppercase tracking-wider dark:text-white/50 text-black/50">Music Library</h4>
+          <div className="flex items-center gap-3">
+            {(["tracks", "playlists"] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={cn(
+                  "text-xs font-semibold uppercase tracking-wider transition-colors",
+                  view === v
+                    ? "dark:text-white/80 text-black/80"
+                    : "dark:text-white/30 text-black/30 dark:hover:text-white/60 hover:text-black/60"
+                )}
+              >
+                {v === "tracks" ? "Music Library" : "Playlists"}
+              </button>
+            ))}
           </div>
           <div className="flex items-center gap-1">
             <button
-              onClick={handleHeaderImportClick}
+              onClick={() => {
+                setView("tracks")
+                handleHeaderImportClick()
+              }}
               className="rounded-lg p-1 dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 dark:hover:bg-white/[0.06] hover:bg-black/[0.06] transition-all"
               title="Import music"
             >
@@ -46,10 +69,15 @@ export function LibraryPanel({ isOpen, onClose }: LibraryPanelProps) {
             </button>
           </div>
         </div>
-        {/* Scrollable track list */}
-        <div className="overflow-auto px-4 py-3 scrollbar-thin">
+        {/* Scrollable track list — kept mounted so the hidden file input stays available */}
+        <div className={cn("overflow-auto px-4 py-3 scrollbar-thin", view !== "tracks" && "hidden")}>
           <MusicLibrary />
         </div>
+        {view === "playlists" && (
+          <div className="overflow-auto px-4 py-3 scrollbar-thin">
+            <PlaylistsView />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -63,7 +63,7 @@ export function EmptyLibrary({
             type="file"
             id="file-upload"
             className="hidden"
-            accept="audio/*,.mp3,.wav,.flac"
+            accept="audio/*,.mp3,.wav,.flac,.m4a,.ogg,.opus"
             onChange={(e) => e.target.files && onFileSelect(e.target.files)}
             multiple
           />
@@ -1,16 +1,17 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { Upload } from "lucide-react"
+import { Upload, AudioLines } from "lucide-react"
 import { useToast } from "@/components/common/ToastManager"
 import { useFileImport } from "@/lib/hooks/useFileImport"
 import { FileImportOverlay } from "@/components/import/FileImportOverlay"
-import { useTrackStore, usePlayerStore, useEQProfileStore, useArtistStore, useAlbumStore } from "@/lib/stores"
+import { useTrackStore, usePlayerStore, useEQProfileStore, useArtistStore, useAlbumStore, usePlaylistStore } from "@/lib/stores"
 import { Track as TrackModel } from "@/lib/models/Track"
 import * as fileStorage from "@/lib/storage/fileStorage"
 
 // Import the extracted components
 import { TrackItem } from "./TrackItem"
+import { RenderWithEQDialog } from "./RenderWithEQDialog"
 import { EmptyLibrary } from "./EmptyLibrary"
 import { LoadingSkeleton } from "./ui/LoadingSkeleton"
 import { DragDropArea } from "./ui/DragDropArea"
@@ -33,17 +34,22 @@ export function MusicLibrary() {
   // Connect to trackStore
   const { getTracks, addTrack, deleteTrack, isLoading: isTrackStoreLoading } = useTrackStore()
   // Connect to playerStore
-  const { currentTrackId, isPlaying, setCurrentTrack, setIsPlaying } = usePlayerStore()
+  const { currentTrackId, isPlaying, setIsPlaying, playTracks, playNext, enqueue, removeFromQueue } = usePlayerStore()
   // Connect to eqProfileStore for the actual EQ enabled state
   const { isEQEnabled } = useEQProfileStore()
   // Connect to artistStore
   const getArtistById = useArtistStore(state => state.getArtistById)
   // Connect to albumStore
   const getAlbumById = useAlbumStore(state => state.getAlbumById)
+  // Connect to playlistStore
+  const playlistsById = usePlaylistStore(state => state.playlists)
+  const { getPlaylists, createPlaylist, addTrackToPlaylist, removeTrackFromAllPlaylists } = usePlaylistStore()
   
   const [tracks, setTracks] = useState<Track[]>([])
   // Store cover image URLs to avoid recreating them on every render
   const [coverImageUrls, setCoverImageUrls] = useState<Record<string, string>>({})
+  // Tracks preselected in the render dialog; null when it's closed
+  const [renderSelection, setRenderSelection] = useState<string[] | null>(null)
 
   // Convert store tracks to UI tracks
   const convertStoreTracksToUI = useCallback(() => {
@@ -278,17 +284,57 @@ export function MusicLibrary() {
         setIsPlaying(true); // Play if currently paused
       }
     } else {
-      // If a different track is clicked, select it
+      // If a different track is clicked, queue the library from that track onwards
       // The PlayerStore will automatically start playback once the track is loaded
-      setCurrentTrack(track.id);
+      const trackIds = tracks.map(t => t.id);
+      playTracks(trackIds, trackIds.indexOf(track.id));
       
       // No need to call setIsPlaying here as that will happen automatically
       // in the PlayerStore once the track is loaded and ready
     }
   }
 
+  const handlePlayNext = (trackId: string) => {
+    playNext(trackId);
+    showToast({
+      message: "Playing next",
+      variant: 'info'
+    });
+  }
+
+  const handleAddToQueue = (trackId: string) => {
+    enqueue(trackId);
+    showToast({
+      message: "Added to queue",
+      variant: 'info'
+    });
+  }
+
+  const handleRenderWithEQ = (trackId: string) => {
+    setRenderSelection([trackId]);
+  }
+
+  const handleAddToPlaylist = (trackId: string, playlistId: string | null) => {
+    if (playlistId) {
+      addTrackToPlaylist(playlistId, trackId);
+      showToast({
+        message: `Added to "${playlistsById[playlistId]?.name ?? 'playlist'}"`,
+        variant: 'info'
+      });
+    } else {
+      const name = `Playlist ${getPlaylists().length + 1}`;
+      createPlaylist(name, [trackId]);
+      showToast({
+        message: `Created "${name}"`,
+        variant: 'success'
+      });
+    }
+  }
+
   const handleTrackRemove = (trackId: string) => {
     deleteTrack(trackId);
+    removeFromQueue(trackId);
+    removeTrackFromAllPlaylists(trackId);
     showToast({
       message: "Track removed",
       variant: 'success'
@@ -351,6 +397,8 @@ export function MusicLibrary() {
     )
   }
 
+  const playlistOptions = getPlaylists().map(playlist => ({ id: playlist.id, name: playlist.name }))
+
   // Show track list
   return (
     <DragDropArea
@@ -365,7 +413,7 @@ export function MusicLibrary() {
         type="file"
         id="file-upload"
         className="hidden"
-        accept="audio/*,.mp3,.wav,.flac"
+        accept="audio/*,.mp3,.wav,.flac,.m4a,.ogg,.opus"
         onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
         multiple
       />
@@ -381,6 +429,11 @@ export function MusicLibrary() {
               onPlay={handleTrackSelect}
               onTogglePlayPause={handleTogglePlayback}
               onRemove={handleTrackRemove}
+              onPlayNext={handlePlayNext}
+              onAddToQueue={handleAddToQueue}
+              playlists={playlistOptions}
+              onAddToPlaylist={handleAddToPlaylist}
+              onRenderWithEQ={handleRenderWithEQ}
               isLastItem={index === tracks.length - 1}
             />
           ))}
@@ -395,6 +448,21 @@ export function MusicLibrary() {
         Import music
       </button>
 
+      <button
+        onClick={() => setRenderSelection(tracks.map(track => track.id))}
+        className="w-full py-2 text-xs dark:text-white/30 text-black/30 dark:hover:text-white/60 hover:text-black/60 transition-colors flex items-center justify-center gap-1.5"
+      >
+        <AudioLines className="h-3 w-3" />
+        Render with EQ
+      </button>
+
+      <RenderWithEQDialog
+        open={renderSelection !== null}
+        onOpenChange={(open) => !open && setRenderSelection(null)}
+        tracks={tracks}
+        initialSelection={renderSelection ?? []}
+      />
+
       <FileImportOverlay
         isVisible={isImporting}
         progress={importProgress}
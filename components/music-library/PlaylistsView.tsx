@@ -0,0 +1,277 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowLeft, ChevronDown, ChevronUp, ListMusic, MoreHorizontal, Play, Plus, X } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/common/ToastManager"
+import { usePlaylistStore, usePlayerStore, useTrackStore, useArtistStore } from "@/lib/stores"
+
+export function PlaylistsView() {
+  const { showToast } = useToast()
+  const playlists = usePlaylistStore(state => state.playlists)
+  const isLoading = usePlaylistStore(state => state.isLoading)
+  const {
+    getPlaylists,
+    createPlaylist,
+    renamePlaylist,
+    deletePlaylist,
+    removeTrackFromPlaylist,
+    reorderPlaylist
+  } = usePlaylistStore()
+  const tracks = useTrackStore(state => state.tracks)
+  const getArtistById = useArtistStore(state => state.getArtistById)
+  const { currentTrackId, playTracks } = usePlayerStore()
+
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null)
+  const [newPlaylistName, setNewPlaylistName] = useState("")
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+
+  const selectedPlaylist = selectedPlaylistId ? playlists[selectedPlaylistId] : undefined
+
+  // Tracks deleted from the library are skipped rather than shown as broken rows
+  const getPlayableTrackIds = (trackIds: string[]) => trackIds.filter(id => !!tracks[id])
+
+  const handleCreate = () => {
+    const name = newPlaylistName.trim()
+    if (!name) return
+    createPlaylist(name)
+    setNewPlaylistName("")
+    showToast({ message: `Created "${name}"`, variant: "success" })
+  }
+
+  const handlePlayPlaylist = (trackIds: string[], startIndex = 0) => {
+    const playable = getPlayableTrackIds(trackIds)
+    if (playable.length === 0) {
+      showToast({ message: "Playlist is empty", variant: "info" })
+      return
+    }
+    playTracks(playable, Math.min(startIndex, playable.length - 1))
+  }
+
+  const startRename = (playlistId: string, currentName: string) => {
+    setRenamingId(playlistId)
+    setRenameValue(currentName)
+  }
+
+  const commitRename = () => {
+    if (renamingId) renamePlaylist(renamingId, renameValue)
+    setRenamingId(null)
+  }
+
+  const handleDelete = (playlistId: string) => {
+    deletePlaylist(playlistId)
+    if (selectedPlaylistId === playlistId) setSelectedPlaylistId(null)
+    showToast({ message: "Playlist deleted", variant: "success" })
+  }
+
+  const renderName = (playlistId: string, name: string, className: string) =>
+    renamingId === playlistId ? (
+      <Input
+        autoFocus
+        value={renameValue}
+        onChange={(e) => setRenameValue(e.target.value)}
+        onBlur={commitRename}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitRename()
+          if (e.key === "Escape") setRenamingId(null)
+        }}
+        className="h-7 text-[13px]"
+      />
+    ) : (
+      <p className={className}>{name}</p>
+    )
+
+  if (isLoading) {
+    return <p className="text-[11px] text-muted-foreground py-2">Loading playlists…</p>
+  }
+
+  // Playlist detail
+  if (selectedPlaylist) {
+    const trackIds = selectedPlaylist.trackIds
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setSelectedPlaylistId(null)}
+            className="rounded-lg p-1 dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 transition-colors"
+            title="Back to playlists"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+          </button>
+          <div className="flex-1 min-w-0">
+            {renderName(selectedPlaylist.id, selectedPlaylist.name, "text-[13px] font-semibold truncate")}
+          </div>
+          <button
+            onClick={() => handlePlayPlaylist(trackIds)}
+            className="rounded-lg p-1 dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 transition-colors"
+            title="Play playlist"
+          >
+            <Play className="h-3.5 w-3.5" />
+          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="rounded-lg p-1 dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 transition-colors">
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => startRename(selectedPlaylist.id, selectedPlaylist.name)}>
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDelete(selectedPlaylist.id)}>
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {trackIds.length === 0 ? (
+          <p className="text-[11px] text-muted-foreground py-2">
+            No tracks yet. Use &quot;Add to playlist&quot; from a track&apos;s menu.
+          </p>
+        ) : (
+          <div className="rounded-md dark:border-white/10 border-black/10 border">
+            {trackIds.map((trackId, index) => {
+              const track = tracks[trackId]
+              const artist = track?.artistId ? getArtistById(track.artistId) : undefined
+
+              return (
+                <div
+                  key={`${trackId}-${index}`}
+                  className={`flex items-center py-1.5 px-2 hover:bg-muted/50 cursor-pointer ${
+                    currentTrackId === trackId ? "bg-muted/30" : ""
+                  } ${index < trackIds.length - 1 ? "border-b dark:border-white/[0.06] border-black/[0.06]" : ""}`}
+                  onClick={() => track && handlePlayPlaylist(trackIds, getPlayableTrackIds(trackIds.slice(0, index)).length)}
+                >
+                  <span className="w-6 text-[11px] text-muted-foreground tabular-nums">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[13px] font-medium truncate leading-tight">
+                      {track ? track.title : "Missing track"}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground truncate leading-tight">
+                      {artist ? artist.name : "Unknown Artist"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => reorderPlaylist(selectedPlaylist.id, index, index - 1)}
+                      disabled={index === 0}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => reorderPlaylist(selectedPlaylist.id, index, index + 1)}
+                      disabled={index === trackIds.length - 1}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => removeTrackFromPlaylist(selectedPlaylist.id, index)}
+                      className="p-1 rounded text-muted-foreground hover:text-foreground"
+                      title="Remove from playlist"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Playlist list
+  const allPlaylists = getPlaylists()
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleCreate()
+        }}
+      >
+        <Input
+          value={newPlaylistName}
+          onChange={(e) => setNewPlaylistName(e.target.value)}
+          placeholder="New playlist name"
+          className="h-8 text-[13px]"
+        />
+        <button
+          type="submit"
+          disabled={!newPlaylistName.trim()}
+          className="rounded-lg p-1.5 dark:text-white/40 text-black/40 dark:hover:text-white/80 hover:text-black/80 dark:hover:bg-white/[0.06] hover:bg-black/[0.06] transition-all disabled:opacity-30"
+          title="Create playlist"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </form>
+
+      {allPlaylists.length === 0 ? (
+        <p className="text-[11px] text-muted-foreground py-2">No playlists yet</p>
+      ) : (
+        <div className="rounded-md dark:border-white/10 border-black/10 border">
+          {allPlaylists.map((playlist, index) => (
+            <div
+              key={playlist.id}
+              className={`flex items-center py-1.5 px-2 hover:bg-muted/50 cursor-pointer ${
+                index < allPlaylists.length - 1 ? "border-b dark:border-white/[0.06] border-black/[0.06]" : ""
+              }`}
+              onClick={() => setSelectedPlaylistId(playlist.id)}
+            >
+              <div className="h-9 w-9 mr-3 rounded-md bg-muted/50 flex items-center justify-center flex-shrink-0">
+                <ListMusic className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <div className="flex-1 min-w-0">
+                {renderName(playlist.id, playlist.name, "text-[13px] font-medium truncate leading-tight")}
+                <p className="text-[11px] text-muted-foreground truncate leading-tight">
+                  {playlist.trackIds.length} {playlist.trackIds.length === 1 ? "track" : "tracks"}
+                </p>
+              </div>
+              <div className="flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+                <button
+                  onClick={() => handlePlayPlaylist(playlist.trackIds)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground"
+                  title="Play playlist"
+                >
+                  <Play className="h-3.5 w-3.5" />
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="p-1 rounded text-muted-foreground hover:text-foreground">
+                      <MoreHorizontal className="h-3.5 w-3.5" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => startRename(playlist.id, playlist.name)}>
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDelete(playlist.id)}>
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { useToast } from "@/components/common/ToastManager"
+import { useEQProfileStore, useTrackStore } from "@/lib/stores"
+import {
+  RENDER_SAMPLE_RATES,
+  RenderAbortedError,
+  RenderFormat,
+  renderTrackWithEQ,
+} from "@/lib/audio/offlineRender"
+import { cn } from "@/lib/utils"
+
+const RENDER_FORMATS: { id: RenderFormat; label: string }[] = [
+  { id: "wav16", label: "WAV 16-bit" },
+  { id: "wav24", label: "WAV 24-bit" },
+  { id: "flac16", label: "FLAC 16-bit" },
+  { id: "flac24", label: "FLAC 24-bit" },
+]
+
+interface RenderTrack {
+  id: string
+  title: string
+  artist: string
+}
+
+interface RenderWithEQDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tracks: RenderTrack[]
+  initialSelection: string[]
+}
+
+interface RenderStatus {
+  index: number
+  total: number
+  title: string
+  fraction: number
+}
+
+const downloadFile = (data: ArrayBuffer, mimeType: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Strip characters that aren't allowed in file names on common platforms
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, "_").trim()
+
+export function RenderWithEQDialog({ open, onOpenChange, tracks, initialSelection }: RenderWithEQDialogProps) {
+  const { showToast } = useToast()
+  const getPlaybackProfile = useEQProfileStore((s) => s.getPlaybackProfile)
+  const isAutoGainEnabled = useEQProfileStore((s) => s.isAutoGainEnabled)
+  const getTrackById = useTrackStore((s) => s.getTrackById)
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [format, setFormat] = useState<RenderFormat>("flac16")
+  const [sampleRate, setSampleRate] = useState<number>(RENDER_SAMPLE_RATES[0])
+  const [status, setStatus] = useState<RenderStatus | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // The active profile with any layers under it, as heard during playback
+  const profile = getPlaybackProfile()
+
+  // Start from the caller's selection each time the dialog opens
+  useEffect(() => {
+    if (open) setSelectedIds(new Set(initialSelection))
+  }, [open, initialSelection])
+
+  const toggleTrack = (trackId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(trackId)) next.delete(trackId)
+      else next.add(trackId)
+      return next
+    })
+  }
+
+  const handleRender = async () => {
+    if (!profile) return
+    const queue = tracks.filter((t) => selectedIds.has(t.id))
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    let rendered = 0
+    try {
+      for (const [index, track] of queue.entries()) {
+        const storageKey = getTrackById(track.id)?.storageKey
+        if (!storageKey) continue
+
+        setStatus({ index, total: queue.length, title: track.title, fraction: 0 })
+        const result = await renderTrackWithEQ(storageKey, {
+          profile,
+          autoGain: isAutoGainEnabled,
+          format,
+          sampleRate,
+          signal: controller.signal,
+          onProgress: (fraction) => setStatus({ index, total: queue.length, title: track.title, fraction }),
+        })
+        downloadFile(result.data, result.mimeType, `${safeFileName(`${track.title} (${profile.name})`)}.${result.extension}`)
+        rendered++
+      }
+      showToast({
+        message: rendered === 1 ? "Rendered 1 track" : `Rendered ${rendered} tracks`,
+        variant: "success",
+      })
+      onOpenChange(false)
+    } catch (error) {
+      if (error instanceof RenderAbortedError) {
+        showToast({ message: "Render cancelled", variant: "info" })
+      } else {
+        console.error("Error rendering track with EQ:", error)
+        showToast({ message: "Failed to render track", variant: "error" })
+      }
+    } finally {
+      abortRef.current = null
+      setStatus(null)
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing mid-render cancels it
+    if (!next) abortRef.current?.abort()
+    onOpenChange(next)
+  }
+
+  const overallProgress = status ? ((status.index + status.fraction) / status.total) * 100 : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Render with EQ</DialogTitle>
+          <DialogDescription>
+            Save copies of tracks with {profile ? `"${profile.name}"` : "the active EQ profile"} applied, for devices
+            that can&apos;t run Cabin.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-56 overflow-y-auto rounded-md dark:border-white/10 border-black/10 border">
+            {tracks.map((track, index) => (
+              <label
+                key={track.id}
+                className={cn(
+                  "flex items-center gap-3 py-1.5 px-2 hover:bg-muted/50 cursor-pointer",
+                  index < tracks.length - 1 && "border-b dark:border-white/[0.06] border-black/[0.06]"
+                )}
+              >
+                <Checkbox
+                  checked={selectedIds.has(track.id)}
+                  onCheckedChange={() => toggleTrack(track.id)}
+                  disabled={!!status}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[13px] font-medium truncate leading-tight">{track.title}</p>
+                  <p className="text-[11px] text-muted-foreground truncate leading-tight">{track.artist}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {RENDER_FORMATS.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={!!status}
+                  onClick={() => setFormat(option.id)}
+                  className={cn(
+                    "px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors disabled:opacity-50",
+                    format === option.id
+                      ? "dark:bg-white/15 bg-black/10 dark:text-white/90 text-black/80"
+                      : "dark:bg-white/[0.04] bg-black/[0.03] dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {RENDER_SAMPLE_RATES.map((rate) => (
+                <button
+                  key={rate}
+                  type="button"
+                  disabled={!!status}
+                  onClick={() => setSampleRate(rate)}
+                  className={cn(
+                    "px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors disabled:opacity-50",
+                    sampleRate === rate
+                      ? "dark:bg-white/15 bg-black/10 dark:text-white/90 text-black/80"
+                      : "dark:bg-white/[0.04] bg-black/[0.03] dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
+                  )}
+                >
+                  {rate / 1000} kHz
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {status && (
+            <div className="space-y-1.5">
+              <p className="text-[11px] text-muted-foreground truncate">
+                Rendering {status.index + 1} of {status.total} — {status.title}
+              </p>
+              <Progress value={overallProgress} className="h-1.5" />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {status ? (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-1.5 rounded-md text-[12px] font-medium dark:text-white/60 text-black/60 dark:hover:text-white/90 hover:text-black/90 transition-colors"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleRender}
+                disabled={!profile || selectedIds.size === 0}
+                className="px-3 py-1.5 rounded-md text-[12px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors disabled:opacity-40"
+              >
+                Render {selectedIds.size > 0 ? selectedIds.size : ""} {selectedIds.size === 1 ? "track" : "tracks"}
+              </button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,6 +7,10 @@ import {
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu"
 import { Button } from "@/components/ui/button"
@@ -28,6 +32,11 @@ interface TrackItemProps {
   onPlay: (track: Track) => void
   onTogglePlayPause: () => void
   onRemove: (trackId: string) => void
+  onPlayNext: (trackId: string) => void
+  onAddToQueue: (trackId: string) => void
+  playlists: Array<{ id: string; name: string }>
+  onAddToPlaylist: (trackId: string, playlistId: string | null) => void // null creates a new playlist
+  onRenderWithEQ: (trackId: string) => void
   isLastItem?: boolean
 }
 
@@ -38,6 +47,11 @@ export function TrackItem({
   onPlay, 
   onTogglePlayPause,
   onRemove,
+  onPlayNext,
+  onAddToQueue,
+  playlists,
+  onAddToPlaylist,
+  onRenderWithEQ,
   isLastItem = false
 }: TrackItemProps) {
   const [isHovered, setIsHovered] = useState(false);
@@ -158,6 +172,29 @@ export function TrackItem({
                 <DropdownMenuItem onClick={() => onPlay(track)}>
                   Play
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onPlayNext(track.id)}>
+                  Play next
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onAddToQueue(track.id)}>
+                  Add to queue
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>Add to playlist</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {playlists.map(playlist => (
+                      <DropdownMenuItem key={playlist.id} onClick={() => onAddToPlaylist(track.id, playlist.id)}>
+                        {playlist.name}
+                      </DropdownMenuItem>
+                    ))}
+                    {playlists.length > 0 && <DropdownMenuSeparator />}
+                    <DropdownMenuItem onClick={() => onAddToPlaylist(track.id, null)}>
+                      New playlist
+                    </DropdownMenuItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuItem onClick={() => onRenderWithEQ(track.id)}>
+                  Render with EQ…
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => onRemove(track.id)}>
                   Remove
                 </DropdownMenuItem>
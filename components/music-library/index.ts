@@ -2,6 +2,7 @@
 export { MusicLibrary } from './MusicLibrary';
 export { EQStatusAlert } from './EQStatusAlert';
 export { TrackItem } from './TrackItem';
+export { PlaylistsView } from './PlaylistsView';
 export { EmptyLibrary } from './EmptyLibrary';
 export { ImportArea } from './ImportArea';
 export { DragDropArea } from './ui/DragDropArea';
@@ -1,8 +1,28 @@
-import { EQBandWithUI } from './types';
+import { EQBandChannel, EQBandWithUI } from './types';
 import { EQCurveRenderer } from './EQCurveRenderer';
 import { EQCoordinateUtils } from './EQCoordinateUtils';
 import { calculateBandResponse } from './useEQProcessor';
 import { ColorUtils } from './ColorUtils';
+import { hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages';
+
+// Short labels drawn under non-peaking band handles
+const BAND_TYPE_LABELS: Partial<Record<BiquadFilterType, string>> = {
+  lowshelf: 'LS',
+  highshelf: 'HS',
+  lowpass: 'LP',
+  highpass: 'HP',
+  notch: 'N',
+  bandpass: 'BP',
+  allpass: 'AP',
+};
+
+// Badge letters for bands on a single channel
+const CHANNEL_BADGES: Record<Exclude<EQBandChannel, 'both'>, string> = {
+  left: 'L',
+  right: 'R',
+  mid: 'M',
+  side: 'S',
+};
 
 export class EQBandRenderer {
   /**
@@ -19,7 +39,8 @@ export class EQBandRenderer {
     isDragging: boolean,
     isEnabled: boolean = true,
     xOffset: number = 0,
-    yOffset: number = 0
+    yOffset: number = 0,
+    gainReductionDb: number = 0
   ) {
     // Skip if band is outside visible range
     if (band.frequency < freqRange.min || band.frequency > freqRange.max) return;
@@ -39,6 +60,12 @@ export class EQBandRenderer {
     // This ensures we're using the Web Audio API's getFrequencyResponse method
     const response = calculateBandResponse(band);
     
+    // Pass filters fall far below the graph, so keep the fill inside the plot area
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(xOffset, yOffset, width, height);
+    ctx.clip();
+
     // Draw band response curve using the exact frequency response
     try {
       EQCurveRenderer.drawFilledFrequencyResponse(
@@ -73,6 +100,7 @@ export class EQBandRenderer {
         isHovered
       );
     }
+    ctx.restore();
     
     // Draw the band handle
     const x = EQCoordinateUtils.freqToX(band.frequency, width, freqRange);
@@ -82,12 +110,16 @@ export class EQBandRenderer {
     // const handleOpacity = band.isHovered || isHovered ? 0.9 : 0.8; // More vibrant by default
     const handleColor = EQCoordinateUtils.getBandColor(band.frequency, 1.0, isDarkMode)
 
+    if (band.dynamics && usesGain(band.type)) {
+      this.drawDynamicsIndicator(ctx, band, x + xOffset, y + yOffset, height, handleColor, gainReductionDb, isEnabled, yOffset);
+    }
+
     this.drawBandHandle(ctx, x + xOffset, y + yOffset, handleColor, band.isHovered || isHovered, isDragging, isEnabled);
 
-    // Draw a small L/R badge for non-'both' bands
+    // Draw a small L/R/M/S badge for non-'both' bands
     const channel = band.channel ?? 'both';
     if (channel !== 'both') {
-      const label = channel === 'left' ? 'L' : 'R';
+      const label = CHANNEL_BADGES[channel];
       const badgeRadius = 7;
       const badgeX = x + xOffset + 10;
       const badgeY = y + yOffset - 10;
@@ -114,6 +146,79 @@ export class EQBandRenderer {
       ctx.textBaseline = 'middle';
       ctx.fillText(label, badgeX, badgeY + 0.5);
     }
+
+    // Label the filter type (and slope) under non-peaking handles
+    const typeLabel = this.getTypeLabel(band);
+    if (typeLabel) {
+      ctx.fillStyle = isEnabled
+        ? ColorUtils.setOpacity(handleColor, 0.9)
+        : ColorUtils.makeGrayscale(handleColor, 0.6);
+      ctx.font = 'bold 9px -apple-system, BlinkMacSystemFont, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(typeLabel, x + xOffset, y + yOffset + 11);
+    }
+  }
+
+  /**
+   * Marks a dynamic band: a dashed ring around the handle, a faint track down
+   * to the most it can be cut (its range) and a live bar for the current
+   * gain reduction
+   */
+  static drawDynamicsIndicator(
+    ctx: CanvasRenderingContext2D,
+    band: EQBandWithUI,
+    x: number,
+    y: number,
+    height: number,
+    color: string,
+    gainReductionDb: number,
+    isEnabled: boolean,
+    yOffset: number = 0
+  ): void {
+    const rangeY = EQCoordinateUtils.gainToY(band.gain - band.dynamics!.range, height) + yOffset;
+    const reduction = Math.min(gainReductionDb, band.dynamics!.range);
+    const reductionY = EQCoordinateUtils.gainToY(band.gain - reduction, height) + yOffset;
+    const stroke = isEnabled ? color : ColorUtils.makeGrayscale(color, 0.6);
+
+    ctx.save();
+    ctx.lineCap = 'round';
+
+    // Range track
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x, rangeY);
+    ctx.strokeStyle = ColorUtils.setOpacity(stroke, 0.25);
+    ctx.lineWidth = 4;
+    ctx.stroke();
+
+    // Live gain reduction
+    if (reduction > 0.05) {
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x, reductionY);
+      ctx.strokeStyle = ColorUtils.setOpacity(stroke, 0.95);
+      ctx.lineWidth = 4;
+      ctx.stroke();
+    }
+
+    // Dashed ring
+    ctx.beginPath();
+    ctx.setLineDash([3, 3]);
+    ctx.arc(x, y, 12, 0, Math.PI * 2);
+    ctx.strokeStyle = ColorUtils.setOpacity(stroke, 0.8);
+    ctx.lineWidth = 1.25;
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Short type label for a band, e.g. "LP 24", or null for peaking bands
+   */
+  static getTypeLabel(band: EQBandWithUI): string | null {
+    const label = BAND_TYPE_LABELS[band.type];
+    if (!label) return null;
+    return hasSlope(band.type) ? `${label} ${normalizeSlope(band.slope)}` : label;
   }
   
   /**
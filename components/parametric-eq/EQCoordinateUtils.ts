@@ -1,3 +1,5 @@
+import { gradientColor } from '@/lib/utils/profileColors';
+
 /**
  * Utility class for coordinate conversions in the EQ graph
  */
@@ -66,30 +68,6 @@ export class EQCoordinateUtils {
     const maxFreq = Math.log10(20000);
     const t = (Math.log10(frequency) - minFreq) / (maxFreq - minFreq);
 
-    // Three-stop gradient matching the visualizer:
-    //   t=0  → hue 225 (blue)     sat 80  light 67  (#5577ff)
-    //   t=0.5 → hue 180 (cyan)    sat 100 light 50  (#00ffff)
-    //   t=1  → hue 153 (teal-green) sat 80 light 67 (#55ffaa)
-    let hue: number, saturation: number, lightness: number;
-
-    if (t < 0.5) {
-      const s = t / 0.5; // 0→1 across the bass-to-mid range
-      hue = 225 - s * 45;          // 225 → 180
-      saturation = 80 + s * 20;    // 80 → 100
-      lightness = 67 - s * 17;     // 67 → 50
-    } else {
-      const s = (t - 0.5) / 0.5;   // 0→1 across mid-to-treble range
-      hue = 180 - s * 27;          // 180 → 153
-      saturation = 100 - s * 20;   // 100 → 80
-      lightness = 50 + s * 17;     // 50 → 67
-    }
-
-    // In light mode, darken colors for contrast on light backgrounds
-    if (!isDarkMode) {
-      lightness = lightness * 0.55;
-      saturation = Math.min(100, saturation * 1.1);
-    }
-
-    return `hsla(${Math.round(hue)}, ${Math.round(saturation)}%, ${Math.round(lightness)}%, ${alpha})`;
+    return gradientColor(t, alpha, isDarkMode);
   }
 } 
\ No newline at end of file
@@ -111,6 +111,40 @@ export class EQCurveRenderer {
     ctx.stroke();
   }
   
+  /**
+   * Draw a thin single-colour reference curve (a measurement or target),
+   * dashed when asked
+   */
+  static drawReferenceCurve(
+    ctx: CanvasRenderingContext2D,
+    frequencyResponse: FrequencyResponse[],
+    width: number,
+    height: number,
+    freqRange: { min: number, max: number },
+    color: string,
+    dashed: boolean = false,
+    xOffset: number = 0,
+    yOffset: number = 0
+  ): void {
+    ctx.save();
+    ctx.setLineDash(dashed ? [6, 4] : []);
+    EQCurveRenderer.drawFrequencyResponse(
+      ctx,
+      frequencyResponse,
+      width,
+      height,
+      freqRange,
+      false,
+      1.5,
+      1,
+      true,
+      xOffset,
+      yOffset,
+      color
+    );
+    ctx.restore();
+  }
+
   /**
    * Draw a filled frequency response curve for a single band
    */
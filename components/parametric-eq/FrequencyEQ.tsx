@@ -2,24 +2,32 @@
 
 import { useRef, useEffect, useState, useCallback, useMemo } from "react"
 import { useDarkMode } from "@/lib/hooks/useDarkMode"
-import { EQBandWithUI, EQBandChannel } from "./types"
+import { EQBandWithUI, EQBandChannel, FrequencyResponse } from "./types"
 import { EQBandRenderer } from "./EQBandRenderer"
 import { EQCurveRenderer } from "./EQCurveRenderer"
 import { EQCoordinateUtils } from "./EQCoordinateUtils"
 import { useEQInteraction } from "./useEQInteraction"
 import { useEQProcessor, calculateBandResponse, calculateCombinedFrequencyResponse } from "./useEQProcessor"
 import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { useFrequencyResponseStore } from "@/lib/stores/frequencyResponseStore"
+import { compareCurves } from "@/lib/utils/frequencyResponse"
 import { EQBand } from "@/lib/models/EQBand"
+import { DEFAULT_FILTER_SLOPE, hasSlope, usesGain } from "@/lib/utils/filterStages"
 import { getReferenceCalibrationAudio } from '@/lib/audio/referenceCalibrationAudio';
+import { getEQProcessor } from '@/lib/audio/eqProcessor';
 
 interface FrequencyEQProps {
   profileId?: string
   disabled?: boolean
   className?: string
   activeChannel?: EQBandChannel
+  activeBandType?: BiquadFilterType
+  activeSlope?: number
   onInstructionChange?: (instruction: string) => void
   onRequestEnable?: () => void
   onActiveBandChange?: (band: { frequency: number; gain: number; q: number } | null) => void
+  onSelectedBandChange?: (bandId: string | null) => void
+  showReferenceCurves?: boolean // Draw the selected measurement and target
 }
 
 // Define a type for the audio processor
@@ -62,7 +70,7 @@ export function updateAudio(
   // Fixed frequency range outside component to be stable
 const freqRange = { min: 20, max: 20000 }
 
-export function FrequencyEQ({ profileId, disabled = false, className, activeChannel = 'both', onInstructionChange, onRequestEnable, onActiveBandChange }: FrequencyEQProps) {
+export function FrequencyEQ({ profileId, disabled = false, className, activeChannel = 'both', activeBandType = 'peaking', activeSlope = DEFAULT_FILTER_SLOPE, onInstructionChange, onRequestEnable, onActiveBandChange, onSelectedBandChange, showReferenceCurves = false }: FrequencyEQProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<CanvasWithMargin>(null)
   const backgroundCanvasRef = useRef<CanvasWithMargin>(null)
@@ -106,17 +114,16 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     
     // Ensure profile bands have IDs and add UI properties
     // Calculate exact frequency response using the Web Audio API's getFrequencyResponse method
-    const updatedBands: EQBandWithUI[] = profile.bands.map(band => ({
-      ...band,
-      isHovered: false,
-      type: 'peaking' as BiquadFilterType, // Default type for all bands
-      channel: band.channel ?? 'both',
-      frequencyResponse: calculateBandResponse({
-        ...band,
-        isHovered: false,
-        type: 'peaking' as BiquadFilterType,
-      })
-    }))
+    const updatedBands: EQBandWithUI[] = profile.bands.map(band => {
+      const type = band.type ?? 'peaking'
+      // Pass/notch filters ignore gain, so their handles sit on the 0 dB line
+      const uiBand = { ...band, type, gain: usesGain(type) ? band.gain : 0, isHovered: false }
+      return {
+        ...uiBand,
+        channel: band.channel ?? 'both',
+        frequencyResponse: calculateBandResponse(uiBand)
+      }
+    })
 
     setRenderableBands(updatedBands)
   }, [profile])
@@ -127,20 +134,41 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
   // Process EQ bands to get frequency response (combined, for the dimmer background curve)
   const { frequencyResponse } = useEQProcessor(renderableBands)
 
-  // Per-channel responses: left = both+left bands, right = both+right bands
-  const leftChannelResponse = useMemo(() => {
-    const bandsForLeft = renderableBands.filter(b => (b.channel ?? 'both') !== 'right')
-    return calculateCombinedFrequencyResponse(bandsForLeft)
-  }, [renderableBands])
-  const rightChannelResponse = useMemo(() => {
-    const bandsForRight = renderableBands.filter(b => (b.channel ?? 'both') !== 'left')
-    return calculateCombinedFrequencyResponse(bandsForRight)
-  }, [renderableBands])
-  const hasChannelSpecificBands = useMemo(
-    () => renderableBands.some(b => (b.channel ?? 'both') !== 'both'),
+  // Per-channel responses: each is the shared bands plus that channel's own
+  // (L/R and mid/side curves are drawn as separate pairs)
+  const channelResponse = useCallback(
+    (channel: EQBandChannel) => calculateCombinedFrequencyResponse(
+      renderableBands.filter(b => (b.channel ?? 'both') === 'both' || b.channel === channel)
+    ),
+    [renderableBands]
+  )
+  const leftChannelResponse = useMemo(() => channelResponse('left'), [channelResponse])
+  const rightChannelResponse = useMemo(() => channelResponse('right'), [channelResponse])
+  const midChannelResponse = useMemo(() => channelResponse('mid'), [channelResponse])
+  const sideChannelResponse = useMemo(() => channelResponse('side'), [channelResponse])
+  const hasLeftRightBands = useMemo(
+    () => renderableBands.some(b => b.channel === 'left' || b.channel === 'right'),
+    [renderableBands]
+  )
+  const hasMidSideBands = useMemo(
+    () => renderableBands.some(b => b.channel === 'mid' || b.channel === 'side'),
     [renderableBands]
   )
   
+  // Measurement, target and measurement + EQ, sampled onto one grid
+  const measurementId = useFrequencyResponseStore(s => s.measurementId)
+  const targetId = useFrequencyResponseStore(s => s.targetId)
+  const referenceCurves = useFrequencyResponseStore(s => s.curves)
+  const showCorrected = useFrequencyResponseStore(s => s.showCorrected)
+  const showDeviation = useFrequencyResponseStore(s => s.showDeviation)
+  const comparison = useMemo(() => {
+    if (!showReferenceCurves) return null
+    const measurement = measurementId ? referenceCurves[measurementId] ?? null : null
+    const target = targetId ? referenceCurves[targetId] ?? null : null
+    if (!measurement && !target) return null
+    return compareCurves(measurement, target, profile?.bands ?? [])
+  }, [showReferenceCurves, measurementId, targetId, referenceCurves, profile])
+
   // Handle band operations
   const handleBandAdd = useCallback((band: Omit<EQBandWithUI, 'id' | 'isHovered' | 'frequencyResponse'>) => {
     if (!profile) return
@@ -152,6 +180,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
       gain: band.gain,
       q: band.q,
       type: band.type || 'peaking', // Include type in the profile band
+      ...(hasSlope(band.type) ? { slope: band.slope ?? DEFAULT_FILTER_SLOPE } : {}),
       channel: band.channel ?? 'both',
     }
     
@@ -284,6 +313,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
       ...(updates.gain !== undefined ? { gain: updates.gain } : {}),
       ...(updates.q !== undefined ? { q: updates.q } : {}),
       ...(updates.type !== undefined ? { type: updates.type } : {}),
+      ...(updates.slope !== undefined ? { slope: updates.slope } : {}),
       ...(updates.channel !== undefined ? { channel: updates.channel } : {})
     }
     
@@ -299,7 +329,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
         const updatedBand = { ...newBands[index], ...updates }
         
         // Recalculate frequency response ONLY if parameters affecting response were changed
-        if (updates.frequency !== undefined || updates.gain !== undefined || updates.q !== undefined || updates.type !== undefined) {
+        if (updates.frequency !== undefined || updates.gain !== undefined || updates.q !== undefined || updates.type !== undefined || updates.slope !== undefined) {
           updatedBand.frequencyResponse = calculateBandResponse(updatedBand)
         }
         
@@ -333,6 +363,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
           ...(changes.gain !== undefined ? { gain: changes.gain } : {}),
           ...(changes.q !== undefined ? { q: changes.q } : {}),
           ...(changes.type !== undefined ? { type: changes.type } : {}),
+          ...(changes.slope !== undefined ? { slope: changes.slope } : {}),
           ...(changes.channel !== undefined ? { channel: changes.channel } : {}),
         }
       }
@@ -346,7 +377,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
         const idx = newBands.findIndex(b => b.id === id)
         if (idx !== -1) {
           const updatedBand = { ...newBands[idx], ...changes }
-          if (changes.frequency !== undefined || changes.gain !== undefined || changes.q !== undefined || changes.type !== undefined) {
+          if (changes.frequency !== undefined || changes.gain !== undefined || changes.q !== undefined || changes.type !== undefined || changes.slope !== undefined) {
             updatedBand.frequencyResponse = calculateBandResponse(updatedBand)
           }
           newBands[idx] = updatedBand
@@ -380,6 +411,8 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     bands: renderableBands,
     freqRange,
     activeChannel,
+    activeBandType,
+    activeSlope,
     onBandAdd: handleBandAdd,
     onBandUpdate: handleBandUpdate,
     onBandRemove: handleBandRemove,
@@ -520,7 +553,7 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     } else if (hoveredBandId && isShiftPressed) {
       onInstructionChange("Click to add to selection");
     } else if (hoveredBandId) {
-      onInstructionChange("Right click to delete • L/R/B to assign channel");
+      onInstructionChange("Right click to delete • L/R/B/M/D to assign channel • T/S to change type/slope");
     } else if (isShiftPressed) {
       onInstructionChange("Click a band to add to selection");
     } else {
@@ -544,6 +577,11 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     }
   }, [draggingBandId, hoveredBandId, renderableBands, onActiveBandChange])
 
+  // Report the clicked (selected) band, e.g. for editing its dynamics
+  useEffect(() => {
+    onSelectedBandChange?.(selectedBandId)
+  }, [selectedBandId, onSelectedBandChange])
+
   // Redraw background when theme changes
   useEffect(() => {
     backgroundDrawnRef.current = false;
@@ -708,6 +746,78 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     const innerWidth = rect.width - margin * 2;
     const innerHeight = rect.height - margin * 2;
 
+    // Live gain reduction of dynamic bands. Playback runs the flattened layer
+    // stack, where band ids carry their profile's id as a prefix.
+    const eq = getEQProcessor()
+    const gainReduction = (bandId: string) =>
+      eq.getGainReduction(bandId) || (profile ? eq.getGainReduction(`${profile.id}/${bandId}`) : 0)
+
+    // Reference curves sit under everything else
+    if (comparison) {
+      const toResponse = (gains: number[]): FrequencyResponse[] =>
+        comparison.frequencies.map((frequency, i) => ({ frequency, magnitude: gains[i] }))
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(margin, margin, innerWidth, innerHeight);
+      ctx.clip();
+
+      if (showDeviation && comparison.deviation) {
+        EQCurveRenderer.drawFilledFrequencyResponse(
+          ctx,
+          toResponse(comparison.deviation),
+          innerWidth,
+          innerHeight,
+          freqRange,
+          isDarkMode ? 'rgba(251, 113, 133, 1)' : 'rgba(225, 29, 72, 1)',
+          false,
+          margin,
+          margin
+        );
+      }
+      if (comparison.target) {
+        EQCurveRenderer.drawReferenceCurve(
+          ctx,
+          toResponse(comparison.target),
+          innerWidth,
+          innerHeight,
+          freqRange,
+          isDarkMode ? 'rgba(255, 255, 255, 0.55)' : 'rgba(0, 0, 0, 0.5)',
+          true,
+          margin,
+          margin
+        );
+      }
+      if (comparison.measurement) {
+        EQCurveRenderer.drawReferenceCurve(
+          ctx,
+          toResponse(comparison.measurement),
+          innerWidth,
+          innerHeight,
+          freqRange,
+          isDarkMode ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.25)',
+          false,
+          margin,
+          margin
+        );
+      }
+      if (showCorrected && comparison.corrected) {
+        EQCurveRenderer.drawReferenceCurve(
+          ctx,
+          toResponse(comparison.corrected),
+          innerWidth,
+          innerHeight,
+          freqRange,
+          isDarkMode ? 'rgba(251, 113, 133, 0.9)' : 'rgba(225, 29, 72, 0.85)',
+          false,
+          margin,
+          margin
+        );
+      }
+
+      ctx.restore();
+    }
+
     // Draw individual band responses
     renderableBands.forEach((band) => {
       // Consider a band "hovered" if it's the hovered band, dragged band, or in multi-selection
@@ -726,7 +836,8 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
         isBandDragging,
         isEnabled,
         margin,
-        margin
+        margin,
+        band.dynamics ? gainReduction(band.id) : 0
       );
 
       // Draw selection ring for multi-selected bands
@@ -760,43 +871,59 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
       ctx.rect(margin, margin, rect.width - margin * 2, rect.height - margin * 2);
       ctx.clip();
 
-      if (hasChannelSpecificBands) {
-        // Draw L and R curves separately with tinted colors
-        const leftColor = isEnabled
-          ? (isDarkMode ? 'rgba(100, 170, 255, 0.95)' : 'rgba(30, 100, 220, 0.95)')
-          : `rgba(128, 128, 128, 1.0)`;
-        const rightColor = isEnabled
-          ? (isDarkMode ? 'rgba(255, 130, 110, 0.95)' : 'rgba(200, 60, 40, 0.95)')
-          : `rgba(160, 160, 160, 1.0)`;
+      if (hasLeftRightBands || hasMidSideBands) {
+        // Draw each channel's curve separately with tinted colors: L blue,
+        // R red, mid amber, side violet
+        const curves: { response: typeof frequencyResponse; color: string }[] = []
+        if (hasLeftRightBands) {
+          curves.push(
+            {
+              response: leftChannelResponse,
+              color: isEnabled
+                ? (isDarkMode ? 'rgba(100, 170, 255, 0.95)' : 'rgba(30, 100, 220, 0.95)')
+                : `rgba(128, 128, 128, 1.0)`,
+            },
+            {
+              response: rightChannelResponse,
+              color: isEnabled
+                ? (isDarkMode ? 'rgba(255, 130, 110, 0.95)' : 'rgba(200, 60, 40, 0.95)')
+                : `rgba(160, 160, 160, 1.0)`,
+            }
+          )
+        }
+        if (hasMidSideBands) {
+          curves.push(
+            {
+              response: midChannelResponse,
+              color: isEnabled
+                ? (isDarkMode ? 'rgba(255, 200, 90, 0.95)' : 'rgba(190, 120, 0, 0.95)')
+                : `rgba(140, 140, 140, 1.0)`,
+            },
+            {
+              response: sideChannelResponse,
+              color: isEnabled
+                ? (isDarkMode ? 'rgba(190, 150, 255, 0.95)' : 'rgba(120, 60, 210, 0.95)')
+                : `rgba(170, 170, 170, 1.0)`,
+            }
+          )
+        }
 
-        EQCurveRenderer.drawFrequencyResponse(
-          ctx,
-          leftChannelResponse,
-          rect.width - margin * 2,
-          rect.height - margin * 2,
-          freqRange,
-          isDarkMode,
-          2.5,
-          1.0,
-          isEnabled,
-          margin,
-          margin,
-          leftColor
-        );
-        EQCurveRenderer.drawFrequencyResponse(
-          ctx,
-          rightChannelResponse,
-          rect.width - margin * 2,
-          rect.height - margin * 2,
-          freqRange,
-          isDarkMode,
-          2.5,
-          1.0,
-          isEnabled,
-          margin,
-          margin,
-          rightColor
-        );
+        for (const curve of curves) {
+          EQCurveRenderer.drawFrequencyResponse(
+            ctx,
+            curve.response,
+            rect.width - margin * 2,
+            rect.height - margin * 2,
+            freqRange,
+            isDarkMode,
+            2.5,
+            1.0,
+            isEnabled,
+            margin,
+            margin,
+            curve.color
+          );
+        }
       } else {
         // Single combined curve with the frequency gradient
         EQCurveRenderer.drawFrequencyResponse(
@@ -875,7 +1002,10 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     frequencyResponse,
     leftChannelResponse,
     rightChannelResponse,
-    hasChannelSpecificBands,
+    midChannelResponse,
+    sideChannelResponse,
+    hasLeftRightBands,
+    hasMidSideBands,
     disabled,
     isDarkMode,
     selectedBandId,
@@ -890,6 +1020,9 @@ export function FrequencyEQ({ profileId, disabled = false, className, activeChan
     selectedBandIds,
     isMarqueeActive,
     marqueeRect,
+    comparison,
+    showCorrected,
+    showDeviation,
   ]);
 
   // Set up both canvases with DPI scaling and store their contexts
@@ -3,12 +3,20 @@ import { throttle } from 'lodash';
 import { EQBandWithUI, EQBandChannel } from './types';
 import { EQCoordinateUtils } from './EQCoordinateUtils';
 import { getReferenceCalibrationAudio } from '@/lib/audio/referenceCalibrationAudio';
+import { FILTER_SLOPES, hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages';
+
+// Order the T key cycles through
+const BAND_TYPE_CYCLE: BiquadFilterType[] = [
+  'peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass', 'notch', 'bandpass', 'allpass',
+];
 
 interface UseEQInteractionProps {
   canvasRef: RefObject<HTMLCanvasElement | null>;
   bands: EQBandWithUI[];
   freqRange: { min: number; max: number };
   activeChannel: EQBandChannel;
+  activeBandType: BiquadFilterType;
+  activeSlope: number;
   onBandAdd: (band: Omit<EQBandWithUI, 'id' | 'isHovered' | 'frequencyResponse'>) => string | undefined;
   onBandUpdate: (id: string, updates: Partial<EQBandWithUI>) => void;
   onBandRemove: (id: string) => void;
@@ -32,6 +40,8 @@ export function useEQInteraction({
   bands,
   freqRange,
   activeChannel,
+  activeBandType,
+  activeSlope,
   onBandAdd,
   onBandUpdate,
   onBandRemove,
@@ -129,7 +139,8 @@ export function useEQInteraction({
     };
   }, []);
 
-  // Keyboard: L / R / B reassigns the hovered or selected band(s) to a channel
+  // Keyboard: L / R / B reassigns the hovered or selected band(s) to a channel,
+  // M / D to mid or side (D for difference, since S cycles the slope)
   useEffect(() => {
     const handleChannelKey = (e: KeyboardEvent) => {
       // Ignore when typing in an input / textarea / contentEditable
@@ -144,6 +155,8 @@ export function useEQInteraction({
       if (key === 'l') nextChannel = 'left';
       else if (key === 'r') nextChannel = 'right';
       else if (key === 'b') nextChannel = 'both';
+      else if (key === 'm') nextChannel = 'mid';
+      else if (key === 'd') nextChannel = 'side';
       if (!nextChannel) return;
 
       // Targets: selected bands if any, otherwise hovered band
@@ -169,6 +182,59 @@ export function useEQInteraction({
     return () => window.removeEventListener('keydown', handleChannelKey);
   }, [hoveredBandId, selectedBandIds, onBandUpdate, onMultiBandUpdate]);
 
+  // Keyboard: T cycles the filter type, S cycles the lowpass/highpass slope of
+  // the hovered or selected band(s)
+  useEffect(() => {
+    const handleTypeKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key !== 't' && key !== 's') return;
+
+      const targetIds = selectedBandIds.size > 0
+        ? [...selectedBandIds]
+        : hoveredBandId ? [hoveredBandId] : [];
+      const targets = bands.filter(b => targetIds.includes(b.id));
+      if (targets.length === 0) return;
+
+      const updates: Array<{ id: string; changes: Partial<EQBandWithUI> }> = [];
+      for (const band of targets) {
+        if (key === 't') {
+          const index = BAND_TYPE_CYCLE.indexOf(band.type);
+          const type = BAND_TYPE_CYCLE[(index + 1) % BAND_TYPE_CYCLE.length];
+          updates.push({
+            id: band.id,
+            changes: {
+              type,
+              ...(usesGain(type) ? {} : { gain: 0 }),
+              ...(hasSlope(type) ? { slope: normalizeSlope(band.slope) } : {}),
+            },
+          });
+        } else if (hasSlope(band.type)) {
+          const index = FILTER_SLOPES.indexOf(normalizeSlope(band.slope) as typeof FILTER_SLOPES[number]);
+          updates.push({ id: band.id, changes: { slope: FILTER_SLOPES[(index + 1) % FILTER_SLOPES.length] } });
+        }
+      }
+      if (updates.length === 0) return;
+
+      e.preventDefault();
+      if (updates.length > 1 && onMultiBandUpdate) {
+        onMultiBandUpdate(updates);
+      } else {
+        for (const { id, changes } of updates) {
+          onBandUpdate(id, changes);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleTypeKey);
+    return () => window.removeEventListener('keydown', handleTypeKey);
+  }, [bands, hoveredBandId, selectedBandIds, onBandUpdate, onMultiBandUpdate]);
+
   // Clear selection when bands array identity changes (profile switch)
   const bandsIdentityRef = useRef(bands);
   useEffect(() => {
@@ -315,7 +381,8 @@ export function useEQInteraction({
               if (snapshot) {
                 const newFreq = Math.max(20, Math.min(20000, Math.exp(Math.log(snapshot.frequency) + logFreqDelta)));
                 const newGain = Math.max(-24, Math.min(24, snapshot.gain + gainDelta));
-                updates.push({ id, changes: { frequency: newFreq, gain: newGain } });
+                const snapshotType = bands.find(b => b.id === id)?.type;
+                updates.push({ id, changes: { frequency: newFreq, gain: usesGain(snapshotType) ? newGain : 0 } });
               }
             }
             onMultiBandUpdate(updates);
@@ -352,7 +419,7 @@ export function useEQInteraction({
           }
           throttledBandUpdate(draggingBand, {
             frequency: clampedFrequency,
-            gain: clampedGain
+            gain: usesGain(bands.find(b => b.id === draggingBand)?.type) ? clampedGain : 0
           });
         }
       }
@@ -670,7 +737,8 @@ export function useEQInteraction({
             frequency: clampedFrequency,
             gain: 0,
             q: lastUsedQ,
-            type: 'peaking' as BiquadFilterType,
+            type: activeBandType,
+            ...(hasSlope(activeBandType) ? { slope: activeSlope } : {}),
             channel: activeChannel,
           };
 
@@ -729,7 +797,7 @@ export function useEQInteraction({
         update.cancel();
       }
     }
-  }, [activeChannel, bands, freqRange, hoveredBandId, draggingBand, onBandAdd, onBandRemove, onBandSelect, canvasRef, handleMouseMoveThrottled, throttledBandUpdate, lastUsedQ, SHOULD_UPDATE_CALIBRATION, isShiftPressed, selectedBandIds, onMultiBandRemove, snapshotSelectedBands]);
+  }, [activeChannel, activeBandType, activeSlope, bands, freqRange, hoveredBandId, draggingBand, onBandAdd, onBandRemove, onBandSelect, canvasRef, handleMouseMoveThrottled, throttledBandUpdate, lastUsedQ, SHOULD_UPDATE_CALIBRATION, isShiftPressed, selectedBandIds, onMultiBandRemove, snapshotSelectedBands]);
 
   // Cancel throttled functions on unmount
   useEffect(() => {
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
 import { EQBandWithUI, FrequencyResponse } from './types';
 import * as audioContext from '@/lib/audio/audioContext';
+import { configureBiquad, getBandStages } from '@/lib/utils/filterStages';
 
 // Higher resolution for frequency points
 const FREQUENCY_POINTS = 500; // Increased from 100 to 500 points
 
+// Lowest magnitude reported, so notch nulls and pass-filter stopbands stay finite
+const MIN_MAGNITUDE_DB = -120;
+
 /**
  * Hook for calculating frequency responses for EQ bands
  */
@@ -45,22 +49,24 @@ export function calculateBandResponse(band: EQBandWithUI): FrequencyResponse[] {
   // Get frequency points
   const frequencies = generateFrequencyPoints();
   
-  // Create a temporary filter to get exact frequency response
+  // Create a temporary filter per stage (steep lowpass/highpass bands are
+  // cascades) to get the exact frequency response
   const ctx = audioContext.getAudioContext();
-  const filter = ctx.createBiquadFilter();
-  
-  // Configure the filter with the band's parameters
-  filter.type = band.type;
-  filter.frequency.value = band.frequency;
-  filter.Q.value = band.q;
-  filter.gain.value = band.gain;
   
   // Arrays for the frequency response
-  const magResponse = new Float32Array(frequencies.length);
+  const magResponse = new Float32Array(frequencies.length).fill(1);
+  const stageResponse = new Float32Array(frequencies.length);
   const phaseResponse = new Float32Array(frequencies.length); // We don't use phase data
   
-  // Get exact frequency response
-  filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
+  // Get exact frequency response, multiplying the stages together
+  for (const stage of getBandStages(band)) {
+    const filter = ctx.createBiquadFilter();
+    configureBiquad(filter, stage);
+    filter.getFrequencyResponse(frequencies, stageResponse, phaseResponse);
+    for (let i = 0; i < frequencies.length; i++) {
+      magResponse[i] *= stageResponse[i];
+    }
+  }
   
   // Convert magnitude response to dB for consistency with the rest of the app
   const response: FrequencyResponse[] = [];
@@ -69,7 +75,7 @@ export function calculateBandResponse(band: EQBandWithUI): FrequencyResponse[] {
     // Convert linear magnitude to dB gain
     // Web Audio API returns linear magnitude, so we need to convert to dB
     const linearMagnitude = magResponse[i];
-    let dbGain = 0;
+    let dbGain = linearMagnitude > 0 ? 0 : MIN_MAGNITUDE_DB;
     
     if (linearMagnitude > 0) {
       // Convert magnitude to dB
@@ -98,7 +104,7 @@ export function calculateBandResponse(band: EQBandWithUI): FrequencyResponse[] {
     
     response.push({
       frequency: frequencies[i],
-      magnitude: dbGain
+      magnitude: Math.max(MIN_MAGNITUDE_DB, dbGain)
     });
   }
   
@@ -1,12 +1,13 @@
 "use client"
 
 import { useState, useEffect, useRef } from "react"
-import { Pause, Play, SkipBack, SkipForward, Volume2, VolumeX, Loader2 } from "lucide-react"
+import { Pause, Play, SkipBack, SkipForward, Volume2, VolumeX, Loader2, Shuffle, Repeat, Repeat1 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
 import { useToast } from "@/components/common/ToastManager"
 import { usePlayerStore, useTrackStore, useArtistStore, useAlbumStore } from "@/lib/stores"
 import { useEQProfileStore } from "@/lib/stores/eqProfileStore"
+import { getAudioRouting, type LimiterMeter as LimiterReading } from "@/lib/audio/audioRouting"
 import { cn } from "@/lib/utils"
 import * as fileStorage from "@/lib/storage/fileStorage"
 import Image from "next/image"
@@ -36,6 +37,50 @@ const EQIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+// Gain reduction shown at full scale
+const METER_RANGE_DB = 12
+// How long the clip light stays on after an over
+const CLIP_HOLD_MS = 2000
+
+// Limiter gain-reduction bar with a clip light that latches briefly
+const LimiterMeter = () => {
+  const [reading, setReading] = useState<LimiterReading | null>(null)
+  const [clipUntil, setClipUntil] = useState(0)
+
+  useEffect(() => {
+    return getAudioRouting().subscribeToLimiterMeter((meter) => {
+      setReading(meter)
+      if (meter.clipped) setClipUntil(Date.now() + CLIP_HOLD_MS)
+    })
+  }, [])
+
+  const reductionDb = reading?.gainReductionDb ?? 0
+  const isClipping = clipUntil > Date.now()
+  const fill = Math.min(1, reductionDb / METER_RANGE_DB)
+
+  return (
+    <div
+      className="flex items-center gap-1"
+      title={`Limiter: ${reductionDb > 0.05 ? `-${reductionDb.toFixed(1)} dB` : "no"} gain reduction${
+        reading && Number.isFinite(reading.peakDb) ? `, peak ${reading.peakDb.toFixed(1)} dBTP` : ""
+      }`}
+    >
+      <div className="relative h-1.5 w-8 rounded-full bg-muted overflow-hidden">
+        <div
+          className="absolute right-0 top-0 h-full bg-amber-400 transition-[width] duration-75"
+          style={{ width: `${fill * 100}%` }}
+        />
+      </div>
+      <div
+        className={cn(
+          "h-1.5 w-1.5 rounded-full transition-colors",
+          isClipping ? "bg-red-500" : "bg-muted"
+        )}
+      />
+    </div>
+  )
+}
+
 export function PlayerBar() {
   const { showToast } = useToast()
   
@@ -50,16 +95,20 @@ export function PlayerBar() {
     loadingState,
     loadingProgress,
     error,
-    setCurrentTrack,
+    shuffle,
+    repeatMode,
     setIsPlaying,
     setVolume,
     setIsMuted,
-    seekTo
+    seekTo,
+    nextTrack,
+    previousTrack,
+    setShuffle,
+    cycleRepeatMode
   } = usePlayerStore()
   
   // Get track information from the track store
   const getTrackById = useTrackStore(state => state.getTrackById)
-  const getTracks = useTrackStore(state => state.getTracks)
   const currentTrack = currentTrackId ? getTrackById(currentTrackId) : null
   
   // Get artist and album info
@@ -152,39 +201,23 @@ export function PlayerBar() {
   }
 
   const handleSkipForward = () => {
-    // Get all tracks
-    const allTracks = getTracks()
+    // If no current track, do nothing
+    if (!currentTrackId) return
     
-    // If no tracks or no current track, do nothing
-    if (!allTracks.length || !currentTrackId) return
-    
-    // Find the index of the current track
-    const currentIndex = allTracks.findIndex(track => track.id === currentTrackId)
-    
-    // Get the next track index, looping back to 0 if at the end
-    const nextIndex = (currentIndex + 1) % allTracks.length
-    
-    // Play the next track
-    const nextTrack = allTracks[nextIndex]
-    setCurrentTrack(nextTrack.id)
+    // Advance through the play queue (honours shuffle and repeat)
+    nextTrack()
   }
 
   const handleSkipBack = () => {
-    // Get all tracks
-    const allTracks = getTracks()
-    
-    // If no tracks or no current track, do nothing
-    if (!allTracks.length || !currentTrackId) return
-    
-    // Find the index of the current track
-    const currentIndex = allTracks.findIndex(track => track.id === currentTrackId)
+    // If no current track, do nothing
+    if (!currentTrackId) return
     
-    // Get the previous track index, looping back to the end if at the beginning
-    const prevIndex = (currentIndex - 1 + allTracks.length) % allTracks.length
-    
-    // Play the previous track
-    const prevTrack = allTracks[prevIndex]
-    setCurrentTrack(prevTrack.id)
+    // Restart the track, or go back to the previous one in the queue
+    previousTrack()
+  }
+
+  const toggleShuffle = () => {
+    setShuffle(!shuffle)
   }
 
   const toggleMute = () => {
@@ -335,6 +368,15 @@ export function PlayerBar() {
 
         <div className="flex-1 flex flex-col items-center gap-1">
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-8 w-8", shuffle && "text-electric-blue")}
+              onClick={toggleShuffle}
+              title={shuffle ? "Shuffle on" : "Shuffle off"}
+            >
+              <Shuffle className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleSkipBack}>
               <SkipBack className="h-4 w-4" />
             </Button>
@@ -344,6 +386,15 @@ export function PlayerBar() {
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleSkipForward}>
               <SkipForward className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-8 w-8", repeatMode !== 'off' && "text-electric-blue")}
+              onClick={cycleRepeatMode}
+              title={repeatMode === 'one' ? "Repeat one" : repeatMode === 'all' ? "Repeat all" : "Repeat off"}
+            >
+              {repeatMode === 'one' ? <Repeat1 className="h-4 w-4" /> : <Repeat className="h-4 w-4" />}
+            </Button>
           </div>
 
           <div className="flex items-center gap-2 w-full max-w-md">
@@ -363,6 +414,7 @@ export function PlayerBar() {
         </div>
 
         <div className="flex items-center gap-2 w-[20%] min-w-[120px] justify-end">
+          <LimiterMeter />
           <Button 
             variant="ghost" 
             size="icon" 
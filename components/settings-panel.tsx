@@ -3,7 +3,37 @@
 import { useState, useEffect, useRef, type ReactNode } from "react"
 import { createPortal } from "react-dom"
 import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
 import { cn } from "@/lib/utils"
+import { useEQProfileStore, useOutputStore, usePlayerStore } from "@/lib/stores"
+import { listProfiles } from "@/lib/stores/eqProfileStore"
+import { findDeviceBinding } from "@/lib/stores/outputStore"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  MAX_CROSSFADE_SECONDS,
+  MAX_REFERENCE_PHON,
+  MAX_TARGET_LUFS,
+  MIN_REFERENCE_PHON,
+  MIN_TARGET_LUFS,
+  type NormalizationMode,
+} from "@/lib/stores/playerStore"
+
+const NORMALIZATION_OPTIONS: { id: NormalizationMode; label: string }[] = [
+  { id: "off", label: "Off" },
+  { id: "track", label: "Track" },
+  { id: "album", label: "Album" },
+]
+
+// Radix Select items can't have an empty value, so the system default gets its own
+const SYSTEM_DEFAULT_OUTPUT = "system-default"
+// ...as does "no profile bound to this device"
+const NO_DEVICE_PROFILE = "none"
 
 // ---------------------------------------------------------------------------
 // Instant tooltip — no hover delay, positioned above the trigger
@@ -103,6 +133,47 @@ export function SettingsPanel({
   const [mounted, setMounted] = useState(false)
   useEffect(() => setMounted(true), [])
 
+  // Track transitions live in the player store
+  const crossfadeSeconds = usePlayerStore(state => state.crossfadeSeconds)
+  const setCrossfadeSeconds = usePlayerStore(state => state.setCrossfadeSeconds)
+  const gaplessAlbums = usePlayerStore(state => state.gaplessAlbums)
+  const setGaplessAlbums = usePlayerStore(state => state.setGaplessAlbums)
+
+  // Loudness normalization also lives in the player store
+  const normalizationMode = usePlayerStore(state => state.normalizationMode)
+  const setNormalizationMode = usePlayerStore(state => state.setNormalizationMode)
+  const targetLufs = usePlayerStore(state => state.targetLufs)
+  const setTargetLufs = usePlayerStore(state => state.setTargetLufs)
+
+  // Loudness compensation follows the player volume
+  const loudnessCompensation = usePlayerStore(state => state.loudnessCompensation)
+  const setLoudnessCompensation = usePlayerStore(state => state.setLoudnessCompensation)
+  const referencePhon = usePlayerStore(state => state.referencePhon)
+  const setReferencePhon = usePlayerStore(state => state.setReferencePhon)
+
+  // EQ engine lives in the EQ profile store
+  const eqEngine = useEQProfileStore(state => state.eqEngine)
+  const setEQEngine = useEQProfileStore(state => state.setEQEngine)
+
+  // Master bus protection
+  const limiterEnabled = useOutputStore(state => state.limiterEnabled)
+  const setLimiterEnabled = useOutputStore(state => state.setLimiterEnabled)
+  const fixedHeadroom = useOutputStore(state => state.fixedHeadroom)
+  const setFixedHeadroom = useOutputStore(state => state.setFixedHeadroom)
+
+  // Output device and the EQ profile bound to it
+  const outputDevices = useOutputStore(state => state.outputDevices)
+  const currentDevice = useOutputStore(state => state.currentDevice)
+  const outputDeviceId = useOutputStore(state => state.outputDeviceId)
+  const setOutputDeviceId = useOutputStore(state => state.setOutputDeviceId)
+  const deviceProfiles = useOutputStore(state => state.deviceProfiles)
+  const setDeviceProfile = useOutputStore(state => state.setDeviceProfile)
+  const profiles = useEQProfileStore(state => state.profiles)
+  const boundProfileId = currentDevice ? findDeviceBinding(deviceProfiles, currentDevice)?.profileId ?? null : null
+  const selectedOutput = outputDevices.some(device => device.deviceId === outputDeviceId)
+    ? outputDeviceId
+    : SYSTEM_DEFAULT_OUTPUT
+
   const content = (
     <div className={cn(
       "fixed right-4 top-1/2 z-50 -translate-y-1/2 transition-opacity duration-500 pointer-events-none",
@@ -147,6 +218,170 @@ export function SettingsPanel({
                 </div>
                 <span className="text-[10px] dark:text-white/70 text-black/70 tabular-nums">{volumePercent.toFixed(0)}%</span>
               </div>
+
+              {/* Crossfade slider */}
+              <div className="flex flex-col items-center gap-2">
+                <Tip text="Crossfade between tracks; at 0 tracks play back to back with no gap">
+                  <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">XF</span>
+                </Tip>
+                <div className="h-28">
+                  <Slider
+                    orientation="vertical"
+                    value={[crossfadeSeconds]}
+                    min={0}
+                    max={MAX_CROSSFADE_SECONDS}
+                    step={0.5}
+                    onValueChange={(v) => setCrossfadeSeconds(v[0])}
+                  />
+                </div>
+                <span className="text-[10px] dark:text-white/70 text-black/70 tabular-nums">
+                  {crossfadeSeconds === 0 ? "Off" : `${crossfadeSeconds.toFixed(1)}s`}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Play consecutive tracks from the same album gaplessly, even when crossfade is on">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Gapless albums</span>
+              </Tip>
+              <Switch checked={gaplessAlbums} onCheckedChange={setGaplessAlbums} />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Play every track (or album, keeping its internal dynamics) at the same loudness, measured per EBU R128">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Normalize</span>
+              </Tip>
+              <div className="flex items-center gap-1">
+                {NORMALIZATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setNormalizationMode(option.id)}
+                    className={cn(
+                      "px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors",
+                      normalizationMode === option.id
+                        ? "dark:bg-white/15 bg-black/10 dark:text-white/90 text-black/80"
+                        : "dark:text-white/40 text-black/40 dark:hover:text-white/70 hover:text-black/70"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={cn("flex items-center justify-between gap-3", normalizationMode === "off" && "opacity-40")}>
+              <Tip text="Loudness tracks are normalized to; gain is held back where it would push peaks over 0 dBTP">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Target</span>
+              </Tip>
+              <div className="flex items-center gap-2">
+                <div className="w-24">
+                  <Slider
+                    value={[targetLufs]}
+                    min={MIN_TARGET_LUFS}
+                    max={MAX_TARGET_LUFS}
+                    step={1}
+                    disabled={normalizationMode === "off"}
+                    onValueChange={(v) => setTargetLufs(v[0])}
+                  />
+                </div>
+                <span className="text-[10px] dark:text-white/70 text-black/70 tabular-nums w-14 text-right">
+                  {targetLufs} LUFS
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Restore bass and treble lost to the ear at lower volumes (ISO 226 equal-loudness contours)">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Loudness comp</span>
+              </Tip>
+              <Switch checked={loudnessCompensation} onCheckedChange={setLoudnessCompensation} />
+            </div>
+            <div className={cn("flex items-center justify-between gap-3", !loudnessCompensation && "opacity-40")}>
+              <Tip text="How loud playback is at full volume; below this level the tonal balance is compensated">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Reference</span>
+              </Tip>
+              <div className="flex items-center gap-2">
+                <div className="w-24">
+                  <Slider
+                    value={[referencePhon]}
+                    min={MIN_REFERENCE_PHON}
+                    max={MAX_REFERENCE_PHON}
+                    step={1}
+                    disabled={!loudnessCompensation}
+                    onValueChange={(v) => setReferencePhon(v[0])}
+                  />
+                </div>
+                <span className="text-[10px] dark:text-white/70 text-black/70 tabular-nums w-14 text-right">
+                  {referencePhon} phon
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Linear-phase FIR EQ: same response without phase shift, but adds ~170 ms of latency">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Linear phase EQ</span>
+              </Tip>
+              <Switch
+                checked={eqEngine === "linear-phase"}
+                onCheckedChange={(checked) => setEQEngine(checked ? "linear-phase" : "biquad")}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Where audio plays; a device that's unplugged hands over to the system default until it's back">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Output</span>
+              </Tip>
+              <Select
+                value={selectedOutput}
+                onValueChange={(value) => setOutputDeviceId(value === SYSTEM_DEFAULT_OUTPUT ? "" : value)}
+              >
+                <SelectTrigger className="h-7 w-40 px-2 text-[11px] dark:border-white/10 border-black/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SYSTEM_DEFAULT_OUTPUT} className="text-[12px]">System default</SelectItem>
+                  {outputDevices.map((device, i) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId} className="text-[12px]">
+                      {device.label || `Output ${i + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className={cn("flex items-center justify-between gap-3", !currentDevice && "opacity-40")}>
+              <Tip text="EQ profile that switches on whenever audio plays on this device, e.g. one calibration for headphones and one for speakers">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Device EQ</span>
+              </Tip>
+              <Select
+                value={boundProfileId && profiles[boundProfileId] ? boundProfileId : NO_DEVICE_PROFILE}
+                disabled={!currentDevice}
+                onValueChange={(value) =>
+                  currentDevice && setDeviceProfile(currentDevice, value === NO_DEVICE_PROFILE ? null : value)
+                }
+              >
+                <SelectTrigger className="h-7 w-40 px-2 text-[11px] dark:border-white/10 border-black/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEVICE_PROFILE} className="text-[12px]">None</SelectItem>
+                  {listProfiles(profiles).map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id} className="text-[12px]">
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="True-peak limiter on the output: catches overs (including inter-sample peaks) at -1 dBTP">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">Limiter</span>
+              </Tip>
+              <Switch checked={limiterEnabled} onCheckedChange={setLimiterEnabled} />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Tip text="Fixed -6 dB safety margin on the output; can be turned off while the limiter is on">
+                <span className="text-[10px] dark:text-white/50 text-black/50 uppercase tracking-wider">-6 dB headroom</span>
+              </Tip>
+              <Switch
+                checked={fixedHeadroom || !limiterEnabled}
+                disabled={!limiterEnabled}
+                onCheckedChange={setFixedHeadroom}
+              />
             </div>
           </div>
         </div>
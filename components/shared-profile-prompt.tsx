@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ExportCurvePreview } from "@/components/export-curve-preview"
+import { useToast } from "@/components/common/ToastManager"
+import { useEQProfileStore, listProfiles } from "@/lib/stores/eqProfileStore"
+import { decodeSharedProfile, EQShareError, SHARE_PARAM, type SharedProfile } from "@/lib/utils/eqShare"
+
+// Radix Select items can't have an empty value
+const NEW_PROFILE = "new"
+
+// Drop the share parameter so a reload doesn't prompt again
+function clearShareParam() {
+  const url = new URL(window.location.href)
+  url.searchParams.delete(SHARE_PARAM)
+  window.history.replaceState(window.history.state, "", url.pathname + url.search + url.hash)
+}
+
+// Opened by a share link (`/?eq=…`): preview the shared curve and import it
+// as a new profile or over an existing one
+export function SharedProfilePrompt() {
+  const { showToast } = useToast()
+  const profiles = useEQProfileStore((s) => s.profiles)
+  const isLoading = useEQProfileStore((s) => s.isLoading)
+  const createProfile = useEQProfileStore((s) => s.createProfile)
+  const updateProfile = useEQProfileStore((s) => s.updateProfile)
+  const setActiveProfile = useEQProfileStore((s) => s.setActiveProfile)
+
+  const [shared, setShared] = useState<SharedProfile | null>(null)
+  const [targetId, setTargetId] = useState<string>(NEW_PROFILE)
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get(SHARE_PARAM)
+    if (code === null) return
+    clearShareParam()
+    try {
+      setShared(decodeSharedProfile(code))
+    } catch (error) {
+      showToast({
+        message: error instanceof EQShareError ? error.message : "Failed to read the shared profile",
+        variant: "error",
+      })
+    }
+  }, [showToast])
+
+  const handleImport = () => {
+    if (!shared) return
+    const curve = { bands: shared.bands, volume: shared.volume }
+    let profileId = targetId
+    if (profileId === NEW_PROFILE) {
+      profileId = createProfile(shared.name, curve)
+    } else {
+      updateProfile(profileId, curve)
+    }
+    setActiveProfile(profileId)
+    showToast({
+      message: `Imported ${shared.bands.length} bands into ${useEQProfileStore.getState().profiles[profileId]?.name}`,
+      variant: "success",
+    })
+    setShared(null)
+  }
+
+  return (
+    <Dialog open={!!shared} onOpenChange={(open) => !open && setShared(null)}>
+      <DialogContent className="max-w-md z-[70]">
+        <DialogHeader>
+          <DialogTitle>Import shared profile</DialogTitle>
+          <DialogDescription>
+            {shared?.name || "Untitled"} · {shared?.bands.length ?? 0} bands
+            {shared && shared.volume !== 0 && ` · ${shared.volume > 0 ? "+" : ""}${shared.volume.toFixed(1)} dB`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <ExportCurvePreview bands={shared?.bands ?? []} className="h-[140px] w-full rounded-lg overflow-hidden" />
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-[12px] text-muted-foreground">Import into</span>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger className="h-8 w-52 px-2 text-[12px] dark:border-white/10 border-black/10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[80]">
+                <SelectItem value={NEW_PROFILE} className="text-[12px]">New profile</SelectItem>
+                {listProfiles(profiles).map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id} className="text-[12px]">
+                    Replace {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShared(null)}
+              className="px-3 py-1.5 rounded-md text-[12px] font-medium dark:text-white/60 text-black/60 dark:hover:text-white/90 hover:text-black/90 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isLoading}
+              className="px-3 py-1.5 rounded-md text-[12px] font-medium bg-teal-500/90 hover:bg-teal-500 text-white transition-colors disabled:opacity-40"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,93 @@
+import * as apiClient from '../apiClient';
+import { Playlist } from '../../models/Playlist';
+
+// API endpoints
+const PLAYLISTS_ENDPOINT = '/playlists';
+
+// Interface for playlist response from API
+interface PlaylistResponse {
+  id: string;
+  name: string;
+  trackIds: string[];
+  lastModified: number;
+}
+
+// Check if a playlist exists on the server
+export const checkPlaylistExists = async (playlistId: string): Promise<boolean> => {
+  try {
+    await apiClient.get<PlaylistResponse>(`${PLAYLISTS_ENDPOINT}/${playlistId}`);
+    return true;
+  } catch (error) {
+    if (error instanceof apiClient.ApiError && error.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Get a playlist by ID
+export const getPlaylist = async (playlistId: string): Promise<Playlist> => {
+  const response = await apiClient.get<PlaylistResponse>(`${PLAYLISTS_ENDPOINT}/${playlistId}`);
+  
+  return {
+    ...response,
+    syncStatus: 'synced'
+  };
+};
+
+// Get all playlists
+export const getAllPlaylists = async (): Promise<Playlist[]> => {
+  const response = await apiClient.get<PlaylistResponse[]>(PLAYLISTS_ENDPOINT);
+  
+  return response.map(playlist => ({
+    ...playlist,
+    syncStatus: 'synced'
+  }));
+};
+
+// Get playlists updated since a specific time
+export const getPlaylistsUpdatedSince = async (timestamp: number): Promise<Playlist[]> => {
+  const response = await apiClient.get<PlaylistResponse[]>(
+    `${PLAYLISTS_ENDPOINT}?updatedSince=${timestamp}`
+  );
+  
+  return response.map(playlist => ({
+    ...playlist,
+    syncStatus: 'synced'
+  }));
+};
+
+// Create a new playlist
+export const createPlaylist = async (playlist: Playlist): Promise<Playlist> => {
+  const response = await apiClient.post<PlaylistResponse>(PLAYLISTS_ENDPOINT, {
+    id: playlist.id,
+    name: playlist.name,
+    trackIds: playlist.trackIds
+  });
+  
+  return {
+    ...response,
+    syncStatus: 'synced'
+  };
+};
+
+// Update an existing playlist
+export const updatePlaylist = async (playlist: Playlist): Promise<Playlist> => {
+  const response = await apiClient.put<PlaylistResponse>(
+    `${PLAYLISTS_ENDPOINT}/${playlist.id}`,
+    {
+      name: playlist.name,
+      trackIds: playlist.trackIds
+    }
+  );
+  
+  return {
+    ...response,
+    syncStatus: 'synced'
+  };
+};
+
+// Delete a playlist
+export const deletePlaylist = async (playlistId: string): Promise<void> => {
+  await apiClient.del(`${PLAYLISTS_ENDPOINT}/${playlistId}`);
+};
@@ -79,4 +79,8 @@ export const decodeAudioData = async (audioData: ArrayBuffer): Promise<AudioBuff
 // Get the current time of the AudioContext (used for scheduling)
 export const getCurrentTime = (): number => {
   return getAudioContext().currentTime;
-}; 
\ No newline at end of file
+}; 
+// Create a source node that streams from an <audio> element
+export const createMediaElementSource = (element: HTMLMediaElement): MediaElementAudioSourceNode => {
+  return getAudioContext().createMediaElementSource(element);
+};
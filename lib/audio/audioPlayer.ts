@@ -1,25 +1,85 @@
 import * as audioContext from './audioContext';
 import * as eqProcessor from './eqProcessor';
 import * as fileStorage from '../storage/fileStorage';
-import { useEQProfileStore } from '../stores';
-import { clamp } from '../utils/audioMath';
+import { LoudnessCompensation } from './loudnessCompensation';
+import { useABXStore, useEQProfileStore } from '../stores';
+import { clamp, dbToGain } from '../utils/audioMath';
 
 // Define callback types
 type ProgressCallback = (progress: number) => void;
 type CompletionCallback = (success: boolean, duration?: number, error?: string) => void;
+type TrackChangeCallback = (storageKey: string, duration: number) => void;
+
+// Don't schedule a hand-off closer than this to "now" — too late to be sample-accurate
+const MIN_SCHEDULE_LEAD = 0.05; // 50ms
+// Resolution of the equal-power crossfade curves
+const CROSSFADE_CURVE_POINTS = 64;
+// Ramp for loudness normalization changes on the playing track
+const TRACK_GAIN_TRANSITION = 0.05; // 50ms
+// Ramp back to full level when a scheduled crossfade is called off mid-fade
+const FADE_CANCEL_TRANSITION = 0.01; // 10ms
+
+// Files this large or long are streamed through an <audio> element instead of
+// being fully decoded (an hour of decoded stereo PCM is over 1 GB)
+const STREAMING_MIN_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+const STREAMING_MIN_DURATION = 20 * 60; // 20 minutes
+
+export const shouldStream = (fileSize: number, durationHint?: number): boolean => {
+  return fileSize >= STREAMING_MIN_FILE_SIZE || (durationHint ?? 0) >= STREAMING_MIN_DURATION;
+};
+
+// Equal-power fade curve (cos for fade-out, sin for fade-in)
+const buildFadeCurve = (fadeIn: boolean): Float32Array => {
+  const curve = new Float32Array(CROSSFADE_CURVE_POINTS);
+  for (let i = 0; i < CROSSFADE_CURVE_POINTS; i++) {
+    const t = i / (CROSSFADE_CURVE_POINTS - 1);
+    curve[i] = fadeIn ? Math.sin(t * Math.PI / 2) : Math.cos(t * Math.PI / 2);
+  }
+  return curve;
+};
 
 // Class to manage audio playback
 class AudioPlayer {
   private audioBuffer: AudioBuffer | null = null;
   private sourceNode: AudioBufferSourceNode | null = null;
+  private voiceGainNode: GainNode | null = null; // Per-source gain, used for crossfades
+  private trackGainNode: GainNode | null = null; // Per-source loudness normalization
+  private trackGainDb: number = 0;
   private gainNode: GainNode | null = null;
   private distortionGainNode: GainNode | null = null;
+  private loudnessCompensation: LoudnessCompensation | null = null;
   private startTime: number = 0;
   private pausedTime: number = 0;
   private isPlaying: boolean = false;
   private progressInterval: number | null = null;
   private timeUpdateCallback: ((time: number) => void) | null = null;
   private trackEndCallback: (() => void) | null = null; // New callback for track end events
+  private trackChangeCallback: TrackChangeCallback | null = null; // Fired on gapless/crossfade hand-off
+
+  // Upcoming track, decoded ahead of time so it can start without a gap
+  private nextStorageKey: string | null = null;
+  private nextBuffer: AudioBuffer | null = null;
+  private nextCrossfadeSeconds: number = 0;
+  private nextSourceNode: AudioBufferSourceNode | null = null;
+  private nextVoiceGainNode: GainNode | null = null;
+  private nextTrackGainNode: GainNode | null = null;
+  private nextTrackGainDb: number = 0;
+  private nextStartTime: number = 0;
+  private handoffTimer: number | null = null;
+  private preloadToken: number = 0;
+  // Previous tracks still fading out after a crossfade hand-off
+  private fadingSources: AudioBufferSourceNode[] = [];
+
+  // Streaming path for long files. The element and its source node are created
+  // once — a media element can only ever be attached to one source node.
+  private isStreaming: boolean = false;
+  private streamElement: HTMLAudioElement | null = null;
+  private streamSourceNode: MediaElementAudioSourceNode | null = null;
+  private streamTrackGainNode: GainNode | null = null;
+  private streamUrl: string | null = null;
+  private streamDuration: number = 0;
+  // Bumped by every loadTrack/stop; a load that finishes after that is dropped
+  private loadToken: number = 0;
   
   constructor() {
     this.initialize();
@@ -36,27 +96,34 @@ class AudioPlayer {
       this.distortionGainNode = audioContext.createGain();
       this.distortionGainNode.gain.value = 1.0; // Default to no reduction
       
+      // Equal-loudness compensation for the volume setting (flat until enabled)
+      this.loudnessCompensation = new LoudnessCompensation(audioContext.getAudioContext());
+      
       // Get the EQ processor and connect through it
       const eq = eqProcessor.getEQProcessor();
       
-      // Connect nodes: gainNode -> distortionGainNode -> EQ
+      // Connect nodes: gainNode -> distortionGainNode -> loudness compensation -> EQ
       // (EQ output → analyser → headroom → destination is handled by audioRouting)
       this.gainNode.connect(this.distortionGainNode!);
-      this.distortionGainNode!.connect(eq.getInputNode());
+      this.distortionGainNode!.connect(this.loudnessCompensation.getInput());
+      this.loudnessCompensation.getOutput().connect(eq.getInputNode());
       
       // Set up progress tracking
       this.setupProgressTracking();
       
-      // Apply initial distortion gain from store (only when EQ is on)
-      const { distortionGain, isEQEnabled } = useEQProfileStore.getState();
-      this.setDistortionGain(isEQEnabled ? distortionGain : 1.0);
-
-      // Subscribe to distortion gain / EQ enabled changes
-      useEQProfileStore.subscribe(
-        (state) => {
-          this.setDistortionGain(state.isEQEnabled ? state.distortionGain : 1.0);
-        }
-      );
+      // Apply initial distortion gain from store (only when EQ is on). An ABX
+      // comparison sets its own levels inside the EQ processor, so it's
+      // bypassed while one runs.
+      const syncDistortionGain = () => {
+        const { distortionGain, isEQEnabled } = useEQProfileStore.getState();
+        const isComparing = useABXStore.getState().isActive;
+        this.setDistortionGain(isEQEnabled && !isComparing ? distortionGain : 1.0);
+      };
+      syncDistortionGain();
+
+      // Subscribe to distortion gain / EQ enabled / comparison changes
+      useEQProfileStore.subscribe(syncDistortionGain);
+      useABXStore.subscribe(syncDistortionGain);
       
     } catch (error) {
       console.error('🎵 Error during AudioPlayer initialization:', error);
@@ -83,6 +150,12 @@ class AudioPlayer {
     );
   }
   
+  // Compensate for listening at `listeningPhon` instead of the `referencePhon`
+  // the music is balanced for; null makes the stage flat
+  public setLoudnessCompensation(listeningPhon: number | null, referencePhon: number): void {
+    this.loudnessCompensation?.update(listeningPhon, referencePhon);
+  }
+  
   // Get the distortion gain node for external routing
   public getDistortionGainNode(): GainNode | null {
     return this.distortionGainNode;
@@ -99,8 +172,9 @@ class AudioPlayer {
     // Update current time every 100ms during playback
     this.progressInterval = window.setInterval(() => {
       if (this.isPlaying && this.timeUpdateCallback) {
-        const currentTime = this.getCurrentTime();
-        this.timeUpdateCallback(currentTime);
+        // Report what's being heard: a linear-phase EQ delays the output
+        const latency = eqProcessor.getEQProcessor().getLatency();
+        this.timeUpdateCallback(Math.max(0, this.getCurrentTime() - latency));
       }
     }, 100);
   }
@@ -120,15 +194,334 @@ class AudioPlayer {
     this.trackEndCallback = callback;
   }
   
-  // Load a track by storage key
+  // Set a callback for when playback hands off to the pre-decoded next track
+  public setTrackChangeCallback(callback: TrackChangeCallback): void {
+    this.trackChangeCallback = callback;
+  }
+  
+  // Tell the player which track follows the current one. It is decoded in the
+  // background and started sample-accurately at the end of the current track,
+  // or crossfaded over `crossfadeSeconds` when that is > 0. `trackGainDb` is
+  // its loudness normalization gain.
+  public setNextTrack(
+    storageKey: string | null,
+    crossfadeSeconds: number = 0,
+    durationHint?: number,
+    trackGainDb: number = 0
+  ): void {
+    const crossfade = Math.max(0, crossfadeSeconds);
+    
+    if (storageKey === this.nextStorageKey) {
+      if (trackGainDb !== this.nextTrackGainDb) {
+        this.nextTrackGainDb = trackGainDb;
+        if (this.nextTrackGainNode) this.nextTrackGainNode.gain.value = dbToGain(trackGainDb);
+      }
+      // Same track — only reschedule if the crossfade length changed
+      if (crossfade !== this.nextCrossfadeSeconds) {
+        this.cancelScheduledNext();
+        this.nextCrossfadeSeconds = crossfade;
+        this.scheduleNext();
+      }
+      return;
+    }
+    
+    this.cancelScheduledNext();
+    this.nextStorageKey = storageKey;
+    this.nextBuffer = null;
+    this.nextCrossfadeSeconds = crossfade;
+    this.nextTrackGainDb = trackGainDb;
+    
+    if (!storageKey) {
+      return;
+    }
+    
+    // Ignore results from superseded preloads
+    const token = ++this.preloadToken;
+    this.decodeFromStorage(storageKey, durationHint)
+      .then((buffer) => {
+        if (token !== this.preloadToken || !buffer) return;
+        this.nextBuffer = buffer;
+        this.scheduleNext();
+      })
+      .catch((error) => {
+        console.error('🎵 Error preloading next track:', error);
+      });
+  }
+  
+  // Read and decode a stored audio file. Files that will be streamed are not
+  // pre-decoded; they start through the normal end-of-track path instead.
+  private async decodeFromStorage(storageKey: string, durationHint?: number): Promise<AudioBuffer | null> {
+    const audioFile = await fileStorage.getAudioFile(storageKey);
+    if (!audioFile || shouldStream(audioFile.size, durationHint)) return null;
+    const arrayBuffer = await audioFile.arrayBuffer();
+    return audioContext.decodeAudioData(arrayBuffer);
+  }
+  
+  // Create a source with its own normalization and crossfade gain stages
+  // feeding the shared volume/EQ chain
+  private createVoice(
+    buffer: AudioBuffer,
+    trackGainDb: number
+  ): { source: AudioBufferSourceNode; voiceGain: GainNode; trackGain: GainNode } {
+    const trackGain = audioContext.createGain();
+    trackGain.gain.value = dbToGain(trackGainDb);
+    trackGain.connect(this.gainNode!);
+    const voiceGain = audioContext.createGain();
+    voiceGain.connect(trackGain);
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(voiceGain);
+    return { source, voiceGain, trackGain };
+  }
+  
+  // Schedule the pre-decoded next track against the audio clock
+  private scheduleNext(): void {
+    if (!this.isPlaying || !this.audioBuffer || !this.nextBuffer || this.nextSourceNode) {
+      return;
+    }
+    
+    const now = audioContext.getCurrentTime();
+    const endAt = this.startTime + this.audioBuffer.duration;
+    const fade = Math.min(
+      this.nextCrossfadeSeconds,
+      this.audioBuffer.duration / 2,
+      this.nextBuffer.duration / 2
+    );
+    const transitionAt = endAt - fade;
+    
+    if (transitionAt < now + MIN_SCHEDULE_LEAD) {
+      // Too late to hand off cleanly — the normal end-of-track path takes over
+      return;
+    }
+    
+    const { source, voiceGain, trackGain } = this.createVoice(this.nextBuffer, this.nextTrackGainDb);
+    
+    if (fade > 0) {
+      voiceGain.gain.setValueAtTime(0, now);
+      voiceGain.gain.setValueCurveAtTime(buildFadeCurve(true), transitionAt, fade);
+      this.voiceGainNode?.gain.setValueCurveAtTime(buildFadeCurve(false), transitionAt, fade);
+    }
+    
+    source.start(transitionAt);
+    this.nextSourceNode = source;
+    this.nextVoiceGainNode = voiceGain;
+    this.nextTrackGainNode = trackGain;
+    this.nextStartTime = transitionAt;
+    
+    // The audio is already scheduled; this timer only moves our bookkeeping over
+    this.handoffTimer = window.setTimeout(
+      () => this.handoffToNext(),
+      Math.max(0, (transitionAt - now) * 1000)
+    );
+  }
+  
+  // Drop a scheduled (not yet handed-off) next source and undo the fade-out
+  private cancelScheduledNext(): void {
+    if (this.handoffTimer !== null) {
+      window.clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+    
+    if (this.nextSourceNode) {
+      this.nextSourceNode.onended = null;
+      try {
+        this.nextSourceNode.stop();
+      } catch {
+        // ignore — never started
+      }
+      this.nextSourceNode.disconnect();
+      this.nextSourceNode = null;
+    }
+    
+    if (this.nextVoiceGainNode) {
+      this.nextVoiceGainNode.disconnect();
+      this.nextVoiceGainNode = null;
+    }
+    if (this.nextTrackGainNode) {
+      this.nextTrackGainNode.disconnect();
+      this.nextTrackGainNode = null;
+    }
+    
+    // Restore the current voice in case a fade-out was scheduled on it, from
+    // wherever the fade has got to rather than jumping (which clicks)
+    if (this.voiceGainNode) {
+      const gain = this.voiceGainNode.gain;
+      const now = audioContext.getCurrentTime();
+      if (typeof gain.cancelAndHoldAtTime === 'function') {
+        gain.cancelAndHoldAtTime(now);
+      } else {
+        // Firefox: hold the current value by hand
+        const current = gain.value;
+        gain.cancelScheduledValues(0);
+        gain.setValueAtTime(current, now);
+      }
+      gain.linearRampToValueAtTime(1, now + FADE_CANCEL_TRANSITION);
+    }
+  }
+  
+  // Make the scheduled next source the current one
+  private handoffToNext(): void {
+    if (!this.nextSourceNode || !this.nextBuffer || !this.nextStorageKey) {
+      return;
+    }
+    
+    if (this.handoffTimer !== null) {
+      window.clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+    
+    // Let the outgoing track finish its fade, then release it
+    const outgoing = this.sourceNode;
+    const outgoingGain = this.voiceGainNode;
+    const outgoingTrackGain = this.trackGainNode;
+    if (outgoing) {
+      this.fadingSources.push(outgoing);
+      outgoing.onended = () => {
+        this.fadingSources = this.fadingSources.filter((source) => source !== outgoing);
+        outgoing.disconnect();
+        outgoingGain?.disconnect();
+        outgoingTrackGain?.disconnect();
+      };
+    }
+    
+    const storageKey = this.nextStorageKey;
+    this.sourceNode = this.nextSourceNode;
+    this.sourceNode.onended = this.handlePlaybackEnded.bind(this);
+    this.voiceGainNode = this.nextVoiceGainNode;
+    this.trackGainNode = this.nextTrackGainNode;
+    this.trackGainDb = this.nextTrackGainDb;
+    this.audioBuffer = this.nextBuffer;
+    this.startTime = this.nextStartTime;
+    this.pausedTime = 0;
+    this.isPlaying = true;
+    
+    this.nextSourceNode = null;
+    this.nextVoiceGainNode = null;
+    this.nextTrackGainNode = null;
+    this.nextBuffer = null;
+    this.nextStorageKey = null;
+    
+    if (this.trackChangeCallback) {
+      this.trackChangeCallback(storageKey, this.audioBuffer.duration);
+    }
+  }
+  
+  // Stop anything still fading out from a previous track
+  private stopFadingSources(): void {
+    for (const source of this.fadingSources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // ignore
+      }
+      source.disconnect();
+    }
+    this.fadingSources = [];
+  }
+  
+  // Get (or lazily create) the streaming element, routed into the same chain
+  private getStreamElement(): HTMLAudioElement {
+    if (!this.streamElement) {
+      const element = new Audio();
+      element.preload = 'auto';
+      element.addEventListener('ended', () => {
+        if (this.isStreaming && this.isPlaying) {
+          this.handlePlaybackEnded();
+        }
+      });
+
+      this.streamTrackGainNode = audioContext.createGain();
+      this.streamTrackGainNode.connect(this.gainNode!);
+      this.streamSourceNode = audioContext.createMediaElementSource(element);
+      this.streamSourceNode.connect(this.streamTrackGainNode);
+      this.streamElement = element;
+    }
+
+    return this.streamElement;
+  }
+
+  // Stop streaming and release the object URL
+  private releaseStream(): void {
+    if (this.streamElement) {
+      this.streamElement.pause();
+      this.streamElement.removeAttribute('src');
+      this.streamElement.load();
+    }
+    if (this.streamUrl) {
+      fileStorage.revokeObjectUrl(this.streamUrl);
+      this.streamUrl = null;
+    }
+    this.isStreaming = false;
+    this.streamDuration = 0;
+  }
+
+  // Point the streaming element at a stored file and wait for its metadata
+  private async loadStream(
+    token: number,
+    audioFile: Blob,
+    durationHint: number | undefined,
+    progressCallback?: ProgressCallback,
+    completionCallback?: CompletionCallback
+  ): Promise<void> {
+    const element = this.getStreamElement();
+
+    this.streamUrl = URL.createObjectURL(audioFile);
+    element.src = this.streamUrl;
+    if (progressCallback) progressCallback(60);
+
+    await new Promise<void>((resolve, reject) => {
+      const onLoaded = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error('Unable to stream audio file'));
+      };
+      const cleanup = () => {
+        element.removeEventListener('loadedmetadata', onLoaded);
+        element.removeEventListener('error', onError);
+      };
+      element.addEventListener('loadedmetadata', onLoaded);
+      element.addEventListener('error', onError);
+    });
+
+    // A newer loadTrack call took over while we were waiting
+    if (token !== this.loadToken) return;
+
+    // Some containers report an infinite duration until fully read
+    this.streamDuration = Number.isFinite(element.duration) ? element.duration : (durationHint ?? 0);
+    this.streamTrackGainNode!.gain.value = dbToGain(this.trackGainDb);
+    this.isStreaming = true;
+    this.pausedTime = 0;
+
+    if (progressCallback) progressCallback(100);
+    if (completionCallback) completionCallback(true, this.streamDuration);
+  }
+
+  // Load a track by storage key. Long files (by size or the duration hint) are
+  // streamed instead of decoded up front. `trackGainDb` is its loudness
+  // normalization gain.
   public async loadTrack(
     storageKey: string, 
     progressCallback?: ProgressCallback,
-    completionCallback?: CompletionCallback
+    completionCallback?: CompletionCallback,
+    durationHint?: number,
+    trackGainDb: number = 0
   ): Promise<void> {
+    this.trackGainDb = trackGainDb;
     
     // Clear existing playback
+    this.cancelScheduledNext();
+    this.stopFadingSources();
+    const token = ++this.loadToken;
+    if (this.isStreaming || this.streamUrl) {
+      this.releaseStream();
+      this.isPlaying = false;
+    }
     if (this.sourceNode) {
+      this.sourceNode.onended = null;
       if (this.isPlaying) {
         this.sourceNode.stop();
       }
@@ -136,11 +529,23 @@ class AudioPlayer {
       this.isPlaying = false;
     }
     
+    // Reuse the pre-decoded buffer when skipping to the upcoming track
+    if (storageKey === this.nextStorageKey && this.nextBuffer) {
+      this.audioBuffer = this.nextBuffer;
+      this.nextBuffer = null;
+      this.nextStorageKey = null;
+      this.pausedTime = 0;
+      if (progressCallback) progressCallback(100);
+      if (completionCallback) completionCallback(true, this.audioBuffer.duration);
+      return;
+    }
+    
     try {
       // Get audio file from storage
       if (progressCallback) progressCallback(10);
       
       const audioFile = await fileStorage.getAudioFile(storageKey);
+      if (token !== this.loadToken) return;
       
       if (!audioFile) {
         console.error('🎵 Audio file not found in storage');
@@ -151,12 +556,21 @@ class AudioPlayer {
       // Update loading progress
       if (progressCallback) progressCallback(40);
       
+      if (shouldStream(audioFile.size, durationHint)) {
+        // Don't hold on to a decoded buffer from the previous track
+        this.audioBuffer = null;
+        await this.loadStream(token, audioFile, durationHint, progressCallback, completionCallback);
+        return;
+      }
+      
       // Convert Blob to ArrayBuffer
       const arrayBuffer = await audioFile.arrayBuffer();
       if (progressCallback) progressCallback(60);
       
-      // Decode audio data
-      this.audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      // Decode audio data, unless a newer load or a stop has taken over meanwhile
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      if (token !== this.loadToken) return;
+      this.audioBuffer = audioBuffer;
       if (progressCallback) progressCallback(90);
       
       // Position will be controlled by the playerStore
@@ -168,6 +582,7 @@ class AudioPlayer {
       if (completionCallback) completionCallback(true, this.audioBuffer.duration);
       
     } catch (error) {
+      if (token !== this.loadToken) return;
       console.error('🎵 Error loading track:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       if (completionCallback) completionCallback(false, undefined, errorMessage);
@@ -177,6 +592,11 @@ class AudioPlayer {
   // Play the current track from a specified position
   public play(fromPosition?: number): void {
 
+    if (this.isStreaming) {
+      this.playStream(fromPosition);
+      return;
+    }
+
     if (!this.audioBuffer) {
       console.log('🎵 Cannot play: No audio buffer loaded');
       return;
@@ -209,10 +629,13 @@ class AudioPlayer {
         return;
       }
       
-      // Create and connect a new source node
-      this.sourceNode = audioContext.createBufferSource();
-      this.sourceNode.buffer = this.audioBuffer;
-      this.sourceNode.connect(this.gainNode!);
+      // Create and connect a new source node (through its own voice gain)
+      this.voiceGainNode?.disconnect();
+      this.trackGainNode?.disconnect();
+      const { source, voiceGain, trackGain } = this.createVoice(this.audioBuffer, this.trackGainDb);
+      this.sourceNode = source;
+      this.voiceGainNode = voiceGain;
+      this.trackGainNode = trackGain;
       this.sourceNode.onended = this.handlePlaybackEnded.bind(this);
       
       // Start from the specified position
@@ -224,17 +647,59 @@ class AudioPlayer {
       if (this.timeUpdateCallback) {
         this.timeUpdateCallback(this.pausedTime);
       }
+      
+      // Line up the next track if it's already decoded
+      this.scheduleNext();
     });
   }
   
+  // Play the streaming element from a position
+  private playStream(fromPosition?: number): void {
+    const element = this.streamElement;
+    if (!element || this.isPlaying) {
+      return;
+    }
+
+    if (fromPosition !== undefined) {
+      this.pausedTime = fromPosition;
+    }
+    element.currentTime = this.pausedTime;
+    this.isPlaying = true;
+
+    audioContext.resumeAudioContext()
+      .then(() => element.play())
+      .then(() => {
+        if (this.timeUpdateCallback) {
+          this.timeUpdateCallback(this.pausedTime);
+        }
+      })
+      .catch((error) => {
+        console.error('🎵 Error starting stream playback:', error);
+        this.isPlaying = false;
+      });
+  }
+
   // Pause the current track
   public pause(): void {
+    if (this.isStreaming) {
+      if (!this.isPlaying || !this.streamElement) return;
+      this.streamElement.pause();
+      this.pausedTime = this.streamElement.currentTime;
+      this.isPlaying = false;
+      if (this.timeUpdateCallback) {
+        this.timeUpdateCallback(this.pausedTime);
+      }
+      return;
+    }
+
     if (!this.isPlaying || !this.sourceNode) {
       return;
     }
     
     // Save current position
     this.pausedTime = this.getCurrentTime();
+    this.cancelScheduledNext();
+    this.stopFadingSources();
     // CRITICAL: Remove the onended handler before stopping to prevent it from firing
     // This is the key to preventing position reset during pause
     if (this.sourceNode) {
@@ -254,8 +719,16 @@ class AudioPlayer {
   
   // Stop playback completely
   public stop(): void {
+    this.cancelScheduledNext();
+    this.stopFadingSources();
+    this.nextBuffer = null;
+    this.nextStorageKey = null;
+    this.loadToken++;
+    this.releaseStream();
+    
     if (this.sourceNode) {
-      // For intentional stop, we DO want onended to fire
+      // An explicit stop is not the track ending: don't advance the queue
+      this.sourceNode.onended = null;
       this.sourceNode.stop();
       this.sourceNode = null;
     }
@@ -273,6 +746,17 @@ class AudioPlayer {
   // Seek to a specific time
   public seek(time: number): void {
     
+    if (this.isStreaming && this.streamElement) {
+      // The element seeks in place; it keeps playing if it was
+      const clampedStreamTime = clamp(time, 0, this.streamDuration || time);
+      this.streamElement.currentTime = clampedStreamTime;
+      this.pausedTime = clampedStreamTime;
+      if (this.timeUpdateCallback) {
+        this.timeUpdateCallback(clampedStreamTime);
+      }
+      return;
+    }
+
     if (!this.audioBuffer) {
       return;
     }
@@ -282,6 +766,10 @@ class AudioPlayer {
     // If playing, stop and restart at new position
     const wasPlaying = this.isPlaying;
     
+    // The hand-off is rescheduled from the new position when playback restarts
+    this.cancelScheduledNext();
+    this.stopFadingSources();
+    
     // Always clean up existing source node to prevent multiple playbacks
     if (this.sourceNode) {
       // Remove the onended handler before stopping to prevent it from firing unexpectedly
@@ -313,7 +801,28 @@ class AudioPlayer {
       return this.pausedTime;
     }
     
-    return audioContext.getCurrentTime() - this.startTime;
+    if (this.isStreaming && this.streamElement) {
+      return this.streamElement.currentTime;
+    }
+    
+    // Clamped: after a hand-off the timer may run a moment before the new start time
+    return Math.max(0, audioContext.getCurrentTime() - this.startTime);
+  }
+  
+  // Change the loudness normalization gain of the current track
+  public setTrackGain(gainDb: number): void {
+    if (gainDb === this.trackGainDb) {
+      return;
+    }
+    this.trackGainDb = gainDb;
+    
+    const node = this.isStreaming ? this.streamTrackGainNode : this.trackGainNode;
+    if (node) {
+      const now = audioContext.getCurrentTime();
+      node.gain.cancelScheduledValues(now);
+      node.gain.setValueAtTime(node.gain.value, now);
+      node.gain.linearRampToValueAtTime(dbToGain(gainDb), now + TRACK_GAIN_TRANSITION);
+    }
   }
   
   // Set volume (0-1)
@@ -349,6 +858,12 @@ class AudioPlayer {
   // Handle playback ended event
   private handlePlaybackEnded(): void {
 
+    // A gapless hand-off is due right now — take it instead of ending
+    if (this.nextSourceNode) {
+      this.handoffToNext();
+      return;
+    }
+
     // We don't reset position here - that's up to the playerStore
     this.sourceNode = null;
     this.isPlaying = false;
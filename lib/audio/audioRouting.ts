@@ -1,14 +1,31 @@
 import * as audioContext from './audioContext';
 import * as eqProcessor from './eqProcessor';
+import { useOutputStore } from '../stores';
 
-// -6 dB headroom to guard against auto-gain miscalculations
+// -6 dB headroom to guard against auto-gain miscalculations. Optional once
+// the true-peak limiter is running.
 const HEADROOM_GAIN = Math.pow(10, -6 / 20); // ≈ 0.5012
 
+const LIMITER_MODULE_URL = '/worklets/true-peak-limiter.js';
+const LIMITER_CEILING_DB = -1; // dBTP
+const HEADROOM_TRANSITION = 0.05; // 50ms
+
+// Latest limiter readings, reported about every 50ms
+export interface LimiterMeter {
+  peakDb: number; // True peak going into the limiter
+  gainReductionDb: number; // Largest reduction applied (positive dB)
+  clipped: boolean; // Input went over 0 dBTP
+}
+
 // Class to manage audio routing
 class AudioRouting {
   private destinationNode: AudioNode | null = null;
   private analyserNode: AnalyserNode | null = null;
   private headroomNode: GainNode | null = null;
+  // Lookahead true-peak limiter between the analyser and the headroom; null
+  // until its worklet module has loaded (or if AudioWorklet is unavailable)
+  private limiterNode: AudioWorkletNode | null = null;
+  private meterListeners = new Set<(meter: LimiterMeter) => void>();
   private isConnected: boolean = false;
   private frequencyBuffer: Uint8Array | null = null;
   private timeDomainBuffer: Uint8Array | null = null;
@@ -36,6 +53,73 @@ class AudioRouting {
     this.headroomNode.connect(this.destinationNode);
     
     this.isConnected = true;
+
+    // The limiter is spliced in once its module loads
+    this.loadLimiter();
+    useOutputStore.subscribe((state, prev) => {
+      if (state.limiterEnabled !== prev.limiterEnabled) {
+        this.limiterNode?.port.postMessage({ enabled: state.limiterEnabled });
+      }
+      this.updateHeadroom();
+    });
+  }
+
+  // Load the limiter worklet and insert it: analyser → limiter → headroom
+  private async loadLimiter(): Promise<void> {
+    const ctx = audioContext.getAudioContext();
+    if (!ctx.audioWorklet) {
+      console.warn('AudioWorklet is not supported; running without the limiter');
+      return;
+    }
+
+    try {
+      await ctx.audioWorklet.addModule(LIMITER_MODULE_URL);
+      const limiter = new AudioWorkletNode(ctx, 'true-peak-limiter', {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        processorOptions: {
+          ceilingDb: LIMITER_CEILING_DB,
+          enabled: useOutputStore.getState().limiterEnabled,
+        },
+      });
+      limiter.port.onmessage = (e: MessageEvent<LimiterMeter>) => {
+        for (const listener of this.meterListeners) listener(e.data);
+      };
+
+      // Routing may have been torn down while the module loaded
+      if (!this.analyserNode || !this.headroomNode) return;
+      this.limiterNode = limiter;
+      if (this.isConnected) {
+        this.analyserNode.disconnect(this.headroomNode);
+        this.analyserNode.connect(limiter);
+        limiter.connect(this.headroomNode);
+      }
+      this.updateHeadroom();
+    } catch (error) {
+      console.error('Error loading the true-peak limiter:', error);
+    }
+  }
+
+  // Whether the limiter is in the chain and enabled
+  public isLimiterActive(): boolean {
+    return this.limiterNode !== null && useOutputStore.getState().limiterEnabled;
+  }
+
+  // Drop the fixed headroom only when the limiter is protecting the output
+  private updateHeadroom(): void {
+    if (!this.headroomNode) return;
+    const gain = this.isLimiterActive() && !useOutputStore.getState().fixedHeadroom ? 1 : HEADROOM_GAIN;
+    const ctx = audioContext.getAudioContext();
+    this.headroomNode.gain.linearRampToValueAtTime(gain, ctx.currentTime + HEADROOM_TRANSITION);
+  }
+
+  // Listen for limiter meter readings; returns an unsubscribe function
+  public subscribeToLimiterMeter(listener: (meter: LimiterMeter) => void): () => void {
+    this.meterListeners.add(listener);
+    return () => {
+      this.meterListeners.delete(listener);
+    };
   }
   
   // Get the analyser node for visualizations
@@ -47,6 +131,7 @@ class AudioRouting {
   public disconnect(): void {
     if (this.isConnected && this.analyserNode) {
       this.analyserNode.disconnect();
+      this.limiterNode?.disconnect();
       this.headroomNode?.disconnect();
       eqProcessor.getEQProcessor().getOutputNode().disconnect();
       this.isConnected = false;
@@ -57,7 +142,12 @@ class AudioRouting {
   public reconnect(): void {
     if (!this.isConnected && this.analyserNode && this.headroomNode && this.destinationNode) {
       eqProcessor.getEQProcessor().getOutputNode().connect(this.analyserNode);
-      this.analyserNode.connect(this.headroomNode);
+      if (this.limiterNode) {
+        this.analyserNode.connect(this.limiterNode);
+        this.limiterNode.connect(this.headroomNode);
+      } else {
+        this.analyserNode.connect(this.headroomNode);
+      }
       this.headroomNode.connect(this.destinationNode);
       this.isConnected = true;
     }
@@ -84,6 +174,13 @@ class AudioRouting {
     }
   }
   
+  // Id of the device the context is playing on; '' is the system default
+  public getSinkId(): string {
+    const ctx = audioContext.getAudioContext() as AudioContext & { sinkId?: string | { type: string } };
+    // An AudioSinkInfo object means no output at all ({ type: 'none' })
+    return typeof ctx.sinkId === 'string' ? ctx.sinkId : '';
+  }
+
   // Get available audio output devices
   public async getOutputDevices(): Promise<MediaDeviceInfo[]> {
     try {
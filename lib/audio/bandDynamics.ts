@@ -0,0 +1,104 @@
+import { EQBand, EQBandDynamics } from '../models/EQBand';
+import { configureBiquad, FilterStage, usesGain } from '../utils/filterStages';
+
+const DYNAMICS_MODULE_URL = '/worklets/band-dynamics.js';
+
+// Starting point for a band that's just been made dynamic
+export const DEFAULT_BAND_DYNAMICS: EQBandDynamics = {
+  threshold: -30,
+  ratio: 4,
+  range: 6,
+  attack: 5,
+  release: 120,
+};
+
+// Whether a band has a dynamic section the graph should run. Pass and notch
+// filters have no gain to move.
+export const hasDynamics = (band: EQBand): boolean => !!band.dynamics && usesGain(band.type);
+
+// Module loads per context; the graph only builds sidechains once it's in
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<boolean>>();
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+// Load the gain computer worklet into a context. Resolves false when
+// AudioWorklet is unavailable, in which case dynamic bands play static.
+export function loadBandDynamics(ctx: BaseAudioContext): Promise<boolean> {
+  let load = moduleLoads.get(ctx);
+  if (!load) {
+    load = !ctx.audioWorklet
+      ? Promise.resolve(false)
+      : ctx.audioWorklet.addModule(DYNAMICS_MODULE_URL).then(
+          () => {
+            loadedContexts.add(ctx);
+            return true;
+          },
+          (error) => {
+            console.error('Error loading the dynamic EQ worklet:', error);
+            return false;
+          }
+        );
+    moduleLoads.set(ctx, load);
+  }
+  return load;
+}
+
+export const isBandDynamicsLoaded = (ctx: BaseAudioContext): boolean => loadedContexts.has(ctx);
+
+// The detector listens to the region the band acts on: around a bell, below a
+// low shelf, above a high shelf
+function detectorStage(band: EQBand): FilterStage {
+  const type = band.type ?? 'peaking';
+  if (type === 'lowshelf') return { type: 'lowpass', frequency: band.frequency, gain: 0, q: Math.SQRT1_2 };
+  if (type === 'highshelf') return { type: 'highpass', frequency: band.frequency, gain: 0, q: Math.SQRT1_2 };
+  return { type: 'bandpass', frequency: band.frequency, gain: 0, q: band.q };
+}
+
+// Sidechain of one dynamic band: detector filter → gain computer, whose output
+// is added to the band filter's gain param. Connect the band's input to
+// getInput() alongside the filter.
+export class BandSidechain {
+  private readonly detector: BiquadFilterNode;
+  private readonly computer: AudioWorkletNode;
+  private gainReductionDb = 0;
+
+  constructor(ctx: BaseAudioContext, band: EQBand, target: BiquadFilterNode, enabled: boolean) {
+    this.detector = ctx.createBiquadFilter();
+    configureBiquad(this.detector, detectorStage(band));
+    this.computer = new AudioWorkletNode(ctx, 'band-dynamics', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { ...band.dynamics, enabled },
+    });
+    this.computer.port.onmessage = (e: MessageEvent<{ gainReductionDb: number }>) => {
+      this.gainReductionDb = e.data.gainReductionDb;
+    };
+
+    this.detector.connect(this.computer);
+    this.computer.connect(target.gain);
+  }
+
+  public getInput(): AudioNode {
+    return this.detector;
+  }
+
+  // Latest gain reduction (positive dB), reported about every 50ms
+  public getGainReduction(): number {
+    return this.gainReductionDb;
+  }
+
+  // Follow the band's frequency, Q and dynamics settings
+  public update(band: EQBand, enabled: boolean, timeConstant: number): void {
+    const stage = detectorStage(band);
+    const now = this.detector.context.currentTime;
+    this.detector.frequency.setTargetAtTime(stage.frequency, now, timeConstant);
+    if (stage.type === 'bandpass') this.detector.Q.setTargetAtTime(stage.q, now, timeConstant);
+    this.computer.port.postMessage({ ...band.dynamics, enabled });
+  }
+
+  public disconnect(): void {
+    try { this.detector.disconnect(); } catch {}
+    try { this.computer.disconnect(); } catch {}
+    this.computer.port.onmessage = null;
+  }
+}
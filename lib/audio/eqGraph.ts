@@ -0,0 +1,210 @@
+import { EQBand, EQBandChannel } from '../models/EQBand';
+import { configureBiquad, getBandStages } from '../utils/filterStages';
+import { BandSidechain, hasDynamics, isBandDynamicsLoaded } from './bandDynamics';
+
+// Nodes making up one built EQ filter graph
+export interface EQGraph {
+  bothFilters: BiquadFilterNode[];
+  leftFilters: BiquadFilterNode[];
+  rightFilters: BiquadFilterNode[];
+  midFilters: BiquadFilterNode[];
+  sideFilters: BiquadFilterNode[];
+  splitter: ChannelSplitterNode | null;
+  merger: ChannelMergerNode | null;
+  // Mid/side encode and decode nodes, when the graph has M/S bands
+  midSideNodes: AudioNode[];
+  // Sidechains of dynamic bands, by band id
+  sidechains: Map<string, BandSidechain>;
+}
+
+// Connects a node into a filter; also feeds the filter's band sidechain
+type Connect = (source: AudioNode, target: AudioNode, output?: number) => void;
+
+export const getChannel = (band: EQBand): EQBandChannel => band.channel ?? 'both';
+
+// Partition bands by channel
+export function partitionBands(bands: EQBand[]): Record<EQBandChannel, EQBand[]> {
+  const partition: Record<EQBandChannel, EQBand[]> = { both: [], left: [], right: [], mid: [], side: [] };
+  for (const band of bands) {
+    (partition[getChannel(band)] ?? partition.both).push(band);
+  }
+  return partition;
+}
+
+// Default filter factory: one configured biquad per band stage
+export function createBandFilters(ctx: BaseAudioContext, band: EQBand): BiquadFilterNode[] {
+  return getBandStages(band).map((stage) => {
+    const filter = ctx.createBiquadFilter();
+    configureBiquad(filter, stage);
+    return filter;
+  });
+}
+
+// Build the EQ filter graph between input and output. Bands for both channels
+// run first; L/R-only bands run on split channels that are merged back, then
+// mid/side bands on an M/S encode → filters → decode stage. This is shared by
+// the live EQProcessor and offline rendering so both sound the same.
+// Dynamic bands get a sidechain once the dynamics worklet is loaded into the
+// context (see loadBandDynamics); until then they play static.
+export function buildEQGraph(
+  ctx: BaseAudioContext,
+  bands: EQBand[],
+  input: AudioNode,
+  output: AudioNode,
+  makeFilters: (band: EQBand) => BiquadFilterNode[] = (band) => createBandFilters(ctx, band),
+  dynamicsEnabled: boolean = true
+): EQGraph {
+  const { both, left, right, mid, side } = partitionBands(bands);
+
+  const graph: EQGraph = {
+    bothFilters: [],
+    leftFilters: [],
+    rightFilters: [],
+    midFilters: [],
+    sideFilters: [],
+    splitter: null,
+    merger: null,
+    midSideNodes: [],
+    sidechains: new Map(),
+  };
+
+  // Sidechain input of each dynamic band's filter
+  const sidechainInputs = new Map<AudioNode, AudioNode>();
+  const withDynamics = isBandDynamicsLoaded(ctx);
+  const makeBandFilters = (band: EQBand): BiquadFilterNode[] => {
+    const filters = makeFilters(band);
+    if (withDynamics && hasDynamics(band) && filters.length === 1) {
+      const sidechain = new BandSidechain(ctx, band, filters[0], dynamicsEnabled);
+      graph.sidechains.set(band.id, sidechain);
+      sidechainInputs.set(filters[0], sidechain.getInput());
+    }
+    return filters;
+  };
+
+  const connect: Connect = (source, target, outputIndex = 0) => {
+    source.connect(target, outputIndex);
+    const sidechainInput = sidechainInputs.get(target);
+    if (sidechainInput) source.connect(sidechainInput, outputIndex);
+  };
+
+  graph.bothFilters = both.flatMap(makeBandFilters);
+  graph.leftFilters = left.flatMap(makeBandFilters);
+  graph.rightFilters = right.flatMap(makeBandFilters);
+  graph.midFilters = mid.flatMap(makeBandFilters);
+  graph.sideFilters = side.flatMap(makeBandFilters);
+
+  const needSplit = graph.leftFilters.length > 0 || graph.rightFilters.length > 0;
+  const needMidSide = graph.midFilters.length > 0 || graph.sideFilters.length > 0;
+
+  // Connect the "both" chain starting from input
+  let tail = chain(input, graph.bothFilters, connect);
+
+  if (needSplit) {
+    // Stereo split
+    const splitter = ctx.createChannelSplitter(2);
+    const merger = ctx.createChannelMerger(2);
+    graph.splitter = splitter;
+    graph.merger = merger;
+    tail.connect(splitter);
+
+    // Left chain: splitter[0] → leftFilters → merger[0]
+    connectSide(splitter, 0, graph.leftFilters, merger, 0, connect);
+    // Right chain: splitter[1] → rightFilters → merger[1]
+    connectSide(splitter, 1, graph.rightFilters, merger, 1, connect);
+    tail = merger;
+  }
+
+  if (needMidSide) {
+    tail = connectMidSide(ctx, tail, graph, connect);
+  }
+
+  tail.connect(output);
+  return graph;
+}
+
+// Encode L/R as mid = (L+R)/2 and side = (L−R)/2, run each through its
+// filters and decode back to L = M+S, R = M−S. With flat filters this passes
+// the input through unchanged. Returns the decoder's merger.
+function connectMidSide(ctx: BaseAudioContext, source: AudioNode, graph: EQGraph, connect: Connect): AudioNode {
+  const gainNode = (gain: number) => {
+    const node = ctx.createGain();
+    node.gain.value = gain;
+    graph.midSideNodes.push(node);
+    return node;
+  };
+
+  // Up-mix mono sources to L = R so they encode as pure mid
+  const upmix = gainNode(1);
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  graph.midSideNodes.push(splitter, merger);
+  source.connect(upmix);
+  upmix.connect(splitter);
+
+  // Encode: connections into one input are summed
+  const midEncode = gainNode(0.5);
+  const sideEncode = gainNode(0.5);
+  const rightInvert = gainNode(-1);
+  splitter.connect(midEncode, 0);
+  splitter.connect(midEncode, 1);
+  splitter.connect(sideEncode, 0);
+  splitter.connect(rightInvert, 1);
+  rightInvert.connect(sideEncode);
+
+  const midOut = chain(midEncode, graph.midFilters, connect);
+  const sideOut = chain(sideEncode, graph.sideFilters, connect);
+
+  // Decode: L = M + S, R = M − S
+  const sideInvert = gainNode(-1);
+  midOut.connect(merger, 0, 0);
+  sideOut.connect(merger, 0, 0);
+  midOut.connect(merger, 0, 1);
+  sideOut.connect(sideInvert);
+  sideInvert.connect(merger, 0, 1);
+  return merger;
+}
+
+// Connect filters in series after a node; returns the last node
+function chain(head: AudioNode, filters: BiquadFilterNode[], connect: Connect): AudioNode {
+  let tail = head;
+  for (const f of filters) {
+    connect(tail, f);
+    tail = f;
+  }
+  return tail;
+}
+
+// Wire one split channel through its filters into the merger
+function connectSide(
+  splitter: ChannelSplitterNode,
+  channel: number,
+  filters: BiquadFilterNode[],
+  merger: ChannelMergerNode,
+  mergerInput: number,
+  connect: Connect
+): void {
+  if (filters.length === 0) {
+    splitter.connect(merger, channel, mergerInput);
+    return;
+  }
+  connect(splitter, filters[0], channel);
+  const last = chain(filters[0], filters.slice(1), connect);
+  last.connect(merger, 0, mergerInput);
+}
+
+// Disconnect every node of a graph
+export function disconnectEQGraph(graph: EQGraph): void {
+  for (const f of graph.bothFilters) { try { f.disconnect(); } catch {} }
+  for (const f of graph.leftFilters) { try { f.disconnect(); } catch {} }
+  for (const f of graph.rightFilters) { try { f.disconnect(); } catch {} }
+  for (const f of graph.midFilters) { try { f.disconnect(); } catch {} }
+  for (const f of graph.sideFilters) { try { f.disconnect(); } catch {} }
+  for (const n of graph.midSideNodes) { try { n.disconnect(); } catch {} }
+  for (const sidechain of graph.sidechains.values()) sidechain.disconnect();
+  if (graph.splitter) { try { graph.splitter.disconnect(); } catch {} }
+  if (graph.merger) { try { graph.merger.disconnect(); } catch {} }
+}
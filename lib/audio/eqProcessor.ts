@@ -1,31 +1,58 @@
 import * as audioContext from './audioContext';
 import { EQProfile } from '../models/EQProfile';
-import { EQBand, EQBandChannel } from '../models/EQBand';
+import { EQBand } from '../models/EQBand';
 import { useEQProfileStore } from '../stores';
+import type { EQEngine } from '../stores/eqProfileStore';
 import { dbToGain } from '../utils/audioMath';
+import { configureBiquad, getBandStages, toWebAudioQ, usesGain } from '../utils/filterStages';
+import { BandSidechain, hasDynamics, isBandDynamicsLoaded, loadBandDynamics } from './bandDynamics';
+import { buildEQGraph, disconnectEQGraph, getChannel } from './eqGraph';
+import { FIRKernelBuilder, buildFIRGraph, disconnectFIRGraph } from './firEngine';
+import { FIRKernels, firLatencyFor } from './firKernel';
 
 const TRANSITION_TIME = 0.05; // 50ms transition for smoothness
+const PARAM_TIME_CONSTANT = 0.01; // setTargetAtTime constant for band parameter changes
+const CROSSFADE_TIME = 0.03; // 30ms crossfade when the graph has to be rebuilt
+
+// A built filter graph with its own fader, so a replacement can be crossfaded in
+interface LiveGraph {
+  engine: EQEngine;
+  fader: GainNode;
+  // The bands the graph was built for, and their filter nodes per band id
+  // (biquad graphs only)
+  bands: EQBand[];
+  bandFilters: Map<string, BiquadFilterNode[]>;
+  // Sidechains of dynamic bands, by band id (biquad graphs only)
+  sidechains: Map<string, BandSidechain>;
+  disconnect: () => void;
+}
 
-type ChannelKey = 'both' | 'left' | 'right';
-
-const getChannel = (band: EQBand): EQBandChannel => band.channel ?? 'both';
+// What the EQ plays during a comparison (ABX), in place of the active profile
+export interface EQComparisonSource {
+  bands: EQBand[];
+  // Total output gain: the source's own volume plus any level matching
+  gainDb: number;
+}
 
 // Class to manage EQ processing
 class EQProcessor {
-  // Filter chains per channel destination
-  private bothFilters: BiquadFilterNode[] = [];
-  private leftFilters: BiquadFilterNode[] = [];
-  private rightFilters: BiquadFilterNode[] = [];
+  // The graph currently carrying audio. Graphs being faded out are only
+  // referenced by their disconnect timers.
+  private live: LiveGraph | null = null;
 
   // Graph nodes
   private inputNode: GainNode | null = null;
   private outputNode: GainNode | null = null;
   private volumeNode: GainNode | null = null;
-  private splitter: ChannelSplitterNode | null = null;
-  private merger: ChannelMergerNode | null = null;
 
   private isEnabled: boolean = true;
   private currentProfile: EQProfile | null = null;
+  private comparison: EQComparisonSource | null = null;
+
+  private engine: EQEngine = 'biquad';
+  private kernelBuilder: FIRKernelBuilder | null = null;
+  // Bumped on every rebuild so a late FIR kernel can't replace a newer graph
+  private buildGeneration = 0;
 
   constructor() {
     this.initialize();
@@ -41,9 +68,15 @@ class EQProcessor {
     // Make sure volume node is at unity gain (no volume change)
     this.volumeNode.gain.value = 1.0;
 
-    // Simple pass-through connection - input to volume to output
-    this.inputNode.connect(this.volumeNode);
+    // Simple pass-through connection (an empty graph) - input to volume to output
     this.volumeNode.connect(this.outputNode);
+    this.rebuildGraph([]);
+
+    // Dynamic bands play static until their worklet is in
+    loadBandDynamics(audioContext.getAudioContext()).then((loaded) => {
+      const bands = this.comparison?.bands ?? this.currentProfile?.bands ?? [];
+      if (loaded && bands.some(hasDynamics)) this.rebuildCurrent();
+    });
   }
 
   // Get the input node for connecting audio sources
@@ -56,115 +89,188 @@ class EQProcessor {
     return this.outputNode!;
   }
 
-  // Partition bands by channel
-  private partitionBands(bands: EQBand[]): Record<ChannelKey, EQBand[]> {
-    const both: EQBand[] = [];
-    const left: EQBand[] = [];
-    const right: EQBand[] = [];
+  // A comparison always plays its bands, whatever the enabled state
+  private filtersActive(): boolean {
+    return this.comparison !== null || this.isEnabled;
+  }
+
+  // Number of filter nodes a band needs. Pass/notch filters have no gain to
+  // zero, so a disabled EQ leaves them out of the graph entirely.
+  private stageCount(band: EQBand): number {
+    if (!this.filtersActive() && !usesGain(band.type)) return 0;
+    return getBandStages(band).length;
+  }
+
+  // Band stages with the gain the current enabled state calls for
+  private liveStages(band: EQBand) {
+    return getBandStages(band).map((stage) => ({ ...stage, gain: this.filtersActive() ? stage.gain : 0 }));
+  }
+
+  // Whether a band gets a sidechain in a biquad graph built now
+  private wantsSidechain(band: EQBand): boolean {
+    return hasDynamics(band) && isBandDynamicsLoaded(audioContext.getAudioContext());
+  }
+
+  // Whether the live graph can take these bands with parameter changes only:
+  // same band ids, and each band keeps its channel, type, node count and
+  // whether it's dynamic. Order doesn't matter since the filters within a
+  // chain commute.
+  private canUpdateInPlace(bands: EQBand[]): boolean {
+    if (!this.live || this.live.engine !== 'biquad' || this.engine !== 'biquad') return false;
+
+    const previous = new Map(this.live.bands.map((band) => [band.id, band]));
+    if (previous.size !== bands.length || this.live.bandFilters.size !== bands.length) return false;
+
+    return bands.every((band) => {
+      const old = previous.get(band.id);
+      const filters = this.live!.bandFilters.get(band.id);
+      return (
+        !!old &&
+        !!filters &&
+        getChannel(old) === getChannel(band) &&
+        (old.type ?? 'peaking') === (band.type ?? 'peaking') &&
+        filters.length === this.stageCount(band) &&
+        this.live!.sidechains.has(band.id) === this.wantsSidechain(band)
+      );
+    });
+  }
+
+  // Glide the live graph's filters to the bands' current parameters
+  private updateInPlace(bands: EQBand[]): void {
+    const now = audioContext.getAudioContext().currentTime;
+    this.live!.bands = bands;
     for (const band of bands) {
-      const ch = getChannel(band);
-      if (ch === 'left') left.push(band);
-      else if (ch === 'right') right.push(band);
-      else both.push(band);
+      // Bands left out of the graph (see stageCount) have no filters to update
+      const stages = this.liveStages(band);
+      this.live!.bandFilters.get(band.id)!.forEach((filter, i) => {
+        const stage = stages[i];
+        filter.frequency.setTargetAtTime(stage.frequency, now, PARAM_TIME_CONSTANT);
+        filter.Q.setTargetAtTime(toWebAudioQ(stage), now, PARAM_TIME_CONSTANT);
+        filter.gain.setTargetAtTime(stage.gain, now, PARAM_TIME_CONSTANT);
+      });
+      this.live!.sidechains.get(band.id)?.update(band, this.filtersActive(), PARAM_TIME_CONSTANT);
     }
-    return { both, left, right };
   }
 
-  // Create a new filter node for a band
-  private makeFilter(band: EQBand): BiquadFilterNode {
+  // Build a biquad graph for the bands, fed from a new fader
+  private buildBiquadGraph(bands: EQBand[]): LiveGraph {
     const audioCtx = audioContext.getAudioContext();
-    const filter = audioCtx.createBiquadFilter();
-    filter.type = band.type || 'peaking';
-    filter.frequency.value = band.frequency;
-    filter.Q.value = band.q;
-    filter.gain.value = this.isEnabled ? band.gain : 0;
-    return filter;
+    const fader = audioCtx.createGain();
+    const bandFilters = new Map<string, BiquadFilterNode[]>();
+    const graph = buildEQGraph(audioCtx, bands, fader, this.volumeNode!, (band) => {
+      const filters = this.stageCount(band) === 0 ? [] : this.liveStages(band).map((stage) => {
+        const filter = audioCtx.createBiquadFilter();
+        configureBiquad(filter, stage);
+        return filter;
+      });
+      // Duplicate ids can't be tracked; the size check in canUpdateInPlace
+      // then forces a rebuild on the next change
+      bandFilters.set(band.id, filters);
+      return filters;
+    }, this.filtersActive());
+    return {
+      engine: 'biquad',
+      fader,
+      bands,
+      bandFilters,
+      sidechains: graph.sidechains,
+      disconnect: () => disconnectEQGraph(graph),
+    };
   }
 
-  // Tear down and rebuild the entire filter graph based on the profile's bands
-  private createFilterChain(profile: EQProfile): void {
-    // Always fully tear down the existing graph (simpler and robust)
-    this.disconnectAll();
+  // Build a linear-phase graph around prebuilt kernels
+  private buildFIRLiveGraph(bands: EQBand[], kernels: FIRKernels): LiveGraph {
+    const audioCtx = audioContext.getAudioContext();
+    const fader = audioCtx.createGain();
+    const graph = buildFIRGraph(audioCtx, kernels, fader, this.volumeNode!);
+    return {
+      engine: 'linear-phase',
+      fader,
+      bands,
+      bandFilters: new Map(),
+      sidechains: new Map(),
+      disconnect: () => disconnectFIRGraph(graph),
+    };
+  }
 
-    const { both, left, right } = this.partitionBands(profile.bands || []);
-    const needSplit = left.length > 0 || right.length > 0;
+  // Build a new graph for the bands and crossfade to it from the live one.
+  // `level` is the new graph's fader gain. In linear-phase mode the kernel
+  // is built in the background and the live graph plays until it's ready.
+  private rebuildGraph(bands: EQBand[], level: number = 1): void {
+    const generation = ++this.buildGeneration;
 
-    // Rebuild filter arrays
-    this.bothFilters = both.map((b) => this.makeFilter(b));
-    this.leftFilters = left.map((b) => this.makeFilter(b));
-    this.rightFilters = right.map((b) => this.makeFilter(b));
+    if (this.engine === 'biquad') {
+      this.swapIn(this.buildBiquadGraph(bands), level);
+      return;
+    }
 
-    const audioCtx = audioContext.getAudioContext();
+    if (!this.kernelBuilder) this.kernelBuilder = new FIRKernelBuilder();
+    // A disabled EQ still runs through a (flat) kernel so the latency stays put
+    const kernelBands = this.filtersActive() ? bands : [];
+    const sampleRate = audioContext.getAudioContext().sampleRate;
+    this.kernelBuilder.build(kernelBands, sampleRate).then((kernels) => {
+      if (!kernels || generation !== this.buildGeneration) return;
+      this.swapIn(this.buildFIRLiveGraph(bands, kernels), level);
+    });
+  }
 
-    // Connect the "both" chain starting from inputNode
-    let tail: AudioNode = this.inputNode!;
-    for (const f of this.bothFilters) {
-      tail.connect(f);
-      tail = f;
+  // Rebuild for whatever should be playing now: the comparison source or the profile
+  private rebuildCurrent(): void {
+    if (this.comparison) {
+      this.rebuildGraph(this.comparison.bands, dbToGain(this.comparison.gainDb));
+    } else {
+      this.rebuildGraph(this.currentProfile?.bands || []);
     }
+  }
 
-    if (!needSplit) {
-      // No L/R-only bands → tail goes straight to volume
-      tail.connect(this.volumeNode!);
+  // Connect a freshly built graph and crossfade to it from the live one
+  private swapIn(next: LiveGraph, level: number): void {
+    const now = audioContext.getAudioContext().currentTime;
+    const { fader } = next;
+    this.inputNode!.connect(fader);
+
+    const previous = this.live;
+    this.live = next;
+
+    if (!previous) {
+      fader.gain.value = level;
       return;
     }
 
-    // Stereo split
-    this.splitter = audioCtx.createChannelSplitter(2);
-    this.merger = audioCtx.createChannelMerger(2);
-    tail.connect(this.splitter);
-
-    // Left chain: splitter[0] → leftFilters → merger[0]
-    let leftTail: AudioNode = this.splitter;
-    let leftTailOutput = 0; // which output index on the upstream node feeds the merger
-    if (this.leftFilters.length > 0) {
-      this.splitter.connect(this.leftFilters[0], 0);
-      for (let i = 0; i < this.leftFilters.length - 1; i++) {
-        this.leftFilters[i].connect(this.leftFilters[i + 1]);
-      }
-      leftTail = this.leftFilters[this.leftFilters.length - 1];
-      leftTailOutput = 0;
-    }
-    leftTail.connect(this.merger, leftTailOutput, 0);
-
-    // Right chain: splitter[1] → rightFilters → merger[1]
-    let rightTail: AudioNode = this.splitter;
-    let rightTailOutput = 1;
-    if (this.rightFilters.length > 0) {
-      this.splitter.connect(this.rightFilters[0], 1);
-      for (let i = 0; i < this.rightFilters.length - 1; i++) {
-        this.rightFilters[i].connect(this.rightFilters[i + 1]);
-      }
-      rightTail = this.rightFilters[this.rightFilters.length - 1];
-      rightTailOutput = 0;
-    }
-    rightTail.connect(this.merger, rightTailOutput, 1);
+    fader.gain.setValueAtTime(0, now);
+    fader.gain.linearRampToValueAtTime(level, now + CROSSFADE_TIME);
+
+    const oldGain = previous.fader.gain;
+    oldGain.cancelScheduledValues(now);
+    oldGain.setValueAtTime(oldGain.value, now);
+    oldGain.linearRampToValueAtTime(0, now + CROSSFADE_TIME);
 
-    // Merger → volume
-    this.merger.connect(this.volumeNode!);
+    // Disconnect the old graph once it's silent
+    setTimeout(() => {
+      try { this.inputNode?.disconnect(previous.fader); } catch {}
+      try { previous.fader.disconnect(); } catch {}
+      previous.disconnect();
+    }, CROSSFADE_TIME * 1000 + 50);
   }
 
-  // Disconnect all filters and splitter/merger nodes from the chain
-  private disconnectAll(): void {
-    try { this.inputNode?.disconnect(); } catch {}
-    for (const f of this.bothFilters) { try { f.disconnect(); } catch {} }
-    for (const f of this.leftFilters) { try { f.disconnect(); } catch {} }
-    for (const f of this.rightFilters) { try { f.disconnect(); } catch {} }
-    if (this.splitter) { try { this.splitter.disconnect(); } catch {} }
-    if (this.merger) { try { this.merger.disconnect(); } catch {} }
-    this.bothFilters = [];
-    this.leftFilters = [];
-    this.rightFilters = [];
-    this.splitter = null;
-    this.merger = null;
+  // Bring the filter graph in line with the bands, rebuilding only when the
+  // topology changed
+  private syncGraph(bands: EQBand[]): void {
+    if (this.canUpdateInPlace(bands)) {
+      this.updateInPlace(bands);
+    } else {
+      this.rebuildGraph(bands);
+    }
   }
 
-  // Apply an EQ profile to the filters
+  // Apply an EQ profile (or a flattened stack of layers) to the filters
   public applyProfile(profile: EQProfile): void {
     this.currentProfile = profile;
 
-    // (Re)build the filter graph
-    this.createFilterChain(profile);
+    // A running comparison owns the graph; the profile is picked up when it ends
+    if (this.comparison) return;
+
+    this.syncGraph(profile.bands || []);
 
     // Set volume according to profile with smooth transition
     if (this.volumeNode) {
@@ -187,33 +293,15 @@ class EQProcessor {
     if (this.isEnabled === enabled) return;
     this.isEnabled = enabled;
 
-    if (!this.currentProfile) return;
+    if (!this.currentProfile || this.comparison) return;
 
     const audioCtx = audioContext.getAudioContext();
     const currentTime = audioCtx.currentTime;
     const ENABLE_TRANSITION = 0.01; // 10ms
 
-    // Walk through currentProfile bands in their original order but map them
-    // to the appropriate filter array.
-    const bothCount = { i: 0 };
-    const leftCount = { i: 0 };
-    const rightCount = { i: 0 };
-
-    for (const band of this.currentProfile.bands || []) {
-      const ch = getChannel(band);
-      let filter: BiquadFilterNode | undefined;
-      if (ch === 'left') {
-        filter = this.leftFilters[leftCount.i++];
-      } else if (ch === 'right') {
-        filter = this.rightFilters[rightCount.i++];
-      } else {
-        filter = this.bothFilters[bothCount.i++];
-      }
-      if (filter) {
-        const targetGain = enabled ? band.gain : 0;
-        filter.gain.linearRampToValueAtTime(targetGain, currentTime + ENABLE_TRANSITION);
-      }
-    }
+    // Gains glide to 0 (or back); pass/notch bands are added or removed,
+    // which crossfades to a rebuilt graph
+    this.syncGraph(this.currentProfile.bands || []);
 
     // Also smoothly transition volume if needed
     if (this.volumeNode && this.currentProfile.volume) {
@@ -225,6 +313,49 @@ class EQProcessor {
     }
   }
 
+  // Play a comparison source instead of the active profile, or return to the
+  // profile with null. Every switch crossfades to a freshly built graph, with
+  // the source's level applied on its fader so EQ and level change together.
+  public setComparison(source: EQComparisonSource | null): void {
+    this.comparison = source;
+
+    const audioCtx = audioContext.getAudioContext();
+    const profile = this.currentProfile;
+    const volumeGain = !source && this.isEnabled && profile?.volume ? dbToGain(profile.volume) : 1.0;
+    this.volumeNode?.gain.linearRampToValueAtTime(volumeGain, audioCtx.currentTime + TRANSITION_TIME);
+
+    this.rebuildCurrent();
+  }
+
+  // Switch between minimum-phase biquads and linear-phase FIR filtering
+  public setEngine(engine: EQEngine): void {
+    if (this.engine === engine) return;
+    this.engine = engine;
+    this.rebuildCurrent();
+  }
+
+  public getEngine(): EQEngine {
+    return this.engine;
+  }
+
+  // Delay (seconds) the EQ adds to the signal: half the kernel in
+  // linear-phase mode, none for biquads
+  public getLatency(): number {
+    if (this.live?.engine !== 'linear-phase') return 0;
+    return firLatencyFor(audioContext.getAudioContext().sampleRate);
+  }
+
+  // Current gain reduction (positive dB) of a dynamic band, 0 when it isn't
+  // reducing or isn't running dynamically (e.g. in linear-phase mode)
+  public getGainReduction(bandId: string): number {
+    return this.live?.sidechains.get(bandId)?.getGainReduction() ?? 0;
+  }
+
+  // Whether a comparison source is playing in place of the active profile
+  public isComparing(): boolean {
+    return this.comparison !== null;
+  }
+
   // Check if EQ is enabled
   public isEQEnabled(): boolean {
     return this.isEnabled;
@@ -294,8 +425,11 @@ class EQProcessor {
       const audioCtx = audioContext.getAudioContext();
       const currentTime = audioCtx.currentTime;
 
-      const volumeGain = this.isEnabled ? dbToGain(volume) : 1.0;
-      this.volumeNode.gain.linearRampToValueAtTime(volumeGain, currentTime + TRANSITION_TIME);
+      // During a comparison the new volume only takes effect once it ends
+      if (!this.comparison) {
+        const volumeGain = this.isEnabled ? dbToGain(volume) : 1.0;
+        this.volumeNode.gain.linearRampToValueAtTime(volumeGain, currentTime + TRANSITION_TIME);
+      }
 
       this.currentProfile = {
         ...this.currentProfile,
@@ -326,12 +460,12 @@ export const getEQProcessor = (): EQProcessor => {
   if (!eqProcessorInstance) {
     eqProcessorInstance = new EQProcessor();
 
-    // Initialize with the active profile from the store
+    // Initialize with the active profile (and any layers under it) from the store
     const eqStore = useEQProfileStore.getState();
-    const activeProfile = eqStore.getActiveProfile();
+    const playbackProfile = eqStore.getPlaybackProfile();
 
-    if (activeProfile) {
-      eqProcessorInstance.applyProfile(activeProfile);
+    if (playbackProfile) {
+      eqProcessorInstance.applyProfile(playbackProfile);
     } else {
       // Create and apply a default profile
       const defaultProfile = eqProcessorInstance.createDefaultProfile();
@@ -342,8 +476,9 @@ export const getEQProcessor = (): EQProcessor => {
       eqStore.setActiveProfile(defaultProfile.id);
     }
 
-    // Set the enabled state based on the store
+    // Set the enabled state and engine based on the store
     eqProcessorInstance.setEnabled(eqStore.isEQEnabled);
+    eqProcessorInstance.setEngine(eqStore.eqEngine);
 
     // Subscribe to changes in the store
     useEQProfileStore.subscribe(
@@ -355,16 +490,22 @@ export const getEQProcessor = (): EQProcessor => {
           eqProcessorInstance.setEnabled(state.isEQEnabled);
         }
 
-        // Handle active profile changes
-        const activeProfile = state.activeProfileId ? state.profiles[state.activeProfileId] : null;
-        if (activeProfile) {
+        // Handle engine changes
+        if (eqProcessorInstance.getEngine() !== state.eqEngine) {
+          eqProcessorInstance.setEngine(state.eqEngine);
+        }
+
+        // Handle active profile and layer changes. The combined profile's id
+        // names its layers, so adding or toggling one changes it.
+        const playbackProfile = state.getPlaybackProfile();
+        if (playbackProfile) {
           const currentProfile = eqProcessorInstance.getCurrentProfile();
 
           // Apply the profile if it's different or has been updated
           if (!currentProfile ||
-              currentProfile.id !== activeProfile.id ||
-              currentProfile.lastModified !== activeProfile.lastModified) {
-            eqProcessorInstance.applyProfile(activeProfile);
+              currentProfile.id !== playbackProfile.id ||
+              currentProfile.lastModified !== playbackProfile.lastModified) {
+            eqProcessorInstance.applyProfile(playbackProfile);
           }
         }
       }
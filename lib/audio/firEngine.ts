@@ -0,0 +1,132 @@
+import { EQBand } from '../models/EQBand';
+import { buildFIRKernels, FIRKernelRequest, FIRKernelResponse, FIRKernels } from './firKernel';
+
+// Nodes of a built FIR graph
+export interface FIRGraph {
+  splitter: ChannelSplitterNode;
+  convolvers: ConvolverNode[];
+  merger: ChannelMergerNode;
+}
+
+const createConvolver = (ctx: BaseAudioContext, kernel: Float32Array): ConvolverNode => {
+  const convolver = ctx.createConvolver();
+  // Kernels already carry the EQ's gain; normalizing would undo it
+  convolver.normalize = false;
+  convolver.channelCount = 1;
+  convolver.channelCountMode = 'explicit';
+  const buffer = ctx.createBuffer(1, kernel.length, ctx.sampleRate);
+  buffer.copyToChannel(kernel, 0);
+  convolver.buffer = buffer;
+  return convolver;
+};
+
+// Wire input → splitter → one convolver per channel → merger → output, plus
+// a convolver across channels for each cross kernel (mid/side bands)
+export function buildFIRGraph(
+  ctx: BaseAudioContext,
+  kernels: FIRKernels,
+  input: AudioNode,
+  output: AudioNode
+): FIRGraph {
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  const convolvers: ConvolverNode[] = [];
+
+  // Kernel from splitter output `from` into merger input `to`
+  const route = (kernel: Float32Array | undefined, from: number, to: number) => {
+    if (!kernel) return;
+    const convolver = createConvolver(ctx, kernel);
+    splitter.connect(convolver, from);
+    convolver.connect(merger, 0, to);
+    convolvers.push(convolver);
+  };
+
+  input.connect(splitter);
+  route(kernels.left, 0, 0);
+  route(kernels.right, 1, 1);
+  route(kernels.rightToLeft, 1, 0);
+  route(kernels.leftToRight, 0, 1);
+  merger.connect(output);
+  return { splitter, convolvers, merger };
+}
+
+// Disconnect every node of a FIR graph
+export function disconnectFIRGraph(graph: FIRGraph): void {
+  try { graph.splitter.disconnect(); } catch {}
+  for (const c of graph.convolvers) { try { c.disconnect(); } catch {} }
+  try { graph.merger.disconnect(); } catch {}
+}
+
+// Builds kernels off the main thread. Only the latest request matters: while
+// one is being computed, newer requests replace each other and superseded
+// ones resolve to null.
+export class FIRKernelBuilder {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private inFlight: { request: FIRKernelRequest; resolve: (kernels: FIRKernels | null) => void } | null = null;
+  private queued: { request: FIRKernelRequest; resolve: (kernels: FIRKernels | null) => void } | null = null;
+
+  constructor() {
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./firKernel.worker.ts', import.meta.url));
+        this.worker.onmessage = (e: MessageEvent<FIRKernelResponse>) => this.handleResponse(e.data);
+        this.worker.onerror = (e) => {
+          console.warn('FIR kernel worker failed, building kernels on the main thread:', e.message);
+          this.worker?.terminate();
+          this.worker = null;
+          // Redo whatever the worker was working on
+          if (this.inFlight) this.send(this.inFlight.request, this.inFlight.resolve);
+        };
+      } catch (error) {
+        console.warn('FIR kernel worker unavailable, building kernels on the main thread:', error);
+        this.worker = null;
+      }
+    }
+  }
+
+  public build(bands: EQBand[], sampleRate: number): Promise<FIRKernels | null> {
+    return new Promise((resolve) => {
+      const request = { id: ++this.nextId, bands, sampleRate };
+      if (this.inFlight) {
+        this.queued?.resolve(null);
+        this.queued = { request, resolve };
+        return;
+      }
+      this.send(request, resolve);
+    });
+  }
+
+  private send(request: FIRKernelRequest, resolve: (kernels: FIRKernels | null) => void): void {
+    this.inFlight = { request, resolve };
+    if (this.worker) {
+      this.worker.postMessage(request);
+      return;
+    }
+    // No worker: compute after yielding so the caller's UI update lands first
+    setTimeout(() => {
+      this.handleResponse({ id: request.id, ...buildFIRKernels(request.bands, request.sampleRate) });
+    }, 0);
+  }
+
+  private handleResponse(response: FIRKernelResponse): void {
+    const inFlight = this.inFlight;
+    if (!inFlight || inFlight.request.id !== response.id) return;
+    this.inFlight = null;
+
+    const queued = this.queued;
+    this.queued = null;
+    if (queued) {
+      // A newer request is waiting; this result is already stale
+      inFlight.resolve(null);
+      this.send(queued.request, queued.resolve);
+      return;
+    }
+    inFlight.resolve({
+      left: response.left,
+      right: response.right,
+      rightToLeft: response.rightToLeft,
+      leftToRight: response.leftToRight,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { EQBand } from '../models/EQBand';
+import { linearPhase, magnitudeSpectrum, renderImpulseResponse } from '../utils/eqExport/firMath';
+import { partitionBands } from './eqGraph';
+
+// Kernel length at 44.1/48 kHz (doubled above that). 16384 taps resolve
+// narrow bass bands down to ~20 Hz, at ~170 ms of latency.
+const BASE_TAPS = 16384;
+
+export const firTapsFor = (sampleRate: number): number => (sampleRate > 48000 ? BASE_TAPS * 2 : BASE_TAPS);
+
+// Latency (seconds) of a linear-phase kernel: its centre tap
+export const firLatencyFor = (sampleRate: number): number => Math.floor(firTapsFor(sampleRate) / 2) / sampleRate;
+
+// Left and right kernels for a set of bands. Mid/side bands mix the channels,
+// which adds a cross kernel from each input channel into the other output.
+export interface FIRKernels {
+  left: Float32Array;
+  right: Float32Array;
+  rightToLeft?: Float32Array;
+  leftToRight?: Float32Array;
+}
+
+export interface FIRKernelRequest {
+  id: number;
+  bands: EQBand[];
+  sampleRate: number;
+}
+
+export interface FIRKernelResponse extends FIRKernels {
+  id: number;
+}
+
+// Build linear-phase kernels for each output channel: shared bands plus that
+// side's L/R-only bands. Both have the same length, so the same latency.
+export function buildFIRKernels(bands: EQBand[], sampleRate: number): FIRKernels {
+  const { both, left, right, mid, side } = partitionBands(bands);
+  const taps = firTapsFor(sampleRate);
+  if (mid.length > 0 || side.length > 0) {
+    return buildMidSideKernels([...both, ...left], [...both, ...right], mid, side, sampleRate, taps);
+  }
+  const leftKernel = renderImpulseResponse([...both, ...left], 0, sampleRate, taps, 'linear');
+  // Without L/R-only bands both sides share a kernel
+  const rightKernel = left.length === 0 && right.length === 0
+    ? leftKernel
+    : renderImpulseResponse([...both, ...right], 0, sampleRate, taps, 'linear');
+  return { left: leftKernel, right: rightKernel };
+}
+
+// With M/S bands after the L/R ones (as in the biquad graph), each output is
+//   L' = ½(M+S)·Lb·L + ½(M−S)·Rb·R
+//   R' = ½(M−S)·Lb·L + ½(M+S)·Rb·R
+// where Lb/Rb are the per-side responses and M/S the mid and side ones. All
+// are zero-phase, so each product is one linear-phase kernel of the same length.
+function buildMidSideKernels(
+  leftBands: EQBand[],
+  rightBands: EQBand[],
+  midBands: EQBand[],
+  sideBands: EQBand[],
+  sampleRate: number,
+  taps: number
+): FIRKernels {
+  const leftMag = magnitudeSpectrum(leftBands, 0, taps, sampleRate);
+  const rightMag = magnitudeSpectrum(rightBands, 0, taps, sampleRate);
+  const midMag = magnitudeSpectrum(midBands, 0, taps, sampleRate);
+  const sideMag = magnitudeSpectrum(sideBands, 0, taps, sampleRate);
+
+  const kernel = (sign: 1 | -1, channelMag: Float64Array) =>
+    linearPhase(midMag.map((m, k) => 0.5 * (m + sign * sideMag[k]) * channelMag[k]), taps);
+
+  return {
+    left: kernel(1, leftMag),
+    right: kernel(1, rightMag),
+    rightToLeft: kernel(-1, rightMag),
+    leftToRight: kernel(-1, leftMag),
+  };
+}
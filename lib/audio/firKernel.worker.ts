@@ -0,0 +1,19 @@
+import { buildFIRKernels, FIRKernelRequest, FIRKernelResponse } from './firKernel';
+
+// Worker side of FIRKernelBuilder: build the kernels and hand back the buffers
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FIRKernelRequest>) => void) | null;
+  postMessage: (message: FIRKernelResponse, transfer: Transferable[]) => void;
+};
+
+scope.onmessage = (e) => {
+  const { id, bands, sampleRate } = e.data;
+  const kernels = buildFIRKernels(bands, sampleRate);
+  // Shared kernels can only be transferred once
+  const buffers = new Set(
+    [kernels.left, kernels.right, kernels.rightToLeft, kernels.leftToRight]
+      .filter((kernel): kernel is Float32Array => !!kernel)
+      .map((kernel) => kernel.buffer as ArrayBuffer)
+  );
+  scope.postMessage({ id, ...kernels }, [...buffers]);
+};
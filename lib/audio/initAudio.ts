@@ -8,6 +8,8 @@
 import * as audioContext from './audioContext';
 import * as audioPlayer from './audioPlayer';
 import * as audioRouting from './audioRouting';
+import * as loudnessScanner from './loudnessScanner';
+import * as outputDeviceWatcher from './outputDeviceWatcher';
 
 // Flag to track initialization state
 let isInitialized = false;
@@ -28,10 +30,16 @@ export const initializeAudio = (): void => {
     // eqProcessor is a singleton, so it will be initialized automatically
 
     audioRouting.initializeAudioRouting();
+
+    // Follow output device changes and their bound EQ profiles
+    outputDeviceWatcher.startOutputDeviceWatcher();
     
     // Initialize audio player without subscription to player store
     audioPlayer.initializeAudioPlayer();
     
+    // Measure track loudness for normalization in the background
+    loudnessScanner.startLoudnessScanner();
+    
     // Set initialization flag
     isInitialized = true;
   } catch (error) {
@@ -51,7 +59,9 @@ export const cleanupAudio = (): void => {
   
   try {
     // Clean up in reverse order
+    loudnessScanner.stopLoudnessScanner();
     audioPlayer.cleanupAudioPlayer();
+    outputDeviceWatcher.stopOutputDeviceWatcher();
     audioRouting.cleanupAudioRouting();
     audioContext.suspendAudioContext();
     
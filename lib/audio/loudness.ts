@@ -0,0 +1,179 @@
+import { Loudness } from '../models/Loudness';
+
+// Rate tracks are decoded at for measurement. The K-weighting coefficients
+// below are the reference ones from BS.1770, which are specified at 48 kHz.
+export const LOUDNESS_SAMPLE_RATE = 48000;
+
+// K-weighting: high shelf (head effects) followed by a high-pass (RLB curve)
+const K_SHELF = {
+  b: [1.53512485958697, -2.69169618940638, 1.19839281085285],
+  a: [-1.69065929318241, 0.73248077421585],
+};
+const K_HIGHPASS = {
+  b: [1.0, -2.0, 1.0],
+  a: [-1.99004745483398, 0.99007225036621],
+};
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1; // 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Floors for silent input, so measurements stay finite (they're stored and synced)
+export const SILENT_LUFS = ABSOLUTE_GATE_LUFS;
+const SILENT_PEAK_DB = -144;
+
+// True peak: 4x oversampling with a windowed-sinc interpolator
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+const CENTRE = TAPS_PER_PHASE / 2 - 1;
+
+export interface LoudnessRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface LoudnessResponse {
+  id: number;
+  loudness: Loudness | null;
+}
+
+const energyToLufs = (energy: number): number => -0.691 + 10 * Math.log10(energy);
+
+// Squared K-weighted signal of one channel
+const kWeightedSquares = (samples: Float32Array): Float32Array => {
+  const out = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0; // shelf state
+  let z1 = 0, z2 = 0, w1 = 0, w2 = 0; // high-pass state
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = K_SHELF.b[0] * x + K_SHELF.b[1] * x1 + K_SHELF.b[2] * x2 - K_SHELF.a[0] * y1 - K_SHELF.a[1] * y2;
+    x2 = x1; x1 = x; y2 = y1; y1 = y;
+    const w = K_HIGHPASS.b[0] * y + K_HIGHPASS.b[1] * z1 + K_HIGHPASS.b[2] * z2 - K_HIGHPASS.a[0] * w1 - K_HIGHPASS.a[1] * w2;
+    z2 = z1; z1 = y; w2 = w1; w1 = w;
+    out[i] = w * w;
+  }
+  return out;
+};
+
+// Gated integrated loudness (LUFS) of K-weighted channel energies
+const integratedLoudness = (squares: Float32Array[], sampleRate: number): number => {
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const length = squares[0]?.length ?? 0;
+  if (length < blockLength) return SILENT_LUFS;
+
+  // Mean-square energy of every 400 ms block, summed over channels
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += step) {
+    let energy = 0;
+    for (const channel of squares) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += channel[i];
+      energy += sum / blockLength;
+    }
+    blocks.push(energy);
+  }
+
+  const gatedMean = (threshold: number): number => {
+    let sum = 0;
+    let count = 0;
+    for (const energy of blocks) {
+      if (energyToLufs(energy) > threshold) {
+        sum += energy;
+        count++;
+      }
+    }
+    return count > 0 ? sum / count : 0;
+  };
+
+  const absoluteGated = gatedMean(ABSOLUTE_GATE_LUFS);
+  if (absoluteGated === 0) return SILENT_LUFS;
+  const relativeGate = energyToLufs(absoluteGated) + RELATIVE_GATE_LU;
+  return energyToLufs(gatedMean(Math.max(ABSOLUTE_GATE_LUFS, relativeGate)));
+};
+
+// Polyphase interpolation filters, one per fractional position
+const makePhases = (): Float32Array[] => {
+  const halfWidth = TAPS_PER_PHASE / 2 + 0.5;
+  const phases: Float32Array[] = [];
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const frac = p / OVERSAMPLE;
+    const phase = new Float32Array(TAPS_PER_PHASE);
+    let sum = 0;
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      const d = k - CENTRE - frac;
+      phase[k] = (Math.sin(Math.PI * d) / (Math.PI * d)) * (0.5 + 0.5 * Math.cos((Math.PI * d) / halfWidth));
+      sum += phase[k];
+    }
+    for (let k = 0; k < TAPS_PER_PHASE; k++) phase[k] /= sum;
+    phases.push(phase);
+  }
+  return phases;
+};
+
+// Maximum absolute value of the 4x oversampled channel
+const truePeak = (samples: Float32Array, phases: Float32Array[]): number => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const a = Math.abs(samples[i]);
+    if (a > peak) peak = a;
+  }
+  const last = samples.length - TAPS_PER_PHASE;
+  for (let i = 0; i <= last; i++) {
+    // Only interpolate where a neighbouring sample is within 6 dB of the
+    // running peak; quieter stretches can't produce a new maximum
+    const centre = Math.max(Math.abs(samples[i + CENTRE]), Math.abs(samples[i + CENTRE + 1]));
+    if (centre < peak * 0.5) continue;
+    for (const phase of phases) {
+      let acc = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) acc += phase[k] * samples[i + k];
+      const a = Math.abs(acc);
+      if (a > peak) peak = a;
+    }
+  }
+  return peak;
+};
+
+// Measure integrated loudness and true peak per BS.1770-4. Channels are
+// weighted equally (stereo front); mono is measured as dual mono, the way it's
+// played back over both speakers.
+export function measureLoudness(channels: Float32Array[], sampleRate: number): Loudness {
+  const measured = channels.length === 1 ? [channels[0], channels[0]] : channels.slice(0, 2);
+  const squares = measured.map(kWeightedSquares);
+  const phases = makePhases();
+  const peak = Math.max(0, ...channels.map((channel) => truePeak(channel, phases)));
+
+  return {
+    integratedLufs: integratedLoudness(squares, sampleRate),
+    truePeakDb: Math.max(SILENT_PEAK_DB, 20 * Math.log10(peak)),
+    duration: (channels[0]?.length ?? 0) / sampleRate,
+  };
+}
+
+// Album loudness from its tracks: the duration-weighted energy mean, which
+// approximates gating the album as one programme, and the loudest peak
+export function combineLoudness(measurements: Loudness[]): Loudness | null {
+  const audible = measurements.filter((m) => m.integratedLufs > SILENT_LUFS && m.duration > 0);
+  if (audible.length === 0) return null;
+
+  let energy = 0;
+  let duration = 0;
+  for (const m of audible) {
+    energy += Math.pow(10, m.integratedLufs / 10) * m.duration;
+    duration += m.duration;
+  }
+  return {
+    integratedLufs: 10 * Math.log10(energy / duration),
+    truePeakDb: Math.max(...measurements.map((m) => m.truePeakDb)),
+    duration: measurements.reduce((sum, m) => sum + m.duration, 0),
+  };
+}
+
+// Gain (dB) that brings a measurement to the target loudness, reduced if
+// needed so the true peak stays under 0 dBTP. Silent tracks get no gain.
+export function normalizationGainDb(loudness: Loudness, targetLufs: number): number {
+  if (loudness.integratedLufs <= SILENT_LUFS) return 0;
+  return Math.min(targetLufs - loudness.integratedLufs, -loudness.truePeakDb);
+}
@@ -0,0 +1,17 @@
+import { measureLoudness, LoudnessRequest, LoudnessResponse } from './loudness';
+
+// Worker side of the loudness scanner: measure one decoded track
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<LoudnessRequest>) => void) | null;
+  postMessage: (message: LoudnessResponse) => void;
+};
+
+scope.onmessage = (e) => {
+  const { id, channels, sampleRate } = e.data;
+  try {
+    scope.postMessage({ id, loudness: measureLoudness(channels, sampleRate) });
+  } catch (error) {
+    console.error('Loudness measurement failed:', error);
+    scope.postMessage({ id, loudness: null });
+  }
+};
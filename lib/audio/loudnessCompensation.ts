@@ -0,0 +1,114 @@
+import { EQBand } from '../models/EQBand';
+import { combinedMagnitudeAt, logFrequencies } from '../utils/eqExport/biquadMath';
+import { equalLoudnessCompensationDb } from '../utils/equalLoudness';
+
+// Web Audio shelves have a fixed slope (S = 1), which is Q = 1/√2
+const SHELF_Q = Math.SQRT1_2;
+
+// Fixed filters whose gains are fitted to the equal-loudness difference: two
+// low shelves for the steady rise below ~500 Hz, a dip around the ear's most
+// sensitive region and a high shelf for the top octave
+const COMPENSATION_FILTERS: Omit<EQBand, 'gain'>[] = [
+  { id: 'lc-low', frequency: 250, q: SHELF_Q, type: 'lowshelf' },
+  { id: 'lc-sub', frequency: 60, q: SHELF_Q, type: 'lowshelf' },
+  { id: 'lc-presence', frequency: 3500, q: 0.7, type: 'peaking' },
+  { id: 'lc-air', frequency: 10000, q: SHELF_Q, type: 'highshelf' },
+];
+
+const FIT_FREQUENCIES = logFrequencies(20, 16000, 64);
+const FIT_ITERATIONS = 4;
+// Time constant for gain changes as the volume slider moves
+const GAIN_TIME_CONSTANT = 0.05;
+
+const withGains = (gains: number[]): EQBand[] =>
+  COMPENSATION_FILTERS.map((filter, i) => ({ ...filter, gain: gains[i] }));
+
+// Solve the small normal-equation system A·x = b by Gaussian elimination
+const solve = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => (Math.abs(row[i]) < 1e-12 ? 0 : row[n] / row[i]));
+};
+
+// Filter gains (dB) approximating the ISO 226 compensation for listening at
+// `listeningPhon` material balanced at `referencePhon`. Shelf responses are
+// close to linear in their gain, so a few least-squares passes on the
+// residual converge.
+export function fitCompensationGains(listeningPhon: number, referencePhon: number): number[] {
+  const target = equalLoudnessCompensationDb(listeningPhon, referencePhon, FIT_FREQUENCIES);
+  const count = COMPENSATION_FILTERS.length;
+
+  // Response of each filter per dB of gain
+  const basis = COMPENSATION_FILTERS.map((_, i) => {
+    const unit = new Array(count).fill(0);
+    unit[i] = 1;
+    return combinedMagnitudeAt(withGains(unit), FIT_FREQUENCIES);
+  });
+
+  const normal = basis.map((row) => basis.map((col) => row.reduce((sum, v, k) => sum + v * col[k], 0)));
+
+  let gains = new Array(count).fill(0);
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    const response = combinedMagnitudeAt(withGains(gains), FIT_FREQUENCIES);
+    const residual = target.map((t, k) => t - response[k]);
+    const rhs = basis.map((row) => row.reduce((sum, v, k) => sum + v * residual[k], 0));
+    const step = solve(normal, rhs);
+    gains = gains.map((g, i) => g + step[i]);
+  }
+  return gains;
+}
+
+// Equal-loudness compensation stage ahead of the EQ. With compensation off (or
+// at the reference level) every filter sits at 0 dB and passes audio unchanged.
+export class LoudnessCompensation {
+  private readonly ctx: BaseAudioContext;
+  private readonly filters: BiquadFilterNode[];
+
+  constructor(ctx: BaseAudioContext) {
+    this.ctx = ctx;
+    this.filters = COMPENSATION_FILTERS.map((band) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = band.type!;
+      filter.frequency.value = band.frequency;
+      // Shelves ignore Q (see SHELF_Q); peaking filters use it directly
+      filter.Q.value = band.q;
+      filter.gain.value = 0;
+      return filter;
+    });
+    for (let i = 0; i < this.filters.length - 1; i++) {
+      this.filters[i].connect(this.filters[i + 1]);
+    }
+  }
+
+  public getInput(): AudioNode {
+    return this.filters[0];
+  }
+
+  public getOutput(): AudioNode {
+    return this.filters[this.filters.length - 1];
+  }
+
+  // Glide to the compensation for `listeningPhon`; null turns it off
+  public update(listeningPhon: number | null, referencePhon: number): void {
+    const gains = listeningPhon === null || listeningPhon >= referencePhon
+      ? this.filters.map(() => 0)
+      : fitCompensationGains(listeningPhon, referencePhon);
+    const now = this.ctx.currentTime;
+    this.filters.forEach((filter, i) => {
+      filter.gain.setTargetAtTime(gains[i], now, GAIN_TIME_CONSTANT);
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import * as fileStorage from '../storage/fileStorage';
+import * as indexedDBManager from '../storage/indexedDBManager';
+import { Loudness } from '../models/Loudness';
+import { useAlbumStore, useTrackStore } from '../stores';
+import { shouldStream } from './audioPlayer';
+import {
+  combineLoudness,
+  measureLoudness,
+  LOUDNESS_SAMPLE_RATE,
+  LoudnessRequest,
+  LoudnessResponse,
+} from './loudness';
+
+// Pause between tracks so scanning never hogs the main thread
+const SCAN_INTERVAL_MS = 500;
+
+// Measures tracks that have no loudness yet, one at a time in the background.
+// New imports are picked up as they land in the track store.
+class LoudnessScanner {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, (loudness: Loudness | null) => void>();
+  private queue: string[] = [];
+  // Tracks queued, measured or skipped this session
+  private seen = new Set<string>();
+  private isScanning = false;
+  private unsubscribe: (() => void) | null = null;
+
+  public start(): void {
+    if (this.unsubscribe) return;
+
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./loudness.worker.ts', import.meta.url));
+        this.worker.onmessage = (e: MessageEvent<LoudnessResponse>) => this.handleResponse(e.data);
+        this.worker.onerror = (e) => {
+          console.warn('Loudness worker failed, measuring on the main thread:', e.message);
+          this.worker?.terminate();
+          this.worker = null;
+          // Whatever was in flight is lost; those tracks are retried next session
+          this.pending.forEach((resolve) => resolve(null));
+          this.pending.clear();
+        };
+      } catch (error) {
+        console.warn('Loudness worker unavailable, measuring on the main thread:', error);
+        this.worker = null;
+      }
+    }
+
+    this.unsubscribe = useTrackStore.subscribe(() => this.enqueueUnmeasured());
+    this.enqueueUnmeasured();
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.queue = [];
+    this.seen.clear();
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach((resolve) => resolve(null));
+    this.pending.clear();
+  }
+
+  private enqueueUnmeasured(): void {
+    const { tracks, isLoading } = useTrackStore.getState();
+    if (isLoading) return;
+
+    for (const track of Object.values(tracks)) {
+      if (track.loudness || this.seen.has(track.id)) continue;
+      this.seen.add(track.id);
+      this.queue.push(track.id);
+    }
+    this.scanNext();
+  }
+
+  private scanNext(): void {
+    if (this.isScanning) return;
+    const trackId = this.queue.shift();
+    if (!trackId) return;
+
+    this.isScanning = true;
+    this.scanTrack(trackId)
+      .catch((error) => console.error('🔊 Error measuring track loudness:', error))
+      .finally(() => {
+        this.isScanning = false;
+        if (!this.unsubscribe) return;
+        window.setTimeout(() => this.scanNext(), SCAN_INTERVAL_MS);
+      });
+  }
+
+  private async scanTrack(trackId: string): Promise<void> {
+    const track = useTrackStore.getState().getTrackById(trackId);
+    if (!track || track.loudness) return;
+
+    const audioFile = await fileStorage.getAudioFile(track.storageKey);
+    // Files too long to decode in one go are left unmeasured and play at unity gain
+    if (!audioFile || shouldStream(audioFile.size, track.duration)) return;
+
+    const arrayBuffer = await audioFile.arrayBuffer();
+    const buffer = await new OfflineAudioContext(2, 1, LOUDNESS_SAMPLE_RATE).decodeAudioData(arrayBuffer);
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+    const loudness = await this.measure(channels, buffer.sampleRate);
+    if (!loudness || !this.unsubscribe) return;
+
+    useTrackStore.getState().setTrackLoudness(trackId, loudness);
+    if (track.albumId) {
+      await this.updateAlbumLoudness(track.albumId);
+    }
+  }
+
+  // Recombine an album's loudness from whichever of its tracks are measured
+  private async updateAlbumLoudness(albumId: string): Promise<void> {
+    const measurements = useTrackStore.getState().getTracks()
+      .filter((track) => track.albumId === albumId && track.loudness)
+      .map((track) => track.loudness!);
+    const loudness = combineLoudness(measurements);
+    const album = useAlbumStore.getState().getAlbumById(albumId);
+    if (!loudness || !album) return;
+
+    useAlbumStore.getState().setAlbumLoudness(albumId, loudness);
+    const updatedAlbum = useAlbumStore.getState().getAlbumById(albumId);
+    if (updatedAlbum) {
+      await indexedDBManager.updateItem(indexedDBManager.STORES.ALBUMS, updatedAlbum);
+    }
+  }
+
+  private measure(channels: Float32Array[], sampleRate: number): Promise<Loudness | null> {
+    if (!this.worker) {
+      // No worker: measure after yielding so pending UI work lands first
+      return new Promise((resolve) => {
+        window.setTimeout(() => resolve(measureLoudness(channels, sampleRate)), 0);
+      });
+    }
+
+    const request: LoudnessRequest = { id: ++this.nextId, channels, sampleRate };
+    return new Promise((resolve) => {
+      this.pending.set(request.id, resolve);
+      // The samples aren't used here again, so hand them over instead of copying
+      this.worker!.postMessage(request, channels.map((channel) => channel.buffer as ArrayBuffer));
+    });
+  }
+
+  private handleResponse(response: LoudnessResponse): void {
+    const resolve = this.pending.get(response.id);
+    if (!resolve) return;
+    this.pending.delete(response.id);
+    resolve(response.loudness);
+  }
+}
+
+// Singleton instance
+let scannerInstance: LoudnessScanner | null = null;
+
+export const startLoudnessScanner = (): void => {
+  if (!scannerInstance) {
+    scannerInstance = new LoudnessScanner();
+  }
+  scannerInstance.start();
+};
+
+export const stopLoudnessScanner = (): void => {
+  scannerInstance?.stop();
+};
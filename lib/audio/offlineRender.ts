@@ -0,0 +1,139 @@
+import { EQProfile } from '../models/EQProfile';
+import * as fileStorage from '../storage/fileStorage';
+import { calculateAutoGainDb, dbToGain } from '../utils/audioMath';
+import { encodeWav } from '../utils/wavEncoder';
+import { encodeFlac } from '../utils/flacEncoder';
+import { loadBandDynamics } from './bandDynamics';
+import { buildEQGraph } from './eqGraph';
+
+export type RenderFormat = 'wav16' | 'wav24' | 'flac16' | 'flac24';
+
+export const RENDER_SAMPLE_RATES = [44100, 48000, 96000] as const;
+
+export interface RenderOptions {
+  profile: EQProfile;
+  // Apply the same clipping protection as live playback
+  autoGain: boolean;
+  format: RenderFormat;
+  sampleRate: number;
+  // Fraction 0..1 of the render completed
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface RenderResult {
+  data: ArrayBuffer;
+  mimeType: string;
+  extension: string;
+}
+
+// How often (in seconds of audio) the render pauses to report progress
+const PROGRESS_INTERVAL = 10;
+
+// Share of the progress bar spent rendering; the rest is encoding
+const RENDER_SHARE = 0.9;
+
+export class RenderAbortedError extends Error {
+  constructor() {
+    super('Render cancelled');
+    this.name = 'RenderAbortedError';
+  }
+}
+
+// Decode a stored track, resampled to the target rate
+const decodeTrack = async (storageKey: string, sampleRate: number): Promise<AudioBuffer> => {
+  const audioFile = await fileStorage.getAudioFile(storageKey);
+  if (!audioFile) {
+    throw new Error('Audio file not found in storage');
+  }
+  const arrayBuffer = await audioFile.arrayBuffer();
+  return new OfflineAudioContext(2, 1, sampleRate).decodeAudioData(arrayBuffer);
+};
+
+// Run a buffer through the profile's EQ in an OfflineAudioContext. The graph
+// matches live playback: auto-gain → EQ (both/left/right chains) → profile volume.
+export const renderBufferWithEQ = async (
+  buffer: AudioBuffer,
+  options: Omit<RenderOptions, 'format' | 'sampleRate'>
+): Promise<AudioBuffer> => {
+  const { profile, autoGain, onProgress, signal } = options;
+  const ctx = new OfflineAudioContext(2, buffer.length, buffer.sampleRate);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  // Force stereo so mono files reach both sides of the L/R split
+  const autoGainNode = ctx.createGain();
+  autoGainNode.channelCount = 2;
+  autoGainNode.channelCountMode = 'explicit';
+  autoGainNode.channelInterpretation = 'speakers';
+  autoGainNode.gain.value = autoGain ? dbToGain(calculateAutoGainDb(profile.bands, ctx)) : 1;
+
+  const volumeNode = ctx.createGain();
+  volumeNode.gain.value = profile.volume ? dbToGain(profile.volume) : 1;
+
+  source.connect(autoGainNode);
+  await loadBandDynamics(ctx);
+  buildEQGraph(ctx, profile.bands || [], autoGainNode, volumeNode);
+  volumeNode.connect(ctx.destination);
+  source.start();
+
+  // Suspend at regular points to report progress and honour cancellation
+  const scheduleCheckpoint = (time: number) => {
+    if (time >= buffer.duration) return;
+    ctx.suspend(time).then(() => {
+      onProgress?.(time / buffer.duration);
+      // An aborted render is left suspended; the rejected promise below ends it
+      if (signal?.aborted) return;
+      scheduleCheckpoint(time + PROGRESS_INTERVAL);
+      ctx.resume();
+    });
+  };
+  scheduleCheckpoint(PROGRESS_INTERVAL);
+
+  const rendered = await new Promise<AudioBuffer>((resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new RenderAbortedError()), { once: true });
+    ctx.startRendering().then(resolve, reject);
+  });
+  onProgress?.(1);
+  return rendered;
+};
+
+// Encode rendered audio in the requested container
+export const encodeRender = (buffer: AudioBuffer, format: RenderFormat): RenderResult => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  switch (format) {
+    case 'flac16':
+    case 'flac24':
+      return {
+        data: encodeFlac(channels, buffer.sampleRate, format === 'flac24' ? 24 : 16),
+        mimeType: 'audio/flac',
+        extension: 'flac',
+      };
+    default:
+      return {
+        data: encodeWav(channels, buffer.sampleRate, format === 'wav24' ? 'pcm24' : 'pcm16'),
+        mimeType: 'audio/wav',
+        extension: 'wav',
+      };
+  }
+};
+
+// Decode a stored track, render it through the EQ profile and encode it
+export const renderTrackWithEQ = async (storageKey: string, options: RenderOptions): Promise<RenderResult> => {
+  const { onProgress, signal } = options;
+  const buffer = await decodeTrack(storageKey, options.sampleRate);
+  if (signal?.aborted) throw new RenderAbortedError();
+
+  const rendered = await renderBufferWithEQ(buffer, {
+    ...options,
+    onProgress: onProgress && ((fraction) => onProgress(fraction * RENDER_SHARE)),
+  });
+  if (signal?.aborted) throw new RenderAbortedError();
+
+  // Let the progress bar paint before the synchronous encode
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const result = encodeRender(rendered, options.format);
+  onProgress?.(1);
+  return result;
+};
@@ -0,0 +1,145 @@
+import * as audioContext from './audioContext';
+import { getAudioRouting } from './audioRouting';
+import { useEQProfileStore, useOutputStore } from '../stores';
+import { findDeviceBinding, OutputDevice } from '../stores/outputStore';
+
+// Chrome lists the system default and communications outputs again under
+// these ids, alongside the physical devices they point to
+const ALIAS_DEVICE_IDS = ['default', 'communications'];
+
+const deviceKey = (device: OutputDevice | null): string =>
+  device ? `${device.deviceId}|${device.label}` : '';
+
+// Keeps the output store's device list current, routes audio to the preferred
+// device while it's connected and activates the EQ profile bound to whichever
+// device is playing. Runs on `devicechange` and on the context's `sinkchange`.
+class OutputDeviceWatcher {
+  private unsubscribers: (() => void)[] = [];
+  private isRefreshing = false;
+  private refreshAgain = false;
+  // Device whose binding was applied last, so a profile picked by hand sticks
+  // until the output actually changes
+  private appliedDeviceKey: string | null = null;
+
+  public start(): void {
+    if (this.unsubscribers.length > 0) return;
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices) return;
+
+    const handleChange = () => this.refresh();
+    navigator.mediaDevices.addEventListener('devicechange', handleChange);
+    const ctx = audioContext.getAudioContext();
+    ctx.addEventListener('sinkchange', handleChange);
+
+    this.unsubscribers = [
+      () => navigator.mediaDevices.removeEventListener('devicechange', handleChange),
+      () => ctx.removeEventListener('sinkchange', handleChange),
+      useOutputStore.subscribe((state, prev) => {
+        if (state.outputDeviceId !== prev.outputDeviceId) {
+          this.refresh();
+        } else if (state.deviceProfiles !== prev.deviceProfiles) {
+          // A new binding for the current device takes effect right away
+          this.appliedDeviceKey = null;
+          this.applyBinding();
+        }
+      }),
+      // Profiles load asynchronously; apply the binding once they're in
+      useEQProfileStore.subscribe((state, prev) => {
+        if (prev.isLoading && !state.isLoading) this.applyBinding();
+      }),
+    ];
+
+    this.refresh();
+  }
+
+  public stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.appliedDeviceKey = null;
+  }
+
+  private refresh(): void {
+    if (this.isRefreshing) {
+      this.refreshAgain = true;
+      return;
+    }
+
+    this.isRefreshing = true;
+    this.update()
+      .catch((error) => console.error('🔈 Error updating output devices:', error))
+      .finally(() => {
+        this.isRefreshing = false;
+        if (this.refreshAgain && this.unsubscribers.length > 0) {
+          this.refreshAgain = false;
+          this.refresh();
+        }
+      });
+  }
+
+  private async update(): Promise<void> {
+    const routing = getAudioRouting();
+    const devices = await routing.getOutputDevices();
+    // Without permission some browsers hide the ids too; those can't be picked
+    const outputs: OutputDevice[] = devices
+      .filter((device) => device.deviceId && !ALIAS_DEVICE_IDS.includes(device.deviceId))
+      .map((device) => ({ deviceId: device.deviceId, label: device.label }));
+
+    // A preferred device that's unplugged hands over to the system default
+    // and takes over again when it comes back
+    const { outputDeviceId } = useOutputStore.getState();
+    const sinkId = outputs.some((device) => device.deviceId === outputDeviceId) ? outputDeviceId : '';
+    if (routing.getSinkId() !== sinkId) {
+      await routing.changeOutputDevice(sinkId);
+    }
+
+    const playingId = routing.getSinkId();
+    const currentDevice = playingId
+      ? outputs.find((device) => device.deviceId === playingId) ?? null
+      : this.resolveDefaultDevice(devices, outputs);
+
+    useOutputStore.getState().setOutputDevices(outputs, currentDevice);
+    this.applyBinding();
+  }
+
+  // The physical device behind the system default: Chrome's 'default' entry
+  // shares its groupId; elsewhere the default is listed first
+  private resolveDefaultDevice(devices: MediaDeviceInfo[], outputs: OutputDevice[]): OutputDevice | null {
+    const alias = devices.find((device) => device.deviceId === 'default');
+    if (alias?.groupId) {
+      const match = devices.find(
+        (device) => device.groupId === alias.groupId && !ALIAS_DEVICE_IDS.includes(device.deviceId)
+      );
+      if (match) return { deviceId: match.deviceId, label: match.label };
+    }
+    return outputs[0] ?? null;
+  }
+
+  private applyBinding(): void {
+    const { currentDevice, deviceProfiles } = useOutputStore.getState();
+    const eqStore = useEQProfileStore.getState();
+    if (!currentDevice || eqStore.isLoading) return;
+
+    const key = deviceKey(currentDevice);
+    if (key === this.appliedDeviceKey) return;
+    this.appliedDeviceKey = key;
+
+    const binding = findDeviceBinding(deviceProfiles, currentDevice);
+    if (!binding || !eqStore.profiles[binding.profileId]) return;
+    if (eqStore.activeProfileId !== binding.profileId) {
+      eqStore.setActiveProfile(binding.profileId);
+    }
+  }
+}
+
+// Singleton instance
+let watcherInstance: OutputDeviceWatcher | null = null;
+
+export const startOutputDeviceWatcher = (): void => {
+  if (!watcherInstance) {
+    watcherInstance = new OutputDeviceWatcher();
+  }
+  watcherInstance.start();
+};
+
+export const stopOutputDeviceWatcher = (): void => {
+  watcherInstance?.stop();
+};
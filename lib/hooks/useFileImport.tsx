@@ -2,11 +2,9 @@
 
 import type React from "react"
 import { useState, useRef, useCallback, useEffect } from "react"
-import { useTrackStore } from "@/lib/stores"
 import { Track } from "@/lib/models/Track"
 import * as fileStorage from "@/lib/storage/fileStorage"
 import * as metadataStorage from "@/lib/storage/metadataStorage"
-import { v4 as uuidv4 } from "uuid"
 
 interface UseFileImportOptions {
   onComplete?: (files: File[]) => void
@@ -21,9 +19,6 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
   const [error, setError] = useState<string | null>(null)
 //   const [dragCounter, setDragCounter] = useState(0)
 
-  // Connect to track store
-  const { addTrack } = useTrackStore()
-
   // For cancellation
   const importCancelRef = useRef<boolean>(false)
 
@@ -72,7 +67,8 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
     }
   }, [isImporting])
 
-  // Process a single file and extract metadata, store in IndexedDB
+  // Process a single file: store the audio, read its tags and create the
+  // track with real artist/album entities (metadataStorage adds it to the store)
   const processFile = useCallback(async (file: File): Promise<Track> => {
     try {
       setCurrentFile(file.name)
@@ -80,37 +76,7 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
       // Store audio file in IndexedDB and get storage key
       const storageKey = await fileStorage.storeAudioFile(file)
       
-      // Generate a basic track with metadata from filename
-      const title = file.name.replace(/\.[^/.]+$/, "")
-      const id = uuidv4()
-      
-      // Create track object
-      const track: Track = {
-        id,
-        title,
-        artistId: "Unknown Artist",
-        albumId: "Unknown Album",
-        duration: 0, // Will be updated when audio decodes
-        storageKey,
-        lastModified: Date.now(),
-        syncStatus: 'pending'
-      }
-      
-      // Extract real metadata from audio file
-      try {
-        const metadata = await metadataStorage.extractMetadata(file)
-        if (metadata) {
-          track.title = metadata.title || track.title
-          track.artistId = metadata.artist || track.artistId
-          track.albumId = metadata.album || track.albumId
-          track.duration = metadata.duration || track.duration
-        }
-      } catch (error) {
-        console.warn("Failed to extract metadata:", error)
-        // Continue with basic track info if metadata extraction fails
-      }
-      
-      return track
+      return await metadataStorage.saveTrackMetadata(file, storageKey)
     } catch (error) {
       console.error("Error processing file:", error)
       throw new Error(`Failed to process ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
@@ -124,12 +90,15 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
           file.type.startsWith("audio/") ||
           file.name.endsWith(".mp3") ||
           file.name.endsWith(".wav") ||
-          file.name.endsWith(".flac"),
+          file.name.endsWith(".flac") ||
+          file.name.endsWith(".m4a") ||
+          file.name.endsWith(".ogg") ||
+          file.name.endsWith(".opus"),
       )
 
       if (files.length === 0) {
-        setError("No audio files found. Please select MP3, WAV, or FLAC files.")
-        onError?.("No audio files found. Please select MP3, WAV, or FLAC files.")
+        setError("No audio files found. Please select MP3, WAV, FLAC, M4A or Ogg files.")
+        onError?.("No audio files found. Please select MP3, WAV, FLAC, M4A or Ogg files.")
         return
       }
 
@@ -159,12 +128,9 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
             // Show starting progress
             setImportProgress(startProgress)
             
-            // Process file and store in IndexedDB
+            // Process file, store in IndexedDB and add to the track store
             const track = await processFile(file)
             
-            // Add to track store (which will internally save to IndexedDB)
-            addTrack(track)
-            
             // Track for callback
             importedTracks.push(track)
             
@@ -197,7 +163,7 @@ export function useFileImport({ onComplete, onError }: UseFileImportOptions = {}
         setIsImporting(false)
       })
     },
-    [onComplete, onError, processFile, addTrack],
+    [onComplete, onError, processFile],
   )
 
   const handleDrop = useCallback((e: React.DragEvent) => {
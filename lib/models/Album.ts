@@ -1,4 +1,5 @@
 import { SyncStatus } from './SyncStatus';
+import { Loudness } from './Loudness';
 
 export interface Album {
   id: string;
@@ -6,6 +7,7 @@ export interface Album {
   artistId?: string;    // Reference to Artist
   year?: number;
   coverStorageKey?: string;
+  loudness?: Loudness;  // Combined from its tracks' measurements
   lastModified: number;
   syncStatus: SyncStatus;
 }
\ No newline at end of file
@@ -1,4 +1,15 @@
-export type EQBandChannel = 'both' | 'left' | 'right';
+// 'mid' and 'side' act on the sum (L+R)/2 and difference (L−R)/2 of the channels
+export type EQBandChannel = 'both' | 'left' | 'right' | 'mid' | 'side';
+
+// Downward compression of a band: when the level in the band's own frequency
+// region rises above the threshold, its gain is pulled down, by at most `range`
+export interface EQBandDynamics {
+  threshold: number; // dBFS
+  ratio: number; // e.g. 4 for 4:1
+  range: number; // Maximum gain reduction in dB
+  attack: number; // ms
+  release: number; // ms
+}
 
 export interface EQBand {
   id: string;
@@ -6,5 +17,7 @@ export interface EQBand {
   gain: number;
   q: number;  // Quality factor
   type?: BiquadFilterType; // Optional filter type, defaults to 'peaking'
+  slope?: number; // Lowpass/highpass slope in dB/octave (12, 24, 36, 48), defaults to 12
   channel?: EQBandChannel; // Optional channel assignment — undefined is treated as 'both'
+  dynamics?: EQBandDynamics; // Optional dynamic section; only bells and shelves use it
 }
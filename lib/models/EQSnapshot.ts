@@ -0,0 +1,11 @@
+import { EQBand } from './EQBand';
+
+// A named copy of a profile's curve, kept to compare against or restore
+export interface EQSnapshot {
+  id: string;
+  profileId: string;
+  name: string;
+  bands: EQBand[];
+  volume: number;       // Profile volume offset at the time (in dB)
+  dateCreated: number;
+}
@@ -0,0 +1,6 @@
+// Loudness measured per ITU-R BS.1770 / EBU R128
+export interface Loudness {
+  integratedLufs: number; // Gated integrated loudness
+  truePeakDb: number;     // Maximum true peak (dBTP)
+  duration: number;       // Seconds measured, used to weight album loudness
+} 
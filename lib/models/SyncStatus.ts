@@ -1 +1,2 @@
-export type SyncStatus = 'synced' | 'modified' | 'pending' | 'conflict'; 
\ No newline at end of file
+// 'pending_delete': deleted locally; the row is kept until the server has deleted it too
+export type SyncStatus = 'synced' | 'modified' | 'pending' | 'conflict' | 'pending_delete';
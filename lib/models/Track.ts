@@ -1,4 +1,5 @@
 import { SyncStatus } from './SyncStatus';
+import { Loudness } from './Loudness';
 
 export interface Track {
   id: string;
@@ -13,5 +14,6 @@ export interface Track {
   coverStorageKey?: string;
   lastModified: number;
   dateCreated?: number; // When the track was first added
+  loudness?: Loudness;  // Set by the background loudness scan
   syncStatus: SyncStatus;
 } 
\ No newline at end of file
@@ -1,5 +1,5 @@
 const DB_NAME = 'cabinAudioDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 const isIndexedDBAvailable = (): boolean => (
   typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
@@ -14,7 +14,8 @@ export const STORES = {
   EQ_PROFILES: 'eqProfiles',
   AUDIO_FILES: 'audioFiles',
   IMAGES: 'images',
-  SYNC_STATE: 'syncState'
+  SYNC_STATE: 'syncState',
+  EQ_SNAPSHOTS: 'eqSnapshots'
 };
 
 // Initialize the database
@@ -78,6 +79,11 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORES.SYNC_STATE)) {
         db.createObjectStore(STORES.SYNC_STATE, { keyPath: 'id' });
       }
+
+      if (!db.objectStoreNames.contains(STORES.EQ_SNAPSHOTS)) {
+        const snapshotStore = db.createObjectStore(STORES.EQ_SNAPSHOTS, { keyPath: 'id' });
+        snapshotStore.createIndex('profileId', 'profileId', { unique: false });
+      }
     };
   });
 };
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./indexedDBManager', () => ({
+  STORES: { ARTISTS: 'artists', ALBUMS: 'albums', TRACKS: 'tracks', IMAGES: 'images' },
+  addItem: vi.fn(async (_store: string, item: unknown) => item),
+  updateItem: vi.fn(async (_store: string, item: unknown) => item),
+  getAllItems: vi.fn(async () => []),
+}));
+
+const covers = vi.hoisted(() => ({ stored: 0 }));
+
+vi.mock('./fileStorage', () => ({
+  storeImageFile: vi.fn(async () => `cover-${++covers.stored}`),
+}));
+
+// Only the library stores: the rest of the barrel initialises itself on import
+vi.mock('../stores', async () => ({
+  useTrackStore: (await import('../stores/trackStore')).useTrackStore,
+  useAlbumStore: (await import('../stores/albumStore')).useAlbumStore,
+  useArtistStore: (await import('../stores/artistStore')).useArtistStore,
+}));
+
+import * as indexedDBManager from './indexedDBManager';
+import * as fileStorage from './fileStorage';
+import { findOrCreateAlbum, findOrCreateArtist, saveTrackMetadata } from './metadataStorage';
+import { useAlbumStore, useArtistStore, useTrackStore } from '../stores';
+
+const cover = () => new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], { type: 'image/jpeg' });
+
+// Minimal MP3: an ID3v2.3 tag with text frames and an optional front cover
+function mp3File(name: string, frames: Record<string, string>, withCover = false): File {
+  const encoder = new TextEncoder();
+  const frame = (id: string, data: Uint8Array) => {
+    const header = new Uint8Array(10);
+    header.set(encoder.encode(id), 0);
+    new DataView(header.buffer).setUint32(4, data.length);
+    return [header, data];
+  };
+  const parts = Object.entries(frames).flatMap(([id, text]) => frame(id, new Uint8Array([0, ...encoder.encode(text)])));
+  if (withCover) {
+    parts.push(...frame('APIC', new Uint8Array([0, ...encoder.encode('image/jpeg'), 0, 3, 0, 0xff, 0xd8, 0xff, 0xe0])));
+  }
+  const size = parts.reduce((sum, part) => sum + part.length, 0);
+  const header = new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+  return new File([header, ...parts], name, { type: 'audio/mpeg' });
+}
+
+beforeEach(() => {
+  useArtistStore.setState({ artists: {} });
+  useAlbumStore.setState({ albums: {} });
+  useTrackStore.setState({ tracks: {} });
+  vi.clearAllMocks();
+  covers.stored = 0;
+  // No AudioContext under Node: duration decoding fails and is logged
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('findOrCreateArtist', () => {
+  it('creates an artist once and reuses it by name', async () => {
+    const first = await findOrCreateArtist('Artist');
+    const second = await findOrCreateArtist('Artist');
+    const other = await findOrCreateArtist('Other');
+
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+    expect(useArtistStore.getState().getArtists()).toHaveLength(2);
+    expect(indexedDBManager.addItem).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('findOrCreateAlbum', () => {
+  it('reuses an album with the same title and artist', async () => {
+    const first = await findOrCreateAlbum('Album', 'artist-1', 2020);
+    const second = await findOrCreateAlbum('Album', 'artist-1', 2020);
+    const otherArtist = await findOrCreateAlbum('Album', 'artist-2', 2020);
+
+    expect(second.id).toBe(first.id);
+    expect(otherArtist.id).not.toBe(first.id);
+    expect(useAlbumStore.getState().getAlbums()).toHaveLength(2);
+  });
+
+  it('stores the cover once when the album is created with one', async () => {
+    const album = await findOrCreateAlbum('Album', 'artist-1', undefined, cover());
+    const again = await findOrCreateAlbum('Album', 'artist-1', undefined, cover());
+
+    expect(album.coverStorageKey).toBe('cover-1');
+    expect(again.coverStorageKey).toBe('cover-1');
+    expect(fileStorage.storeImageFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('back-fills the cover of an album first imported without one', async () => {
+    const album = await findOrCreateAlbum('Album', 'artist-1');
+    expect(album.coverStorageKey).toBeUndefined();
+
+    const filled = await findOrCreateAlbum('Album', 'artist-1', undefined, cover());
+
+    expect(filled.id).toBe(album.id);
+    expect(filled.coverStorageKey).toBe('cover-1');
+    expect(filled.syncStatus).toBe('modified');
+    expect(indexedDBManager.updateItem).toHaveBeenCalledWith('albums', expect.objectContaining({ id: album.id, coverStorageKey: 'cover-1' }));
+    expect(useAlbumStore.getState().getAlbumById(album.id)?.coverStorageKey).toBe('cover-1');
+  });
+});
+
+describe('saveTrackMetadata', () => {
+  it('shares one artist and album across tracks and back-fills the cover', async () => {
+    const first = await saveTrackMetadata(mp3File('one.mp3', { TIT2: 'One', TPE1: 'Band', TALB: 'Record', TRCK: '1' }), 'audio-1');
+    const second = await saveTrackMetadata(mp3File('two.mp3', { TIT2: 'Two', TPE1: 'Band', TALB: 'Record', TRCK: '2' }, true), 'audio-2');
+
+    expect(second.artistId).toBe(first.artistId);
+    expect(second.albumId).toBe(first.albumId);
+    expect(first.coverStorageKey).toBeUndefined();
+    expect(second.coverStorageKey).toBe('cover-1');
+    expect(useArtistStore.getState().getArtists()).toHaveLength(1);
+    expect(useAlbumStore.getState().getAlbums()).toHaveLength(1);
+    expect(useAlbumStore.getState().getAlbumById(first.albumId!)?.coverStorageKey).toBe('cover-1');
+  });
+
+  it('files the album under a differing album artist', async () => {
+    const track = await saveTrackMetadata(
+      mp3File('feat.mp3', { TIT2: 'Feature', TPE1: 'Guest', TPE2: 'Band', TALB: 'Record' }),
+      'audio-1'
+    );
+
+    const artists = useArtistStore.getState().getArtists();
+    const band = artists.find(a => a.name === 'Band');
+    expect(artists.map(a => a.name).sort()).toEqual(['Band', 'Guest']);
+    expect(useAlbumStore.getState().getAlbumById(track.albumId!)?.artistId).toBe(band?.id);
+  });
+});
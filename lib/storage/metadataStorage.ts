@@ -5,10 +5,12 @@ import { Track } from '../models/Track';
 import { Album } from '../models/Album';
 import { Artist } from '../models/Artist';
 import { useTrackStore, useAlbumStore, useArtistStore } from '../stores';
+import { readTags } from '../utils/audioTags';
 
 interface AudioMetadata {
   title: string
   artist: string
+  albumArtist?: string
   album: string
   duration: number
   year?: number
@@ -17,155 +19,178 @@ interface AudioMetadata {
   coverArt?: Blob
 }
 
+const UNKNOWN_ARTIST = "Unknown Artist"
+const UNKNOWN_ALBUM = "Unknown Album"
+
 /**
- * Extracts metadata from an audio file using Web Audio API for duration
- * and basic file parsing for ID3/metadata tags
+ * Extracts metadata from an audio file: ID3 / Vorbis comment / MP4 tags via
+ * the audioTags reader, with the Web Audio API as a fallback for duration
  */
 export async function extractMetadata(file: File): Promise<AudioMetadata> {
-  // Get duration using Web Audio API
-  const duration = await getAudioDuration(file)
-  
-  // For now return basic metadata with just duration
-  // In a full implementation, we would parse ID3 tags here
+  const arrayBuffer = await file.arrayBuffer()
+
+  // Read tags first — decodeAudioData detaches the buffer
+  const tags = readTags(arrayBuffer)
+
+  // Use the container's duration when it states one, otherwise decode
+  let duration = tags.duration ?? 0
+  if (!duration) {
+    try {
+      duration = await getAudioDuration(arrayBuffer)
+    } catch (error) {
+      console.warn('Failed to decode audio for duration:', error)
+    }
+  }
+
   return {
-    title: file.name.replace(/\.[^/.]+$/, ""),
-    artist: "Unknown Artist",
-    album: "Unknown Album", 
-    duration
+    title: tags.title || file.name.replace(/\.[^/.]+$/, ""),
+    artist: tags.artist || tags.albumArtist || UNKNOWN_ARTIST,
+    albumArtist: tags.albumArtist,
+    album: tags.album || UNKNOWN_ALBUM,
+    duration,
+    year: tags.year,
+    trackNumber: tags.trackNumber,
+    genre: tags.genre,
+    coverArt: tags.picture
+      ? new Blob([tags.picture.data], { type: tags.picture.mimeType })
+      : undefined
   }
 }
 
 /**
  * Gets audio duration using Web Audio API
  */
-async function getAudioDuration(file: File): Promise<number> {
-  return new Promise((resolve, reject) => {
-    // Create temporary audio context
-    const audioContext = new AudioContext()
-    
-    // Create file reader to get array buffer
-    const reader = new FileReader()
-    
-    reader.onload = async (e) => {
-      try {
-        if (!e.target?.result || typeof e.target.result === 'string') {
-          throw new Error('Failed to read file')
-        }
-        
-        // Decode audio data to get duration
-        const audioBuffer = await audioContext.decodeAudioData(e.target.result)
-        resolve(audioBuffer.duration)
-        
-        // Clean up
-        audioContext.close()
-      } catch (error) {
-        reject(error)
-      }
-    }
-    
-    reader.onerror = (error) => reject(error)
-    
-    // Read file as array buffer
-    reader.readAsArrayBuffer(file)
-  })
+async function getAudioDuration(arrayBuffer: ArrayBuffer): Promise<number> {
+  // Create temporary audio context
+  const audioContext = new AudioContext()
+
+  try {
+    // Decode audio data to get duration
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
+    return audioBuffer.duration
+  } finally {
+    // Clean up
+    audioContext.close()
+  }
 }
 
-// Save track metadata to IndexedDB and update stores
-export const saveTrackMetadata = async (
-  file: File,
-  storageKey: string
-): Promise<Track> => {
-  // Extract metadata from file
-  const metadata = await extractMetadata(file);
-  
-  // Find or create artist
-  let artistId = '';
+// Find an artist by name or create it
+export const findOrCreateArtist = async (name: string): Promise<string> => {
   const existingArtists = useArtistStore.getState().getArtists();
-  const existingArtist = existingArtists.find(a => a.name === metadata.artist);
+  const existingArtist = existingArtists.find(a => a.name === name);
   
   if (existingArtist) {
-    artistId = existingArtist.id;
-  } else {
-    // Create new artist
-    const newArtist: Artist = {
-      id: uuidv4(),
-      name: metadata.artist,
-      lastModified: Date.now(),
-      syncStatus: 'pending'
-    };
-    
-    // Save to IndexedDB
-    await indexedDBManager.addItem(
-      indexedDBManager.STORES.ARTISTS,
-      newArtist
-    );
-    
-    // Update store
-    useArtistStore.getState().addArtist(newArtist);
-    
-    artistId = newArtist.id;
+    return existingArtist.id;
   }
+
+  // Create new artist
+  const newArtist: Artist = {
+    id: uuidv4(),
+    name,
+    lastModified: Date.now(),
+    syncStatus: 'pending'
+  };
   
-  // Find or create album
-  let albumId = '';
+  // Save to IndexedDB
+  await indexedDBManager.addItem(
+    indexedDBManager.STORES.ARTISTS,
+    newArtist
+  );
+  
+  // Update store
+  useArtistStore.getState().addArtist(newArtist);
+  
+  return newArtist.id;
+};
+
+// Find an album by title and artist or create it. Cover art is stored once per album.
+export const findOrCreateAlbum = async (
+  title: string,
+  artistId: string,
+  year?: number,
+  coverArt?: Blob
+): Promise<Album> => {
   const existingAlbums = useAlbumStore.getState().getAlbums();
   const existingAlbum = existingAlbums.find(
-    a => a.title === metadata.album && a.artistId === artistId
+    a => a.title === title && a.artistId === artistId
   );
   
   if (existingAlbum) {
-    albumId = existingAlbum.id;
-  } else {
-    // Create new album
-    const newAlbum: Album = {
-      id: uuidv4(),
-      title: metadata.album,
-      artistId,
-      year: metadata.year,
-      lastModified: Date.now(),
-      syncStatus: 'pending'
-    };
-    
-    // Save to IndexedDB
-    await indexedDBManager.addItem(
-      indexedDBManager.STORES.ALBUMS,
-      newAlbum
-    );
-    
-    // Update store
-    useAlbumStore.getState().addAlbum(newAlbum);
-    
-    albumId = newAlbum.id;
+    // Back-fill cover art for albums first imported without it
+    if (!existingAlbum.coverStorageKey && coverArt) {
+      const coverStorageKey = await fileStorage.storeImageFile(coverArt);
+      const updatedAlbum: Album = {
+        ...existingAlbum,
+        coverStorageKey,
+        lastModified: Date.now(),
+        syncStatus: 'modified'
+      };
+      await indexedDBManager.updateItem(indexedDBManager.STORES.ALBUMS, updatedAlbum);
+      useAlbumStore.getState().updateAlbum(existingAlbum.id, { coverStorageKey });
+      return updatedAlbum;
+    }
+    return existingAlbum;
   }
+
+  // Create new album
+  const newAlbum: Album = {
+    id: uuidv4(),
+    title,
+    artistId,
+    year,
+    coverStorageKey: coverArt ? await fileStorage.storeImageFile(coverArt) : undefined,
+    lastModified: Date.now(),
+    syncStatus: 'pending'
+  };
+  
+  // Save to IndexedDB
+  await indexedDBManager.addItem(
+    indexedDBManager.STORES.ALBUMS,
+    newAlbum
+  );
+  
+  // Update store
+  useAlbumStore.getState().addAlbum(newAlbum);
+  
+  return newAlbum;
+};
+
+// Save track metadata to IndexedDB and update stores
+export const saveTrackMetadata = async (
+  file: File,
+  storageKey: string
+): Promise<Track> => {
+  // Extract metadata from file
+  const metadata = await extractMetadata(file);
+  
+  // Find or create the track artist, and the album artist if the tags name a different one
+  const artistId = await findOrCreateArtist(metadata.artist);
+  const albumArtistId = metadata.albumArtist && metadata.albumArtist !== metadata.artist
+    ? await findOrCreateArtist(metadata.albumArtist)
+    : artistId;
+  
+  // Find or create album
+  const album = await findOrCreateAlbum(metadata.album, albumArtistId, metadata.year, metadata.coverArt);
   
   // Create track
   const track: Track = {
     id: uuidv4(),
     title: metadata.title,
     artistId,
-    albumId,
+    albumId: album.id,
     duration: metadata.duration,
     trackNumber: metadata.trackNumber,
     year: metadata.year,
     genre: metadata.genre,
     storageKey,
+    // Tracks share their album's cover image
+    coverStorageKey: album.coverStorageKey,
     lastModified: Date.now(),
+    dateCreated: Date.now(),
     syncStatus: 'pending'
   };
   
-  // If we have cover art, store it
-  if (metadata.coverArt) {
-    const coverStorageKey = await fileStorage.storeImageFile(metadata.coverArt);
-    track.coverStorageKey = coverStorageKey;
-  }
-  
-  // Save to IndexedDB
-  await indexedDBManager.addItem(
-    indexedDBManager.STORES.TRACKS,
-    track
-  );
-  
-  // Update store
+  // Update store (which also persists the track to IndexedDB)
   useTrackStore.getState().addTrack(track);
   
   return track;
@@ -0,0 +1,244 @@
+import { create } from 'zustand';
+import { EQBand } from '../models/EQBand';
+import { getEQProcessor } from '../audio/eqProcessor';
+import { calculateAutoGainDb, calculateAverageGainDb } from '../utils/audioMath';
+import { useEQProfileStore } from './eqProfileStore';
+
+const ABX_HISTORY_STORAGE_KEY = 'cabin:abxHistory';
+
+// Finished tests kept in history
+const MAX_HISTORY = 20;
+
+// Source id meaning "EQ off" rather than a profile
+export const ABX_BYPASS = 'bypass';
+
+export const ABX_TRIAL_COUNTS = [10, 16, 20] as const;
+
+// Results at or below this p-value are reported as a real difference
+export const ABX_SIGNIFICANCE = 0.05;
+
+export type ABXChoice = 'A' | 'B';
+export type ABXSlot = ABXChoice | 'X';
+
+// 'rms': equal average loudness for pink noise, with shared headroom so no
+// source clips. 'autoGain': each source gets the auto-gain playback would use.
+export type ABXLevelMatch = 'rms' | 'autoGain';
+
+interface ABXSource {
+  id: string; // profile id or ABX_BYPASS
+  name: string;
+  bands: EQBand[];
+  volume: number;
+  gainDb: number; // Output gain after level matching
+}
+
+export interface ABXTrial {
+  x: ABXChoice;
+  answer: ABXChoice;
+  correct: boolean;
+  switches: number; // A/B/X switches before answering
+  timestamp: number;
+}
+
+export interface ABXResult {
+  // Names of the sources that were behind A and B
+  a: string;
+  b: string;
+  levelMatch: ABXLevelMatch;
+  trials: ABXTrial[];
+  correct: number;
+  total: number;
+  pValue: number;
+  date: number;
+}
+
+interface ABXState {
+  isActive: boolean;
+  levelMatch: ABXLevelMatch;
+  totalTrials: number;
+  selected: ABXSlot;
+  trials: ABXTrial[];
+  result: ABXResult | null;
+  history: ABXResult[];
+
+  // Actions
+  startSession: (firstId: string, secondId: string, options: { totalTrials: number; levelMatch: ABXLevelMatch }) => void;
+  select: (slot: ABXSlot) => void;
+  answer: (choice: ABXChoice) => void;
+  endSession: () => void;
+  clearResult: () => void;
+}
+
+/**
+ * One-sided binomial p-value: the chance of getting at least `correct` of
+ * `total` trials right by guessing.
+ */
+export function abxPValue(correct: number, total: number): number {
+  let coefficient = 1; // C(total, 0)
+  let p = 0;
+  for (let i = 0; i <= total; i++) {
+    if (i >= correct) p += coefficient;
+    coefficient = (coefficient * (total - i)) / (i + 1);
+  }
+  return p / Math.pow(2, total);
+}
+
+const randomChoice = (): ABXChoice => (Math.random() < 0.5 ? 'A' : 'B');
+
+const persistHistory = (history: ABXResult[]) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(ABX_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // ignore storage errors
+  }
+};
+
+const loadHistory = (): ABXResult[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = window.localStorage.getItem(ABX_HISTORY_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Snapshot a profile (or bypass) so edits during the test don't change it
+const resolveSource = (id: string): ABXSource => {
+  if (id === ABX_BYPASS) {
+    return { id, name: 'EQ off', bands: [], volume: 0, gainDb: 0 };
+  }
+  const profile = useEQProfileStore.getState().profiles[id];
+  return {
+    id,
+    name: profile?.name ?? id,
+    bands: profile?.bands ?? [],
+    volume: profile?.volume ?? 0,
+    gainDb: 0,
+  };
+};
+
+// Work out each source's output gain for the chosen level matching
+const matchLevels = (sources: ABXSource[], mode: ABXLevelMatch): void => {
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+
+  if (mode === 'autoGain') {
+    for (const source of sources) {
+      source.gainDb = source.volume + calculateAutoGainDb(source.bands, ctx);
+    }
+    return;
+  }
+
+  const averages = sources.map((source) => calculateAverageGainDb(source.bands, ctx));
+  const peaks = sources.map((source) => -calculateAutoGainDb(source.bands, ctx));
+
+  // Common average level: as loud as possible without any source's peak
+  // boost going over 0 dB
+  const target = Math.min(...sources.map((_, i) => averages[i] - peaks[i]));
+  sources.forEach((source, i) => {
+    source.gainDb = target - averages[i];
+  });
+};
+
+export const useABXStore = create<ABXState>((set, get) => {
+  // Hidden assignment for the running session
+  let sources: Record<ABXChoice, ABXSource> | null = null;
+  let x: ABXChoice = 'A';
+  let switches = 0;
+
+  const sourceFor = (slot: ABXSlot): ABXSource => sources![slot === 'X' ? x : slot];
+
+  const finish = () => {
+    const { trials, levelMatch } = get();
+    getEQProcessor().setComparison(null);
+
+    let result: ABXResult | null = null;
+    if (sources && trials.length > 0) {
+      const correct = trials.filter((trial) => trial.correct).length;
+      result = {
+        a: sources.A.name,
+        b: sources.B.name,
+        levelMatch,
+        trials,
+        correct,
+        total: trials.length,
+        pValue: abxPValue(correct, trials.length),
+        date: Date.now(),
+      };
+      const history = [result, ...get().history].slice(0, MAX_HISTORY);
+      persistHistory(history);
+      set({ history });
+    }
+
+    sources = null;
+    set({ isActive: false, result });
+  };
+
+  return {
+    isActive: false,
+    levelMatch: 'rms',
+    totalTrials: 16,
+    selected: 'A',
+    trials: [],
+    result: null,
+    history: loadHistory(),
+
+    startSession: (firstId, secondId, { totalTrials, levelMatch }) => {
+      const first = resolveSource(firstId);
+      const second = resolveSource(secondId);
+      matchLevels([first, second], levelMatch);
+
+      // Which source is A is hidden too
+      sources = Math.random() < 0.5 ? { A: first, B: second } : { A: second, B: first };
+      x = randomChoice();
+      switches = 0;
+
+      set({ isActive: true, levelMatch, totalTrials, selected: 'A', trials: [], result: null });
+      getEQProcessor().setComparison(sourceFor('A'));
+    },
+
+    select: (slot) => {
+      if (!sources || get().selected === slot) return;
+      switches++;
+      set({ selected: slot });
+      getEQProcessor().setComparison(sourceFor(slot));
+    },
+
+    answer: (choice) => {
+      if (!sources) return;
+      const trial: ABXTrial = {
+        x,
+        answer: choice,
+        correct: choice === x,
+        switches,
+        timestamp: Date.now(),
+      };
+      const trials = [...get().trials, trial];
+      set({ trials });
+
+      if (trials.length >= get().totalTrials) {
+        finish();
+        return;
+      }
+
+      // Next trial: new hidden X; re-route if X is what's playing
+      x = randomChoice();
+      switches = 0;
+      if (get().selected === 'X') {
+        getEQProcessor().setComparison(sourceFor('X'));
+      }
+    },
+
+    endSession: () => {
+      if (!sources) return;
+      finish();
+    },
+
+    clearResult: () => set({ result: null }),
+  };
+});
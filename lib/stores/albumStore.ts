@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { Album } from '../models/Album';
+import { Loudness } from '../models/Loudness';
 
 interface AlbumState {
   albums: Record<string, Album>;
@@ -7,6 +8,7 @@ interface AlbumState {
   // Actions
   addAlbum: (album: Album) => void;
   updateAlbum: (albumId: string, updates: Partial<Album>) => void;
+  setAlbumLoudness: (albumId: string, loudness: Loudness) => void;
   deleteAlbum: (albumId: string) => void;
   getAlbums: () => Album[];
   getAlbumById: (albumId: string) => Album | undefined;
@@ -44,6 +46,21 @@ export const useAlbumStore = create<AlbumState>((set, get) => ({
     });
   },
   
+  // Measured locally like track loudness, so the sync state is left alone
+  setAlbumLoudness: (albumId: string, loudness: Loudness) => {
+    set((state) => {
+      const album = state.albums[albumId];
+      if (!album) return state;
+      
+      return {
+        albums: {
+          ...state.albums,
+          [albumId]: { ...album, loudness }
+        }
+      };
+    });
+  },
+  
   deleteAlbum: (albumId: string) => {
     set((state) => {
       const newAlbums = { ...state.albums };
@@ -1,75 +1,49 @@
 import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { EQBand } from '../models/EQBand';
 import { EQProfile } from '../models/EQProfile';
 import { SyncStatus } from '../models/SyncStatus';
 import * as indexedDBManager from '../storage/indexedDBManager';
 import { calculateAutoGainDb, dbToGain } from '../utils/audioMath';
+import { flattenProfiles } from '../utils/eqLayers';
+import { LEGACY_PROFILE_COLORS, nextProfileColor } from '../utils/profileColors';
 
-export const PROFILE_IDS = ['profile-1', 'profile-2', 'profile-3'] as const;
-
-// Per-profile accent colors along the blue → cyan → green gradient
-export const PROFILE_COLORS = {
-  'profile-1': {
-    // Electric blue (#5577ff)
-    text: 'text-blue-400',
-    textBright: 'text-blue-300',
-    bg: 'bg-blue-400/30',
-    bgSubtle: 'bg-blue-400/10',
-    ring: 'ring-blue-400/40',
-    border: 'border-blue-400/50',
-    bgPanel: 'dark:bg-blue-400/10 bg-blue-500/10',
-    ringPanel: 'dark:ring-blue-400/20 ring-blue-500/20',
-    label: 'dark:text-blue-400 text-blue-600',
-    hoverText: 'hover:text-blue-300',
-    // Play button / transport accent
-    playText: 'dark:text-blue-300 text-blue-600',
-    playBg: 'dark:bg-blue-400/10 bg-blue-500/10',
-    playGlow: 'dark:bg-blue-400/30 bg-blue-500/25',
-    // Slider accent
-    sliderRange: 'bg-blue-400',
-    sliderThumbBorder: 'border-blue-400/50',
-  },
-  'profile-2': {
-    // Cyan (#00ffff)
-    text: 'text-cyan-400',
-    textBright: 'text-cyan-300',
-    bg: 'bg-cyan-400/30',
-    bgSubtle: 'bg-cyan-400/10',
-    ring: 'ring-cyan-400/40',
-    border: 'border-cyan-400/50',
-    bgPanel: 'dark:bg-cyan-400/10 bg-cyan-500/10',
-    ringPanel: 'dark:ring-cyan-400/20 ring-cyan-500/20',
-    label: 'dark:text-cyan-400 text-cyan-600',
-    hoverText: 'hover:text-cyan-300',
-    playText: 'dark:text-cyan-300 text-cyan-600',
-    playBg: 'dark:bg-cyan-400/10 bg-cyan-500/10',
-    playGlow: 'dark:bg-cyan-400/30 bg-cyan-500/25',
-    sliderRange: 'bg-cyan-400',
-    sliderThumbBorder: 'border-cyan-400/50',
-  },
-  'profile-3': {
-    // Emerald-green (#55ffaa)
-    text: 'text-emerald-400',
-    textBright: 'text-emerald-300',
-    bg: 'bg-emerald-400/30',
-    bgSubtle: 'bg-emerald-400/10',
-    ring: 'ring-emerald-400/40',
-    border: 'border-emerald-400/50',
-    bgPanel: 'dark:bg-emerald-400/10 bg-emerald-500/10',
-    ringPanel: 'dark:ring-emerald-400/20 ring-emerald-500/20',
-    label: 'dark:text-emerald-400 text-emerald-600',
-    hoverText: 'hover:text-emerald-300',
-    playText: 'dark:text-emerald-300 text-emerald-600',
-    playBg: 'dark:bg-emerald-400/10 bg-emerald-500/10',
-    playGlow: 'dark:bg-emerald-400/30 bg-emerald-500/25',
-    sliderRange: 'bg-emerald-400',
-    sliderThumbBorder: 'border-emerald-400/50',
-  },
-} as const;
+// Profiles pinned to the quick-switch pills
+export const FAVORITE_SLOTS = 3;
+
+// How the EQ is realised: cascaded biquads (minimum phase, no latency) or a
+// linear-phase FIR built from the same response
+export type EQEngine = 'biquad' | 'linear-phase';
+
+// A profile played underneath the active one (e.g. a headphone correction
+// under a "taste" curve). The active profile is always the top layer.
+export interface EQLayer {
+  profileId: string;
+  enabled: boolean;
+}
+
+// A profile's curve at one point of its edit history
+export interface EQEdit {
+  bands: EQBand[];
+  volume: number;
+}
+
+// Undo/redo stacks of one profile, most recent last
+export interface EQHistory {
+  past: EQEdit[];
+  future: EQEdit[];
+}
+
+// Edits of a profile closer together than this are one undo step, so a drag
+// (dozens of updates) undoes in one go
+const HISTORY_MERGE_MS = 500;
+const HISTORY_LIMIT = 100;
 
 // Extend EQProfile for our internal use, adding isDefault property
-interface EQProfileWithDefault extends EQProfile {
+export interface EQProfileWithDefault extends EQProfile {
   isDefault?: boolean;
   dateCreated?: number;
+  color?: number; // Position on the blue → cyan → green gradient (0–1)
 }
 
 interface EQProfileState {
@@ -80,17 +54,34 @@ interface EQProfileState {
   distortionGain: number;
   autoGainDb: number;
   isAutoGainEnabled: boolean;
+  eqEngine: EQEngine;
+  layers: EQLayer[];
+  history: Record<string, EQHistory>;
+  favorites: string[];
 
   // Actions
   addProfile: (profile: EQProfileWithDefault) => void;
+  createProfile: (name?: string, curve?: Partial<EQEdit>) => string;
+  duplicateProfile: (profileId: string) => string | null;
+  renameProfile: (profileId: string, name: string) => void;
   updateProfile: (profileId: string, updates: Partial<EQProfileWithDefault>) => void;
   deleteProfile: (profileId: string) => void;
+  pinFavorite: (profileId: string) => void;
+  unpinFavorite: (profileId: string) => void;
+  undo: (profileId: string) => void;
+  redo: (profileId: string) => void;
   setActiveProfile: (profileId: string | null) => void;
   setEQEnabled: (enabled: boolean) => void;
   setAutoGainEnabled: (enabled: boolean) => void;
+  setEQEngine: (engine: EQEngine) => void;
+  addLayer: (profileId: string) => void;
+  removeLayer: (profileId: string) => void;
+  setLayerEnabled: (profileId: string, enabled: boolean) => void;
   getProfiles: () => EQProfileWithDefault[];
   getProfileById: (profileId: string) => EQProfileWithDefault | undefined;
   getActiveProfile: () => EQProfileWithDefault | null;
+  getPlaybackProfiles: () => EQProfileWithDefault[];
+  getPlaybackProfile: () => EQProfile | null;
 }
 
 // Helper function to load profiles from IndexedDB
@@ -98,9 +89,12 @@ const loadProfilesFromStorage = async (): Promise<Record<string, EQProfileWithDe
   try {
     const profiles = await indexedDBManager.getAllItems<EQProfileWithDefault>(indexedDBManager.STORES.EQ_PROFILES);
     const profilesMap: Record<string, EQProfileWithDefault> = {};
-    profiles.forEach(profile => {
-      profilesMap[profile.id] = profile;
-    });
+    profiles
+      // Deleted, waiting for the next sync to delete them on the server
+      .filter(profile => profile.syncStatus !== 'pending_delete')
+      .forEach(profile => {
+        profilesMap[profile.id] = profile;
+      });
     return profilesMap;
   } catch (error) {
     console.error('Error loading EQ profiles from storage:', error);
@@ -119,6 +113,47 @@ const loadEQEnabledState = async (): Promise<boolean> => {
   }
 };
 
+// Helper to load the EQ engine from storage
+const loadEQEngine = async (): Promise<EQEngine> => {
+  try {
+    const state = await indexedDBManager.getItem<{engine: EQEngine}>(indexedDBManager.STORES.SYNC_STATE, 'eqEngine');
+    return state?.engine === 'linear-phase' ? 'linear-phase' : 'biquad';
+  } catch (error) {
+    console.error('Error loading EQ engine:', error);
+    return 'biquad';
+  }
+};
+
+// Helper to load the profile layers from storage
+const loadLayers = async (): Promise<EQLayer[]> => {
+  try {
+    const state = await indexedDBManager.getItem<{layers: EQLayer[]}>(indexedDBManager.STORES.SYNC_STATE, 'eqLayers');
+    return Array.isArray(state?.layers) ? state.layers : [];
+  } catch (error) {
+    console.error('Error loading EQ layers:', error);
+    return [];
+  }
+};
+
+// Helper to load the pinned favourites from storage (null if never saved)
+const loadFavorites = async (): Promise<string[] | null> => {
+  try {
+    const state = await indexedDBManager.getItem<{favorites: string[]}>(indexedDBManager.STORES.SYNC_STATE, 'eqFavorites');
+    return Array.isArray(state?.favorites) ? state.favorites : null;
+  } catch (error) {
+    console.error('Error loading favourite EQ profiles:', error);
+    return null;
+  }
+};
+
+// Oldest first, so the original Profile 1–3 lead
+const byDateCreated = (a: EQProfileWithDefault, b: EQProfileWithDefault) =>
+  (a.dateCreated ?? 0) - (b.dateCreated ?? 0) || a.id.localeCompare(b.id);
+
+// The profile library in a stable order (oldest first)
+export const listProfiles = (profiles: Record<string, EQProfileWithDefault>): EQProfileWithDefault[] =>
+  Object.values(profiles).sort(byDateCreated);
+
 // Helper to load active profile ID from storage
 const loadActiveProfileId = async (): Promise<string | null> => {
   try {
@@ -144,17 +179,114 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
   let initialized = false;
   let initialLoadPromise: Promise<void> | null = null;
 
-  // Recalculate auto-gain from the active profile's bands
-  const recalculateAutoGain = (bands: import('../models/EQBand').EQBand[]) => {
+  // Recalculate auto-gain from the combined bands of every playing layer
+  const recalculateAutoGain = () => {
     if (!get().isAutoGainEnabled) {
       set({ autoGainDb: 0, distortionGain: 1.0 });
       return;
     }
     if (typeof window === 'undefined' || typeof OfflineAudioContext === 'undefined') return;
+    const bands = get().getPlaybackProfile()?.bands ?? [];
     const autoGainDb = calculateAutoGainDb(bands, getOfflineAudioContext());
     set({ autoGainDb, distortionGain: dbToGain(autoGainDb) });
   };
 
+  const takenColors = () =>
+    Object.values(get().profiles).map(p => p.color).filter((c): c is number => c !== undefined);
+
+  // Update the favourites and persist them
+  const setFavorites = (favorites: string[]) => {
+    set({ favorites });
+
+    indexedDBManager.updateItem(indexedDBManager.STORES.SYNC_STATE, {
+      id: 'eqFavorites',
+      favorites
+    }).catch(error => console.error('Failed to save favourite EQ profiles:', error));
+  };
+
+  // First "Profile N" name that isn't taken
+  const nextProfileName = () => {
+    const names = new Set(Object.values(get().profiles).map(p => p.name));
+    let n = 1;
+    while (names.has(`Profile ${n}`)) n++;
+    return `Profile ${n}`;
+  };
+
+  // Profile and time of the last recorded edit, for merging undo steps
+  let lastEdit: { profileId: string; time: number } | null = null;
+
+  const curveOf = (profile: EQProfile): EQEdit => ({ bands: profile.bands, volume: profile.volume });
+  const sameCurve = (a: EQEdit, b: EQEdit) =>
+    a.volume === b.volume && JSON.stringify(a.bands) === JSON.stringify(b.bands);
+
+  const setHistory = (profileId: string, history: EQHistory) => {
+    set((state) => ({ history: { ...state.history, [profileId]: history } }));
+  };
+
+  // Apply updates to a profile, persist it and re-derive auto-gain. Doesn't
+  // touch the history.
+  const writeProfile = (profileId: string, updates: Partial<EQProfileWithDefault>) => {
+    const state = get();
+    const profile = state.profiles[profileId];
+    if (!profile) return;
+
+    const updatedProfile = {
+      ...profile,
+      ...updates,
+      lastModified: Date.now(),
+      syncStatus: 'modified' as SyncStatus
+    };
+
+    // Update local state
+    set({
+      profiles: {
+        ...state.profiles,
+        [profileId]: updatedProfile
+      }
+    });
+
+    // Persist to IndexedDB
+    indexedDBManager.updateItem(indexedDBManager.STORES.EQ_PROFILES, updatedProfile)
+      .catch(error => console.error('Failed to update EQ profile:', error));
+
+    // Recalculate auto-gain if this profile is playing and its bands changed
+    if ('bands' in updates && get().getPlaybackProfiles().some(p => p.id === profileId)) {
+      recalculateAutoGain();
+    }
+  };
+
+  // Step through the history: move the current curve onto one stack and
+  // apply the top of the other
+  const travel = (profileId: string, direction: 'undo' | 'redo') => {
+    const profile = get().profiles[profileId];
+    const history = get().history[profileId];
+    if (!profile || !history) return;
+
+    const from = direction === 'undo' ? history.past : history.future;
+    const to = direction === 'undo' ? history.future : history.past;
+    const target = from[from.length - 1];
+    if (!target) return;
+
+    lastEdit = null;
+    const moved = [...to, curveOf(profile)];
+    const remaining = from.slice(0, -1);
+    setHistory(profileId, direction === 'undo'
+      ? { past: remaining, future: moved }
+      : { past: moved, future: remaining });
+    writeProfile(profileId, target);
+  };
+
+  // Update the layers, persist them and re-derive auto-gain
+  const setLayers = (layers: EQLayer[]) => {
+    set({ layers });
+    recalculateAutoGain();
+
+    indexedDBManager.updateItem(indexedDBManager.STORES.SYNC_STATE, {
+      id: 'eqLayers',
+      layers
+    }).catch(error => console.error('Failed to save EQ layers:', error));
+  };
+
   // Define internal initialization function
   const initialize = () => {
     if (initialized || initialLoadPromise) return initialLoadPromise;
@@ -166,9 +298,12 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
     initialLoadPromise = Promise.all([
       loadProfilesFromStorage(),
       loadEQEnabledState(),
-      loadActiveProfileId()
+      loadActiveProfileId(),
+      loadEQEngine(),
+      loadLayers(),
+      loadFavorites()
     ])
-      .then(async ([loadedProfiles, isEQEnabled, savedActiveProfileId]) => {
+      .then(async ([loadedProfiles, isEQEnabled, savedActiveProfileId, eqEngine, savedLayers, savedFavorites]) => {
         const now = Date.now();
         let activeId = savedActiveProfileId;
 
@@ -196,42 +331,57 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
           if (activeId === 'default-flat') activeId = 'profile-1';
         }
 
-        // --- Ensure all 3 profiles exist ---
-        for (const pid of PROFILE_IDS) {
-          if (!loadedProfiles[pid]) {
-            const profile: EQProfileWithDefault = {
-              id: pid,
-              name: `Profile ${pid.split('-')[1]}`,
-              bands: [],
-              volume: 0,
-              isDefault: pid === 'profile-1',
-              lastModified: now,
-              dateCreated: now,
-              syncStatus: 'modified',
-            };
-            loadedProfiles[pid] = profile;
-            indexedDBManager.addItem(indexedDBManager.STORES.EQ_PROFILES, profile).catch(() => {});
-          }
+        // --- Ensure the library isn't empty ---
+        if (Object.keys(loadedProfiles).length === 0) {
+          const profile: EQProfileWithDefault = {
+            id: 'profile-1',
+            name: 'Profile 1',
+            bands: [],
+            volume: 0,
+            isDefault: true,
+            lastModified: now,
+            dateCreated: now,
+            syncStatus: 'modified',
+          };
+          loadedProfiles['profile-1'] = profile;
+          // A put, so it also replaces a leftover 'profile-1' tombstone
+          indexedDBManager.updateItem(indexedDBManager.STORES.EQ_PROFILES, profile).catch(() => {});
+        }
+
+        // --- Give every profile a colour (Profile 1–3 keep their old ones) ---
+        const ordered = Object.values(loadedProfiles).sort(byDateCreated);
+        const taken = ordered.map(p => p.color).filter((c): c is number => c !== undefined);
+        for (const profile of ordered) {
+          if (profile.color !== undefined) continue;
+          const color = LEGACY_PROFILE_COLORS[profile.id] ?? nextProfileColor(taken);
+          taken.push(color);
+          loadedProfiles[profile.id] = { ...profile, color };
+          indexedDBManager.updateItem(indexedDBManager.STORES.EQ_PROFILES, loadedProfiles[profile.id]).catch(() => {});
         }
 
         // Resolve active profile
         if (!activeId || !loadedProfiles[activeId]) {
-          activeId = 'profile-1';
+          activeId = ordered[0].id;
         }
 
-        // Set initial state
+        // Favourites default to the oldest profiles (the original three slots)
+        const favorites = (savedFavorites ?? ordered.map(p => p.id))
+          .filter(id => !!loadedProfiles[id])
+          .slice(0, FAVORITE_SLOTS);
+
+        // Set initial state (dropping layers whose profile is gone)
         set({
           profiles: loadedProfiles,
           activeProfileId: activeId,
           isEQEnabled,
+          eqEngine,
+          layers: savedLayers.filter(layer => !!loadedProfiles[layer.profileId]),
+          favorites,
           isLoading: false,
         });
 
-        // Recalculate auto-gain for the active profile
-        const activeProfile = loadedProfiles[activeId!];
-        if (activeProfile) {
-          recalculateAutoGain(activeProfile.bands ?? []);
-        }
+        // Recalculate auto-gain for the playing layers
+        recalculateAutoGain();
 
         // Persist active profile id
         setTimeout(() => {
@@ -262,12 +412,19 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
     distortionGain: 1.0, // No reduction when flat (derived from autoGainDb)
     autoGainDb: 0, // No compensation when flat
     isAutoGainEnabled: true,
+    eqEngine: 'biquad',
+    layers: [],
+    history: {},
+    favorites: [],
     
     addProfile: (profile: EQProfileWithDefault) => {
-      // Ensure dateCreated is set
+      // Ensure dateCreated and a colour are set
       if (!profile.dateCreated) {
         profile.dateCreated = Date.now();
       }
+      if (profile.color === undefined) {
+        profile.color = nextProfileColor(takenColors());
+      }
       
       // Update local state first for immediate UI feedback
       set((state) => ({
@@ -301,70 +458,136 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
         });
     },
     
-    updateProfile: (profileId: string, updates: Partial<EQProfileWithDefault>) => {
-      const state = get();
-      const profile = state.profiles[profileId];
-      if (!profile) return;
-
-      const updatedProfile = {
-        ...profile,
-        ...updates,
-        lastModified: Date.now(),
-        syncStatus: 'modified' as SyncStatus
+    createProfile: (name?: string, curve?: Partial<EQEdit>) => {
+      const now = Date.now();
+      const profile: EQProfileWithDefault = {
+        id: uuidv4(),
+        name: name?.trim() || nextProfileName(),
+        bands: curve?.bands ?? [],
+        volume: curve?.volume ?? 0,
+        lastModified: now,
+        dateCreated: now,
+        syncStatus: 'modified',
       };
 
-      // Update local state
-      set({
-        profiles: {
-          ...state.profiles,
-          [profileId]: updatedProfile
-        }
+      get().addProfile(profile);
+      return profile.id;
+    },
+
+    duplicateProfile: (profileId: string) => {
+      const source = get().profiles[profileId];
+      if (!source) return null;
+
+      return get().createProfile(`${source.name} copy`, {
+        bands: source.bands.map(band => ({ ...band })),
+        volume: source.volume,
       });
+    },
 
-      // Persist to IndexedDB
-      indexedDBManager.updateItem(indexedDBManager.STORES.EQ_PROFILES, updatedProfile)
-        .catch(error => console.error('Failed to update EQ profile:', error));
+    renameProfile: (profileId: string, name: string) => {
+      if (!name.trim()) return;
+      writeProfile(profileId, { name: name.trim() });
+    },
 
-      // Recalculate auto-gain if this is the active profile and bands changed
-      if (profileId === state.activeProfileId && 'bands' in updates) {
-        recalculateAutoGain(updatedProfile.bands ?? []);
+    updateProfile: (profileId: string, updates: Partial<EQProfileWithDefault>) => {
+      const profile = get().profiles[profileId];
+      if (!profile) return;
+
+      // Record curve changes (not renames or hover flags) for undo
+      if ('bands' in updates || 'volume' in updates) {
+        const before = curveOf(profile);
+        const after = curveOf({ ...profile, ...updates });
+        if (!sameCurve(before, after)) {
+          const now = Date.now();
+          const history = get().history[profileId] ?? { past: [], future: [] };
+          const merge = lastEdit?.profileId === profileId && now - lastEdit.time < HISTORY_MERGE_MS;
+          setHistory(profileId, {
+            past: merge ? history.past : [...history.past, before].slice(-HISTORY_LIMIT),
+            future: [],
+          });
+          lastEdit = { profileId, time: now };
+        }
       }
+
+      writeProfile(profileId, updates);
     },
+
+    undo: (profileId: string) => travel(profileId, 'undo'),
+
+    redo: (profileId: string) => travel(profileId, 'redo'),
     
     deleteProfile: (profileId: string) => {
+      // The library always keeps one profile
+      const profile = get().profiles[profileId];
+      if (!profile || Object.keys(get().profiles).length <= 1) return;
+
       set((state) => {
         const newProfiles = { ...state.profiles };
         delete newProfiles[profileId];
+        const newHistory = { ...state.history };
+        delete newHistory[profileId];
         
-        // Reset active profile if it was deleted
-        const newActiveProfileId = 
-          state.activeProfileId === profileId ? null : state.activeProfileId;
+        // Move to a favourite (or the oldest profile) if the active one was deleted
+        const fallback =
+          state.favorites.find(id => id !== profileId && newProfiles[id]) ??
+          Object.values(newProfiles).sort(byDateCreated)[0]?.id ??
+          null;
+        const newActiveProfileId =
+          state.activeProfileId === profileId ? fallback : state.activeProfileId;
         
-        // Delete from IndexedDB
-        indexedDBManager.deleteItem(indexedDBManager.STORES.EQ_PROFILES, profileId)
-          .catch(error => console.error('Failed to delete EQ profile:', error));
+        if (profile.syncStatus === 'pending') {
+          // Never uploaded: nothing to delete on the server
+          indexedDBManager.deleteItem(indexedDBManager.STORES.EQ_PROFILES, profileId)
+            .catch(error => console.error('Failed to delete EQ profile:', error));
+        } else {
+          // Keep a tombstone until syncEQProfiles has deleted it on the server
+          indexedDBManager.updateItem(indexedDBManager.STORES.EQ_PROFILES, {
+            ...profile,
+            lastModified: Date.now(),
+            syncStatus: 'pending_delete' as const
+          }).catch(error => console.error('Failed to delete EQ profile:', error));
+        }
         
         // If active profile was deleted, persist the change to IndexedDB
         if (state.activeProfileId === profileId) {
           indexedDBManager.updateItem(indexedDBManager.STORES.SYNC_STATE, {
             id: 'activeProfileId',
-            profileId: null
+            profileId: newActiveProfileId
           }).catch(error => console.error('Failed to update active profile ID after deletion:', error));
         }
         
         return {
           profiles: newProfiles,
-          activeProfileId: newActiveProfileId
+          activeProfileId: newActiveProfileId,
+          history: newHistory
         };
       });
+
+      if (get().layers.some(layer => layer.profileId === profileId)) {
+        setLayers(get().layers.filter(layer => layer.profileId !== profileId));
+      } else {
+        recalculateAutoGain();
+      }
+      if (get().favorites.includes(profileId)) {
+        setFavorites(get().favorites.filter(id => id !== profileId));
+      }
+    },
+
+    pinFavorite: (profileId: string) => {
+      const { favorites, profiles } = get();
+      if (!profiles[profileId] || favorites.includes(profileId) || favorites.length >= FAVORITE_SLOTS) return;
+      setFavorites([...favorites, profileId]);
+    },
+
+    unpinFavorite: (profileId: string) => {
+      setFavorites(get().favorites.filter(id => id !== profileId));
     },
     
     setActiveProfile: (profileId: string | null) => {
       set({ activeProfileId: profileId });
 
-      // Recalculate auto-gain for the new active profile
-      const profile = profileId ? get().profiles[profileId] : null;
-      recalculateAutoGain(profile?.bands ?? []);
+      // Recalculate auto-gain for the new stack
+      recalculateAutoGain();
 
       // Always persist to IndexedDB, even if null (to clear previous value)
       indexedDBManager.updateItem(indexedDBManager.STORES.SYNC_STATE, {
@@ -385,9 +608,31 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
 
     setAutoGainEnabled: (enabled: boolean) => {
       set({ isAutoGainEnabled: enabled });
-      const { activeProfileId, profiles } = get();
-      const profile = activeProfileId ? profiles[activeProfileId] : null;
-      recalculateAutoGain(profile?.bands ?? []);
+      recalculateAutoGain();
+    },
+
+    setEQEngine: (engine: EQEngine) => {
+      set({ eqEngine: engine });
+
+      // Persist to IndexedDB
+      indexedDBManager.updateItem(indexedDBManager.STORES.SYNC_STATE, {
+        id: 'eqEngine',
+        engine
+      }).catch(error => console.error('Failed to save EQ engine:', error));
+    },
+
+    addLayer: (profileId: string) => {
+      const { layers, profiles } = get();
+      if (!profiles[profileId] || layers.some(layer => layer.profileId === profileId)) return;
+      setLayers([...layers, { profileId, enabled: true }]);
+    },
+
+    removeLayer: (profileId: string) => {
+      setLayers(get().layers.filter(layer => layer.profileId !== profileId));
+    },
+
+    setLayerEnabled: (profileId: string, enabled: boolean) => {
+      setLayers(get().layers.map(layer => (layer.profileId === profileId ? { ...layer, enabled } : layer)));
     },
 
     getProfiles: () => {
@@ -414,6 +659,23 @@ export const useEQProfileStore = create<EQProfileState>((set, get) => {
       const { activeProfileId, profiles } = get();
       if (!activeProfileId) return null;
       return profiles[activeProfileId] || null;
+    },
+
+    // Profiles that play, bottom to top: the enabled layers, then the active
+    // profile (once, even if it's also a layer)
+    getPlaybackProfiles: () => {
+      const { layers, profiles, activeProfileId } = get();
+      const stack = layers
+        .filter(layer => layer.enabled && layer.profileId !== activeProfileId)
+        .map(layer => profiles[layer.profileId])
+        .filter((profile): profile is EQProfileWithDefault => !!profile);
+      const active = get().getActiveProfile();
+      return active ? [...stack, active] : stack;
+    },
+
+    // The playing layers combined into one profile
+    getPlaybackProfile: () => {
+      return flattenProfiles(get().getPlaybackProfiles());
     }
   };
 }); 
\ No newline at end of file
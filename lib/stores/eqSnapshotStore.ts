@@ -0,0 +1,139 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { EQSnapshot } from '../models/EQSnapshot';
+import * as indexedDBManager from '../storage/indexedDBManager';
+import { useEQProfileStore } from './eqProfileStore';
+
+const isBrowser = (): boolean => typeof window !== 'undefined';
+
+interface EQSnapshotState {
+  snapshots: Record<string, EQSnapshot>;
+  isLoading: boolean;
+
+  // Actions
+  saveSnapshot: (profileId: string, name: string) => string | null;
+  renameSnapshot: (snapshotId: string, name: string) => void;
+  deleteSnapshot: (snapshotId: string) => void;
+  restoreSnapshot: (snapshotId: string) => void;
+  getSnapshotsForProfile: (profileId: string) => EQSnapshot[];
+}
+
+// Helper function to load snapshots from IndexedDB
+const loadSnapshotsFromStorage = async (): Promise<Record<string, EQSnapshot>> => {
+  if (!isBrowser()) {
+    return {};
+  }
+
+  try {
+    const snapshots = await indexedDBManager.getAllItems<EQSnapshot>(indexedDBManager.STORES.EQ_SNAPSHOTS);
+    const snapshotsMap: Record<string, EQSnapshot> = {};
+    snapshots.forEach(snapshot => {
+      snapshotsMap[snapshot.id] = snapshot;
+    });
+    return snapshotsMap;
+  } catch (error) {
+    console.error('Error loading EQ snapshots from storage:', error);
+    return {};
+  }
+};
+
+// Named snapshots of profile curves, kept in IndexedDB
+export const useEQSnapshotStore = create<EQSnapshotState>((set, get) => {
+  // Load snapshots immediately but don't block initialization
+  loadSnapshotsFromStorage()
+    .then(snapshots => set({ snapshots, isLoading: false }))
+    .catch(error => {
+      console.error('Failed to initialize EQ snapshot store:', error);
+      set({ isLoading: false });
+    });
+
+  // Snapshots go with their profile when it's deleted from the library
+  useEQProfileStore.subscribe((state, prev) => {
+    if (state.profiles === prev.profiles || prev.isLoading) return;
+    Object.keys(prev.profiles)
+      .filter(profileId => !state.profiles[profileId])
+      .forEach(profileId => {
+        Object.values(get().snapshots)
+          .filter(snapshot => snapshot.profileId === profileId)
+          .forEach(snapshot => get().deleteSnapshot(snapshot.id));
+      });
+  });
+
+  return {
+    snapshots: {},
+    isLoading: true,
+
+    saveSnapshot: (profileId: string, name: string) => {
+      const profile = useEQProfileStore.getState().profiles[profileId];
+      if (!profile) return null;
+
+      const now = Date.now();
+      const snapshot: EQSnapshot = {
+        id: uuidv4(),
+        profileId,
+        name: name.trim() || new Date(now).toLocaleString(),
+        bands: profile.bands.map(band => ({ ...band })),
+        volume: profile.volume,
+        dateCreated: now
+      };
+
+      set((state) => ({
+        snapshots: {
+          ...state.snapshots,
+          [snapshot.id]: snapshot
+        }
+      }));
+
+      indexedDBManager.addItem(indexedDBManager.STORES.EQ_SNAPSHOTS, snapshot)
+        .catch(error => console.error('Failed to save EQ snapshot:', error));
+
+      return snapshot.id;
+    },
+
+    renameSnapshot: (snapshotId: string, name: string) => {
+      const snapshot = get().snapshots[snapshotId];
+      if (!snapshot || !name.trim()) return;
+
+      const renamed = { ...snapshot, name: name.trim() };
+      set((state) => ({
+        snapshots: {
+          ...state.snapshots,
+          [snapshotId]: renamed
+        }
+      }));
+
+      indexedDBManager.updateItem(indexedDBManager.STORES.EQ_SNAPSHOTS, renamed)
+        .catch(error => console.error('Failed to rename EQ snapshot:', error));
+    },
+
+    deleteSnapshot: (snapshotId: string) => {
+      set((state) => {
+        const newSnapshots = { ...state.snapshots };
+        delete newSnapshots[snapshotId];
+        return { snapshots: newSnapshots };
+      });
+
+      indexedDBManager.deleteItem(indexedDBManager.STORES.EQ_SNAPSHOTS, snapshotId)
+        .catch(error => console.error('Failed to delete EQ snapshot:', error));
+    },
+
+    // Put the snapshot's curve back on its profile. This goes through
+    // updateProfile, so the restore itself can be undone.
+    restoreSnapshot: (snapshotId: string) => {
+      const snapshot = get().snapshots[snapshotId];
+      if (!snapshot) return;
+
+      useEQProfileStore.getState().updateProfile(snapshot.profileId, {
+        bands: snapshot.bands.map(band => ({ ...band })),
+        volume: snapshot.volume
+      });
+    },
+
+    // Newest first
+    getSnapshotsForProfile: (profileId: string) => {
+      return Object.values(get().snapshots)
+        .filter(snapshot => snapshot.profileId === profileId)
+        .sort((a, b) => b.dateCreated - a.dateCreated);
+    }
+  };
+});
@@ -0,0 +1,213 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { normalizeCurve, parseFrequencyResponse, ResponseCurve } from '../utils/frequencyResponse';
+
+const SETTINGS_STORAGE_KEY = 'cabin:frequencyResponse';
+const IMPORTS_STORAGE_KEY = 'cabin:frequencyResponseImports';
+
+// Bundled measurements and targets live under public/frequency-response,
+// listed in its index.json
+const BUNDLE_PATH = '/frequency-response';
+
+export type FrequencyResponseKind = 'measurement' | 'target';
+
+export interface FrequencyResponseEntry {
+  id: string;
+  name: string;
+  kind: FrequencyResponseKind;
+  file?: string; // CSV under BUNDLE_PATH; imported curves have none
+}
+
+// A CSV the user loaded, kept in localStorage already normalized
+interface ImportedCurve extends FrequencyResponseEntry, ResponseCurve {}
+
+interface FrequencyResponseSettings {
+  measurementId: string | null;
+  targetId: string | null;
+  showCorrected: boolean; // Draw measurement + EQ
+  showDeviation: boolean; // Shade measurement + EQ − target
+}
+
+const DEFAULT_SETTINGS: FrequencyResponseSettings = {
+  measurementId: null,
+  targetId: null,
+  showCorrected: true,
+  showDeviation: false
+};
+
+const isBrowser = (): boolean => typeof window !== 'undefined';
+
+const loadSettings = (): FrequencyResponseSettings => {
+  if (!isBrowser()) return DEFAULT_SETTINGS;
+
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<FrequencyResponseSettings>;
+    return {
+      measurementId: typeof parsed.measurementId === 'string' ? parsed.measurementId : null,
+      targetId: typeof parsed.targetId === 'string' ? parsed.targetId : null,
+      showCorrected: typeof parsed.showCorrected === 'boolean' ? parsed.showCorrected : DEFAULT_SETTINGS.showCorrected,
+      showDeviation: typeof parsed.showDeviation === 'boolean' ? parsed.showDeviation : DEFAULT_SETTINGS.showDeviation
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const loadImports = (): ImportedCurve[] => {
+  if (!isBrowser()) return [];
+
+  try {
+    const raw = window.localStorage.getItem(IMPORTS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (key: string, value: unknown) => {
+  if (!isBrowser()) return;
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Failed to save frequency response settings:', error);
+  }
+};
+
+interface FrequencyResponseState extends FrequencyResponseSettings {
+  catalog: FrequencyResponseEntry[]; // Bundled curves, then imported ones
+  curves: Record<string, ResponseCurve>; // Loaded curves, normalized to 0 dB at 1 kHz
+
+  // Actions
+  selectMeasurement: (id: string | null) => void;
+  selectTarget: (id: string | null) => void;
+  setShowCorrected: (show: boolean) => void;
+  setShowDeviation: (show: boolean) => void;
+  importCurve: (name: string, kind: FrequencyResponseKind, content: string) => string;
+  removeImported: (id: string) => void;
+}
+
+// Headphone measurements and target curves drawn under the EQ graph
+export const useFrequencyResponseStore = create<FrequencyResponseState>((set, get) => {
+  const imports = loadImports();
+
+  const saveSettings = () => {
+    const { measurementId, targetId, showCorrected, showDeviation } = get();
+    persist(SETTINGS_STORAGE_KEY, { measurementId, targetId, showCorrected, showDeviation });
+  };
+
+  const saveImports = () => {
+    const { catalog, curves } = get();
+    persist(
+      IMPORTS_STORAGE_KEY,
+      catalog
+        .filter(entry => !entry.file && curves[entry.id])
+        .map(entry => ({ ...entry, ...curves[entry.id] }))
+    );
+  };
+
+  // Drop a selection whose curve is gone or failed to load
+  const deselect = (id: string) => {
+    const { measurementId, targetId } = get();
+    if (measurementId === id) set({ measurementId: null });
+    if (targetId === id) set({ targetId: null });
+    saveSettings();
+  };
+
+  // Fetch a bundled curve the first time it's selected
+  const loadCurve = async (id: string | null) => {
+    if (!id || get().curves[id]) return;
+    const entry = get().catalog.find(e => e.id === id);
+    if (!entry?.file) return;
+
+    try {
+      const response = await fetch(`${BUNDLE_PATH}/${entry.file}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const curve = normalizeCurve(parseFrequencyResponse(await response.text()));
+      set(state => ({ curves: { ...state.curves, [id]: curve } }));
+    } catch (error) {
+      console.error(`Failed to load frequency response ${entry.file}:`, error);
+      deselect(id);
+    }
+  };
+
+  if (isBrowser()) {
+    fetch(`${BUNDLE_PATH}/index.json`)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json() as Promise<FrequencyResponseEntry[]>;
+      })
+      .then(bundled => {
+        set(state => ({ catalog: [...bundled, ...state.catalog] }));
+        loadCurve(get().measurementId);
+        loadCurve(get().targetId);
+      })
+      .catch(error => console.error('Failed to load the frequency response catalog:', error));
+  }
+
+  return {
+    ...loadSettings(),
+    catalog: imports.map(({ id, name, kind }) => ({ id, name, kind })),
+    curves: Object.fromEntries(
+      imports.map(({ id, frequencies, gains }) => [id, { frequencies, gains }])
+    ),
+
+    selectMeasurement: (id: string | null) => {
+      set({ measurementId: id });
+      saveSettings();
+      loadCurve(id);
+    },
+
+    selectTarget: (id: string | null) => {
+      set({ targetId: id });
+      saveSettings();
+      loadCurve(id);
+    },
+
+    setShowCorrected: (show: boolean) => {
+      set({ showCorrected: show });
+      saveSettings();
+    },
+
+    setShowDeviation: (show: boolean) => {
+      set({ showDeviation: show });
+      saveSettings();
+    },
+
+    // Add a CSV the user picked and select it. Throws
+    // FrequencyResponseError when the file can't be read.
+    importCurve: (name: string, kind: FrequencyResponseKind, content: string) => {
+      const curve = normalizeCurve(parseFrequencyResponse(content));
+      const entry: FrequencyResponseEntry = { id: `imported-${uuidv4()}`, name: name.trim() || 'Imported', kind };
+
+      set(state => ({
+        catalog: [...state.catalog, entry],
+        curves: { ...state.curves, [entry.id]: curve }
+      }));
+      saveImports();
+
+      if (kind === 'measurement') get().selectMeasurement(entry.id);
+      else get().selectTarget(entry.id);
+      return entry.id;
+    },
+
+    removeImported: (id: string) => {
+      const entry = get().catalog.find(e => e.id === id);
+      if (!entry || entry.file) return;
+
+      set(state => {
+        const curves = { ...state.curves };
+        delete curves[id];
+        return {
+          catalog: state.catalog.filter(entry => entry.id !== id),
+          curves
+        };
+      });
+      saveImports();
+      deselect(id);
+    }
+  };
+});
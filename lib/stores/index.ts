@@ -3,4 +3,9 @@ export { useAlbumStore } from './albumStore';
 export { useArtistStore } from './artistStore';
 export { useEQProfileStore } from './eqProfileStore';
 export { usePlayerStore } from './playerStore';
-export { useSyncStore } from './syncStore'; 
\ No newline at end of file
+export { useSyncStore } from './syncStore';
+export { usePlaylistStore } from './playlistStore';
+export { useABXStore } from './abxStore';
+export { useOutputStore } from './outputStore';
+export { useEQSnapshotStore } from './eqSnapshotStore';
+export { useFrequencyResponseStore } from './frequencyResponseStore';
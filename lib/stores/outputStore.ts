@@ -0,0 +1,139 @@
+import { create } from 'zustand';
+
+const OUTPUT_SETTINGS_STORAGE_KEY = 'cabin:outputSettings';
+
+// An audio output as reported by enumerateDevices; label is empty until the
+// browser exposes device names
+export interface OutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// EQ profile that is activated whenever playback moves to this device
+export interface DeviceProfileBinding extends OutputDevice {
+  profileId: string;
+}
+
+interface OutputSettings {
+  limiterEnabled: boolean; // True-peak limiter on the master bus
+  fixedHeadroom: boolean; // Fixed -6 dB before the output; always on without the limiter
+  outputDeviceId: string; // Preferred sink; '' follows the system default
+  deviceProfiles: DeviceProfileBinding[];
+}
+
+const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  limiterEnabled: true,
+  fixedHeadroom: true,
+  outputDeviceId: '',
+  deviceProfiles: []
+};
+
+const isDeviceProfileBinding = (value: unknown): value is DeviceProfileBinding => {
+  if (!value || typeof value !== 'object') return false;
+  const binding = value as Record<string, unknown>;
+  return typeof binding.deviceId === 'string'
+    && typeof binding.label === 'string'
+    && typeof binding.profileId === 'string';
+};
+
+// Device ids are reset when site data is cleared and can differ between
+// sessions, so fall back to the label to recognise a device
+export const findDeviceBinding = (
+  bindings: DeviceProfileBinding[],
+  device: OutputDevice
+): DeviceProfileBinding | undefined =>
+  bindings.find(binding => binding.deviceId === device.deviceId)
+  ?? (device.label ? bindings.find(binding => binding.label === device.label) : undefined);
+
+const persistOutputSettings = (settings: OutputSettings) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(OUTPUT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore storage errors
+  }
+};
+
+const loadOutputSettings = (): OutputSettings => {
+  if (typeof window === 'undefined') return DEFAULT_OUTPUT_SETTINGS;
+
+  try {
+    const raw = window.localStorage.getItem(OUTPUT_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_OUTPUT_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<OutputSettings>;
+    return {
+      limiterEnabled: typeof parsed.limiterEnabled === 'boolean'
+        ? parsed.limiterEnabled
+        : DEFAULT_OUTPUT_SETTINGS.limiterEnabled,
+      fixedHeadroom: typeof parsed.fixedHeadroom === 'boolean'
+        ? parsed.fixedHeadroom
+        : DEFAULT_OUTPUT_SETTINGS.fixedHeadroom,
+      outputDeviceId: typeof parsed.outputDeviceId === 'string'
+        ? parsed.outputDeviceId
+        : DEFAULT_OUTPUT_SETTINGS.outputDeviceId,
+      deviceProfiles: Array.isArray(parsed.deviceProfiles)
+        ? parsed.deviceProfiles.filter(isDeviceProfileBinding)
+        : DEFAULT_OUTPUT_SETTINGS.deviceProfiles
+    };
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+};
+
+interface OutputState extends OutputSettings {
+  outputDevices: OutputDevice[]; // Available outputs, kept current by the device watcher
+  currentDevice: OutputDevice | null; // The output audio is actually playing on
+
+  setLimiterEnabled: (enabled: boolean) => void;
+  setFixedHeadroom: (enabled: boolean) => void;
+  setOutputDeviceId: (deviceId: string) => void;
+  setDeviceProfile: (device: OutputDevice, profileId: string | null) => void;
+  setOutputDevices: (devices: OutputDevice[], currentDevice: OutputDevice | null) => void;
+}
+
+// Master bus settings, applied by AudioRouting
+export const useOutputStore = create<OutputState>((set, get) => {
+  const saveSettings = () => {
+    const { limiterEnabled, fixedHeadroom, outputDeviceId, deviceProfiles } = get();
+    persistOutputSettings({ limiterEnabled, fixedHeadroom, outputDeviceId, deviceProfiles });
+  };
+
+  return {
+    ...loadOutputSettings(),
+    outputDevices: [],
+    currentDevice: null,
+
+    setLimiterEnabled: (enabled: boolean) => {
+      set({ limiterEnabled: enabled });
+      saveSettings();
+    },
+
+    setFixedHeadroom: (enabled: boolean) => {
+      set({ fixedHeadroom: enabled });
+      saveSettings();
+    },
+
+    setOutputDeviceId: (deviceId: string) => {
+      set({ outputDeviceId: deviceId });
+      saveSettings();
+    },
+
+    // Bind (or with null, unbind) a profile to a device, replacing any binding
+    // the device already had under its id or label
+    setDeviceProfile: (device: OutputDevice, profileId: string | null) => {
+      const existing = findDeviceBinding(get().deviceProfiles, device);
+      const others = get().deviceProfiles.filter(binding => binding !== existing);
+      set({
+        deviceProfiles: profileId
+          ? [...others, { deviceId: device.deviceId, label: device.label, profileId }]
+          : others
+      });
+      saveSettings();
+    },
+
+    setOutputDevices: (devices: OutputDevice[], currentDevice: OutputDevice | null) => {
+      set({ outputDevices: devices, currentDevice });
+    }
+  };
+});
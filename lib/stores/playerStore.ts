@@ -1,10 +1,68 @@
 import { create } from 'zustand';
 import { useTrackStore } from './trackStore';
+import { useAlbumStore } from './albumStore';
+import { Track } from '../models/Track';
 import { getAudioPlayer } from '../audio/initAudio';
+import { normalizationGainDb } from '../audio/loudness';
 
 // We don't import audioPlayer here as it already imports and subscribes to this store
 // This prevents circular dependencies
 const LAST_PLAYED_TRACK_STORAGE_KEY = 'cabin:lastPlayedTrackId';
+const PLAY_QUEUE_STORAGE_KEY = 'cabin:playQueue';
+const PLAYBACK_SETTINGS_STORAGE_KEY = 'cabin:playbackSettings';
+
+// Upper bound for the crossfade slider
+export const MAX_CROSSFADE_SECONDS = 12;
+
+// Going back within this many seconds of the start skips to the previous track,
+// otherwise it restarts the current one
+const PREVIOUS_RESTART_THRESHOLD = 3;
+
+// Range of the loudness normalization target
+export const MIN_TARGET_LUFS = -24;
+export const MAX_TARGET_LUFS = -12;
+
+// Range of the loudness compensation reference level (phon)
+export const MIN_REFERENCE_PHON = 60;
+export const MAX_REFERENCE_PHON = 90;
+
+// Volume slider position (0-1) to dB: 100% = 0 dB, ~0% = -60 dB
+const volumeToDb = (volume: number): number => -60 + volume * 60;
+
+// Gain for the volume slider; 0% is silence
+const volumeToGain = (volume: number): number => (volume === 0 ? 0 : Math.pow(10, volumeToDb(volume) / 20));
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+// Loudness normalization: per-track gain, per-album gain (keeps the level
+// differences within an album), or none
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+interface PlaybackSettings {
+  crossfadeSeconds: number;
+  gaplessAlbums: boolean; // Never crossfade between consecutive tracks of the same album
+  normalizationMode: NormalizationMode;
+  targetLufs: number;
+  loudnessCompensation: boolean; // Equal-loudness (ISO 226) correction below full volume
+  referencePhon: number; // Listening level at full volume, where no correction is applied
+}
+
+const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  crossfadeSeconds: 0,
+  gaplessAlbums: true,
+  normalizationMode: 'track',
+  targetLufs: -18,
+  loudnessCompensation: false,
+  referencePhon: 80
+};
+
+interface PersistedQueue {
+  queue: string[];
+  originalQueue: string[];
+  queueIndex: number;
+  shuffle: boolean;
+  repeatMode: RepeatMode;
+}
 
 const persistLastPlayedTrackId = (trackId: string | null) => {
   if (typeof window === 'undefined') return;
@@ -18,6 +76,94 @@ const persistLastPlayedTrackId = (trackId: string | null) => {
   }
 };
 
+const persistQueue = (queueState: PersistedQueue) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(PLAY_QUEUE_STORAGE_KEY, JSON.stringify(queueState));
+  } catch {
+    // ignore storage errors
+  }
+};
+
+const loadPersistedQueue = (): PersistedQueue | null => {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = window.localStorage.getItem(PLAY_QUEUE_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<PersistedQueue>;
+    if (!Array.isArray(parsed.queue)) return null;
+    return {
+      queue: parsed.queue,
+      originalQueue: Array.isArray(parsed.originalQueue) ? parsed.originalQueue : parsed.queue,
+      queueIndex: typeof parsed.queueIndex === 'number' ? parsed.queueIndex : -1,
+      shuffle: !!parsed.shuffle,
+      repeatMode: parsed.repeatMode === 'all' || parsed.repeatMode === 'one' ? parsed.repeatMode : 'off'
+    };
+  } catch {
+    return null;
+  }
+};
+
+const persistPlaybackSettings = (settings: PlaybackSettings) => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(PLAYBACK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore storage errors
+  }
+};
+
+const loadPlaybackSettings = (): PlaybackSettings => {
+  if (typeof window === 'undefined') return DEFAULT_PLAYBACK_SETTINGS;
+
+  try {
+    const raw = window.localStorage.getItem(PLAYBACK_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_PLAYBACK_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<PlaybackSettings>;
+    return {
+      crossfadeSeconds: typeof parsed.crossfadeSeconds === 'number'
+        ? Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, parsed.crossfadeSeconds))
+        : DEFAULT_PLAYBACK_SETTINGS.crossfadeSeconds,
+      gaplessAlbums: typeof parsed.gaplessAlbums === 'boolean'
+        ? parsed.gaplessAlbums
+        : DEFAULT_PLAYBACK_SETTINGS.gaplessAlbums,
+      normalizationMode: parsed.normalizationMode === 'off' || parsed.normalizationMode === 'track' || parsed.normalizationMode === 'album'
+        ? parsed.normalizationMode
+        : DEFAULT_PLAYBACK_SETTINGS.normalizationMode,
+      targetLufs: typeof parsed.targetLufs === 'number'
+        ? Math.max(MIN_TARGET_LUFS, Math.min(MAX_TARGET_LUFS, parsed.targetLufs))
+        : DEFAULT_PLAYBACK_SETTINGS.targetLufs,
+      loudnessCompensation: typeof parsed.loudnessCompensation === 'boolean'
+        ? parsed.loudnessCompensation
+        : DEFAULT_PLAYBACK_SETTINGS.loudnessCompensation,
+      referencePhon: typeof parsed.referencePhon === 'number'
+        ? Math.max(MIN_REFERENCE_PHON, Math.min(MAX_REFERENCE_PHON, parsed.referencePhon))
+        : DEFAULT_PLAYBACK_SETTINGS.referencePhon
+    };
+  } catch {
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+};
+
+// Fisher-Yates shuffle (returns a new array)
+const shuffleIds = (ids: string[]): string[] => {
+  const result = [...ids];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Put the current track first and shuffle everything else behind it
+const buildShuffledQueue = (ids: string[], currentId: string | null): string[] => {
+  if (!currentId || !ids.includes(currentId)) return shuffleIds(ids);
+  return [currentId, ...shuffleIds(ids.filter(id => id !== currentId))];
+};
+
 interface PlayerState {
   currentTrackId: string | null;
   isPlaying: boolean;
@@ -29,6 +175,26 @@ interface PlayerState {
   loadingProgress: number; // 0-100 percentage for tracking file loading
   error: string | null;
 
+  // Play queue (track IDs). originalQueue keeps the unshuffled order so
+  // turning shuffle off restores it.
+  queue: string[];
+  originalQueue: string[];
+  queueIndex: number;
+  shuffle: boolean;
+  repeatMode: RepeatMode;
+
+  // Transitions between tracks. 0 seconds = gapless.
+  crossfadeSeconds: number;
+  gaplessAlbums: boolean;
+
+  // Loudness normalization applied before the EQ
+  normalizationMode: NormalizationMode;
+  targetLufs: number;
+
+  // Equal-loudness compensation that follows the volume slider
+  loudnessCompensation: boolean;
+  referencePhon: number;
+
   // Actions
   setCurrentTrack: (trackId: string | null, autoPlay?: boolean) => void;
   setIsPlaying: (isPlaying: boolean) => void;
@@ -41,145 +207,409 @@ interface PlayerState {
   setError: (error: string | null) => void;
   resetPlayer: () => void;
   seekTo: (time: number) => void;
+
+  // Queue actions
+  playTracks: (trackIds: string[], startIndex?: number) => void;
+  enqueue: (trackId: string) => void;
+  playNext: (trackId: string) => void;
+  removeFromQueue: (trackId: string) => void;
+  clearQueue: () => void;
+  nextTrack: () => void;
+  previousTrack: () => void;
+  setShuffle: (shuffle: boolean) => void;
+  setRepeatMode: (mode: RepeatMode) => void;
+  cycleRepeatMode: () => void;
+  restoreQueue: (isValidTrackId: (trackId: string) => boolean) => void;
+
+  // Transition settings
+  setCrossfadeSeconds: (seconds: number) => void;
+  setGaplessAlbums: (gaplessAlbums: boolean) => void;
+
+  // Loudness normalization settings
+  setNormalizationMode: (mode: NormalizationMode) => void;
+  setTargetLufs: (targetLufs: number) => void;
+
+  // Loudness compensation settings
+  setLoudnessCompensation: (enabled: boolean) => void;
+  setReferencePhon: (referencePhon: number) => void;
 }
 
-export const usePlayerStore = create<PlayerState>((set, get) => ({
-  currentTrackId: null,
-  isPlaying: false,
-  currentTime: 0,
-  duration: 0,
-  volume: 1,
-  isMuted: false,
-  loadingState: 'idle',
-  loadingProgress: 0,
-  error: null,
-
-  setCurrentTrack: (trackId: string | null, autoPlay = true) => {
+export const usePlayerStore = create<PlayerState>((set, get) => {
+  const initialPlaybackSettings = loadPlaybackSettings();
+
+  // Track the audio player has pre-loaded to follow the current one
+  let preparedNextTrackId: string | null = null;
+
+  // The track that will play when the current one ends, if any
+  const getUpcomingTrackId = (): string | null => {
+    const { queue, queueIndex, repeatMode, currentTrackId } = get();
+    if (!currentTrackId) return null;
+    if (repeatMode === 'one') return currentTrackId;
+    if (queueIndex < 0 || queue[queueIndex] !== currentTrackId) return null;
+    if (queueIndex + 1 < queue.length) return queue[queueIndex + 1];
+    return repeatMode === 'all' && queue.length > 0 ? queue[0] : null;
+  };
+
+  // Loudness normalization gain for a track under the current settings.
+  // Unmeasured tracks (and albums) play at unity gain until the scan reaches them.
+  const getTrackGainDb = (track?: Track): number => {
+    const { normalizationMode, targetLufs } = get();
+    if (!track || normalizationMode === 'off') return 0;
+
+    const album = normalizationMode === 'album' && track.albumId
+      ? useAlbumStore.getState().getAlbumById(track.albumId)
+      : undefined;
+    const loudness = album?.loudness ?? track.loudness;
+    return loudness ? normalizationGainDb(loudness, targetLufs) : 0;
+  };
+
+  // Tell the audio player what comes next so it can start it without a gap
+  const syncNextTrack = () => {
+    if (get().loadingState !== 'ready') return;
+
+    const { getTrackById } = useTrackStore.getState();
+    const currentTrack = get().currentTrackId ? getTrackById(get().currentTrackId!) : undefined;
+    const upcomingId = getUpcomingTrackId();
+    const upcomingTrack = upcomingId ? getTrackById(upcomingId) : undefined;
+
+    const { crossfadeSeconds, gaplessAlbums } = get();
+    const sameAlbum = !!currentTrack?.albumId && currentTrack.albumId === upcomingTrack?.albumId;
+    const crossfade = gaplessAlbums && sameAlbum ? 0 : crossfadeSeconds;
+
+    preparedNextTrackId = upcomingTrack ? upcomingTrack.id : null;
+    try {
+      getAudioPlayer().setNextTrack(
+        upcomingTrack ? upcomingTrack.storageKey : null,
+        crossfade,
+        upcomingTrack?.duration,
+        getTrackGainDb(upcomingTrack)
+      );
+    } catch {
+      // ignore
+    }
+  };
+
+  // Update queue fields and persist them together
+  const setQueueState = (updates: Partial<PersistedQueue>) => {
+    set(updates);
+    const { queue, originalQueue, queueIndex, shuffle, repeatMode } = get();
+    persistQueue({ queue, originalQueue, queueIndex, shuffle, repeatMode });
+    syncNextTrack();
+  };
+
+  // Re-apply normalization to the loaded and upcoming tracks, e.g. after the
+  // settings change or the loudness scan measures one of them
+  const syncTrackGain = () => {
+    const { loadingState, currentTrackId } = get();
+    if (loadingState !== 'ready' || !currentTrackId) return;
+
+    try {
+      getAudioPlayer().setTrackGain(getTrackGainDb(useTrackStore.getState().getTrackById(currentTrackId)));
+    } catch {
+      // ignore
+    }
+    syncNextTrack();
+  };
+
+  useTrackStore.subscribe(syncTrackGain);
+  useAlbumStore.subscribe(syncTrackGain);
+
+  // The volume slider sets how far below the reference level we're listening
+  const syncLoudnessCompensation = () => {
+    const { loudnessCompensation, referencePhon, volume } = get();
+    try {
+      getAudioPlayer().setLoudnessCompensation(
+        loudnessCompensation ? referencePhon + volumeToDb(volume) : null,
+        referencePhon
+      );
+    } catch {
+      // ignore
+    }
+  };
+
+  const setPlaybackSettings = (updates: Partial<PlaybackSettings>) => {
+    set(updates);
+    const {
+      crossfadeSeconds,
+      gaplessAlbums,
+      normalizationMode,
+      targetLufs,
+      loudnessCompensation,
+      referencePhon
+    } = get();
+    persistPlaybackSettings({
+      crossfadeSeconds,
+      gaplessAlbums,
+      normalizationMode,
+      targetLufs,
+      loudnessCompensation,
+      referencePhon
+    });
+    syncTrackGain();
+    syncLoudnessCompensation();
+  };
+
+  // The audio player already started the pre-loaded track (gapless or
+  // crossfaded) — move the queue along to match
+  const handleTrackChanged = (_storageKey: string, duration: number) => {
+    const trackId = preparedNextTrackId;
+    if (!trackId) return;
+
     persistLastPlayedTrackId(trackId);
 
-    const shouldAutoPlay = autoPlay;
+    const { queue, queueIndex } = get();
+    if (queue[queueIndex] !== trackId) {
+      const nextIndex = queue[queueIndex + 1] === trackId ? queueIndex + 1 : queue.indexOf(trackId);
+      if (nextIndex !== -1) {
+        set({ queueIndex: nextIndex });
+      }
+    }
 
-    // Update state first (immediate UI feedback)
     set({
       currentTrackId: trackId,
-      currentTime: 0, // Reset position when changing tracks
-      loadingState: trackId ? 'loading' : 'idle',
-      loadingProgress: 0,
+      currentTime: 0,
+      duration,
+      isPlaying: true,
+      loadingState: 'ready',
+      loadingProgress: 100,
       error: null
     });
 
-    if (trackId) {
-      // Get track from track store
-      const track = useTrackStore.getState().getTrackById(trackId);
+    // Persists the new index and prepares the track after this one
+    setQueueState({});
+  };
+
+  // If nothing has been queued yet, fall back to the library order around the
+  // current track so next/previous still work
+  const ensureQueue = () => {
+    const { queue, currentTrackId } = get();
+    if (queue.length > 0 || !currentTrackId) return;
+
+    const libraryIds = useTrackStore.getState().getTracks().map(track => track.id);
+    const originalQueue = libraryIds.includes(currentTrackId) ? libraryIds : [currentTrackId];
+    const nextQueue = get().shuffle ? buildShuffledQueue(originalQueue, currentTrackId) : originalQueue;
+    setQueueState({
+      queue: nextQueue,
+      originalQueue,
+      queueIndex: nextQueue.indexOf(currentTrackId)
+    });
+  };
 
-      if (!track) {
-        set({
-          loadingState: 'error',
-          error: `Track with ID ${trackId} not found`
-        });
-        return;
+  // Advance when a track finishes on its own, honouring the repeat mode
+  const handleTrackEnded = () => {
+    if (get().repeatMode === 'one') {
+      set({ currentTime: 0, isPlaying: true });
+      try {
+        getAudioPlayer().play(0);
+      } catch {
+        set({ isPlaying: false });
       }
+      return;
+    }
 
-      // We have a valid track, get audioPlayer and load the track
-      try {
-        const audioPlayer = getAudioPlayer();
+    ensureQueue();
+    const { queue, queueIndex, repeatMode } = get();
+    const isLastTrack = queueIndex >= queue.length - 1;
+    if (isLastTrack && repeatMode === 'off') {
+      set({
+        isPlaying: false,
+        currentTime: 0 // Reset position on natural track end
+      });
+      return;
+    }
 
-        // Set up time update callback to keep the store in sync with actual playback
-        audioPlayer.setTimeUpdateCallback((time) => {
-          set({ currentTime: time });
-        });
+    get().nextTrack();
+  };
+
+  return {
+    currentTrackId: null,
+    isPlaying: false,
+    currentTime: 0,
+    duration: 0,
+    volume: 1,
+    isMuted: false,
+    loadingState: 'idle',
+    loadingProgress: 0,
+    error: null,
+    queue: [],
+    originalQueue: [],
+    queueIndex: -1,
+    shuffle: false,
+    repeatMode: 'off',
+    crossfadeSeconds: initialPlaybackSettings.crossfadeSeconds,
+    gaplessAlbums: initialPlaybackSettings.gaplessAlbums,
+    normalizationMode: initialPlaybackSettings.normalizationMode,
+    targetLufs: initialPlaybackSettings.targetLufs,
+    loudnessCompensation: initialPlaybackSettings.loudnessCompensation,
+    referencePhon: initialPlaybackSettings.referencePhon,
+
+    setCurrentTrack: (trackId: string | null, autoPlay = true) => {
+      persistLastPlayedTrackId(trackId);
+
+      // Keep the queue position in sync when a queued track is picked directly
+      const { queue, queueIndex } = get();
+      if (trackId && queue[queueIndex] !== trackId) {
+        const queuedIndex = queue.indexOf(trackId);
+        if (queuedIndex !== -1) {
+          setQueueState({ queueIndex: queuedIndex });
+        }
+      }
+
+      const shouldAutoPlay = autoPlay;
+
+      // Update state first (immediate UI feedback)
+      set({
+        currentTrackId: trackId,
+        currentTime: 0, // Reset position when changing tracks
+        loadingState: trackId ? 'loading' : 'idle',
+        loadingProgress: 0,
+        error: null
+      });
 
-        // Set up track end callback
-        audioPlayer.setTrackEndCallback(() => {
-          // Track finished playing naturally
+      if (trackId) {
+        // Get track from track store
+        const track = useTrackStore.getState().getTrackById(trackId);
+
+        if (!track) {
           set({
-            isPlaying: false,
-            currentTime: 0 // Reset position on natural track end
+            loadingState: 'error',
+            error: `Track with ID ${trackId} not found`
+          });
+          return;
+        }
+
+        // We have a valid track, get audioPlayer and load the track
+        try {
+          const audioPlayer = getAudioPlayer();
+
+          // Set up time update callback to keep the store in sync with actual playback
+          audioPlayer.setTimeUpdateCallback((time) => {
+            set({ currentTime: time });
           });
-        });
 
-        // Update loading state
-        set({ loadingState: 'loading', loadingProgress: 0 });
-
-        // Set up loading progress handler
-        const progressHandler = (progress: number) => {
-          set({ loadingProgress: progress });
-        };
-
-        // Set up completion handler
-        const completionHandler = (success: boolean, duration?: number, error?: string) => {
-          if (success && duration) {
-            set({
-              loadingState: 'ready',
-              loadingProgress: 100,
-              duration: duration,
-              error: null
-            });
-
-            // Auto-play once track is loaded and ready
-            if (shouldAutoPlay) {
-              set({ isPlaying: true });
-              audioPlayer.play(0); // Start from the beginning with new track
+          // Set up track end callback — advances through the queue
+          audioPlayer.setTrackEndCallback(handleTrackEnded);
+
+          // Gapless/crossfade hand-offs happen inside the player
+          audioPlayer.setTrackChangeCallback(handleTrackChanged);
+
+          // Update loading state
+          set({ loadingState: 'loading', loadingProgress: 0 });
+
+          // Set up loading progress handler
+          const progressHandler = (progress: number) => {
+            set({ loadingProgress: progress });
+          };
+
+          // Set up completion handler
+          const completionHandler = (success: boolean, duration?: number, error?: string) => {
+            if (success && duration) {
+              set({
+                loadingState: 'ready',
+                loadingProgress: 100,
+                duration: duration,
+                error: null
+              });
+
+              // Auto-play once track is loaded and ready
+              if (shouldAutoPlay) {
+                set({ isPlaying: true });
+                audioPlayer.play(0); // Start from the beginning with new track
+              }
+
+              // Start pre-loading whatever follows
+              ensureQueue();
+              syncNextTrack();
+            } else {
+              set({
+                loadingState: 'error',
+                error: error || 'Unknown error loading track'
+              });
             }
-          } else {
-            set({
-              loadingState: 'error',
-              error: error || 'Unknown error loading track'
-            });
-          }
-        };
-
-        // Load the track
-        audioPlayer.loadTrack(track.storageKey, progressHandler, completionHandler);
-      } catch (error) {
-        console.error('Error accessing audio player:', error);
-        set({
-          loadingState: 'error',
-          error: 'Failed to access audio system. Try refreshing the page.'
-        });
+          };
+
+          // Load the track
+          // The stored duration lets the player stream long files instead of decoding them
+          audioPlayer.loadTrack(
+            track.storageKey,
+            progressHandler,
+            completionHandler,
+            track.duration,
+            getTrackGainDb(track)
+          );
+        } catch (error) {
+          console.error('Error accessing audio player:', error);
+          set({
+            loadingState: 'error',
+            error: 'Failed to access audio system. Try refreshing the page.'
+          });
+        }
+      } else {
+        // No track ID - stop playback
+        try {
+          const audioPlayer = getAudioPlayer();
+          audioPlayer.stop();
+        } catch {
+          // ignore
+        }
       }
-    } else {
-      // No track ID - stop playback
-      try {
-        const audioPlayer = getAudioPlayer();
-        audioPlayer.stop();
-      } catch {
-        // ignore
+    },
+
+    setIsPlaying: (isPlaying: boolean) => {
+      // Validate we can change state
+      if (isPlaying && !get().currentTrackId) {
+        return;
       }
-    }
-  },
 
-  setIsPlaying: (isPlaying: boolean) => {
-    // Validate we can change state
-    if (isPlaying && !get().currentTrackId) {
-      return;
-    }
+      if (get().loadingState !== 'ready' && isPlaying) {
+        return;
+      }
 
-    if (get().loadingState !== 'ready' && isPlaying) {
-      return;
-    }
+      // If already in the desired state, do nothing
+      if (get().isPlaying === isPlaying) {
+        return;
+      }
 
-    // If already in the desired state, do nothing
-    if (get().isPlaying === isPlaying) {
-      return;
-    }
+      // Get the current position and duration before making any state changes
+      const currentPosition = get().currentTime;
+      const duration = get().duration;
+
+      // Check if track is at the end when trying to play
+      if (isPlaying && duration > 0 && currentPosition >= duration - 0.5) {
+        // If trying to play a completed track, reset to beginning
+        set({ currentTime: 0 });
 
-    // Get the current position and duration before making any state changes
-    const currentPosition = get().currentTime;
-    const duration = get().duration;
+        // Update state first - but only the isPlaying flag
+        set({ isPlaying });
 
-    // Check if track is at the end when trying to play
-    if (isPlaying && duration > 0 && currentPosition >= duration - 0.5) {
-      // If trying to play a completed track, reset to beginning
-      set({ currentTime: 0 });
+        // Then control audio player
+        try {
+          const audioPlayer = getAudioPlayer();
+          audioPlayer.play(0); // Play from beginning
+        } catch (error) {
+          console.error('Error controlling playback:', error);
+          set({
+            isPlaying: false,
+            error: 'Playback control failed. Try refreshing the page.'
+          });
+        }
 
-      // Update state first - but only the isPlaying flag
+        return;
+      }
+
+      // Update state first - but only the isPlaying flag,
+      // don't touch the currentTime to preserve position
       set({ isPlaying });
 
       // Then control audio player
       try {
         const audioPlayer = getAudioPlayer();
-        audioPlayer.play(0); // Play from beginning
+        if (isPlaying) {
+          // Always explicitly provide the position to play from
+          audioPlayer.play(currentPosition);
+        } else {
+          audioPlayer.pause();
+        }
       } catch (error) {
         console.error('Error controlling playback:', error);
         set({
@@ -187,126 +617,280 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
           error: 'Playback control failed. Try refreshing the page.'
         });
       }
+    },
 
-      return;
-    }
+    setCurrentTime: (time: number) => {
+      set({ currentTime: time });
+    },
 
-    // Update state first - but only the isPlaying flag,
-    // don't touch the currentTime to preserve position
-    set({ isPlaying });
+    setDuration: (duration: number) => {
+      set({ duration });
+    },
 
-    // Then control audio player
-    try {
-      const audioPlayer = getAudioPlayer();
-      if (isPlaying) {
-        // Always explicitly provide the position to play from
-        audioPlayer.play(currentPosition);
-      } else {
-        audioPlayer.pause();
+    setVolume: (volume: number) => {
+      // Ensure volume is between 0 and 1
+      const clampedVolume = Math.max(0, Math.min(1, volume));
+
+      // Update state first (store the linear slider value)
+      set({ volume: clampedVolume });
+
+      // Linear dB scale: 100% = 0 dB, ~0% = -60 dB, 0% = silence
+      // Convert dB to amplitude for the gain node
+      const gain = volumeToGain(clampedVolume);
+
+      // Then control audio player with the gain
+      try {
+        const audioPlayer = getAudioPlayer();
+        audioPlayer.setVolume(gain);
+      } catch {
+        // ignore
       }
-    } catch (error) {
-      console.error('Error controlling playback:', error);
+
+      // Re-balance for the new listening level
+      syncLoudnessCompensation();
+    },
+
+    setIsMuted: (isMuted: boolean) => {
+      // Update state first
+      set({ isMuted });
+
+      // Then control audio player (apply same dB-to-gain curve for unmute restore)
+      try {
+        const audioPlayer = getAudioPlayer();
+        audioPlayer.setMute(isMuted, volumeToGain(get().volume));
+      } catch {
+        // ignore
+      }
+    },
+
+    setLoadingState: (state) => {
+      set({ loadingState: state });
+    },
+
+    setLoadingProgress: (progress: number) => {
+      set({ loadingProgress: progress });
+    },
+
+    setError: (error: string | null) => {
+      set({
+        error,
+        loadingState: error ? 'error' : 'idle'
+      });
+    },
+
+    resetPlayer: () => {
+      // Reset state
       set({
+        currentTrackId: null,
         isPlaying: false,
-        error: 'Playback control failed. Try refreshing the page.'
+        currentTime: 0,
+        duration: 0,
+        loadingState: 'idle',
+        loadingProgress: 0,
+        error: null
       });
-    }
-  },
 
-  setCurrentTime: (time: number) => {
-    set({ currentTime: time });
-  },
+      // Stop playback
+      try {
+        const audioPlayer = getAudioPlayer();
+        audioPlayer.stop();
+      } catch {
+        // ignore
+      }
+    },
+
+    seekTo: (time: number) => {
+      // Validate we can seek
+      if (get().loadingState !== 'ready') {
+        return;
+      }
+
+      // Update state first (for immediate UI feedback)
+      set({ currentTime: time });
+
+      // Then control audio player
+      try {
+        const audioPlayer = getAudioPlayer();
+        audioPlayer.seek(time);
+      } catch {
+        // ignore
+      }
+    },
+
+    playTracks: (trackIds: string[], startIndex = 0) => {
+      if (trackIds.length === 0) return;
 
-  setDuration: (duration: number) => {
-    set({ duration });
-  },
+      const index = Math.max(0, Math.min(trackIds.length - 1, startIndex));
+      const startId = trackIds[index];
+      const queue = get().shuffle ? buildShuffledQueue(trackIds, startId) : [...trackIds];
 
-  setVolume: (volume: number) => {
-    // Ensure volume is between 0 and 1
-    const clampedVolume = Math.max(0, Math.min(1, volume));
+      setQueueState({
+        queue,
+        originalQueue: [...trackIds],
+        queueIndex: queue.indexOf(startId)
+      });
+      get().setCurrentTrack(startId);
+    },
 
-    // Update state first (store the linear slider value)
-    set({ volume: clampedVolume });
+    enqueue: (trackId: string) => {
+      ensureQueue();
+      const { queue, originalQueue } = get();
 
-    // Linear dB scale: 100% = 0 dB, ~0% = -60 dB, 0% = silence
-    // Convert dB to amplitude for the gain node
-    const gain = clampedVolume === 0 ? 0 : Math.pow(10, (-60 + clampedVolume * 60) / 20);
+      if (queue.length === 0) {
+        // Nothing playing yet — start the queue with this track
+        get().playTracks([trackId]);
+        return;
+      }
 
-    // Then control audio player with the gain
-    try {
-      const audioPlayer = getAudioPlayer();
-      audioPlayer.setVolume(gain);
-    } catch {
-      // ignore
-    }
-  },
+      setQueueState({
+        queue: [...queue, trackId],
+        originalQueue: [...originalQueue, trackId]
+      });
+    },
 
-  setIsMuted: (isMuted: boolean) => {
-    // Update state first
-    set({ isMuted });
+    playNext: (trackId: string) => {
+      ensureQueue();
+      const { queue, originalQueue, queueIndex, currentTrackId } = get();
 
-    // Then control audio player (apply same dB-to-gain curve for unmute restore)
-    try {
-      const audioPlayer = getAudioPlayer();
-      const currentVolume = get().volume;
-      const gain = currentVolume === 0 ? 0 : Math.pow(10, (-60 + currentVolume * 60) / 20);
-      audioPlayer.setMute(isMuted, gain);
-    } catch {
-      // ignore
-    }
-  },
+      if (queue.length === 0) {
+        get().playTracks([trackId]);
+        return;
+      }
 
-  setLoadingState: (state) => {
-    set({ loadingState: state });
-  },
+      const nextQueue = [...queue];
+      nextQueue.splice(queueIndex + 1, 0, trackId);
 
-  setLoadingProgress: (progress: number) => {
-    set({ loadingProgress: progress });
-  },
+      // Mirror the insert in the unshuffled order, right after the current track
+      const nextOriginal = [...originalQueue];
+      const originalIndex = currentTrackId ? nextOriginal.indexOf(currentTrackId) : -1;
+      nextOriginal.splice(originalIndex + 1, 0, trackId);
 
-  setError: (error: string | null) => {
-    set({
-      error,
-      loadingState: error ? 'error' : 'idle'
-    });
-  },
+      setQueueState({ queue: nextQueue, originalQueue: nextOriginal });
+    },
 
-  resetPlayer: () => {
-    // Reset state
-    set({
-      currentTrackId: null,
-      isPlaying: false,
-      currentTime: 0,
-      duration: 0,
-      loadingState: 'idle',
-      loadingProgress: 0,
-      error: null
-    });
+    removeFromQueue: (trackId: string) => {
+      const { queue, originalQueue, queueIndex } = get();
+      if (!queue.includes(trackId)) return;
 
-    // Stop playback
-    try {
-      const audioPlayer = getAudioPlayer();
-      audioPlayer.stop();
-    } catch {
-      // ignore
-    }
-  },
+      // Shift the index back for every removed entry before the current one
+      const removedBefore = queue.slice(0, queueIndex).filter(id => id === trackId).length;
+      const nextQueue = queue.filter(id => id !== trackId);
 
-  seekTo: (time: number) => {
-    // Validate we can seek
-    if (get().loadingState !== 'ready') {
-      return;
-    }
+      setQueueState({
+        queue: nextQueue,
+        originalQueue: originalQueue.filter(id => id !== trackId),
+        queueIndex: Math.min(queueIndex - removedBefore, nextQueue.length - 1)
+      });
+    },
 
-    // Update state first (for immediate UI feedback)
-    set({ currentTime: time });
+    clearQueue: () => {
+      setQueueState({ queue: [], originalQueue: [], queueIndex: -1 });
+    },
 
-    // Then control audio player
-    try {
-      const audioPlayer = getAudioPlayer();
-      audioPlayer.seek(time);
-    } catch {
-      // ignore
+    nextTrack: () => {
+      ensureQueue();
+      const { queue, queueIndex, repeatMode } = get();
+      if (queue.length === 0) return;
+
+      let nextIndex = queueIndex + 1;
+      if (nextIndex >= queue.length) {
+        if (repeatMode === 'off') return;
+        nextIndex = 0;
+      }
+
+      setQueueState({ queueIndex: nextIndex });
+      get().setCurrentTrack(queue[nextIndex]);
+    },
+
+    previousTrack: () => {
+      // Restart the current track unless we're right at its start
+      if (get().currentTime > PREVIOUS_RESTART_THRESHOLD) {
+        get().seekTo(0);
+        return;
+      }
+
+      ensureQueue();
+      const { queue, queueIndex, repeatMode } = get();
+      if (queue.length === 0) return;
+
+      let prevIndex = queueIndex - 1;
+      if (prevIndex < 0) {
+        if (repeatMode === 'off') {
+          get().seekTo(0);
+          return;
+        }
+        prevIndex = queue.length - 1;
+      }
+
+      setQueueState({ queueIndex: prevIndex });
+      get().setCurrentTrack(queue[prevIndex]);
+    },
+
+    setShuffle: (shuffle: boolean) => {
+      if (get().shuffle === shuffle) return;
+
+      const { originalQueue, currentTrackId } = get();
+      const queue = shuffle ? buildShuffledQueue(originalQueue, currentTrackId) : [...originalQueue];
+
+      setQueueState({
+        shuffle,
+        queue,
+        queueIndex: currentTrackId ? queue.indexOf(currentTrackId) : -1
+      });
+    },
+
+    setRepeatMode: (mode: RepeatMode) => {
+      setQueueState({ repeatMode: mode });
+    },
+
+    cycleRepeatMode: () => {
+      const order: RepeatMode[] = ['off', 'all', 'one'];
+      const current = order.indexOf(get().repeatMode);
+      setQueueState({ repeatMode: order[(current + 1) % order.length] });
+    },
+
+    restoreQueue: (isValidTrackId: (trackId: string) => boolean) => {
+      const saved = loadPersistedQueue();
+      if (!saved) return;
+
+      // Drop tracks that were deleted since the queue was saved
+      const currentId = saved.queue[saved.queueIndex];
+      const queue = saved.queue.filter(isValidTrackId);
+      const originalQueue = saved.originalQueue.filter(isValidTrackId);
+
+      setQueueState({
+        queue,
+        originalQueue,
+        queueIndex: currentId ? queue.indexOf(currentId) : -1,
+        shuffle: saved.shuffle,
+        repeatMode: saved.repeatMode
+      });
+    },
+
+    setCrossfadeSeconds: (seconds: number) => {
+      setPlaybackSettings({ crossfadeSeconds: Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds)) });
+    },
+
+    setGaplessAlbums: (gaplessAlbums: boolean) => {
+      setPlaybackSettings({ gaplessAlbums });
+    },
+
+    setNormalizationMode: (normalizationMode: NormalizationMode) => {
+      setPlaybackSettings({ normalizationMode });
+    },
+
+    setTargetLufs: (targetLufs: number) => {
+      setPlaybackSettings({ targetLufs: Math.max(MIN_TARGET_LUFS, Math.min(MAX_TARGET_LUFS, targetLufs)) });
+    },
+
+    setLoudnessCompensation: (loudnessCompensation: boolean) => {
+      setPlaybackSettings({ loudnessCompensation });
+    },
+
+    setReferencePhon: (referencePhon: number) => {
+      setPlaybackSettings({
+        referencePhon: Math.max(MIN_REFERENCE_PHON, Math.min(MAX_REFERENCE_PHON, referencePhon))
+      });
     }
-  }
-}));
+  };
+});
@@ -0,0 +1,245 @@
+import { create } from 'zustand';
+import { Playlist } from '../models/Playlist';
+import * as indexedDBManager from '../storage/indexedDBManager';
+import { v4 as uuidv4 } from 'uuid';
+
+const isBrowser = (): boolean => typeof window !== 'undefined';
+
+// Playlist with a creation date used for stable ordering in the UI
+interface PlaylistWithDate extends Playlist {
+  dateCreated?: number;
+}
+
+interface PlaylistState {
+  playlists: Record<string, PlaylistWithDate>;
+  isLoading: boolean;
+
+  // Actions
+  createPlaylist: (name: string, trackIds?: string[]) => string;
+  addPlaylist: (playlist: PlaylistWithDate) => void;
+  updatePlaylist: (playlistId: string, updates: Partial<PlaylistWithDate>) => void;
+  renamePlaylist: (playlistId: string, name: string) => void;
+  addTrackToPlaylist: (playlistId: string, trackId: string) => void;
+  removeTrackFromPlaylist: (playlistId: string, index: number) => void;
+  removeTrackFromAllPlaylists: (trackId: string) => void;
+  reorderPlaylist: (playlistId: string, fromIndex: number, toIndex: number) => void;
+  deletePlaylist: (playlistId: string) => void;
+  getPlaylists: () => PlaylistWithDate[];
+  getPlaylistById: (playlistId: string) => PlaylistWithDate | undefined;
+}
+
+// Helper function to load playlists from IndexedDB
+const loadPlaylistsFromStorage = async (): Promise<Record<string, PlaylistWithDate>> => {
+  if (!isBrowser()) {
+    return {};
+  }
+
+  try {
+    const playlists = await indexedDBManager.getAllItems<PlaylistWithDate>(indexedDBManager.STORES.PLAYLISTS);
+    const playlistsMap: Record<string, PlaylistWithDate> = {};
+    playlists
+      // Deleted, waiting for the next sync to delete them on the server
+      .filter(playlist => playlist.syncStatus !== 'pending_delete')
+      .forEach(playlist => {
+        playlistsMap[playlist.id] = playlist;
+      });
+    return playlistsMap;
+  } catch (error) {
+    console.error('Error loading playlists from storage:', error);
+    return {};
+  }
+};
+
+export const usePlaylistStore = create<PlaylistState>((set, get) => {
+  // Start loading playlists immediately but don't block initialization
+  let initialized = false;
+  let initialLoadPromise: Promise<void> | null = null;
+
+  // Define internal initialization function
+  const initialize = () => {
+    if (initialized || initialLoadPromise) return initialLoadPromise;
+
+    // Set loading state
+    set({ isLoading: true });
+
+    // Load playlists from storage
+    initialLoadPromise = loadPlaylistsFromStorage()
+      .then(loadedPlaylists => {
+        set({
+          playlists: loadedPlaylists,
+          isLoading: false
+        });
+        initialized = true;
+      })
+      .catch(error => {
+        console.error('Failed to initialize playlist store:', error);
+        set({ isLoading: false });
+      });
+
+    return initialLoadPromise;
+  };
+
+  // Start initialization immediately
+  initialize();
+
+  return {
+    playlists: {},
+    isLoading: true, // Initially loading
+
+    createPlaylist: (name: string, trackIds: string[] = []) => {
+      const now = Date.now();
+      const playlist: PlaylistWithDate = {
+        id: uuidv4(),
+        name: name.trim() || 'New Playlist',
+        trackIds: [...trackIds],
+        lastModified: now,
+        dateCreated: now,
+        syncStatus: 'pending'
+      };
+
+      get().addPlaylist(playlist);
+      return playlist.id;
+    },
+
+    addPlaylist: (playlist: PlaylistWithDate) => {
+      // Ensure dateCreated is set if not provided
+      const playlistWithDate = {
+        ...playlist,
+        dateCreated: playlist.dateCreated || Date.now()
+      };
+
+      // Update local state first for immediate UI feedback
+      set((state) => ({
+        playlists: {
+          ...state.playlists,
+          [playlistWithDate.id]: playlistWithDate
+        }
+      }));
+
+      // Then persist to IndexedDB (fire and forget). A put, so it also
+      // replaces a leftover deletion tombstone with the same id
+      indexedDBManager.updateItem(indexedDBManager.STORES.PLAYLISTS, playlistWithDate)
+        .catch(error => console.error('Failed to save playlist:', error));
+    },
+
+    updatePlaylist: (playlistId: string, updates: Partial<PlaylistWithDate>) => {
+      set((state) => {
+        const playlist = state.playlists[playlistId];
+        if (!playlist) return state;
+
+        const updatedPlaylist = {
+          ...playlist,
+          ...updates,
+          dateCreated: playlist.dateCreated || playlist.lastModified,
+          lastModified: Date.now(),
+          // Local edits are 'modified'; the sync pass passes an explicit status
+          syncStatus: updates.syncStatus ?? ('modified' as const)
+        };
+
+        // Then persist to IndexedDB (fire and forget)
+        indexedDBManager.updateItem(indexedDBManager.STORES.PLAYLISTS, updatedPlaylist)
+          .catch(error => console.error('Failed to update playlist:', error));
+
+        return {
+          playlists: {
+            ...state.playlists,
+            [playlistId]: updatedPlaylist
+          }
+        };
+      });
+    },
+
+    renamePlaylist: (playlistId: string, name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      get().updatePlaylist(playlistId, { name: trimmed });
+    },
+
+    addTrackToPlaylist: (playlistId: string, trackId: string) => {
+      const playlist = get().playlists[playlistId];
+      if (!playlist) return;
+      get().updatePlaylist(playlistId, { trackIds: [...playlist.trackIds, trackId] });
+    },
+
+    removeTrackFromPlaylist: (playlistId: string, index: number) => {
+      const playlist = get().playlists[playlistId];
+      if (!playlist || index < 0 || index >= playlist.trackIds.length) return;
+
+      const trackIds = [...playlist.trackIds];
+      trackIds.splice(index, 1);
+      get().updatePlaylist(playlistId, { trackIds });
+    },
+
+    removeTrackFromAllPlaylists: (trackId: string) => {
+      get().getPlaylists()
+        .filter(playlist => playlist.trackIds.includes(trackId))
+        .forEach(playlist => {
+          get().updatePlaylist(playlist.id, {
+            trackIds: playlist.trackIds.filter(id => id !== trackId)
+          });
+        });
+    },
+
+    reorderPlaylist: (playlistId: string, fromIndex: number, toIndex: number) => {
+      const playlist = get().playlists[playlistId];
+      if (!playlist) return;
+
+      const count = playlist.trackIds.length;
+      if (fromIndex < 0 || fromIndex >= count || toIndex < 0 || toIndex >= count || fromIndex === toIndex) {
+        return;
+      }
+
+      const trackIds = [...playlist.trackIds];
+      const [moved] = trackIds.splice(fromIndex, 1);
+      trackIds.splice(toIndex, 0, moved);
+      get().updatePlaylist(playlistId, { trackIds });
+    },
+
+    deletePlaylist: (playlistId: string) => {
+      set((state) => {
+        const playlist = state.playlists[playlistId];
+        if (!playlist) return state;
+
+        const newPlaylists = { ...state.playlists };
+        delete newPlaylists[playlistId];
+
+        if (playlist.syncStatus === 'pending') {
+          // Never uploaded: nothing to delete on the server (fire and forget)
+          indexedDBManager.deleteItem(indexedDBManager.STORES.PLAYLISTS, playlistId)
+            .catch(error => console.error('Failed to delete playlist:', error));
+        } else {
+          // Keep a tombstone until syncPlaylists has deleted it on the server
+          indexedDBManager.updateItem(indexedDBManager.STORES.PLAYLISTS, {
+            ...playlist,
+            lastModified: Date.now(),
+            syncStatus: 'pending_delete' as const
+          }).catch(error => console.error('Failed to delete playlist:', error));
+        }
+
+        return { playlists: newPlaylists };
+      });
+    },
+
+    getPlaylists: () => {
+      // Ensure playlists are loaded before returning
+      if (!initialized && !initialLoadPromise) {
+        initialize();
+      }
+
+      // Sort by dateCreated (ascending - oldest first)
+      return Object.values(get().playlists).sort((a, b) => {
+        const aDate = a.dateCreated || a.lastModified;
+        const bDate = b.dateCreated || b.lastModified;
+        return aDate - bDate;
+      });
+    },
+
+    getPlaylistById: (playlistId: string) => {
+      // Ensure playlists are loaded before returning
+      if (!initialized && !initialLoadPromise) {
+        initialize();
+      }
+      return get().playlists[playlistId];
+    }
+  };
+});
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { Track } from '../models/Track';
 import { Artist } from '../models/Artist';
 import { Album } from '../models/Album';
+import { Loudness } from '../models/Loudness';
 import * as indexedDBManager from '../storage/indexedDBManager';
 import { v4 as uuidv4 } from 'uuid';
 import { useArtistStore } from './artistStore';
@@ -18,6 +19,7 @@ interface TrackState {
   // Actions
   addTrack: (track: Track) => void;
   updateTrack: (trackId: string, updates: Partial<Track>) => void;
+  setTrackLoudness: (trackId: string, loudness: Loudness) => void;
   deleteTrack: (trackId: string) => void;
   setCurrentTrack: (trackId: string | null) => void;
   setIsPlaying: (playing: boolean) => void;
@@ -241,6 +243,28 @@ export const useTrackStore = create<TrackState>((set, get) => {
       });
     },
     
+    // Loudness is measured on each device, so storing it leaves the track's
+    // sync state alone instead of queuing an upload
+    setTrackLoudness: (trackId: string, loudness: Loudness) => {
+      set((state) => {
+        const track = state.tracks[trackId];
+        if (!track) return state;
+        
+        const updatedTrack = { ...track, loudness };
+        
+        // Persist to IndexedDB (fire and forget)
+        indexedDBManager.updateItem(indexedDBManager.STORES.TRACKS, updatedTrack)
+          .catch(error => console.error('Failed to save track loudness:', error));
+        
+        return {
+          tracks: {
+            ...state.tracks,
+            [trackId]: updatedTrack
+          }
+        };
+      });
+    },
+    
     deleteTrack: (trackId: string) => {
       set((state) => {
         const newTracks = { ...state.tracks };
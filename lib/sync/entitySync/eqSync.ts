@@ -1,12 +1,16 @@
 import { EQProfile } from '../../models/EQProfile';
 import { useEQProfileStore } from '../../stores';
 import * as indexedDBManager from '../../storage/indexedDBManager';
-// import * as apiClient from '../../api/apiClient';
+import * as apiClient from '../../api/apiClient';
 import * as eqApi from '../../api/endpoints/eqApi';
 
 // Sync all EQ profiles with the server
 export const syncEQProfiles = async (): Promise<void> => {
   try {
+    // Send local deletions first; any that fail stay as tombstones for the
+    // next sync and are kept from being downloaded again below
+    const tombstoneIds = await deletePendingEQProfiles();
+    
     // Get all profiles from the store
     const profiles = useEQProfileStore.getState().getProfiles();
     
@@ -21,7 +25,7 @@ export const syncEQProfiles = async (): Promise<void> => {
     }
     
     // Download new profiles from server
-    await downloadNewEQProfiles();
+    await downloadNewEQProfiles(tombstoneIds);
     
     // Sync active profile ID
     await syncActiveProfileId();
@@ -91,8 +95,43 @@ export const uploadEQProfile = async (profile: EQProfile): Promise<void> => {
   }
 };
 
+// Delete EQ profiles on the server that were deleted locally, dropping each
+// tombstone once the server has accepted the deletion. Returns the ids whose
+// deletion failed; their tombstones are retried on the next sync.
+const deletePendingEQProfiles = async (): Promise<Set<string>> => {
+  const storedProfiles = await indexedDBManager.getAllItems<EQProfile>(indexedDBManager.STORES.EQ_PROFILES);
+  const remainingIds = new Set<string>();
+  
+  for (const profile of storedProfiles) {
+    if (profile.syncStatus !== 'pending_delete') continue;
+    try {
+      await deleteRemoteEQProfile(profile.id);
+    } catch {
+      // Already logged; one failure shouldn't hold up the rest of the sync
+      remainingIds.add(profile.id);
+    }
+  }
+  
+  return remainingIds;
+};
+
+// Delete an EQ profile on the server, then its local tombstone
+export const deleteRemoteEQProfile = async (profileId: string): Promise<void> => {
+  try {
+    await eqApi.deleteEQProfile(profileId);
+  } catch (error) {
+    // Already gone on the server (or never made it there)
+    if (!(error instanceof apiClient.ApiError && error.status === 404)) {
+      console.error(`Error deleting EQ profile ${profileId}:`, error);
+      throw error;
+    }
+  }
+  
+  await indexedDBManager.deleteItem(indexedDBManager.STORES.EQ_PROFILES, profileId);
+};
+
 // Download new EQ profiles from the server
-export const downloadNewEQProfiles = async (): Promise<void> => {
+export const downloadNewEQProfiles = async (tombstoneIds: Set<string> = new Set()): Promise<void> => {
   try {
     // Get last sync time
     const lastSyncTime = await getLastSyncTime();
@@ -102,6 +141,9 @@ export const downloadNewEQProfiles = async (): Promise<void> => {
     
     // Process each updated profile
     for (const serverProfile of updatedProfiles) {
+      // Deleted locally; the server deletion is still to come
+      if (tombstoneIds.has(serverProfile.id)) continue;
+      
       // Check if we already have this profile
       const localProfile = useEQProfileStore.getState().getProfileById(serverProfile.id);
       
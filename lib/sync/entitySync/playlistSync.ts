@@ -0,0 +1,206 @@
+import { Playlist } from '../../models/Playlist';
+import { usePlaylistStore } from '../../stores';
+import * as indexedDBManager from '../../storage/indexedDBManager';
+import * as apiClient from '../../api/apiClient';
+import * as playlistsApi from '../../api/endpoints/playlistsApi';
+
+// Sync all playlists with the server
+export const syncPlaylists = async (): Promise<void> => {
+  try {
+    // Send local deletions first; any that fail stay as tombstones for the
+    // next sync and are kept from being downloaded again below
+    const tombstoneIds = await deletePendingPlaylists();
+    
+    // Get all playlists from the store
+    const playlists = usePlaylistStore.getState().getPlaylists();
+    
+    // Filter playlists that need to be synced
+    const playlistsToSync = playlists.filter(playlist => 
+      playlist.syncStatus === 'modified' || playlist.syncStatus === 'pending'
+    );
+    
+    // Upload modified playlists
+    for (const playlist of playlistsToSync) {
+      await uploadPlaylist(playlist);
+    }
+    
+    // Download new playlists from server
+    await downloadNewPlaylists(tombstoneIds);
+    
+  } catch (error) {
+    console.error('Error syncing playlists:', error);
+    throw error;
+  }
+};
+
+// Upload a playlist to the server
+export const uploadPlaylist = async (playlist: Playlist): Promise<void> => {
+  try {
+    // Check if playlist exists on server
+    const exists = await playlistsApi.checkPlaylistExists(playlist.id);
+    
+    if (exists) {
+      // Update existing playlist
+      await playlistsApi.updatePlaylist(playlist);
+    } else {
+      // Create new playlist
+      await playlistsApi.createPlaylist(playlist);
+    }
+    
+    // Update playlist sync status (the store persists to IndexedDB)
+    usePlaylistStore.getState().updatePlaylist(playlist.id, {
+      syncStatus: 'synced'
+    });
+    
+  } catch (error) {
+    console.error(`Error uploading playlist ${playlist.id}:`, error);
+    
+    // Mark as conflict if there was a sync error
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'ConflictError') {
+      usePlaylistStore.getState().updatePlaylist(playlist.id, {
+        syncStatus: 'conflict'
+      });
+    }
+    
+    throw error;
+  }
+};
+
+// Delete playlists on the server that were deleted locally, dropping each
+// tombstone once the server has accepted the deletion. Returns the ids whose
+// deletion failed; their tombstones are retried on the next sync.
+const deletePendingPlaylists = async (): Promise<Set<string>> => {
+  const storedPlaylists = await indexedDBManager.getAllItems<Playlist>(indexedDBManager.STORES.PLAYLISTS);
+  const remainingIds = new Set<string>();
+  
+  for (const playlist of storedPlaylists) {
+    if (playlist.syncStatus !== 'pending_delete') continue;
+    try {
+      await deleteRemotePlaylist(playlist.id);
+    } catch {
+      // Already logged; one failure shouldn't hold up the rest of the sync
+      remainingIds.add(playlist.id);
+    }
+  }
+  
+  return remainingIds;
+};
+
+// Delete a playlist on the server, then its local tombstone
+export const deleteRemotePlaylist = async (playlistId: string): Promise<void> => {
+  try {
+    await playlistsApi.deletePlaylist(playlistId);
+  } catch (error) {
+    // Already gone on the server (or never made it there)
+    if (!(error instanceof apiClient.ApiError && error.status === 404)) {
+      console.error(`Error deleting playlist ${playlistId}:`, error);
+      throw error;
+    }
+  }
+  
+  await indexedDBManager.deleteItem(indexedDBManager.STORES.PLAYLISTS, playlistId);
+};
+
+// Download new playlists from the server
+export const downloadNewPlaylists = async (tombstoneIds: Set<string> = new Set()): Promise<void> => {
+  try {
+    // Get last sync time
+    const lastSyncTime = await getLastSyncTime();
+    
+    // Get playlists updated since last sync
+    const updatedPlaylists = await playlistsApi.getPlaylistsUpdatedSince(lastSyncTime);
+    
+    // Process each updated playlist
+    for (const serverPlaylist of updatedPlaylists) {
+      // Deleted locally; the server deletion is still to come
+      if (tombstoneIds.has(serverPlaylist.id)) continue;
+      
+      // Check if we already have this playlist
+      const localPlaylist = usePlaylistStore.getState().getPlaylistById(serverPlaylist.id);
+      
+      if (!localPlaylist) {
+        // New playlist, add it
+        usePlaylistStore.getState().addPlaylist({
+          ...serverPlaylist,
+          syncStatus: 'synced'
+        });
+      } else if (localPlaylist.syncStatus !== 'modified' && localPlaylist.syncStatus !== 'conflict') {
+        // Update existing playlist if it hasn't been modified locally
+        updateExistingPlaylist(serverPlaylist);
+      } else {
+        // Handle conflict
+        await handlePlaylistConflict(serverPlaylist, localPlaylist);
+      }
+    }
+    
+    // Update last sync time
+    await setLastSyncTime(Date.now());
+    
+  } catch (error) {
+    console.error('Error downloading playlists:', error);
+    throw error;
+  }
+};
+
+// Update an existing playlist with server data
+const updateExistingPlaylist = (serverPlaylist: Playlist): void => {
+  usePlaylistStore.getState().updatePlaylist(serverPlaylist.id, {
+    name: serverPlaylist.name,
+    trackIds: serverPlaylist.trackIds,
+    syncStatus: 'synced'
+  });
+};
+
+// Handle conflict between server and local playlist
+const handlePlaylistConflict = async (serverPlaylist: Playlist, localPlaylist: Playlist): Promise<void> => {
+  try {
+    // For V1, use simple "last write wins" strategy based on timestamps
+    if (serverPlaylist.lastModified > localPlaylist.lastModified) {
+      // Server version is newer
+      updateExistingPlaylist(serverPlaylist);
+    } else {
+      // Local version is newer, upload it
+      await uploadPlaylist(localPlaylist);
+    }
+    
+  } catch (error) {
+    console.error(`Error handling conflict for playlist ${serverPlaylist.id}:`, error);
+    
+    // Mark as conflict
+    usePlaylistStore.getState().updatePlaylist(localPlaylist.id, {
+      syncStatus: 'conflict'
+    });
+    
+    throw error;
+  }
+};
+
+// Get the last sync time for playlists
+const getLastSyncTime = async (): Promise<number> => {
+  try {
+    const syncState = await indexedDBManager.getItem<{ lastSyncTime: number }>(
+      indexedDBManager.STORES.SYNC_STATE,
+      'playlists'
+    );
+    
+    return syncState?.lastSyncTime || 0;
+  } catch (error) {
+    console.error('Error getting last sync time for playlists:', error);
+    return 0;
+  }
+};
+
+// Set the last sync time for playlists
+const setLastSyncTime = async (time: number): Promise<void> => {
+  try {
+    await indexedDBManager.updateItem(
+      indexedDBManager.STORES.SYNC_STATE,
+      {
+        id: 'playlists',
+        lastSyncTime: time
+      }
+    );
+  } catch (error) {
+    console.error('Error setting last sync time for playlists:', error);
+  }
+};
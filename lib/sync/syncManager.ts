@@ -2,7 +2,7 @@ import { useSyncStore } from '../stores';
 import * as trackSync from './entitySync/trackSync';
 // import * as albumSync from './entitySync/albumSync';
 // import * as artistSync from './entitySync/artistSync';
-// import * as playlistSync from './entitySync/playlistSync';
+import * as playlistSync from './entitySync/playlistSync';
 import * as eqSync from './entitySync/eqSync';
 
 // Minimum time between syncs (in milliseconds)
@@ -113,8 +113,8 @@ class SyncManager {
     // Sync tracks
     await trackSync.syncTracks();
     
-    // // Sync playlists
-    // await playlistSync.syncPlaylists();
+    // Sync playlists
+    await playlistSync.syncPlaylists();
     
     // Sync EQ profiles
     await eqSync.syncEQProfiles();
@@ -1,3 +1,5 @@
+import { configureBiquad, getBandStages } from './filterStages';
+
 /** Convert decibels to linear gain. */
 export function dbToGain(db: number): number {
   return Math.pow(10, db / 20);
@@ -13,53 +15,64 @@ function gainToDb(gain: number): number {
   return 20 * Math.log10(gain);
 }
 
-/**
- * Calculate the auto-gain compensation (in dB) for a set of EQ bands.
- *
- * Samples the combined EQ response at 128 log-spaced frequencies (20 Hz – 20 kHz),
- * weights each sample by a -4.5 dB/oct assumed spectral slope (0 dB at 20 Hz,
- * ~-45 dB at 20 kHz), and returns the negative of the maximum weighted gain,
- * clamped to ≤ 0. This ensures just enough gain reduction to prevent clipping
- * from EQ boosts, accounting for where in the spectrum the boost occurs.
- */
-export function calculateAutoGainDb(
-  bands: import('../models/EQBand').EQBand[],
-  audioCtx: BaseAudioContext,
-): number {
-  if (bands.length === 0) return 0;
-
-  const NUM_POINTS = 128;
-  const F_MIN = 20;
-  const F_MAX = 20000;
-  const DB_PER_OCT = -4.5;
+const NUM_POINTS = 128;
+const F_MIN = 20;
+const F_MAX = 20000;
 
-  // Generate 128 log-spaced frequencies
+/** 128 log-spaced frequencies from 20 Hz to 20 kHz. */
+function logFrequencies(): Float32Array {
   const frequencies = new Float32Array(NUM_POINTS);
   const logMin = Math.log(F_MIN);
   const logMax = Math.log(F_MAX);
   for (let i = 0; i < NUM_POINTS; i++) {
     frequencies[i] = Math.exp(logMin + (i / (NUM_POINTS - 1)) * (logMax - logMin));
   }
+  return frequencies;
+}
 
-  // Accumulate dB gains across all bands
-  const totalGainDb = new Float64Array(NUM_POINTS); // starts at 0
+/** Combined response (dB) of all band stages at the given frequencies. */
+function combinedResponseDb(
+  bands: import('../models/EQBand').EQBand[],
+  frequencies: Float32Array,
+  audioCtx: BaseAudioContext,
+): Float64Array {
+  const totalGainDb = new Float64Array(frequencies.length); // starts at 0
 
-  const magResponse = new Float32Array(NUM_POINTS);
-  const phaseResponse = new Float32Array(NUM_POINTS);
+  const magResponse = new Float32Array(frequencies.length);
+  const phaseResponse = new Float32Array(frequencies.length);
 
-  for (const band of bands) {
+  for (const stage of bands.flatMap(getBandStages)) {
     const filter = audioCtx.createBiquadFilter();
-    filter.type = band.type ?? 'peaking';
-    filter.frequency.value = band.frequency;
-    filter.gain.value = band.gain;
-    filter.Q.value = band.q;
+    configureBiquad(filter, stage);
 
     filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
 
-    for (let i = 0; i < NUM_POINTS; i++) {
+    for (let i = 0; i < frequencies.length; i++) {
       totalGainDb[i] += gainToDb(magResponse[i]);
     }
   }
+  return totalGainDb;
+}
+
+/**
+ * Calculate the auto-gain compensation (in dB) for a set of EQ bands.
+ *
+ * Samples the combined EQ response at 128 log-spaced frequencies (20 Hz – 20 kHz),
+ * weights each sample by a -4.5 dB/oct assumed spectral slope (0 dB at 20 Hz,
+ * ~-45 dB at 20 kHz), and returns the negative of the maximum weighted gain,
+ * clamped to ≤ 0. This ensures just enough gain reduction to prevent clipping
+ * from EQ boosts, accounting for where in the spectrum the boost occurs.
+ */
+export function calculateAutoGainDb(
+  bands: import('../models/EQBand').EQBand[],
+  audioCtx: BaseAudioContext,
+): number {
+  if (bands.length === 0) return 0;
+
+  const DB_PER_OCT = -4.5;
+
+  const frequencies = logFrequencies();
+  const totalGainDb = combinedResponseDb(bands, frequencies, audioCtx);
 
   // Find maximum weighted gain
   let maxWeightedGain = -Infinity;
@@ -74,3 +87,24 @@ export function calculateAutoGainDb(
   // Return negative of max weighted gain, clamped to ≤ 0
   return -Math.max(0, maxWeightedGain);
 }
+
+/**
+ * Average power gain (in dB) of a set of EQ bands for pink noise.
+ *
+ * Log-spaced samples give every octave equal weight, which is what pink noise
+ * (and, roughly, music) puts through the EQ. Used to level-match profiles.
+ */
+export function calculateAverageGainDb(
+  bands: import('../models/EQBand').EQBand[],
+  audioCtx: BaseAudioContext,
+): number {
+  if (bands.length === 0) return 0;
+
+  const totalGainDb = combinedResponseDb(bands, logFrequencies(), audioCtx);
+
+  let power = 0;
+  for (let i = 0; i < NUM_POINTS; i++) {
+    power += Math.pow(10, totalGainDb[i] / 10);
+  }
+  return 10 * Math.log10(power / NUM_POINTS);
+}
@@ -0,0 +1,108 @@
+/**
+ * Small byte-reading helpers shared by the tag parsers.
+ */
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let out = ''
+  const end = Math.min(bytes.length, offset + length)
+  for (let i = offset; i < end; i++) out += String.fromCharCode(bytes[i])
+  return out
+}
+
+export function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+export function readUint24BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]
+}
+
+export function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + ((bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset])
+}
+
+/** Read a 64-bit big-endian integer as a JS number (exact up to 2^53). */
+export function readUint64BE(bytes: Uint8Array, offset: number): number {
+  return readUint32BE(bytes, offset) * 0x100000000 + readUint32BE(bytes, offset + 4)
+}
+
+/** 28-bit "syncsafe" integer used by ID3v2 (7 bits per byte). */
+export function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
+}
+
+export type TextEncoding = 'latin1' | 'utf-16' | 'utf-16be' | 'utf-8'
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  if (encoding === 'latin1') {
+    let out = ''
+    for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i])
+    return out
+  }
+
+  if (encoding === 'utf-16' || encoding === 'utf-16be') {
+    // UTF-16 with a BOM picks its own byte order; without one, ID3 says big-endian
+    let littleEndian = false
+    let start = 0
+    if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+      littleEndian = true
+      start = 2
+    } else if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+      start = 2
+    }
+    let out = ''
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      out += String.fromCharCode(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1])
+    }
+    return out
+  }
+
+  return new TextDecoder('utf-8').decode(bytes)
+}
+
+/**
+ * Find the end of a null-terminated string. UTF-16 terminators are two zero
+ * bytes on an even boundary. Returns `bytes.length` if no terminator is found.
+ */
+export function findTerminator(bytes: Uint8Array, offset: number, wide: boolean): number {
+  if (wide) {
+    for (let i = offset; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) return i
+    }
+    return bytes.length
+  }
+  for (let i = offset; i < bytes.length; i++) {
+    if (bytes[i] === 0) return i
+  }
+  return bytes.length
+}
+
+/** Trim whitespace and trailing nulls; empty strings become undefined. */
+export function cleanText(text: string | undefined): string | undefined {
+  if (text === undefined) return undefined
+  let end = text.length
+  while (end > 0 && text.charCodeAt(end - 1) === 0) end--
+  const trimmed = text.slice(0, end).trim()
+  return trimmed.length > 0 ? trimmed : undefined
+}
+
+/** Parse "3", "3/12" or "2019-04-01" style numbers from the leading digits. */
+export function parseLeadingInt(text: string | undefined): number | undefined {
+  if (!text) return undefined
+  const match = text.trim().match(/^\d+/)
+  if (!match) return undefined
+  const value = parseInt(match[0], 10)
+  return Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/** Sniff the image type from its magic bytes, for formats that don't state it. */
+export function sniffImageMime(data: Uint8Array, fallback = 'image/jpeg'): string {
+  if (data.length >= 4 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png'
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg'
+  if (data.length >= 3 && data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'image/gif'
+  return fallback
+}
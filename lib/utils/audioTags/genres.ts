@@ -0,0 +1,44 @@
+/**
+ * ID3v1 genre table (0–79 standard, 80–125 Winamp extensions). Also used by
+ * ID3v2 "(17)" references and the MP4 `gnre` atom.
+ */
+export const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop',
+  'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap',
+  'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks',
+  'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance',
+  'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock',
+  'Ethnic', 'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream',
+  'Southern Rock', 'Comedy', 'Cult', 'Gangsta', 'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle',
+  'Native American', 'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi',
+  'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebob', 'Latin', 'Revival',
+  'Celtic', 'Bluegrass', 'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock',
+  'Big Band', 'Chorus', 'Easy Listening', 'Acoustic', 'Humour', 'Speech', 'Chanson', 'Opera',
+  'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove', 'Satire', 'Slow Jam',
+  'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A capella', 'Euro-House', 'Dance Hall',
+]
+
+export function genreFromIndex(index: number): string | undefined {
+  return index >= 0 && index < ID3V1_GENRES.length ? ID3V1_GENRES[index] : undefined
+}
+
+/**
+ * Resolve ID3v2 genre strings: "Rock", "(17)", "(17)Rock", "17" (v2.4), "(RX)"/"(CR)".
+ */
+export function resolveID3Genre(raw: string | undefined): string | undefined {
+  if (!raw) return undefined
+  const text = raw.trim()
+
+  const refMatch = text.match(/^\((\d+)\)(.*)$/)
+  if (refMatch) {
+    const refined = refMatch[2].trim()
+    return refined || genreFromIndex(parseInt(refMatch[1], 10))
+  }
+  if (/^\d+$/.test(text)) return genreFromIndex(parseInt(text, 10))
+  if (text === '(RX)' || text === 'RX') return 'Remix'
+  if (text === '(CR)' || text === 'CR') return 'Cover'
+  return text || undefined
+}
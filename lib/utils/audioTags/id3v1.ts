@@ -0,0 +1,34 @@
+/**
+ * ID3v1 / v1.1 reader — the fixed 128-byte "TAG" block at the end of MP3s.
+ */
+
+import type { AudioTags } from './types'
+import { readAscii, decodeText, cleanText, parseLeadingInt } from './bytes'
+import { genreFromIndex } from './genres'
+
+const TAG_SIZE = 128
+
+function readField(bytes: Uint8Array, offset: number, length: number): string | undefined {
+  return cleanText(decodeText(bytes.subarray(offset, offset + length), 'latin1').split('\u0000')[0])
+}
+
+export function parseID3v1(bytes: Uint8Array): AudioTags {
+  if (bytes.length < TAG_SIZE) return {}
+  const start = bytes.length - TAG_SIZE
+  if (readAscii(bytes, start, 3) !== 'TAG') return {}
+
+  const tags: AudioTags = {
+    title: readField(bytes, start + 3, 30),
+    artist: readField(bytes, start + 33, 30),
+    album: readField(bytes, start + 63, 30),
+    year: parseLeadingInt(readField(bytes, start + 93, 4)),
+    genre: genreFromIndex(bytes[start + 127]),
+  }
+
+  // v1.1: a zero byte before the last comment byte means that byte is the track number
+  if (bytes[start + 125] === 0 && bytes[start + 126] !== 0) {
+    tags.trackNumber = bytes[start + 126]
+  }
+
+  return tags
+}
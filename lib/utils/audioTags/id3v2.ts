@@ -0,0 +1,204 @@
+/**
+ * ID3v2.2 / v2.3 / v2.4 reader for the text frames we care about plus
+ * attached pictures (APIC / PIC).
+ */
+
+import type { AudioTags } from './types'
+import {
+  readAscii, readSyncsafe, readUint24BE, readUint32BE,
+  decodeText, findTerminator, cleanText, parseLeadingInt, sniffImageMime,
+  type TextEncoding,
+} from './bytes'
+import { resolveID3Genre } from './genres'
+
+const HEADER_SIZE = 10
+const FRONT_COVER = 3
+
+const ENCODINGS: TextEncoding[] = ['latin1', 'utf-16', 'utf-16be', 'utf-8']
+
+// v2.3/v2.4 frame id → field; v2.2 uses the three-letter ids
+const TEXT_FRAMES: Record<string, keyof AudioTags> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TPE2: 'albumArtist', TP2: 'albumArtist',
+  TALB: 'album', TAL: 'album',
+}
+
+/** Length of the ID3v2 tag at the start of the buffer (0 if none), footer included. */
+export function getID3v2Size(bytes: Uint8Array): number {
+  if (bytes.length < HEADER_SIZE || readAscii(bytes, 0, 3) !== 'ID3') return 0
+  const hasFooter = (bytes[5] & 0x10) !== 0
+  return HEADER_SIZE + readSyncsafe(bytes, 6) + (hasFooter ? HEADER_SIZE : 0)
+}
+
+/** Undo unsynchronisation: every 0xFF 0x00 pair becomes 0xFF. */
+function removeUnsync(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length)
+  let j = 0
+  for (let i = 0; i < bytes.length; i++) {
+    out[j++] = bytes[i]
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return out.subarray(0, j)
+}
+
+function readTextFrame(data: Uint8Array): string | undefined {
+  if (data.length < 1) return undefined
+  const encoding = ENCODINGS[data[0]] ?? 'latin1'
+  const wide = encoding === 'utf-16' || encoding === 'utf-16be'
+  // v2.4 separates multiple values with a null — keep the first
+  const end = findTerminator(data, 1, wide)
+  return cleanText(decodeText(data.subarray(1, end), encoding))
+}
+
+interface ParsedPicture {
+  type: number
+  mimeType: string
+  data: Uint8Array
+}
+
+function readPictureFrame(data: Uint8Array, isV22: boolean): ParsedPicture | undefined {
+  if (data.length < 4) return undefined
+  const encoding = ENCODINGS[data[0]] ?? 'latin1'
+  const wide = encoding === 'utf-16' || encoding === 'utf-16be'
+
+  let offset = 1
+  let mimeType: string
+  if (isV22) {
+    // PIC: three-letter image format, e.g. "JPG" / "PNG"
+    const format = readAscii(data, offset, 3).toUpperCase()
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg'
+    offset += 3
+  } else {
+    const mimeEnd = findTerminator(data, offset, false)
+    mimeType = readAscii(data, offset, mimeEnd - offset).toLowerCase()
+    offset = mimeEnd + 1
+  }
+
+  const type = data[offset]
+  offset += 1
+
+  // Skip the description
+  const descEnd = findTerminator(data, offset, wide)
+  offset = descEnd + (wide ? 2 : 1)
+  if (offset >= data.length) return undefined
+
+  const image = data.slice(offset)
+  if (!mimeType || mimeType === 'image/' || !mimeType.includes('/')) {
+    mimeType = sniffImageMime(image)
+  } else if (mimeType === 'image/jpg') {
+    mimeType = 'image/jpeg'
+  }
+  return { type, mimeType, data: image }
+}
+
+/**
+ * Parse an ID3v2 tag at the start of `bytes`. Returns an empty object when
+ * there is no tag or the version is unsupported.
+ */
+export function parseID3v2(bytes: Uint8Array): AudioTags {
+  const size = getID3v2Size(bytes)
+  if (size === 0) return {}
+
+  const version = bytes[3]
+  if (version < 2 || version > 4) return {}
+
+  const flags = bytes[5]
+  const tagEnd = Math.min(bytes.length, HEADER_SIZE + readSyncsafe(bytes, 6))
+  let body = bytes.subarray(HEADER_SIZE, tagEnd)
+
+  // v2.2/v2.3 apply unsynchronisation to the whole tag; v2.4 does it per frame
+  if ((flags & 0x80) !== 0 && version < 4) {
+    body = removeUnsync(body)
+  }
+
+  let offset = 0
+  if ((flags & 0x40) !== 0 && version >= 3) {
+    // Extended header: v2.3 size excludes itself, v2.4 size is syncsafe and includes itself
+    offset = version === 3 ? readUint32BE(body, 0) + 4 : readSyncsafe(body, 0)
+  }
+
+  const isV22 = version === 2
+  const idLength = isV22 ? 3 : 4
+  const frameHeaderSize = isV22 ? 6 : 10
+
+  const tags: AudioTags = {}
+  let bestPicture: ParsedPicture | undefined
+  let yearText: string | undefined
+  let trackText: string | undefined
+  let genreText: string | undefined
+
+  while (offset + frameHeaderSize <= body.length) {
+    const id = readAscii(body, offset, idLength)
+    // Padding (or garbage) ends the frame list
+    if (!/^[A-Z0-9]+$/.test(id)) break
+
+    const frameSize = isV22
+      ? readUint24BE(body, offset + 3)
+      : version === 4 ? readSyncsafe(body, offset + 4) : readUint32BE(body, offset + 4)
+    const formatFlags = isV22 ? 0 : body[offset + 9]
+
+    const dataStart = offset + frameHeaderSize
+    const dataEnd = dataStart + frameSize
+    if (dataEnd > body.length) break
+    offset = dataEnd
+    if (frameSize === 0) continue
+
+    let data = body.subarray(dataStart, dataEnd)
+
+    if (version === 4) {
+      // Compressed/encrypted frames are skipped
+      if ((formatFlags & 0x0c) !== 0) continue
+      if ((formatFlags & 0x40) !== 0) data = data.subarray(1) // group id
+      if ((formatFlags & 0x01) !== 0) data = data.subarray(4) // data length indicator
+      if ((formatFlags & 0x02) !== 0) data = removeUnsync(data)
+    } else if (version === 3) {
+      if ((formatFlags & 0xc0) !== 0) continue
+      if ((formatFlags & 0x20) !== 0) data = data.subarray(1) // group id
+    }
+
+    const field = TEXT_FRAMES[id]
+    if (field) {
+      const text = readTextFrame(data)
+      if (text && tags[field] === undefined) {
+        (tags as Record<string, unknown>)[field] = text
+      }
+      continue
+    }
+
+    switch (id) {
+      case 'TRCK':
+      case 'TRK':
+        trackText = trackText ?? readTextFrame(data)
+        break
+      case 'TYER':
+      case 'TYE':
+      case 'TDRC':
+      case 'TDOR':
+        yearText = yearText ?? readTextFrame(data)
+        break
+      case 'TCON':
+      case 'TCO':
+        genreText = genreText ?? readTextFrame(data)
+        break
+      case 'APIC':
+      case 'PIC': {
+        const picture = readPictureFrame(data, isV22)
+        // Prefer the front cover; otherwise keep the first picture
+        if (picture && (!bestPicture || (picture.type === FRONT_COVER && bestPicture.type !== FRONT_COVER))) {
+          bestPicture = picture
+        }
+        break
+      }
+    }
+  }
+
+  tags.trackNumber = parseLeadingInt(trackText)
+  tags.year = parseLeadingInt(yearText)
+  tags.genre = resolveID3Genre(genreText)
+  if (bestPicture) {
+    tags.picture = { mimeType: bestPicture.mimeType, data: bestPicture.data }
+  }
+
+  return tags
+}
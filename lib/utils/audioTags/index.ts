@@ -0,0 +1,55 @@
+/**
+ * Dependency-free audio tag reader. Detects the container from its magic
+ * bytes and reads ID3v2 (2.2–2.4), ID3v1, FLAC / Ogg Vorbis comments and
+ * MP4 `ilst` atoms, including embedded cover art.
+ */
+
+import type { AudioTags } from './types'
+import { readAscii } from './bytes'
+import { parseID3v2, getID3v2Size } from './id3v2'
+import { parseID3v1 } from './id3v1'
+import { parseFlac, parseOgg } from './vorbisComment'
+import { parseMP4, isMP4 } from './mp4'
+
+export type { AudioTags, TagPicture } from './types'
+
+/** Fill fields missing from `primary` with values from `fallback`. */
+function mergeTags(primary: AudioTags, fallback: AudioTags): AudioTags {
+  const merged: AudioTags = { ...primary }
+  for (const key of Object.keys(fallback) as (keyof AudioTags)[]) {
+    if (merged[key] === undefined && fallback[key] !== undefined) {
+      (merged as Record<string, unknown>)[key] = fallback[key]
+    }
+  }
+  return merged
+}
+
+/**
+ * Read tags from the raw bytes of an audio file. Never throws — malformed
+ * or unknown files yield an empty object.
+ */
+export function readTags(buffer: ArrayBuffer | Uint8Array): AudioTags {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+
+  try {
+    const id3Size = getID3v2Size(bytes)
+    const afterID3 = readAscii(bytes, id3Size, 4)
+
+    if (afterID3 === 'fLaC') {
+      // FLAC, possibly with a (non-standard) ID3v2 prefix
+      return mergeTags(parseFlac(bytes), parseID3v2(bytes))
+    }
+    if (readAscii(bytes, 0, 4) === 'OggS') {
+      return parseOgg(bytes)
+    }
+    if (isMP4(bytes)) {
+      return parseMP4(bytes)
+    }
+
+    // MP3 and anything else: ID3v2 first, ID3v1 fills the gaps
+    return mergeTags(parseID3v2(bytes), parseID3v1(bytes))
+  } catch (error) {
+    console.warn('Failed to read audio tags:', error)
+    return {}
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * MP4 / M4A metadata: iTunes-style `moov/udta/meta/ilst` items and the
+ * movie duration from `moov/mvhd`.
+ */
+
+import type { AudioTags } from './types'
+import { readAscii, readUint16BE, readUint32BE, readUint64BE, decodeText, cleanText, parseLeadingInt, sniffImageMime } from './bytes'
+import { genreFromIndex } from './genres'
+
+// `data` atom well-known types
+const DATA_TYPE_JPEG = 13
+const DATA_TYPE_PNG = 14
+
+interface Atom {
+  type: string
+  start: number // first byte of the payload
+  end: number
+}
+
+/** List the child atoms in `[start, end)`. */
+function readAtoms(bytes: Uint8Array, start: number, end: number): Atom[] {
+  const atoms: Atom[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset)
+    const type = readAscii(bytes, offset + 4, 4)
+    let headerSize = 8
+
+    if (size === 1) {
+      if (offset + 16 > end) break
+      size = readUint64BE(bytes, offset + 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) break
+
+    atoms.push({ type, start: offset + headerSize, end: offset + size })
+    offset += size
+  }
+
+  return atoms
+}
+
+function findAtom(bytes: Uint8Array, atoms: Atom[], path: string[]): Atom | undefined {
+  let current: Atom | undefined
+  let list = atoms
+  for (let i = 0; i < path.length; i++) {
+    current = list.find((a) => a.type === path[i])
+    if (!current) return undefined
+    if (i < path.length - 1) {
+      // `meta` is a full box: 4 bytes of version/flags before its children
+      const childStart = current.type === 'meta' ? current.start + 4 : current.start
+      list = readAtoms(bytes, childStart, current.end)
+    }
+  }
+  return current
+}
+
+interface DataValue {
+  type: number
+  value: Uint8Array
+}
+
+/** Read the first `data` atom inside an ilst item. */
+function readData(bytes: Uint8Array, item: Atom): DataValue | undefined {
+  const data = readAtoms(bytes, item.start, item.end).find((a) => a.type === 'data')
+  if (!data || data.end - data.start < 8) return undefined
+  // 1 byte version, 3 bytes type, 4 bytes locale
+  const type = readUint32BE(bytes, data.start) & 0x00ffffff
+  return { type, value: bytes.subarray(data.start + 8, data.end) }
+}
+
+function readMovieDuration(bytes: Uint8Array, mvhd: Atom): number | undefined {
+  const version = bytes[mvhd.start]
+  let offset = mvhd.start + 4
+  let timescale: number
+  let duration: number
+  if (version === 1) {
+    offset += 16 // creation + modification times (64-bit)
+    timescale = readUint32BE(bytes, offset)
+    duration = readUint64BE(bytes, offset + 4)
+  } else {
+    offset += 8
+    timescale = readUint32BE(bytes, offset)
+    duration = readUint32BE(bytes, offset + 4)
+  }
+  return timescale > 0 && duration > 0 ? duration / timescale : undefined
+}
+
+/** Whether the buffer starts with an MP4 `ftyp` box. */
+export function isMP4(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && readAscii(bytes, 4, 4) === 'ftyp'
+}
+
+export function parseMP4(bytes: Uint8Array): AudioTags {
+  const topLevel = readAtoms(bytes, 0, bytes.length)
+  const tags: AudioTags = {}
+
+  const mvhd = findAtom(bytes, topLevel, ['moov', 'mvhd'])
+  if (mvhd) tags.duration = readMovieDuration(bytes, mvhd)
+
+  const ilst = findAtom(bytes, topLevel, ['moov', 'udta', 'meta', 'ilst'])
+  if (!ilst) return tags
+
+  for (const item of readAtoms(bytes, ilst.start, ilst.end)) {
+    const data = readData(bytes, item)
+    if (!data) continue
+    const text = () => cleanText(decodeText(data.value, 'utf-8'))
+
+    switch (item.type) {
+      case '©nam': tags.title = text(); break
+      case '©ART': tags.artist = text(); break
+      case 'aART': tags.albumArtist = text(); break
+      case '©alb': tags.album = text(); break
+      case '©day': tags.year = parseLeadingInt(text()); break
+      case '©gen': tags.genre = text(); break
+      case 'gnre':
+        // 1-based ID3v1 genre index
+        if (!tags.genre && data.value.length >= 2) tags.genre = genreFromIndex(readUint16BE(data.value, 0) - 1)
+        break
+      case 'trkn':
+        // 2 bytes padding, 2 bytes track, 2 bytes total
+        if (data.value.length >= 4) {
+          const track = readUint16BE(data.value, 2)
+          if (track > 0) tags.trackNumber = track
+        }
+        break
+      case 'covr':
+        if (!tags.picture && data.value.length > 0) {
+          const image = data.value.slice()
+          const mimeType = data.type === DATA_TYPE_PNG ? 'image/png'
+            : data.type === DATA_TYPE_JPEG ? 'image/jpeg'
+            : sniffImageMime(image)
+          tags.picture = { mimeType, data: image }
+        }
+        break
+    }
+  }
+
+  return tags
+}
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest'
+import { readTags } from './index'
+
+// Tiny hand-built files: just the headers and tag blocks readTags looks at
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4])
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 5, 6, 7, 8])
+
+function bytes(...parts: (Uint8Array | number[] | string)[]): Uint8Array {
+  const arrays = parts.map((part) =>
+    typeof part === 'string' ? Uint8Array.from(part, (c) => c.charCodeAt(0) & 0xff) : Uint8Array.from(part))
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0))
+  let offset = 0
+  for (const a of arrays) {
+    out.set(a, offset)
+    offset += a.length
+  }
+  return out
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text)
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff]
+const u24be = (n: number) => [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff]
+const syncsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]
+
+function utf16le(text: string): number[] {
+  const out = [0xff, 0xfe]
+  for (const c of text) out.push(c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8)
+  return out
+}
+
+/** ID3v2 tag with the given frames; v2.4 frame sizes are syncsafe. */
+function id3v2(version: 3 | 4, frames: [string, Uint8Array][]): Uint8Array {
+  const body = bytes(...frames.map(([id, data]) =>
+    bytes(id, version === 4 ? syncsafe(data.length) : u32be(data.length), [0, 0], data)))
+  return bytes('ID3', [version, 0, 0], syncsafe(body.length), body)
+}
+
+const latin1Frame = (text: string) => bytes([0], text)
+const utf16Frame = (text: string) => bytes([1], utf16le(text))
+
+function apic(mimeType: string, type: number, image: Uint8Array): Uint8Array {
+  return bytes([0], mimeType, [0, type], 'desc', [0], image)
+}
+
+function id3v1(fields: { title: string; artist: string; album: string; year: string; track: number; genre: number }): Uint8Array {
+  const pad = (text: string, length: number) => bytes(text, new Array(length - text.length).fill(0))
+  return bytes('TAG', pad(fields.title, 30), pad(fields.artist, 30), pad(fields.album, 30), pad(fields.year, 4),
+    new Array(28).fill(0), [0, fields.track, fields.genre])
+}
+
+function vorbisComment(entries: string[]): Uint8Array {
+  const vendor = utf8('test')
+  return bytes(u32le(vendor.length), vendor, u32le(entries.length),
+    ...entries.map((entry) => bytes(u32le(utf8(entry).length), utf8(entry))))
+}
+
+function pictureBlock(mimeType: string, type: number, image: Uint8Array): Uint8Array {
+  return bytes(u32be(type), u32be(mimeType.length), mimeType, u32be(0), new Array(16).fill(0), u32be(image.length), image)
+}
+
+function flacBlock(type: number, data: Uint8Array, isLast = false): Uint8Array {
+  return bytes([(isLast ? 0x80 : 0) | type], u24be(data.length), data)
+}
+
+function streamInfo(sampleRate: number, totalSamples: number): Uint8Array {
+  const info = new Uint8Array(34)
+  info[10] = (sampleRate >> 12) & 0xff
+  info[11] = (sampleRate >> 4) & 0xff
+  info[12] = (sampleRate & 0x0f) << 4
+  info.set(u32be(totalSamples), 14)
+  return info
+}
+
+/** One Ogg page carrying whole packets, laced per the spec. */
+function oggPage(packets: Uint8Array[]): Uint8Array {
+  const lacing: number[] = []
+  for (const packet of packets) {
+    let remaining = packet.length
+    while (remaining >= 255) {
+      lacing.push(255)
+      remaining -= 255
+    }
+    lacing.push(remaining)
+  }
+  return bytes('OggS', [0, 2], new Array(8).fill(0), u32le(1), u32le(0), u32le(0), [lacing.length], lacing, ...packets)
+}
+
+function atom(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = bytes(...payload)
+  return bytes(u32be(body.length + 8), type, body)
+}
+
+const dataAtom = (type: number, value: Uint8Array | number[]) => atom('data', bytes(u32be(type), u32be(0), value))
+
+function toBase64(data: Uint8Array): string {
+  let binary = ''
+  for (const b of data) binary += String.fromCharCode(b)
+  return btoa(binary)
+}
+
+describe('readTags', () => {
+  it('reads ID3v2.3 text frames, a numeric genre and the track number', () => {
+    const tags = readTags(id3v2(3, [
+      ['TIT2', latin1Frame('Song')],
+      ['TPE1', latin1Frame('Artist')],
+      ['TALB', latin1Frame('Album')],
+      ['TRCK', latin1Frame('3/12')],
+      ['TYER', latin1Frame('1999')],
+      ['TCON', latin1Frame('(17)')],
+      ['APIC', apic('image/jpg', 3, JPEG)],
+    ]))
+
+    expect(tags).toMatchObject({ title: 'Song', artist: 'Artist', album: 'Album', trackNumber: 3, year: 1999, genre: 'Rock' })
+    expect(tags.picture?.mimeType).toBe('image/jpeg')
+    expect(Array.from(tags.picture!.data)).toEqual(Array.from(JPEG))
+  })
+
+  it('reads ID3v2.4 syncsafe sizes, UTF-16 text and prefers the front cover', () => {
+    // Over 127 bytes, so the syncsafe size differs from a plain integer
+    const cover = bytes(PNG, new Array(300).fill(0x55))
+    const tags = readTags(bytes(id3v2(4, [
+      ['TIT2', utf16Frame('Ünïcode ♪')],
+      ['TPE1', utf16Frame('Ärtist')],
+      ['TPE2', latin1Frame('Album Artist')],
+      ['TALB', bytes([3], utf8('Albüm'))],
+      ['TRCK', latin1Frame('7')],
+      ['TDRC', latin1Frame('2019-04-01')],
+      ['TCON', latin1Frame('Electronic')],
+      ['APIC', apic('image/jpeg', 0, JPEG)],
+      ['APIC', apic('image/png', 3, cover)],
+    ]), [0xff, 0xfb, 0x90, 0x00]))
+
+    expect(tags).toMatchObject({
+      title: 'Ünïcode ♪',
+      artist: 'Ärtist',
+      albumArtist: 'Album Artist',
+      album: 'Albüm',
+      trackNumber: 7,
+      year: 2019,
+      genre: 'Electronic',
+    })
+    expect(tags.picture?.mimeType).toBe('image/png')
+    expect(tags.picture?.data.length).toBe(cover.length)
+  })
+
+  it('reads ID3v1.1 and lets it fill fields ID3v2 leaves out', () => {
+    const v1 = id3v1({ title: 'Old Title', artist: 'Old Artist', album: 'Old Album', year: '1987', track: 5, genre: 13 })
+
+    expect(readTags(bytes(new Array(64).fill(0xff), v1))).toEqual({
+      title: 'Old Title',
+      artist: 'Old Artist',
+      album: 'Old Album',
+      year: 1987,
+      trackNumber: 5,
+      genre: 'Pop',
+    })
+
+    const merged = readTags(bytes(id3v2(3, [['TIT2', latin1Frame('New Title')]]), new Array(64).fill(0xff), v1))
+    expect(merged).toMatchObject({ title: 'New Title', artist: 'Old Artist', trackNumber: 5, genre: 'Pop' })
+  })
+
+  it('reads FLAC Vorbis comments, the PICTURE block and the duration', () => {
+    const tags = readTags(bytes('fLaC',
+      flacBlock(0, streamInfo(44100, 441000)),
+      flacBlock(4, vorbisComment(['TITLE=Flac Song', 'artist=Flac Artist', 'ALBUM=Flac Album', 'TRACKNUMBER=2/9', 'DATE=2001-02-03', 'GENRE=Jazz'])),
+      flacBlock(6, pictureBlock('image/png', 3, PNG), true),
+    ))
+
+    expect(tags).toMatchObject({ title: 'Flac Song', artist: 'Flac Artist', album: 'Flac Album', trackNumber: 2, year: 2001, genre: 'Jazz' })
+    expect(tags.duration).toBeCloseTo(10, 6)
+    expect(tags.picture?.mimeType).toBe('image/png')
+    expect(Array.from(tags.picture!.data)).toEqual(Array.from(PNG))
+  })
+
+  it('reads Ogg Vorbis comments with an embedded METADATA_BLOCK_PICTURE', () => {
+    const picture = toBase64(pictureBlock('image/jpeg', 3, JPEG))
+    const identification = bytes([1], 'vorbis', new Array(23).fill(0))
+    // Long enough to need 255-byte lacing
+    const comment = bytes([3], 'vorbis', vorbisComment([
+      'TITLE=Ogg Song', 'ARTIST=Ogg Artist', 'ALBUM=Ogg Album', 'TRACKNUMBER=4', 'DATE=2010', 'GENRE=Ambient',
+      `COMMENT=${'x'.repeat(300)}`, `METADATA_BLOCK_PICTURE=${picture}`,
+    ]), [1])
+
+    const tags = readTags(bytes(oggPage([identification]), oggPage([comment])))
+
+    expect(tags).toMatchObject({ title: 'Ogg Song', artist: 'Ogg Artist', album: 'Ogg Album', trackNumber: 4, year: 2010, genre: 'Ambient' })
+    expect(tags.picture?.mimeType).toBe('image/jpeg')
+    expect(Array.from(tags.picture!.data)).toEqual(Array.from(JPEG))
+  })
+
+  it('reads MP4 ilst items, the gnre index, covr and the movie duration', () => {
+    const mvhd = atom('mvhd', bytes([0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(215500), new Array(80).fill(0)))
+    const ilst = atom('ilst',
+      atom('©nam', dataAtom(1, utf8('M4A Song'))),
+      atom('©ART', dataAtom(1, utf8('M4A Artist'))),
+      atom('©alb', dataAtom(1, utf8('M4A Album'))),
+      atom('©day', dataAtom(1, utf8('2015-06-01T00:00:00Z'))),
+      atom('trkn', dataAtom(0, [0, 0, ...u16be(6), ...u16be(11), 0, 0])),
+      atom('gnre', dataAtom(0, u16be(18))),
+      atom('covr', dataAtom(14, PNG)),
+    )
+    const file = bytes(
+      atom('ftyp', bytes('M4A ', u32be(0), 'isom')),
+      atom('moov', mvhd, atom('udta', atom('meta', bytes([0, 0, 0, 0]), ilst))),
+    )
+
+    const tags = readTags(file)
+
+    expect(tags).toMatchObject({ title: 'M4A Song', artist: 'M4A Artist', album: 'M4A Album', trackNumber: 6, year: 2015, genre: 'Rock' })
+    expect(tags.duration).toBeCloseTo(215.5, 6)
+    expect(tags.picture?.mimeType).toBe('image/png')
+    expect(Array.from(tags.picture!.data)).toEqual(Array.from(PNG))
+  })
+
+  it('accepts an ArrayBuffer and returns nothing for untagged or truncated files', () => {
+    expect(readTags(new ArrayBuffer(16))).toEqual({})
+    expect(readTags(bytes('ID3', [3, 0, 0], syncsafe(1000), 'TIT2'))).toEqual({})
+    expect(readTags(bytes('fLaC', [4], u24be(1000)))).toEqual({})
+  })
+})
@@ -0,0 +1,18 @@
+export interface TagPicture {
+  mimeType: string
+  data: Uint8Array
+}
+
+/** Tag fields read from an audio file. Every field is optional — files often carry only a few. */
+export interface AudioTags {
+  title?: string
+  artist?: string
+  albumArtist?: string
+  album?: string
+  year?: number
+  trackNumber?: number
+  genre?: string
+  picture?: TagPicture
+  /** Duration in seconds when the container states it (FLAC STREAMINFO, MP4 mvhd). */
+  duration?: number
+}
@@ -0,0 +1,232 @@
+/**
+ * FLAC metadata blocks and Ogg (Vorbis / Opus) comment headers. Both carry
+ * the same Vorbis comment structure, and both use the FLAC PICTURE block for
+ * cover art (Ogg embeds it base64-encoded as METADATA_BLOCK_PICTURE).
+ */
+
+import type { AudioTags, TagPicture } from './types'
+import {
+  readAscii, readUint24BE, readUint32BE, readUint32LE,
+  decodeText, cleanText, parseLeadingInt, sniffImageMime,
+} from './bytes'
+import { getID3v2Size } from './id3v2'
+
+const FLAC_STREAMINFO = 0
+const FLAC_VORBIS_COMMENT = 4
+const FLAC_PICTURE = 6
+const FRONT_COVER = 3
+
+interface ParsedPicture extends TagPicture {
+  type: number
+}
+
+/** Parse a FLAC PICTURE block body (big-endian). */
+function parsePictureBlock(data: Uint8Array): ParsedPicture | undefined {
+  if (data.length < 32) return undefined
+  let offset = 0
+  const type = readUint32BE(data, offset)
+  offset += 4
+  const mimeLength = readUint32BE(data, offset)
+  offset += 4
+  let mimeType = readAscii(data, offset, mimeLength).toLowerCase()
+  offset += mimeLength
+  const descLength = readUint32BE(data, offset)
+  offset += 4 + descLength
+  offset += 16 // width, height, colour depth, indexed colour count
+  const dataLength = readUint32BE(data, offset)
+  offset += 4
+  if (offset + dataLength > data.length) return undefined
+
+  const image = data.slice(offset, offset + dataLength)
+  if (!mimeType.includes('/')) mimeType = sniffImageMime(image)
+  return { type, mimeType, data: image }
+}
+
+function pickPicture(current: ParsedPicture | undefined, candidate: ParsedPicture | undefined): ParsedPicture | undefined {
+  if (!candidate) return current
+  if (!current) return candidate
+  return candidate.type === FRONT_COVER && current.type !== FRONT_COVER ? candidate : current
+}
+
+function base64ToBytes(text: string): Uint8Array | undefined {
+  try {
+    const binary = atob(text.replace(/\s+/g, ''))
+    const out = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i)
+    return out
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Parse a Vorbis comment structure (little-endian lengths, UTF-8 "KEY=value"
+ * entries) starting at `offset`.
+ */
+export function parseVorbisComment(bytes: Uint8Array, offset = 0): AudioTags & { pictures: ParsedPicture[] } {
+  const fields: Record<string, string> = {}
+  const pictures: ParsedPicture[] = []
+
+  if (offset + 8 > bytes.length) return { pictures }
+  const vendorLength = readUint32LE(bytes, offset)
+  offset += 4 + vendorLength
+  if (offset + 4 > bytes.length) return { pictures }
+  const count = readUint32LE(bytes, offset)
+  offset += 4
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset)
+    offset += 4
+    if (offset + length > bytes.length) break
+    const entry = decodeText(bytes.subarray(offset, offset + length), 'utf-8')
+    offset += length
+
+    const eq = entry.indexOf('=')
+    if (eq <= 0) continue
+    const key = entry.slice(0, eq).toUpperCase()
+    const value = entry.slice(eq + 1)
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      const raw = base64ToBytes(value)
+      const picture = raw ? parsePictureBlock(raw) : undefined
+      if (picture) pictures.push(picture)
+      continue
+    }
+    // First value wins for repeated keys
+    if (!(key in fields)) fields[key] = value
+  }
+
+  return {
+    title: cleanText(fields.TITLE),
+    artist: cleanText(fields.ARTIST),
+    albumArtist: cleanText(fields.ALBUMARTIST ?? fields['ALBUM ARTIST']),
+    album: cleanText(fields.ALBUM),
+    year: parseLeadingInt(fields.DATE ?? fields.YEAR),
+    trackNumber: parseLeadingInt(fields.TRACKNUMBER),
+    genre: cleanText(fields.GENRE),
+    pictures,
+  }
+}
+
+function finishTags(parsed: AudioTags & { pictures: ParsedPicture[] }, extraPictures: ParsedPicture[] = []): AudioTags {
+  const { pictures, ...tags } = parsed
+  let best: ParsedPicture | undefined
+  for (const picture of [...extraPictures, ...pictures]) best = pickPicture(best, picture)
+  if (best) tags.picture = { mimeType: best.mimeType, data: best.data }
+  return tags
+}
+
+/** Parse FLAC metadata blocks (an ID3v2 prefix, if any, is skipped). */
+export function parseFlac(bytes: Uint8Array): AudioTags {
+  let offset = getID3v2Size(bytes)
+  if (readAscii(bytes, offset, 4) !== 'fLaC') return {}
+  offset += 4
+
+  let comments: (AudioTags & { pictures: ParsedPicture[] }) | undefined
+  const blockPictures: ParsedPicture[] = []
+  let duration: number | undefined
+
+  let isLast = false
+  while (!isLast && offset + 4 <= bytes.length) {
+    const header = bytes[offset]
+    isLast = (header & 0x80) !== 0
+    const type = header & 0x7f
+    const length = readUint24BE(bytes, offset + 1)
+    const start = offset + 4
+    const end = start + length
+    if (end > bytes.length) break
+    const block = bytes.subarray(start, end)
+
+    if (type === FLAC_STREAMINFO && length >= 18) {
+      // 20-bit sample rate, then 36-bit total sample count
+      const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4)
+      const totalSamples = (block[13] & 0x0f) * 0x100000000 + readUint32BE(block, 14)
+      if (sampleRate > 0 && totalSamples > 0) duration = totalSamples / sampleRate
+    } else if (type === FLAC_VORBIS_COMMENT && !comments) {
+      comments = parseVorbisComment(block)
+    } else if (type === FLAC_PICTURE) {
+      const picture = parsePictureBlock(block)
+      if (picture) blockPictures.push(picture)
+    }
+
+    offset = end
+  }
+
+  const tags = finishTags(comments ?? { pictures: [] }, blockPictures)
+  if (duration) tags.duration = duration
+  return tags
+}
+
+/**
+ * Reassemble the first few packets of the first logical Ogg stream. Packets
+ * may span pages; a lacing value below 255 ends a packet.
+ */
+function readOggPackets(bytes: Uint8Array, maxPackets: number): Uint8Array[] {
+  const packets: Uint8Array[] = []
+  let current: Uint8Array[] = []
+  let serial: number | undefined
+  let offset = 0
+
+  while (offset + 27 <= bytes.length && packets.length < maxPackets) {
+    if (readAscii(bytes, offset, 4) !== 'OggS') break
+    const pageSerial = readUint32LE(bytes, offset + 14)
+    const segmentCount = bytes[offset + 26]
+    const tableStart = offset + 27
+    let dataOffset = tableStart + segmentCount
+    if (dataOffset > bytes.length) break
+
+    let pageLength = 0
+    for (let i = 0; i < segmentCount; i++) pageLength += bytes[tableStart + i]
+
+    if (serial === undefined) serial = pageSerial
+    if (pageSerial === serial) {
+      for (let i = 0; i < segmentCount && packets.length < maxPackets; i++) {
+        const lacing = bytes[tableStart + i]
+        current.push(bytes.subarray(dataOffset, Math.min(bytes.length, dataOffset + lacing)))
+        dataOffset += lacing
+        if (lacing < 255) {
+          const total = current.reduce((sum, part) => sum + part.length, 0)
+          const packet = new Uint8Array(total)
+          let p = 0
+          for (const part of current) {
+            packet.set(part, p)
+            p += part.length
+          }
+          packets.push(packet)
+          current = []
+        }
+      }
+    }
+
+    offset = tableStart + segmentCount + pageLength
+  }
+
+  return packets
+}
+
+/** Parse the comment header of an Ogg Vorbis, Opus or Ogg FLAC stream. */
+export function parseOgg(bytes: Uint8Array): AudioTags {
+  const packets = readOggPackets(bytes, 3)
+  if (packets.length === 0) return {}
+  const first = packets[0]
+
+  if (readAscii(first, 1, 6) === 'vorbis') {
+    const comment = packets.find((p) => p[0] === 0x03 && readAscii(p, 1, 6) === 'vorbis')
+    return comment ? finishTags(parseVorbisComment(comment, 7)) : {}
+  }
+
+  if (readAscii(first, 0, 8) === 'OpusHead') {
+    const comment = packets.find((p) => readAscii(p, 0, 8) === 'OpusTags')
+    return comment ? finishTags(parseVorbisComment(comment, 8)) : {}
+  }
+
+  if (readAscii(first, 1, 4) === 'FLAC') {
+    // Ogg FLAC: the second packet is a raw VORBIS_COMMENT metadata block
+    const comment = packets[1]
+    if (comment && (comment[0] & 0x7f) === FLAC_VORBIS_COMMENT) {
+      return finishTags(parseVorbisComment(comment, 4))
+    }
+  }
+
+  return {}
+}
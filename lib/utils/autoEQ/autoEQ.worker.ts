@@ -0,0 +1,17 @@
+import { fitAutoEQ, type AutoEQRequest, type AutoEQResponse } from './fitAutoEQ'
+
+// Worker side of AutoEQFitter: run one fit
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<AutoEQRequest>) => void) | null
+  postMessage: (message: AutoEQResponse) => void
+}
+
+scope.onmessage = (e) => {
+  const { id, measurement, target, options } = e.data
+  try {
+    scope.postMessage({ id, result: fitAutoEQ(measurement, target, options) })
+  } catch (error) {
+    console.error('AutoEQ fit failed:', error)
+    scope.postMessage({ id, result: null, error: error instanceof Error ? error.message : String(error) })
+  }
+}
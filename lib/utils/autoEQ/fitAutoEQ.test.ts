@@ -0,0 +1,121 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import type { EQBand } from '@/lib/models/EQBand'
+import { combinedMagnitudeAt, logFrequencies } from '../eqExport/biquadMath'
+import { fitParametricBands, interpolateCurve } from '../eqImport/fitParametric'
+import { parseFrequencyResponse, type ResponseCurve } from '../frequencyResponse'
+import { DEFAULT_AUTOEQ_OPTIONS, fitAutoEQ, type AutoEQOptions } from './fitAutoEQ'
+
+const targetCurve = (file: string) =>
+  parseFrequencyResponse(readFileSync(join(process.cwd(), 'public/frequency-response/targets', file), 'utf8'))
+
+const HARMAN_OE = targetCurve('harman-over-ear-2018.csv')
+const DIFFUSE_FIELD = targetCurve('diffuse-field-iso-11904-2.csv')
+
+const GRID = logFrequencies(20, 20000, 200)
+
+/** `target` bent by the inverse of `bands`, plus an optional ripple: a headphone the bands would fix. */
+function measurementFor(target: ResponseCurve, bands: EQBand[], rippleDb = 0): ResponseCurve {
+  const sampled = interpolateCurve(target.frequencies, target.gains, GRID)
+  const eq = combinedMagnitudeAt(bands, GRID)
+  return {
+    frequencies: GRID,
+    gains: sampled.map((db, i) => db - eq[i] + rippleDb * Math.sin(Math.log2(GRID[i]) * 5)),
+  }
+}
+
+// Over-ear: light bass, a 3 kHz hump, a dark top
+const OVER_EAR = measurementFor(HARMAN_OE, [
+  { id: '1', frequency: 90, gain: 4, q: 0.7, type: 'lowshelf' },
+  { id: '2', frequency: 3000, gain: -5, q: 2, type: 'peaking' },
+  { id: '3', frequency: 6500, gain: 3, q: 3, type: 'peaking' },
+  { id: '4', frequency: 9000, gain: 3, q: 0.7, type: 'highshelf' },
+])
+
+// In-ear style resonances against diffuse field, over a gentle ripple
+const RESONANT = measurementFor(DIFFUSE_FIELD, [
+  { id: '1', frequency: 200, gain: -3, q: 1, type: 'peaking' },
+  { id: '2', frequency: 2500, gain: 6, q: 1.5, type: 'peaking' },
+  { id: '3', frequency: 7800, gain: -8, q: 5, type: 'peaking' },
+], 0.4)
+
+// Ids are fresh uuids on every fit
+const withoutIds = (bands: EQBand[]) => bands.map((band) => ({ ...band, id: undefined }))
+
+describe('fitAutoEQ', () => {
+  const pairs = [
+    { name: 'over-ear → Harman OE 2018', measurement: OVER_EAR, target: HARMAN_OE, bound: 0.25 },
+    { name: 'resonant → diffuse field', measurement: RESONANT, target: DIFFUSE_FIELD, bound: 0.5 },
+  ]
+
+  for (const { name, measurement, target, bound } of pairs) {
+    it(`brings ${name} close to the target`, () => {
+      const result = fitAutoEQ(measurement, target)
+
+      expect(result.initialErrorDb).toBeGreaterThan(1.5)
+      expect(result.rmsErrorDb).toBeLessThan(bound)
+      expect(result.rmsErrorDb).toBeLessThan(result.initialErrorDb / 3)
+      expect(result.bands.length).toBeGreaterThan(0)
+      expect(result.bands.length).toBeLessThanOrEqual(DEFAULT_AUTOEQ_OPTIONS.bandCount)
+    })
+  }
+
+  it('gives the same bands on every run', () => {
+    const first = fitAutoEQ(RESONANT, DIFFUSE_FIELD)
+    const second = fitAutoEQ(RESONANT, DIFFUSE_FIELD)
+
+    expect(withoutIds(second.bands)).toEqual(withoutIds(first.bands))
+    expect(second.rmsErrorDb).toBe(first.rmsErrorDb)
+  })
+
+  it('keeps within the boost, cut, Q and band limits', () => {
+    const options: AutoEQOptions = { bandCount: 6, maxBoostDb: 2, maxCutDb: 3, minQ: 0.8, maxQ: 2.5, shelves: false }
+
+    for (const [measurement, target] of [[OVER_EAR, HARMAN_OE], [RESONANT, DIFFUSE_FIELD]]) {
+      const result = fitAutoEQ(measurement, target, options)
+
+      expect(result.bands.length).toBeGreaterThan(0)
+      expect(result.bands.length).toBeLessThanOrEqual(options.bandCount)
+      expect(result.rmsErrorDb).toBeLessThan(result.initialErrorDb)
+      for (const band of result.bands) {
+        expect(band.type).toBe('peaking')
+        expect(band.gain).toBeLessThanOrEqual(options.maxBoostDb)
+        expect(band.gain).toBeGreaterThanOrEqual(-options.maxCutDb)
+        expect(band.q).toBeGreaterThanOrEqual(options.minQ)
+        expect(band.q).toBeLessThanOrEqual(options.maxQ)
+      }
+    }
+  })
+
+  it('uses shelves only when allowed', () => {
+    const shelfTypes = (options: AutoEQOptions) =>
+      fitAutoEQ(OVER_EAR, HARMAN_OE, options).bands.filter((band) => band.type !== 'peaking').map((band) => band.type)
+
+    expect(shelfTypes(DEFAULT_AUTOEQ_OPTIONS).length).toBeGreaterThan(0)
+    expect(shelfTypes({ ...DEFAULT_AUTOEQ_OPTIONS, shelves: false })).toEqual([])
+  })
+})
+
+describe('fitParametricBands', () => {
+  it('honours the gain and Q ranges and is deterministic', () => {
+    const freqs = logFrequencies(20, 20000, 96)
+    const target = combinedMagnitudeAt([
+      { id: '1', frequency: 60, gain: 9, q: 1, type: 'peaking' },
+      { id: '2', frequency: 4000, gain: -10, q: 8, type: 'peaking' },
+    ], freqs)
+    const options = { maxBands: 4, gainRange: { min: -4, max: 3 }, qRange: { min: 0.5, max: 3 } }
+
+    const first = fitParametricBands(freqs, target, options)
+    const second = fitParametricBands(freqs, target, options)
+
+    expect(withoutIds(second.bands)).toEqual(withoutIds(first.bands))
+    expect(first.bands.length).toBeLessThanOrEqual(4)
+    for (const band of first.bands) {
+      expect(band.gain).toBeGreaterThanOrEqual(-4)
+      expect(band.gain).toBeLessThanOrEqual(3)
+      expect(band.q).toBeGreaterThanOrEqual(0.5)
+      expect(band.q).toBeLessThanOrEqual(3)
+    }
+  })
+})
@@ -0,0 +1,80 @@
+import type { EQBand } from '@/lib/models/EQBand'
+import { fitParametricBands } from '../eqImport/fitParametric'
+import { compareCurves, COMPARE_FREQS, type ResponseCurve } from '../frequencyResponse'
+
+export interface AutoEQOptions {
+  bandCount: number
+  maxBoostDb: number
+  maxCutDb: number
+  minQ: number
+  maxQ: number
+  /** Let the first two bands be a low and a high shelf. */
+  shelves: boolean
+}
+
+export const DEFAULT_AUTOEQ_OPTIONS: AutoEQOptions = {
+  bandCount: 10,
+  maxBoostDb: 6,
+  maxCutDb: 12,
+  minQ: 0.4,
+  maxQ: 6,
+  shelves: true,
+}
+
+export interface AutoEQResult {
+  bands: EQBand[]
+  /** Deviation from the target before and after, as in `compareCurves`. */
+  initialErrorDb: number
+  rmsErrorDb: number
+}
+
+/** Message to the AutoEQ worker. */
+export interface AutoEQRequest {
+  id: number
+  measurement: ResponseCurve
+  target: ResponseCurve
+  options: AutoEQOptions
+}
+
+export interface AutoEQResponse {
+  id: number
+  result: AutoEQResult | null
+  error?: string
+}
+
+/**
+ * Measurements scatter above 10 kHz (coupler and fit), so the treble only
+ * counts a little and the top octave not at all.
+ */
+function errorWeight(frequency: number): number {
+  if (frequency <= 10000) return 1
+  if (frequency <= 16000) return 0.2
+  return 0
+}
+
+/**
+ * Fit parametric bands that bring `measurement` onto `target`. Overall
+ * level is left out (volume and auto-gain handle it), so the bands only
+ * shape the curve. Deterministic for the same input.
+ */
+export function fitAutoEQ(measurement: ResponseCurve, target: ResponseCurve, options: AutoEQOptions = DEFAULT_AUTOEQ_OPTIONS): AutoEQResult {
+  const before = compareCurves(measurement, target, [])
+  const correction = before.target!.map((db, i) => db - before.measurement![i])
+
+  const fit = fitParametricBands(COMPARE_FREQS, correction, {
+    maxBands: Math.max(1, Math.round(options.bandCount)),
+    toleranceDb: 0.05,
+    gainRange: { min: -Math.abs(options.maxCutDb), max: Math.abs(options.maxBoostDb) },
+    qRange: { min: options.minQ, max: Math.max(options.minQ, options.maxQ) },
+    shelves: options.shelves,
+    weight: errorWeight,
+  })
+  // A seeded shelf can refine down to nothing
+  const bands = fit.bands.filter((band) => band.gain !== 0)
+
+  return {
+    bands,
+    initialErrorDb: before.rmsErrorDb ?? 0,
+    rmsErrorDb: compareCurves(measurement, target, bands).rmsErrorDb ?? 0,
+  }
+}
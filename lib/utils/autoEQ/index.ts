@@ -0,0 +1,80 @@
+import type { ResponseCurve } from '../frequencyResponse'
+import { fitAutoEQ, type AutoEQOptions, type AutoEQRequest, type AutoEQResponse, type AutoEQResult } from './fitAutoEQ'
+
+export { fitAutoEQ, DEFAULT_AUTOEQ_OPTIONS } from './fitAutoEQ'
+export type { AutoEQOptions, AutoEQResult } from './fitAutoEQ'
+
+interface Pending {
+  request: AutoEQRequest
+  resolve: (result: AutoEQResult) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Runs AutoEQ fits off the main thread, falling back to the main thread
+ * when workers aren't available.
+ */
+export class AutoEQFitter {
+  private worker: Worker | null = null
+  private nextId = 0
+  private pending = new Map<number, Pending>()
+
+  constructor() {
+    if (typeof Worker !== 'undefined') {
+      try {
+        this.worker = new Worker(new URL('./autoEQ.worker.ts', import.meta.url))
+        this.worker.onmessage = (e: MessageEvent<AutoEQResponse>) => this.handleResponse(e.data)
+        this.worker.onerror = (e) => {
+          console.warn('AutoEQ worker failed, fitting on the main thread:', e.message)
+          this.worker?.terminate()
+          this.worker = null
+          // Redo whatever the worker was working on
+          this.pending.forEach((pending) => this.send(pending))
+        }
+      } catch (error) {
+        console.warn('AutoEQ worker unavailable, fitting on the main thread:', error)
+        this.worker = null
+      }
+    }
+  }
+
+  public fit(measurement: ResponseCurve, target: ResponseCurve, options: AutoEQOptions): Promise<AutoEQResult> {
+    return new Promise((resolve, reject) => {
+      const pending = { request: { id: ++this.nextId, measurement, target, options }, resolve, reject }
+      this.pending.set(pending.request.id, pending)
+      this.send(pending)
+    })
+  }
+
+  private send({ request }: Pending): void {
+    if (this.worker) {
+      this.worker.postMessage(request)
+      return
+    }
+    // No worker: compute after yielding so the caller's UI update lands first
+    setTimeout(() => {
+      try {
+        this.handleResponse({ id: request.id, result: fitAutoEQ(request.measurement, request.target, request.options) })
+      } catch (error) {
+        this.handleResponse({ id: request.id, result: null, error: error instanceof Error ? error.message : String(error) })
+      }
+    }, 0)
+  }
+
+  private handleResponse(response: AutoEQResponse): void {
+    const pending = this.pending.get(response.id)
+    if (!pending) return
+    this.pending.delete(response.id)
+
+    if (response.result) pending.resolve(response.result)
+    else pending.reject(new Error(response.error ?? 'AutoEQ fit failed'))
+  }
+}
+
+let autoEQFitter: AutoEQFitter | null = null
+
+// Get or create the shared fitter
+export const getAutoEQFitter = (): AutoEQFitter => {
+  if (!autoEQFitter) autoEQFitter = new AutoEQFitter()
+  return autoEQFitter
+}
@@ -4,6 +4,7 @@
  */
 
 import type { EQBand } from '@/lib/models/EQBand'
+import { getBandStages, type FilterStage } from '@/lib/utils/filterStages'
 
 const SAMPLE_RATE = 48000
 
@@ -12,9 +13,9 @@ interface BiquadCoeffs {
   a0: number; a1: number; a2: number
 }
 
-function peakingCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
+function peakingCoeffs(f0: number, gain: number, Q: number, sampleRate: number): BiquadCoeffs {
   const A = Math.pow(10, gain / 40)
-  const w0 = 2 * Math.PI * f0 / SAMPLE_RATE
+  const w0 = 2 * Math.PI * f0 / sampleRate
   const alpha = Math.sin(w0) / (2 * Q)
   return {
     b0: 1 + alpha * A,
@@ -26,9 +27,9 @@ function peakingCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
   }
 }
 
-function lowShelfCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
+function lowShelfCoeffs(f0: number, gain: number, Q: number, sampleRate: number): BiquadCoeffs {
   const A = Math.pow(10, gain / 40)
-  const w0 = 2 * Math.PI * f0 / SAMPLE_RATE
+  const w0 = 2 * Math.PI * f0 / sampleRate
   const alpha = Math.sin(w0) / (2 * Q)
   const sqrtA2alpha = 2 * Math.sqrt(A) * alpha
   return {
@@ -41,9 +42,9 @@ function lowShelfCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
   }
 }
 
-function highShelfCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
+function highShelfCoeffs(f0: number, gain: number, Q: number, sampleRate: number): BiquadCoeffs {
   const A = Math.pow(10, gain / 40)
-  const w0 = 2 * Math.PI * f0 / SAMPLE_RATE
+  const w0 = 2 * Math.PI * f0 / sampleRate
   const alpha = Math.sin(w0) / (2 * Q)
   const sqrtA2alpha = 2 * Math.sqrt(A) * alpha
   return {
@@ -56,17 +57,90 @@ function highShelfCoeffs(f0: number, gain: number, Q: number): BiquadCoeffs {
   }
 }
 
-function getCoeffs(band: EQBand): BiquadCoeffs {
-  const type = band.type ?? 'peaking'
-  switch (type) {
-    case 'lowshelf': return lowShelfCoeffs(band.frequency, band.gain, band.q)
-    case 'highshelf': return highShelfCoeffs(band.frequency, band.gain, band.q)
-    default: return peakingCoeffs(band.frequency, band.gain, band.q)
+function lowpassCoeffs(f0: number, Q: number, sampleRate: number): BiquadCoeffs {
+  const w0 = 2 * Math.PI * f0 / sampleRate
+  const alpha = Math.sin(w0) / (2 * Q)
+  const cosw0 = Math.cos(w0)
+  return {
+    b0: (1 - cosw0) / 2,
+    b1: 1 - cosw0,
+    b2: (1 - cosw0) / 2,
+    a0: 1 + alpha,
+    a1: -2 * cosw0,
+    a2: 1 - alpha,
+  }
+}
+
+function highpassCoeffs(f0: number, Q: number, sampleRate: number): BiquadCoeffs {
+  const w0 = 2 * Math.PI * f0 / sampleRate
+  const alpha = Math.sin(w0) / (2 * Q)
+  const cosw0 = Math.cos(w0)
+  return {
+    b0: (1 + cosw0) / 2,
+    b1: -(1 + cosw0),
+    b2: (1 + cosw0) / 2,
+    a0: 1 + alpha,
+    a1: -2 * cosw0,
+    a2: 1 - alpha,
+  }
+}
+
+/** Band-pass with constant 0 dB peak gain (the variant Web Audio uses). */
+function bandpassCoeffs(f0: number, Q: number, sampleRate: number): BiquadCoeffs {
+  const w0 = 2 * Math.PI * f0 / sampleRate
+  const alpha = Math.sin(w0) / (2 * Q)
+  return {
+    b0: alpha,
+    b1: 0,
+    b2: -alpha,
+    a0: 1 + alpha,
+    a1: -2 * Math.cos(w0),
+    a2: 1 - alpha,
+  }
+}
+
+function notchCoeffs(f0: number, Q: number, sampleRate: number): BiquadCoeffs {
+  const w0 = 2 * Math.PI * f0 / sampleRate
+  const alpha = Math.sin(w0) / (2 * Q)
+  return {
+    b0: 1,
+    b1: -2 * Math.cos(w0),
+    b2: 1,
+    a0: 1 + alpha,
+    a1: -2 * Math.cos(w0),
+    a2: 1 - alpha,
+  }
+}
+
+function allpassCoeffs(f0: number, Q: number, sampleRate: number): BiquadCoeffs {
+  const w0 = 2 * Math.PI * f0 / sampleRate
+  const alpha = Math.sin(w0) / (2 * Q)
+  return {
+    b0: 1 - alpha,
+    b1: -2 * Math.cos(w0),
+    b2: 1 + alpha,
+    a0: 1 + alpha,
+    a1: -2 * Math.cos(w0),
+    a2: 1 - alpha,
+  }
+}
+
+function getCoeffs(stage: FilterStage, sampleRate: number): BiquadCoeffs {
+  const { frequency, gain, q } = stage
+  switch (stage.type) {
+    case 'lowshelf': return lowShelfCoeffs(frequency, gain, q, sampleRate)
+    case 'highshelf': return highShelfCoeffs(frequency, gain, q, sampleRate)
+    case 'lowpass': return lowpassCoeffs(frequency, q, sampleRate)
+    case 'highpass': return highpassCoeffs(frequency, q, sampleRate)
+    case 'bandpass': return bandpassCoeffs(frequency, q, sampleRate)
+    case 'notch': return notchCoeffs(frequency, q, sampleRate)
+    case 'allpass': return allpassCoeffs(frequency, q, sampleRate)
+    default: return peakingCoeffs(frequency, gain, q, sampleRate)
   }
 }
 
-function magnitudeDb(c: BiquadCoeffs, freq: number): number {
-  const w = 2 * Math.PI * freq / SAMPLE_RATE
+function magnitudeDb(c: BiquadCoeffs, freq: number, sampleRate: number): number {
+  const w = 2 * Math.PI * freq / sampleRate
   const cosw = Math.cos(w)
   const cos2w = Math.cos(2 * w)
   const sinw = Math.sin(w)
@@ -81,19 +155,20 @@ function magnitudeDb(c: BiquadCoeffs, freq: number): number {
   const denMag2 = denReal * denReal + denImag * denImag
 
   if (denMag2 === 0) return 0
-  return 10 * Math.log10(numMag2 / denMag2)
+  // Floor at -120 dB so notch nulls and stopbands stay finite
+  return 10 * Math.log10(Math.max(numMag2 / denMag2, 1e-12))
 }
 
 /**
  * Compute the combined magnitude response of all bands at the given frequencies.
  * Returns an array of gain values in dB, one per frequency.
  */
-export function combinedMagnitudeAt(bands: EQBand[], frequencies: number[]): number[] {
-  const allCoeffs = bands.map(getCoeffs)
+export function combinedMagnitudeAt(bands: EQBand[], frequencies: number[], sampleRate = SAMPLE_RATE): number[] {
+  const allCoeffs = bands.flatMap(getBandStages).map((stage) => getCoeffs(stage, sampleRate))
   return frequencies.map((freq) => {
     let totalDb = 0
     for (const c of allCoeffs) {
-      totalDb += magnitudeDb(c, freq)
+      totalDb += magnitudeDb(c, freq, sampleRate)
     }
     return totalDb
   })
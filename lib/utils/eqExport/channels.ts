@@ -0,0 +1,71 @@
+import type { EQBand, EQBandChannel } from '@/lib/models/EQBand'
+import type { ExportInput } from './types'
+
+/** How per-channel bands are exported to formats that can't store them. */
+export type ChannelExportMode = 'merge' | 'separate'
+
+export const getBandChannel = (band: EQBand): EQBandChannel => band.channel ?? 'both'
+
+const isMidSide = (band: EQBand): boolean => {
+  const ch = getBandChannel(band)
+  return ch === 'mid' || ch === 'side'
+}
+
+/** True when any band applies to only one channel (L/R or mid/side). */
+export function hasChannelBands(bands: EQBand[]): boolean {
+  return bands.some((band) => getBandChannel(band) !== 'both')
+}
+
+/** True when any band applies to the mid or side signal. */
+export function hasMidSideBands(bands: EQBand[]): boolean {
+  return bands.some(isMidSide)
+}
+
+/**
+ * Replace mid/side bands with shared ones at half gain, for formats that can
+ * only filter L and R. Neither fits exactly: a mid band fully affects
+ * centred sounds and leaves hard-panned ones at half.
+ */
+export function mergeMidSideAverage(bands: EQBand[]): EQBand[] {
+  return bands.map((band) => (isMidSide(band) ? { ...band, gain: band.gain / 2, channel: 'both' as const } : band))
+}
+
+/**
+ * The bands that apply to one side: shared bands plus that side's own, with
+ * mid/side bands approximated as in mergeMidSideAverage.
+ */
+export function bandsForChannel(bands: EQBand[], channel: 'left' | 'right'): EQBand[] {
+  return mergeMidSideAverage(bands).filter((band) => {
+    const ch = getBandChannel(band)
+    return ch === 'both' || ch === channel
+  })
+}
+
+/**
+ * Collapse L/R-only and mid/side bands into shared ones that approximate the
+ * average of both sides: a band heard on one side only contributes half its gain.
+ */
+export function mergeChannelsAverage(bands: EQBand[]): EQBand[] {
+  return bands.map((band) =>
+    getBandChannel(band) === 'both'
+      ? band
+      : { ...band, gain: band.gain / 2, channel: 'both' as const }
+  )
+}
+
+/**
+ * Prepare input for a format without per-channel support: one merged input,
+ * or one input per side with " (L)" / " (R)" appended to the name.
+ */
+export function splitInputForChannels(input: ExportInput, mode: ChannelExportMode): ExportInput[] {
+  if (!hasChannelBands(input.bands)) return [input]
+
+  if (mode === 'merge') {
+    return [{ ...input, bands: mergeChannelsAverage(input.bands) }]
+  }
+
+  return [
+    { ...input, profileName: `${input.profileName} (L)`, bands: bandsForChannel(input.bands, 'left') },
+    { ...input, profileName: `${input.profileName} (R)`, bands: bandsForChannel(input.bands, 'right') },
+  ]
+}
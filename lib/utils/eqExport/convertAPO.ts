@@ -1,26 +1,69 @@
 import type { ExportInput, ExportResult } from './types'
+import type { EQBand } from '@/lib/models/EQBand'
+import { getBandChannel, hasChannelBands } from './channels'
+import { expandSlopedBands, usesGain } from '@/lib/utils/filterStages'
 
 const TYPE_MAP: Record<string, string> = {
   peaking: 'PK',
   lowshelf: 'LSC',
   highshelf: 'HSC',
+  lowpass: 'LPQ',
+  highpass: 'HPQ',
+  bandpass: 'BP',
+  notch: 'NO',
+  allpass: 'AP',
+}
+
+/** One APO filter line. Pass/notch filters take no gain. Also used for PowerAmp. */
+export function formatAPOFilter(band: EQBand, index: number): string {
+  const type = TYPE_MAP[band.type ?? 'peaking'] ?? 'PK'
+  const freq = Math.round(band.frequency)
+  const gain = usesGain(band.type) ? ` Gain ${band.gain.toFixed(1)} dB` : ''
+  const q = band.q.toFixed(4)
+  return `Filter ${index}: ON ${type} Fc ${freq} Hz${gain} Q ${q}`
 }
 
 function formatAPO(input: ExportInput): string {
-  const sorted = [...input.bands].sort((a, b) => a.frequency - b.frequency)
+  // APO has no slope setting; steep pass filters become repeated stages
+  const sorted = expandSlopedBands(input.bands).sort((a, b) => a.frequency - b.frequency)
   const lines: string[] = []
 
   if (input.preampDb !== 0) {
     lines.push(`Preamp: ${input.preampDb.toFixed(1)} dB`)
   }
 
-  sorted.forEach((band, i) => {
-    const type = TYPE_MAP[band.type ?? 'peaking'] ?? 'PK'
-    const freq = Math.round(band.frequency)
-    const gain = band.gain.toFixed(1)
-    const q = band.q.toFixed(4)
-    lines.push(`Filter ${i + 1}: ON ${type} Fc ${freq} Hz Gain ${gain} dB Q ${q}`)
-  })
+  if (!hasChannelBands(sorted)) {
+    sorted.forEach((band, i) => lines.push(formatAPOFilter(band, i + 1)))
+    return lines.join('\n')
+  }
+
+  // Per-channel bands go in Channel blocks; numbering runs across blocks
+  let index = 1
+  const blocks: [string, EQBand[]][] = [
+    ['all', sorted.filter((b) => getBandChannel(b) === 'both')],
+    ['L', sorted.filter((b) => getBandChannel(b) === 'left')],
+    ['R', sorted.filter((b) => getBandChannel(b) === 'right')],
+  ]
+  for (const [channel, bands] of blocks) {
+    if (bands.length === 0) continue
+    lines.push(`Channel: ${channel}`)
+    bands.forEach((band) => lines.push(formatAPOFilter(band, index++)))
+  }
+  // Back to every channel, also for anything appended after this config
+  lines.push('Channel: all')
+
+  // Mid/side bands: encode into L (mid) and R (side), filter, decode back
+  const mid = sorted.filter((b) => getBandChannel(b) === 'mid')
+  const side = sorted.filter((b) => getBandChannel(b) === 'side')
+  if (mid.length > 0 || side.length > 0) {
+    lines.push('Copy: L=0.5*L+0.5*R R=0.5*L+-0.5*R')
+    for (const [channel, bands] of [['L', mid], ['R', side]] as const) {
+      if (bands.length === 0) continue
+      lines.push(`Channel: ${channel}`)
+      bands.forEach((band) => lines.push(formatAPOFilter(band, index++)))
+    }
+    lines.push('Channel: all', 'Copy: L=L+R R=L+-1*R')
+  }
 
   return lines.join('\n')
 }
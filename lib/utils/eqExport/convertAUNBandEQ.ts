@@ -1,14 +1,23 @@
 import type { ExportInput, ExportResult } from './types'
 import { qToBandwidth } from './qConversions'
+import { expandSlopedBands, usesGain } from '@/lib/utils/filterStages'
 
+// AUNBandEQ has no all-pass type; those bands only shift phase and are left out
 const TYPE_MAP: Record<string, string> = {
   peaking: 'Parametric',
   lowshelf: 'Low Shelf',
   highshelf: 'High Shelf',
+  lowpass: 'Resonant Low Pass',
+  highpass: 'Resonant High Pass',
+  bandpass: 'Band Pass',
+  notch: 'Band Stop',
 }
 
 export function convertAUNBandEQ(input: ExportInput): ExportResult {
-  const sorted = [...input.bands].sort((a, b) => a.frequency - b.frequency).slice(0, 16)
+  const sorted = expandSlopedBands(input.bands)
+    .filter((band) => TYPE_MAP[band.type ?? 'peaking'])
+    .sort((a, b) => a.frequency - b.frequency)
+    .slice(0, 16)
   const lines: string[] = []
 
   lines.push(`AUNBandEQ Preset: ${input.profileName}`)
@@ -16,12 +25,12 @@ export function convertAUNBandEQ(input: ExportInput): ExportResult {
   lines.push('')
 
   sorted.forEach((band, i) => {
-    const type = TYPE_MAP[band.type ?? 'peaking'] ?? 'Parametric'
+    const type = TYPE_MAP[band.type ?? 'peaking']
     const bw = qToBandwidth(band.q)
     lines.push(`Band ${i + 1}:`)
     lines.push(`  Type: ${type}`)
     lines.push(`  Frequency: ${Math.round(band.frequency)} Hz`)
-    lines.push(`  Gain: ${band.gain.toFixed(1)} dB`)
+    if (usesGain(band.type)) lines.push(`  Gain: ${band.gain.toFixed(1)} dB`)
     lines.push(`  Bandwidth: ${bw.toFixed(4)} octaves`)
     lines.push('')
   })
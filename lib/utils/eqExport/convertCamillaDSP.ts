@@ -0,0 +1,120 @@
+import type { ExportInput, ExportResult } from './types'
+import type { EQBand, EQBandChannel } from '@/lib/models/EQBand'
+import { getBandChannel } from './channels'
+import { DEFAULT_FILTER_SLOPE, hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages'
+
+const TYPE_MAP: Record<string, string> = {
+  peaking: 'Peaking',
+  lowshelf: 'Lowshelf',
+  highshelf: 'Highshelf',
+  lowpass: 'Lowpass',
+  highpass: 'Highpass',
+  bandpass: 'Bandpass',
+  notch: 'Notch',
+  allpass: 'Allpass',
+}
+
+// Steep pass filters use CamillaDSP's Butterworth BiquadCombo instead of a single Biquad
+const BUTTERWORTH_MAP: Record<string, string> = {
+  lowpass: 'ButterworthLowpass',
+  highpass: 'ButterworthHighpass',
+}
+
+function formatBandFilter(band: EQBand): string[] {
+  const slope = normalizeSlope(band.slope)
+  if (hasSlope(band.type) && slope > DEFAULT_FILTER_SLOPE) {
+    return [
+      '    type: BiquadCombo',
+      '    parameters:',
+      `      type: ${BUTTERWORTH_MAP[band.type!]}`,
+      `      freq: ${Math.round(band.frequency)}`,
+      `      order: ${slope / 6}`,
+    ]
+  }
+  return [
+    '    type: Biquad',
+    '    parameters:',
+    `      type: ${TYPE_MAP[band.type ?? 'peaking'] ?? 'Peaking'}`,
+    `      freq: ${Math.round(band.frequency)}`,
+    ...(usesGain(band.type) ? [`      gain: ${band.gain.toFixed(1)}`] : []),
+    `      q: ${band.q.toFixed(4)}`,
+  ]
+}
+
+// Mixer from L/R to mid (0) and side (1), and back. -6.02 dB halves the sum.
+function formatMidSideMixer(name: string, gain: string): string[] {
+  return [
+    `  ${name}:`,
+    '    channels:',
+    '      in: 2',
+    '      out: 2',
+    '    mapping:',
+    '      - dest: 0',
+    '        sources:',
+    `          - { channel: 0, gain: ${gain}, inverted: false }`,
+    `          - { channel: 1, gain: ${gain}, inverted: false }`,
+    '      - dest: 1',
+    '        sources:',
+    `          - { channel: 0, gain: ${gain}, inverted: false }`,
+    `          - { channel: 1, gain: ${gain}, inverted: true }`,
+  ]
+}
+
+/**
+ * CamillaDSP v2 config fragment: a Gain filter for the preamp plus one
+ * Biquad per band, with mixers to and from mid/side when bands need them.
+ */
+export function convertCamillaDSP(input: ExportInput): ExportResult {
+  const sorted = [...input.bands].sort((a, b) => a.frequency - b.frequency)
+  const names: Record<EQBandChannel, string[]> = { both: [], left: [], right: [], mid: [], side: [] }
+  const lines: string[] = ['filters:']
+
+  if (input.preampDb !== 0) {
+    names.both.push('preamp')
+    lines.push(
+      '  preamp:',
+      '    type: Gain',
+      '    parameters:',
+      `      gain: ${input.preampDb.toFixed(1)}`,
+    )
+  }
+
+  sorted.forEach((band, i) => {
+    const name = `peq_${i + 1}`
+    names[getBandChannel(band)].push(name)
+    lines.push(`  ${name}:`, ...formatBandFilter(band))
+  })
+
+  const midSide = names.mid.length > 0 || names.side.length > 0
+  if (midSide) {
+    lines.push('', 'mixers:', ...formatMidSideMixer('to_mid_side', '-6.02'), ...formatMidSideMixer('from_mid_side', '0'))
+  }
+
+  // v2 filter steps take a single `channel`: one step each for 0 (left) and
+  // 1 (right), then mid and side between the mixers
+  const pushFilterStep = (channel: number, stepNames: string[]) => {
+    if (stepNames.length === 0) return
+    lines.push(
+      '  - type: Filter',
+      `    channel: ${channel}`,
+      '    names:',
+      ...stepNames.map((name) => `      - ${name}`),
+    )
+  }
+
+  lines.push('', 'pipeline:')
+  pushFilterStep(0, [...names.both, ...names.left])
+  pushFilterStep(1, [...names.both, ...names.right])
+  if (midSide) {
+    lines.push('  - type: Mixer', '    name: to_mid_side')
+    pushFilterStep(0, names.mid)
+    pushFilterStep(1, names.side)
+    lines.push('  - type: Mixer', '    name: from_mid_side')
+  }
+
+  return {
+    content: lines.join('\n'),
+    fileName: `${input.profileName} - CamillaDSP.yml`,
+    mimeType: 'application/yaml',
+  }
+}
@@ -1,7 +1,9 @@
 import type { ExportInput, ExportResult } from './types'
+import { expandSlopedBands } from '@/lib/utils/filterStages'
 
 export function convertEQMac(input: ExportInput): ExportResult {
-  const sorted = [...input.bands].sort((a, b) => a.frequency - b.frequency)
+  // eqMac has no slope setting; steep pass filters become repeated stages
+  const sorted = expandSlopedBands(input.bands).sort((a, b) => a.frequency - b.frequency)
 
   const data = {
     name: input.profileName,
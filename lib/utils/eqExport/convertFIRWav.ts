@@ -0,0 +1,42 @@
+import type { ExportInput, ExportResult } from './types'
+import { renderImpulseResponse, type FIRPhase } from './firMath'
+import { encodeWav } from '../wavEncoder'
+import { bandsForChannel, hasChannelBands } from './channels'
+
+const DEFAULT_SAMPLE_RATE = 48000
+
+/** Impulse length scales with the rate so low-frequency resolution stays ~3 Hz. */
+function tapsFor(sampleRate: number): number {
+  return sampleRate > 48000 ? 32768 : 16384
+}
+
+function convertFIR(input: ExportInput, phase: FIRPhase): ExportResult {
+  const sampleRate = input.sampleRate ?? DEFAULT_SAMPLE_RATE
+  const taps = tapsFor(sampleRate)
+  // Stereo file: render each side separately when bands differ per channel
+  const left = renderImpulseResponse(bandsForChannel(input.bands, 'left'), input.preampDb, sampleRate, taps, phase)
+  const right = hasChannelBands(input.bands)
+    ? renderImpulseResponse(bandsForChannel(input.bands, 'right'), input.preampDb, sampleRate, taps, phase)
+    : left
+  const rateLabel = `${sampleRate / 1000}kHz`
+  const phaseLabel = phase === 'minimum' ? 'Minimum Phase' : 'Linear Phase'
+
+  return {
+    content: [
+      `${phaseLabel} FIR impulse response`,
+      `${taps} taps, ${sampleRate} Hz, stereo, 32-bit float WAV`,
+      phase === 'linear' ? `Latency: ${Math.round((taps / 2 / sampleRate) * 1000)} ms` : 'Latency: none',
+    ].join('\n'),
+    fileName: `${input.profileName} - FIR ${phaseLabel} ${rateLabel}.wav`,
+    mimeType: 'audio/wav',
+    data: encodeWav([left, right], sampleRate, 'float32'),
+  }
+}
+
+export function convertFIRMinimumPhase(input: ExportInput): ExportResult {
+  return convertFIR(input, 'minimum')
+}
+
+export function convertFIRLinearPhase(input: ExportInput): ExportResult {
+  return convertFIR(input, 'linear')
+}
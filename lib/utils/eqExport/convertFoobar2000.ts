@@ -0,0 +1,46 @@
+import type { ExportInput, ExportResult } from './types'
+import { combinedMagnitudeAt } from './biquadMath'
+import { convertFIRMinimumPhase } from './convertFIRWav'
+
+// foobar2000's built-in 18-band graphic equalizer centre frequencies
+const FOOBAR_FREQS = [55, 77, 110, 156, 220, 311, 440, 622, 880, 1200, 1800, 2500, 3500, 5000, 7000, 10000, 14000, 20000]
+const FOOBAR_MAX_GAIN = 20
+
+/**
+ * foobar2000 Convolver preset: a minimum-phase impulse WAV for the Convolver
+ * DSP, with the preamp baked in. `content` lists the settings to use with it.
+ */
+export function convertFoobar2000Convolver(input: ExportInput): ExportResult {
+  const fir = convertFIRMinimumPhase(input)
+  const rateLabel = `${(input.sampleRate ?? 48000) / 1000}kHz`
+  const fileName = `${input.profileName} - foobar2000 Convolver ${rateLabel}.wav`
+
+  return {
+    ...fir,
+    content: [
+      fir.content,
+      '',
+      `Impulse: ${fileName}`,
+      'Level adjust: 0 dB (the preamp is in the impulse)',
+      'Auto level adjust: off',
+    ].join('\n'),
+    fileName,
+  }
+}
+
+/**
+ * Approximate preset for foobar2000's built-in Equalizer (`.feq`): one
+ * whole-dB gain per line, sampled from the combined curve at its 18 fixed
+ * bands. Narrow bands and filters between them are lost.
+ */
+export function convertFoobar2000(input: ExportInput): ExportResult {
+  const gains = combinedMagnitudeAt(input.bands, FOOBAR_FREQS).map((g) =>
+    Math.max(-FOOBAR_MAX_GAIN, Math.min(FOOBAR_MAX_GAIN, Math.round(g + input.preampDb)))
+  )
+
+  return {
+    content: gains.join('\n'),
+    fileName: `${input.profileName} - foobar2000 (approximate).feq`,
+    mimeType: 'text/plain',
+  }
+}
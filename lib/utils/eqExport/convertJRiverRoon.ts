@@ -0,0 +1,55 @@
+import type { ExportInput, ExportResult } from './types'
+import type { EQBandChannel } from '@/lib/models/EQBand'
+import { getBandChannel, mergeMidSideAverage } from './channels'
+import { DEFAULT_FILTER_SLOPE, hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages'
+
+// Mid/side bands are merged before labelling
+const CHANNEL_LABEL: Record<EQBandChannel, string> = {
+  both: '',
+  left: '  [Left only]',
+  right: '  [Right only]',
+  mid: '',
+  side: '',
+}
+
+const TYPE_MAP: Record<string, string> = {
+  peaking: 'Peak',
+  lowshelf: 'Low Shelf',
+  highshelf: 'High Shelf',
+  lowpass: 'Low Pass',
+  highpass: 'High Pass',
+  bandpass: 'Band Pass',
+  notch: 'Notch',
+  allpass: 'All Pass',
+}
+
+/**
+ * Parametric settings laid out for manual entry in JRiver's Parametric
+ * Equalizer and Roon's Parametric EQ, which don't import preset files.
+ */
+export function convertJRiverRoon(input: ExportInput): ExportResult {
+  // Neither player has per-band mid/side; those bands become shared approximations
+  const sorted = mergeMidSideAverage(input.bands).sort((a, b) => a.frequency - b.frequency)
+  const lines: string[] = [`${input.profileName}`, '']
+
+  lines.push(`Preamp / Headroom: ${input.preampDb.toFixed(1)} dB`, '')
+
+  sorted.forEach((band, i) => {
+    const type = TYPE_MAP[band.type ?? 'peaking'] ?? 'Peak'
+    // Both players offer slope presets for pass filters; gain only applies to bells and shelves
+    const slope = normalizeSlope(band.slope)
+    const shape = hasSlope(band.type)
+      ? (slope === DEFAULT_FILTER_SLOPE ? `${slope} dB/oct  Q ${band.q.toFixed(2)}` : `${slope} dB/oct Butterworth`)
+      : usesGain(band.type)
+        ? `${band.gain >= 0 ? '+' : ''}${band.gain.toFixed(1)} dB  Q ${band.q.toFixed(2)}`
+        : `Q ${band.q.toFixed(2)}`
+    const channel = CHANNEL_LABEL[getBandChannel(band)]
+    lines.push(`Band ${i + 1}: ${type}  ${Math.round(band.frequency)} Hz  ${shape}${channel}`)
+  })
+
+  return {
+    content: lines.join('\n'),
+    fileName: `${input.profileName} - JRiver-Roon.txt`,
+    mimeType: 'text/plain',
+  }
+}
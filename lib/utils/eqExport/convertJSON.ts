@@ -1,4 +1,5 @@
 import type { ExportInput, ExportResult } from './types'
+import { hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages'
 
 export function convertJSON(input: ExportInput): ExportResult {
   const sorted = [...input.bands].sort((a, b) => a.frequency - b.frequency)
@@ -11,6 +12,9 @@ export function convertJSON(input: ExportInput): ExportResult {
       gain: band.gain,
       q: band.q,
       type: band.type ?? 'peaking',
+      ...(hasSlope(band.type) ? { slope: normalizeSlope(band.slope) } : {}),
+      ...(band.channel && band.channel !== 'both' ? { channel: band.channel } : {}),
+      ...(band.dynamics && usesGain(band.type) ? { dynamics: { ...band.dynamics } } : {}),
     })),
   }
 
@@ -0,0 +1,64 @@
+import type { ExportInput, ExportResult } from './types'
+import type { EQBand } from '@/lib/models/EQBand'
+
+// Rockbox has a fixed layout: low shelf, 8 peaking filters, high shelf
+const PEAK_SLOTS = 8
+const DEFAULT_LOW_SHELF = 60
+const DEFAULT_HIGH_SHELF = 10000
+const ROCKBOX_TYPES = new Set<BiquadFilterType>(['peaking', 'lowshelf', 'highshelf'])
+
+/** Rockbox stores Q and gain in tenths. */
+function formatFilter(frequency: number, q: number, gain: number): string {
+  return `${Math.round(frequency)}, ${Math.round(q * 10)}, ${Math.round(gain * 10)}`
+}
+
+/**
+ * Rockbox `.cfg` EQ settings. Only the lowest low shelf, the highest high
+ * shelf and the 8 strongest peaking bands fit; the rest are counted in comments.
+ */
+export function convertRockbox(input: ExportInput): ExportResult {
+  const shelvesLow = input.bands.filter((b) => b.type === 'lowshelf')
+  const shelvesHigh = input.bands.filter((b) => b.type === 'highshelf')
+  const peaks = input.bands.filter((b) => (b.type ?? 'peaking') === 'peaking')
+
+  const lowShelf = shelvesLow.sort((a, b) => a.frequency - b.frequency)[0]
+  const highShelf = shelvesHigh.sort((a, b) => b.frequency - a.frequency)[0]
+  const keptPeaks = [...peaks]
+    .sort((a, b) => Math.abs(b.gain) - Math.abs(a.gain))
+    .slice(0, PEAK_SLOTS)
+    .sort((a, b) => a.frequency - b.frequency)
+
+  const kept = new Set<EQBand>([...keptPeaks, ...(lowShelf ? [lowShelf] : []), ...(highShelf ? [highShelf] : [])])
+  const unsupported = input.bands.filter((b) => !ROCKBOX_TYPES.has(b.type ?? 'peaking'))
+  const dropped = input.bands.filter((b) => !kept.has(b) && ROCKBOX_TYPES.has(b.type ?? 'peaking'))
+
+  const lines: string[] = [`# ${input.profileName}`]
+  if (dropped.length > 0) {
+    lines.push(`# ${dropped.length} band(s) did not fit Rockbox's 10-band layout and were left out`)
+  }
+  if (unsupported.length > 0) {
+    lines.push(`# ${unsupported.length} pass/notch band(s) have no Rockbox equivalent and were left out`)
+  }
+
+  lines.push('eq enabled: on')
+  // Precut is a positive attenuation; Rockbox can't boost
+  lines.push(`eq precut: ${Math.round(Math.max(0, -input.preampDb) * 10)}`)
+  lines.push(`eq low shelf filter: ${lowShelf ? formatFilter(lowShelf.frequency, lowShelf.q, lowShelf.gain) : formatFilter(DEFAULT_LOW_SHELF, 0.7, 0)}`)
+
+  for (let i = 0; i < PEAK_SLOTS; i++) {
+    const band = keptPeaks[i]
+    // Unused slots are spread out with zero gain
+    const value = band
+      ? formatFilter(band.frequency, band.q, band.gain)
+      : formatFilter(125 * Math.pow(2, i), 1, 0)
+    lines.push(`eq peak filter ${i + 1}: ${value}`)
+  }
+
+  lines.push(`eq high shelf filter: ${highShelf ? formatFilter(highShelf.frequency, highShelf.q, highShelf.gain) : formatFilter(DEFAULT_HIGH_SHELF, 0.7, 0)}`)
+
+  return {
+    content: lines.join('\n'),
+    fileName: `${input.profileName} - Rockbox.cfg`,
+    mimeType: 'text/plain',
+  }
+}
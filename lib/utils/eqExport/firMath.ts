@@ -0,0 +1,148 @@
+/**
+ * FIR impulse-response synthesis from a magnitude response: linear phase
+ * (symmetric, delayed by half the length) and minimum phase (cepstral method).
+ */
+
+import type { EQBand } from '@/lib/models/EQBand'
+import { combinedMagnitudeAt } from './biquadMath'
+
+export type FIRPhase = 'minimum' | 'linear'
+
+/** In-place iterative radix-2 FFT. `inverse` also scales by 1/N. */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size
+    const wRe = Math.cos(angle)
+    const wIm = Math.sin(angle)
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1
+      let curIm = 0
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k
+        const b = a + size / 2
+        const tRe = re[b] * curRe - im[b] * curIm
+        const tIm = re[b] * curIm + im[b] * curRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextRe = curRe * wRe - curIm * wIm
+        curIm = curRe * wIm + curIm * wRe
+        curRe = nextRe
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n
+      im[i] /= n
+    }
+  }
+}
+
+/** Linear magnitude of the bands (plus preamp) on an N-point FFT grid, 0..N-1. */
+export function magnitudeSpectrum(bands: EQBand[], preampDb: number, n: number, sampleRate: number): Float64Array {
+  const half = n / 2
+  const freqs: number[] = []
+  for (let k = 0; k <= half; k++) {
+    // DC has no meaningful log-frequency response; reuse the first bin
+    freqs.push(Math.max(k, 1) * sampleRate / n)
+  }
+  const db = combinedMagnitudeAt(bands, freqs, sampleRate)
+
+  const mag = new Float64Array(n)
+  for (let k = 0; k <= half; k++) {
+    mag[k] = Math.pow(10, (db[k] + preampDb) / 20)
+    if (k > 0 && k < half) mag[n - k] = mag[k]
+  }
+  return mag
+}
+
+/**
+ * Linear-phase kernel for a real (zero-phase) response on an N-point FFT
+ * grid. The response may go negative, e.g. a difference of two magnitudes.
+ */
+export function linearPhase(mag: Float64Array, taps: number): Float32Array {
+  const n = mag.length
+  const re = Float64Array.from(mag)
+  const im = new Float64Array(n)
+  fft(re, im, true)
+
+  // Zero-phase response is centred on sample 0 — rotate it to the middle and window
+  const out = new Float32Array(taps)
+  const centre = Math.floor(taps / 2)
+  for (let i = 0; i < taps; i++) {
+    const src = (i - centre + n) % n
+    const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * (i + 0.5) / taps)
+    out[i] = re[src] * window
+  }
+  return out
+}
+
+function minimumPhase(mag: Float64Array, taps: number): Float32Array {
+  const n = mag.length
+  const floor = 1e-9
+
+  // Real cepstrum of the log magnitude
+  const re = new Float64Array(n)
+  const im = new Float64Array(n)
+  for (let k = 0; k < n; k++) re[k] = Math.log(Math.max(mag[k], floor))
+  fft(re, im, true)
+
+  // Fold the anti-causal part onto the causal part
+  for (let i = 1; i < n / 2; i++) {
+    re[i] *= 2
+    re[n - i] = 0
+    im[i] *= 2
+    im[n - i] = 0
+  }
+
+  // Back to a (complex) log spectrum, exponentiate, and invert
+  fft(re, im)
+  for (let k = 0; k < n; k++) {
+    const amplitude = Math.exp(re[k])
+    const phase = im[k]
+    re[k] = amplitude * Math.cos(phase)
+    im[k] = amplitude * Math.sin(phase)
+  }
+  fft(re, im, true)
+
+  // Fade out the last eighth so truncation doesn't click
+  const out = new Float32Array(taps)
+  const fadeStart = Math.floor(taps * 7 / 8)
+  for (let i = 0; i < taps; i++) {
+    const fade = i < fadeStart ? 1 : 0.5 + 0.5 * Math.cos(Math.PI * (i - fadeStart) / (taps - fadeStart))
+    out[i] = re[i] * fade
+  }
+  return out
+}
+
+/**
+ * Render the bands as an FIR impulse response of `taps` samples.
+ * Minimum phase uses a 4× oversized FFT to keep cepstral aliasing down.
+ */
+export function renderImpulseResponse(
+  bands: EQBand[],
+  preampDb: number,
+  sampleRate: number,
+  taps: number,
+  phase: FIRPhase,
+): Float32Array {
+  const fftSize = phase === 'minimum' ? taps * 4 : taps
+  const mag = magnitudeSpectrum(bands, preampDb, fftSize, sampleRate)
+  return phase === 'minimum' ? minimumPhase(mag, taps) : linearPhase(mag, taps)
+}
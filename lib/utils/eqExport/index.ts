@@ -4,8 +4,15 @@ import { convertEQMac } from './convertEQMac'
 import { convertWavelet } from './convertWavelet'
 import { convertPowerAmp } from './convertPowerAmp'
 import { convertJSON } from './convertJSON'
+import { convertCamillaDSP } from './convertCamillaDSP'
+import { convertRockbox } from './convertRockbox'
+import { convertFoobar2000, convertFoobar2000Convolver } from './convertFoobar2000'
+import { convertJRiverRoon } from './convertJRiverRoon'
+import { convertFIRMinimumPhase, convertFIRLinearPhase } from './convertFIRWav'
 
 export type { ExportFormatId, ExportFormatMeta, ExportInput, ExportResult, ExportConverter } from './types'
+export type { ChannelExportMode } from './channels'
+export { hasChannelBands, hasMidSideBands, bandsForChannel, mergeChannelsAverage, mergeMidSideAverage, splitInputForChannels } from './channels'
 
 export interface FormatEntry {
   meta: ExportFormatMeta
@@ -32,6 +39,8 @@ export const FORMAT_REGISTRY: FormatEntry[] = [
       fileExtension: '.txt',
       description: 'Parametric EQ config for Equalizer APO',
       instructions: 'Place this file in your Equalizer APO config folder (usually C:\\Program Files\\EqualizerAPO\\config), or paste the contents into the Configuration Editor.',
+      supportsChannels: true,
+      supportsMidSide: true,
     },
     convert: convertAPO,
   },
@@ -43,9 +52,35 @@ export const FORMAT_REGISTRY: FormatEntry[] = [
       fileExtension: '.txt',
       description: 'Peace GUI preset (Equalizer APO frontend)',
       instructions: 'Open Peace → click Import → select this file. Peace uses the same format as Equalizer APO.',
+      supportsChannels: true,
+      supportsMidSide: true,
     },
     convert: convertPeaceEQ,
   },
+  {
+    meta: {
+      id: 'foobar2000-convolver',
+      name: 'foobar2000 Convolver',
+      platform: 'Windows',
+      fileExtension: '.wav',
+      description: 'Impulse response preset for the foobar2000 Convolver DSP',
+      instructions: 'Add Convolver to the active DSPs (Preferences → Playback → DSP Manager), open its settings → Browse → select this WAV. Set Level adjust to 0 dB and turn Auto level adjust off; the preamp is already in the impulse.',
+      supportsChannels: true,
+      rendered: true,
+    },
+    convert: convertFoobar2000Convolver,
+  },
+  {
+    meta: {
+      id: 'foobar2000',
+      name: 'foobar2000 Equalizer (approximate)',
+      platform: 'Windows',
+      fileExtension: '.feq',
+      description: 'Approximation on the 18 fixed bands of the built-in foobar2000 Equalizer',
+      instructions: 'Add Equalizer to the active DSPs (Preferences → Playback → DSP Manager), open its settings → Load → select this file. Gains are rounded to whole dB at fixed bands, so use the Convolver preset for an exact curve.',
+    },
+    convert: convertFoobar2000,
+  },
   {
     meta: {
       id: 'wavelet',
@@ -76,14 +111,78 @@ export const FORMAT_REGISTRY: FormatEntry[] = [
       fileExtension: '.json',
       description: 'Portable JSON export of the EQ profile',
       instructions: 'Use this file with any app or script that accepts JSON EQ data.',
+      supportsChannels: true,
+      supportsMidSide: true,
     },
     convert: convertJSON,
   },
+  {
+    meta: {
+      id: 'camilladsp',
+      name: 'CamillaDSP',
+      platform: 'Cross-platform',
+      fileExtension: '.yml',
+      description: 'Filters and pipeline for a CamillaDSP v2 config',
+      instructions: 'Merge the filters, mixers and pipeline sections into your CamillaDSP config, after your devices and mixers.',
+      supportsChannels: true,
+      supportsMidSide: true,
+    },
+    convert: convertCamillaDSP,
+  },
+  {
+    meta: {
+      id: 'jriver-roon',
+      name: 'JRiver / Roon',
+      platform: 'Cross-platform',
+      fileExtension: '.txt',
+      description: 'Parametric settings for JRiver and Roon',
+      instructions: 'JRiver: DSP Studio → Parametric Equalizer → add one filter per band. Roon: DSP Engine → Parametric EQ → add one band per line. Set the preamp/headroom first.',
+      supportsChannels: true,
+    },
+    convert: convertJRiverRoon,
+  },
+  {
+    meta: {
+      id: 'rockbox',
+      name: 'Rockbox',
+      platform: 'Portable players',
+      fileExtension: '.cfg',
+      description: '10-band EQ settings for Rockbox firmware',
+      instructions: 'Copy this file to the .rockbox/eqs folder on your player → Settings → Sound Settings → Equalizer → Browse EQ Presets.',
+    },
+    convert: convertRockbox,
+  },
+  {
+    meta: {
+      id: 'fir-minimum-phase',
+      name: 'FIR (Minimum Phase)',
+      platform: 'Convolution',
+      fileExtension: '.wav',
+      description: 'Impulse response WAV with no added latency',
+      instructions: 'Load this WAV in any convolution engine (Equalizer APO Convolution, foobar2000 Convolver, JRiver, Roon, CamillaDSP Conv). Match its sample rate to your playback rate.',
+      supportsChannels: true,
+      rendered: true,
+    },
+    convert: convertFIRMinimumPhase,
+  },
+  {
+    meta: {
+      id: 'fir-linear-phase',
+      name: 'FIR (Linear Phase)',
+      platform: 'Convolution',
+      fileExtension: '.wav',
+      description: 'Impulse response WAV with no phase shift (adds latency)',
+      instructions: 'Load this WAV in a convolution engine. Linear phase keeps timing intact but delays the output by half the filter length; match its sample rate to your playback rate.',
+      supportsChannels: true,
+      rendered: true,
+    },
+    convert: convertFIRLinearPhase,
+  },
 ]
 
 /** Get formats grouped by platform, in display order. */
 export function getFormatsByPlatform(): { platform: string; formats: FormatEntry[] }[] {
-  const platformOrder = ['macOS', 'Windows', 'Android', 'Cross-platform']
+  const platformOrder = ['macOS', 'Windows', 'Android', 'Portable players', 'Cross-platform', 'Convolution']
   const groups = new Map<string, FormatEntry[]>()
 
   for (const entry of FORMAT_REGISTRY) {
@@ -2,3 +2,9 @@
 export function qToBandwidth(q: number): number {
   return (2 / Math.LN2) * Math.asinh(1 / (2 * q))
 }
+
+/** Convert bandwidth in octaves to Q factor. */
+export function bandwidthToQ(bandwidth: number): number {
+  const p = Math.pow(2, bandwidth)
+  return Math.sqrt(p) / (p - 1)
+}
@@ -7,6 +7,13 @@ export type ExportFormatId =
   | 'poweramp'
   | 'eqmac'
   | 'json'
+  | 'camilladsp'
+  | 'rockbox'
+  | 'foobar2000-convolver'
+  | 'foobar2000'
+  | 'jriver-roon'
+  | 'fir-minimum-phase'
+  | 'fir-linear-phase'
 
 export interface ExportFormatMeta {
   id: ExportFormatId
@@ -15,18 +22,29 @@ export interface ExportFormatMeta {
   fileExtension: string
   description: string
   instructions: string
+  /** Stores left/right-only bands natively; other formats need merging or splitting. */
+  supportsChannels?: boolean
+  /** Stores mid/side bands natively; elsewhere they're approximated as shared bands. */
+  supportsMidSide?: boolean
+  /** Renders a binary file (`data`) at `sampleRate`; too slow to convert up front. */
+  rendered?: boolean
 }
 
 export interface ExportInput {
   profileName: string
   bands: EQBand[]
   preampDb: number
+  /** Sample rate for rendered outputs (FIR WAV). Defaults to 48 kHz. */
+  sampleRate?: number
 }
 
 export interface ExportResult {
+  /** Text to preview/copy; for binary formats a short description of the file. */
   content: string
   fileName: string
   mimeType: string
+  /** Binary payload, downloaded instead of `content` when present. */
+  data?: ArrayBuffer
 }
 
 export type ExportConverter = (input: ExportInput) => ExportResult
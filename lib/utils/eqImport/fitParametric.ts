@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { EQBand } from '@/lib/models/EQBand'
+import { combinedMagnitudeAt, logFrequencies } from '../eqExport/biquadMath'
+import { bandwidthToQ } from '../eqExport/qConversions'
+
+export interface FitOptions {
+  maxBands?: number
+  /** Stop adding bands once the RMS error (dB) is below this. */
+  toleranceDb?: number
+  /** Allowed band gain, dB. Defaults to ±24. */
+  gainRange?: { min: number; max: number }
+  /** Allowed band Q. Defaults to 0.2–12. */
+  qRange?: { min: number; max: number }
+  /** Try a low and a high shelf before the bells. */
+  shelves?: boolean
+  /** How much the error at each frequency counts. Defaults to 1 everywhere. */
+  weight?: (frequency: number) => number
+}
+
+export interface FitResult {
+  bands: EQBand[]
+  preampDb: number
+  rmsErrorDb: number
+}
+
+// Grid the target is resampled onto before fitting
+const FIT_FREQS = logFrequencies(20, 20000, 128)
+const LOG_FIT_FREQS = FIT_FREQS.map((f) => Math.log2(f))
+
+const MIN_FREQ = 20
+const MAX_FREQ = 20000
+const MAX_GAIN = 24
+const MIN_Q = 0.2
+const MAX_Q = 12
+// Shelves overshoot above this
+const MAX_SHELF_Q = 1
+const REFINE_ROUNDS = 40
+
+// Where shelves start, before refinement moves them
+const SHELF_SEEDS: { type: BiquadFilterType; frequency: number }[] = [
+  { type: 'lowshelf', frequency: 105 },
+  { type: 'highshelf', frequency: 8000 },
+]
+
+interface Param {
+  get: () => number
+  set: (v: number) => void
+  step: number
+}
+
+/** Linear interpolation of a curve in log-frequency, clamped at the ends. */
+export function interpolateCurve(freqs: number[], gains: number[], at: number[]): number[] {
+  const points = freqs
+    .map((f, i) => ({ x: Math.log2(f), y: gains[i] }))
+    .filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y))
+    .sort((a, b) => a.x - b.x)
+  if (points.length === 0) return at.map(() => 0)
+
+  return at.map((f) => {
+    const x = Math.log2(f)
+    if (x <= points[0].x) return points[0].y
+    if (x >= points[points.length - 1].x) return points[points.length - 1].y
+    let i = 1
+    while (points[i].x < x) i++
+    const a = points[i - 1]
+    const b = points[i]
+    return a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y)
+  })
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const clampValue = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v))
+
+/**
+ * Fit peaking bands plus a preamp to a target magnitude curve.
+ * Optionally seeds a low and a high shelf, then greedily places a band on
+ * the largest (weighted) residual and refines every parameter with
+ * coordinate descent. Deterministic: the same input gives the same bands.
+ */
+export function fitParametricBands(freqs: number[], targetDb: number[], options: FitOptions = {}): FitResult {
+  const maxBands = options.maxBands ?? 10
+  const toleranceDb = options.toleranceDb ?? 0.2
+  const gainRange = options.gainRange ?? { min: -MAX_GAIN, max: MAX_GAIN }
+  const qRange = options.qRange ?? { min: MIN_Q, max: MAX_Q }
+  const target = interpolateCurve(freqs, targetDb, FIT_FREQS)
+  const weights = FIT_FREQS.map((f) => options.weight?.(f) ?? 1)
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+
+  const clampGain = (gain: number) => clampValue(gain, gainRange.min, gainRange.max)
+  const clampQ = (band: EQBand, q: number) =>
+    clampValue(q, qRange.min, band.type === 'peaking' ? qRange.max : Math.min(qRange.max, MAX_SHELF_Q))
+
+  const bands: EQBand[] = []
+  const responses: number[][] = []
+  let preampDb = median(target)
+
+  const residual = (): number[] =>
+    target.map((t, i) => t - preampDb - responses.reduce((sum, r) => sum + r[i], 0))
+
+  const rms = (): number => {
+    const r = residual()
+    return Math.sqrt(r.reduce((sum, v, i) => sum + weights[i] * v * v, 0) / totalWeight)
+  }
+
+  const refresh = (index: number) => {
+    responses[index] = combinedMagnitudeAt([bands[index]], FIT_FREQS)
+  }
+
+  const refine = () => {
+    const params: Param[] = [{ get: () => preampDb, set: (v) => { preampDb = clampValue(v, -MAX_GAIN, MAX_GAIN) }, step: 0.5 }]
+    bands.forEach((band, i) => {
+      params.push(
+        {
+          get: () => Math.log2(band.frequency),
+          set: (v) => { band.frequency = clampValue(Math.pow(2, v), MIN_FREQ, MAX_FREQ); refresh(i) },
+          step: 1 / 6,
+        },
+        { get: () => band.gain, set: (v) => { band.gain = clampGain(v); refresh(i) }, step: 0.5 },
+        {
+          get: () => Math.log2(band.q),
+          set: (v) => { band.q = clampQ(band, Math.pow(2, v)); refresh(i) },
+          step: 0.25,
+        },
+      )
+    })
+
+    let error = rms()
+    for (let round = 0; round < REFINE_ROUNDS; round++) {
+      let improved = false
+      for (const param of params) {
+        const start = param.get()
+        let accepted = false
+        for (const delta of [param.step, -param.step]) {
+          param.set(start + delta)
+          const next = rms()
+          if (next < error - 1e-6) {
+            error = next
+            accepted = true
+            break
+          }
+          param.set(start)
+        }
+        if (accepted) improved = true
+        else param.step /= 2
+      }
+      if (!improved && params.every((p) => p.step < 1e-3)) break
+    }
+    return error
+  }
+
+  // Add a band and refine; keep it only if the error drops
+  const tryBand = (band: EQBand, error: number): number | null => {
+    bands.push(band)
+    refresh(bands.length - 1)
+    const next = refine()
+    if (next < error - 1e-3) return next
+    bands.pop()
+    responses.pop()
+    return null
+  }
+
+  let error = rms()
+  if (options.shelves) {
+    for (const seed of SHELF_SEEDS) {
+      if (bands.length >= maxBands || error <= toleranceDb) break
+      // Start at the average residual on the shelf's side
+      const r = residual()
+      let sum = 0
+      let weight = 0
+      FIT_FREQS.forEach((f, i) => {
+        if (seed.type === 'lowshelf' ? f < seed.frequency : f > seed.frequency) {
+          sum += weights[i] * r[i]
+          weight += weights[i]
+        }
+      })
+      const band: EQBand = { id: uuidv4(), ...seed, gain: 0, q: 0.7 }
+      band.gain = clampGain(weight > 0 ? sum / weight : 0)
+      band.q = clampQ(band, band.q)
+      error = tryBand(band, error) ?? error
+    }
+  }
+
+  while (bands.length < maxBands && error > toleranceDb) {
+    const r = residual()
+    let peak = 0
+    for (let i = 1; i < r.length; i++) {
+      if (weights[i] * Math.abs(r[i]) > weights[peak] * Math.abs(r[peak])) peak = i
+    }
+
+    // Estimate Q from where the residual falls to half its peak
+    const half = r[peak] / 2
+    let lo = peak
+    let hi = peak
+    while (lo > 0 && Math.sign(r[lo - 1]) === Math.sign(half) && Math.abs(r[lo - 1]) > Math.abs(half)) lo--
+    while (hi < r.length - 1 && Math.sign(r[hi + 1]) === Math.sign(half) && Math.abs(r[hi + 1]) > Math.abs(half)) hi++
+    const octaves = Math.max(LOG_FIT_FREQS[hi] - LOG_FIT_FREQS[lo], 1 / 6)
+
+    const band: EQBand = { id: uuidv4(), frequency: FIT_FREQS[peak], gain: clampGain(r[peak]), q: 1, type: 'peaking' }
+    band.q = clampQ(band, bandwidthToQ(octaves))
+
+    const next = tryBand(band, error)
+    // The extra band didn't help — stop
+    if (next === null) break
+    error = next
+  }
+
+  return {
+    bands: bands
+      .map((band) => ({
+        ...band,
+        frequency: Math.round(band.frequency),
+        gain: Math.round(band.gain * 100) / 100,
+        q: Math.round(band.q * 1000) / 1000,
+      }))
+      .sort((a, b) => a.frequency - b.frequency),
+    preampDb: Math.round(preampDb * 100) / 100,
+    rmsErrorDb: error,
+  }
+}
@@ -0,0 +1,70 @@
+import type { ImportFormatId, ImportParser, ImportResult } from './types'
+import { EQImportError } from './types'
+import { parseAPO } from './parseAPO'
+import { parseEQMac, parseJSON } from './parseJSON'
+import { parseGraphicEQ } from './parseGraphicEQ'
+
+export type { ImportFormatId, ImportParser, ImportResult } from './types'
+export { EQImportError } from './types'
+export { fitParametricBands, interpolateCurve } from './fitParametric'
+export type { FitOptions, FitResult } from './fitParametric'
+
+/** One parser per importable format, plus AutoEQ's ParametricEQ.txt. */
+export const PARSER_REGISTRY: Record<ImportFormatId, ImportParser> = {
+  'equalizer-apo': parseAPO,
+  'peace-eq': parseAPO,
+  'poweramp': parseAPO,
+  'autoeq-parametric': parseAPO,
+  'wavelet': parseGraphicEQ,
+  'eqmac': parseEQMac,
+  'json': parseJSON,
+}
+
+/** Guess the format of a preset from its contents (and file name, for AutoEQ). */
+export function detectFormat(content: string, fileName?: string): ImportFormatId | null {
+  const trimmed = content.trim()
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const data = JSON.parse(trimmed)
+      return data && typeof data === 'object' && 'global' in data ? 'eqmac' : 'json'
+    } catch {
+      return null
+    }
+  }
+
+  if (/^\s*GraphicEQ\s*:/im.test(trimmed)) return 'wavelet'
+
+  if (/^\s*(Filter\s*\d*|Preamp)\s*:/im.test(trimmed)) {
+    return fileName && /ParametricEQ\.txt$/i.test(fileName) ? 'autoeq-parametric' : 'equalizer-apo'
+  }
+
+  return null
+}
+
+/** Strip the suffixes our exporters add, e.g. "Name - EqualizerAPO.txt" → "Name". */
+function nameFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/\s+-\s+(EqualizerAPO|PeaceEQ|Wavelet|PowerAmp|EQMac)$/i, '')
+    .replace(/\s+ParametricEQ$/i, '')
+    .trim()
+}
+
+/**
+ * Parse an EQ preset into bands and a preamp. Detects the format unless one
+ * is given; throws `EQImportError` when the content can't be read.
+ */
+export function importEQ(content: string, options: { fileName?: string; formatId?: ImportFormatId } = {}): ImportResult {
+  const formatId = options.formatId ?? detectFormat(content, options.fileName)
+  if (!formatId) {
+    throw new EQImportError('Unrecognized EQ preset format')
+  }
+
+  const parsed = PARSER_REGISTRY[formatId](content)
+  return {
+    ...parsed,
+    formatId,
+    profileName: parsed.profileName ?? (options.fileName ? nameFromFileName(options.fileName) : undefined),
+  }
+}
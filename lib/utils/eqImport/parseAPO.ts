@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { EQBand, EQBandChannel } from '@/lib/models/EQBand'
+import type { ImportParser } from './types'
+import { EQImportError } from './types'
+import { bandwidthToQ } from '../eqExport/qConversions'
+import { collapseSlopedBands } from '../filterStages'
+
+// Equalizer APO filter codes (also used by Peace, PowerAmp and AutoEQ)
+const TYPE_MAP: Record<string, BiquadFilterType> = {
+  PK: 'peaking',
+  PEQ: 'peaking',
+  MODAL: 'peaking',
+  LS: 'lowshelf',
+  LSC: 'lowshelf',
+  HS: 'highshelf',
+  HSC: 'highshelf',
+  LP: 'lowpass',
+  LPQ: 'lowpass',
+  HP: 'highpass',
+  HPQ: 'highpass',
+  BP: 'bandpass',
+  NO: 'notch',
+  AP: 'allpass',
+}
+
+// Shelves without an explicit slope/Q default to a Butterworth-ish Q
+const DEFAULT_Q = 0.7071
+
+const NUMBER = '([-+]?\\d*\\.?\\d+(?:[eE][-+]?\\d+)?)'
+const PREAMP_RE = new RegExp(`^\\s*Preamp\\s*:\\s*${NUMBER}\\s*dB`, 'i')
+const FILTER_RE = /^\s*Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\b(.*)$/i
+const CHANNEL_RE = /^\s*Channel\s*:\s*(.*)$/i
+const FC_RE = new RegExp(`\\bFc\\s+${NUMBER}\\s*(k?Hz)?`, 'i')
+const GAIN_RE = new RegExp(`\\bGain\\s+${NUMBER}\\s*dB`, 'i')
+const Q_RE = new RegExp(`\\bQ\\s+${NUMBER}`, 'i')
+const BW_RE = new RegExp(`\\bBW\\s+Oct\\s+${NUMBER}`, 'i')
+// The mid/side encode and decode written by our APO export
+const MID_SIDE_ENCODE_RE = /^\s*Copy\s*:\s*L=0\.5\*L\+0\.5\*R\s+R=0\.5\*L\+-0\.5\*R\s*$/i
+const MID_SIDE_DECODE_RE = /^\s*Copy\s*:\s*L=L\+R\s+R=L\+-1\*R\s*$/i
+
+/**
+ * Map an APO `Channel:` selection to a band channel. Only plain L, R and
+ * all/both are representable; anything else (surround, C, …) is skipped.
+ */
+function parseChannel(selection: string): EQBandChannel | null {
+  const channels = selection.trim().toUpperCase().split(/\s+/)
+  if (channels.includes('ALL') || (channels.includes('L') && channels.includes('R') && channels.length === 2)) return 'both'
+  if (channels.length === 1 && channels[0] === 'L') return 'left'
+  if (channels.length === 1 && channels[0] === 'R') return 'right'
+  return null
+}
+
+/** What a selected L or R channel carries while mid/side encoded (or not). */
+function toMidSide(channel: EQBandChannel, midSide: boolean): EQBandChannel {
+  if (midSide) return channel === 'left' ? 'mid' : channel === 'right' ? 'side' : channel
+  return channel === 'mid' ? 'left' : channel === 'side' ? 'right' : channel
+}
+
+/** Parse an Equalizer APO / AutoEQ parametric config into bands and preamp. */
+export const parseAPO: ImportParser = (content) => {
+  const bands: EQBand[] = []
+  let preampDb = 0
+  let channel: EQBandChannel | null = 'both'
+  // Between a mid/side encode and decode, L carries mid and R side
+  let midSide = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '')
+
+    if (MID_SIDE_ENCODE_RE.test(line) || MID_SIDE_DECODE_RE.test(line)) {
+      midSide = MID_SIDE_ENCODE_RE.test(line)
+      channel = channel && toMidSide(channel, midSide)
+      continue
+    }
+
+    const channelMatch = CHANNEL_RE.exec(line)
+    if (channelMatch) {
+      const selected = parseChannel(channelMatch[1])
+      channel = selected && toMidSide(selected, midSide)
+      continue
+    }
+
+    const preamp = PREAMP_RE.exec(line)
+    if (preamp) {
+      // APO sums multiple Preamp lines
+      preampDb += parseFloat(preamp[1])
+      continue
+    }
+
+    const filter = FILTER_RE.exec(line)
+    if (!filter || filter[1].toUpperCase() !== 'ON' || !channel) continue
+
+    const type = TYPE_MAP[filter[2].toUpperCase()]
+    const fc = FC_RE.exec(filter[3])
+    if (!type || !fc) continue
+
+    const frequency = parseFloat(fc[1]) * (fc[2]?.toLowerCase() === 'khz' ? 1000 : 1)
+    const gain = GAIN_RE.exec(filter[3])
+    const q = Q_RE.exec(filter[3])
+    const bw = BW_RE.exec(filter[3])
+
+    bands.push({
+      id: uuidv4(),
+      frequency,
+      gain: gain ? parseFloat(gain[1]) : 0,
+      q: q ? parseFloat(q[1]) : bw ? bandwidthToQ(parseFloat(bw[1])) : DEFAULT_Q,
+      type,
+      ...(channel !== 'both' ? { channel } : {}),
+    })
+  }
+
+  if (bands.length === 0 && preampDb === 0) {
+    throw new EQImportError('No Equalizer APO filters found')
+  }
+
+  // Steep pass filters are written as repeated Butterworth stages
+  return { bands: collapseSlopedBands(bands), preampDb }
+}
@@ -0,0 +1,30 @@
+import type { ImportParser } from './types'
+import { EQImportError } from './types'
+import { fitParametricBands } from './fitParametric'
+
+const GRAPHIC_EQ_RE = /GraphicEQ\s*:\s*([^\r\n]*)/i
+
+/** Parse a `GraphicEQ: f g; f g; …` curve and fit parametric bands to it. */
+export const parseGraphicEQ: ImportParser = (content) => {
+  const match = GRAPHIC_EQ_RE.exec(content)
+  if (!match) {
+    throw new EQImportError('No GraphicEQ line found')
+  }
+
+  const freqs: number[] = []
+  const gains: number[] = []
+  for (const pair of match[1].split(';')) {
+    const [f, g] = pair.trim().split(/\s+/).map(Number)
+    if (Number.isFinite(f) && f > 0 && Number.isFinite(g)) {
+      freqs.push(f)
+      gains.push(g)
+    }
+  }
+
+  if (freqs.length < 2) {
+    throw new EQImportError('GraphicEQ curve needs at least two points')
+  }
+
+  const { bands, preampDb } = fitParametricBands(freqs, gains)
+  return { bands, preampDb }
+}
@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { EQBand, EQBandChannel, EQBandDynamics } from '@/lib/models/EQBand'
+import type { ImportParser } from './types'
+import { EQImportError } from './types'
+import { collapseSlopedBands, hasSlope, normalizeSlope, usesGain } from '@/lib/utils/filterStages'
+
+const FILTER_TYPES: BiquadFilterType[] = [
+  'peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass', 'bandpass', 'notch', 'allpass',
+]
+
+// 'both' is the default and isn't written out
+const CHANNELS: EQBandChannel[] = ['left', 'right', 'mid', 'side']
+
+interface JSONBand {
+  frequency?: unknown
+  gain?: unknown
+  q?: unknown
+  type?: unknown
+  slope?: unknown
+  channel?: unknown
+  dynamics?: unknown
+}
+
+const DYNAMICS_FIELDS: (keyof EQBandDynamics)[] = ['threshold', 'ratio', 'range', 'attack', 'release']
+
+/** A band's dynamic section, if every setting is present and a finite number. */
+function parseDynamics(raw: unknown): EQBandDynamics | null {
+  if (!raw || typeof raw !== 'object') return null
+  const fields = raw as Record<string, unknown>
+  if (!DYNAMICS_FIELDS.every((field) => typeof fields[field] === 'number' && Number.isFinite(fields[field]))) {
+    return null
+  }
+  return {
+    threshold: fields.threshold as number,
+    ratio: Math.max(1, fields.ratio as number),
+    range: Math.max(0, fields.range as number),
+    attack: Math.max(0, fields.attack as number),
+    release: Math.max(0, fields.release as number),
+  }
+}
+
+function parseJSONObject(content: string): Record<string, unknown> {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new EQImportError('File is not valid JSON')
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new EQImportError('Expected a JSON object')
+  }
+  return data as Record<string, unknown>
+}
+
+function toBands(raw: unknown): EQBand[] {
+  if (!Array.isArray(raw)) {
+    throw new EQImportError('Preset has no "bands" array')
+  }
+
+  const bands = (raw as JSONBand[])
+    .filter((b) => typeof b?.frequency === 'number' && b.frequency > 0)
+    .map((b) => {
+      const type = FILTER_TYPES.includes(b.type as BiquadFilterType) ? (b.type as BiquadFilterType) : 'peaking'
+      const dynamics = usesGain(type) ? parseDynamics(b.dynamics) : null
+      return {
+        id: uuidv4(),
+        frequency: b.frequency as number,
+        gain: typeof b.gain === 'number' ? b.gain : 0,
+        q: typeof b.q === 'number' && b.q > 0 ? b.q : 1,
+        type,
+        ...(hasSlope(type) && typeof b.slope === 'number' ? { slope: normalizeSlope(b.slope) } : {}),
+        ...(typeof b.channel === 'string' && CHANNELS.includes(b.channel as EQBandChannel)
+          ? { channel: b.channel as EQBandChannel }
+          : {}),
+        ...(dynamics ? { dynamics } : {}),
+      }
+    })
+  // eqMac exports write steep pass filters as repeated stages
+  return collapseSlopedBands(bands)
+}
+
+/** Parse the portable JSON export (`{ name, preamp, bands }`). */
+export const parseJSON: ImportParser = (content) => {
+  const data = parseJSONObject(content)
+  return {
+    profileName: typeof data.name === 'string' ? data.name : undefined,
+    bands: toBands(data.bands),
+    preampDb: typeof data.preamp === 'number' ? data.preamp : 0,
+  }
+}
+
+/** Parse an eqMac preset (`{ name, global: { gain }, bands }`). */
+export const parseEQMac: ImportParser = (content) => {
+  const data = parseJSONObject(content)
+  const global = data.global as { gain?: unknown } | undefined
+  return {
+    profileName: typeof data.name === 'string' ? data.name : undefined,
+    bands: toBands(data.bands),
+    preampDb: typeof global?.gain === 'number' ? global.gain : 0,
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import type { EQBand } from '@/lib/models/EQBand'
+import { convertAPO, convertPeaceEQ } from '../eqExport/convertAPO'
+import { convertPowerAmp } from '../eqExport/convertPowerAmp'
+import { convertEQMac } from '../eqExport/convertEQMac'
+import { convertJSON } from '../eqExport/convertJSON'
+import { convertWavelet } from '../eqExport/convertWavelet'
+import { combinedMagnitudeAt, logFrequencies } from '../eqExport/biquadMath'
+import type { ExportConverter, ExportInput } from '../eqExport/types'
+import { hasSlope, normalizeSlope, usesGain } from '../filterStages'
+import { importEQ } from './index'
+import type { ImportFormatId } from './types'
+
+// Values the text formats keep exactly: whole Hz, 0.1 dB, 4-decimal Q
+const SHARED_BANDS: EQBand[] = [
+  { id: 'ls', frequency: 105, gain: 4.5, q: 0.7, type: 'lowshelf' },
+  { id: 'pk1', frequency: 1000, gain: -3.2, q: 1.41, type: 'peaking' },
+  { id: 'pk2', frequency: 3150, gain: 2.5, q: 4, type: 'peaking' },
+  { id: 'hs', frequency: 9000, gain: -2, q: 0.8, type: 'highshelf' },
+  { id: 'no', frequency: 6000, gain: 0, q: 8, type: 'notch' },
+]
+
+// Steeper than 12 dB/oct: written as Butterworth stages, collapsed on import
+const SLOPED_BANDS: EQBand[] = [
+  { id: 'hp', frequency: 30, gain: 0, q: Math.SQRT1_2, type: 'highpass', slope: 24 },
+  { id: 'lp', frequency: 16000, gain: 0, q: Math.SQRT1_2, type: 'lowpass', slope: 48 },
+  { id: 'lp12', frequency: 18000, gain: 0, q: 0.9, type: 'lowpass', slope: 12 },
+]
+
+const CHANNEL_BANDS: EQBand[] = [
+  { id: 'l', frequency: 250, gain: 1.5, q: 2, type: 'peaking', channel: 'left' },
+  { id: 'r', frequency: 250, gain: -1.5, q: 2, type: 'peaking', channel: 'right' },
+  { id: 'm', frequency: 2000, gain: 2, q: 1, type: 'peaking', channel: 'mid' },
+  { id: 's', frequency: 8000, gain: -2.5, q: 0.7, type: 'highshelf', channel: 'side' },
+]
+
+const input = (bands: EQBand[], preampDb = -6.5): ExportInput => ({ profileName: 'Round trip', bands, preampDb })
+
+// What a band should look like after any lossless trip
+const describeBand = (band: EQBand) => ({
+  channel: band.channel ?? 'both',
+  type: band.type ?? 'peaking',
+  frequency: band.frequency,
+  gain: usesGain(band.type) ? band.gain : 0,
+  slope: hasSlope(band.type) ? normalizeSlope(band.slope) : undefined,
+  // Steep pass filters come back as plain Butterworth sections
+  q: hasSlope(band.type) && normalizeSlope(band.slope) > 12 ? Math.SQRT1_2 : band.q,
+})
+
+const byPosition = (a: ReturnType<typeof describeBand>, b: ReturnType<typeof describeBand>) =>
+  a.channel.localeCompare(b.channel) || a.frequency - b.frequency || a.type.localeCompare(b.type)
+
+function expectSameBands(actual: EQBand[], expected: EQBand[]) {
+  const got = actual.map(describeBand).sort(byPosition)
+  const want = expected.map(describeBand).sort(byPosition)
+  expect(got).toHaveLength(want.length)
+  got.forEach((band, i) => {
+    expect(band.channel).toBe(want[i].channel)
+    expect(band.type).toBe(want[i].type)
+    expect(band.slope).toBe(want[i].slope)
+    expect(band.frequency).toBeCloseTo(want[i].frequency, 6)
+    expect(band.gain).toBeCloseTo(want[i].gain, 6)
+    expect(band.q).toBeCloseTo(want[i].q, 3)
+  })
+}
+
+function roundTrip(convert: ExportConverter, exported: ExportInput, formatId?: ImportFormatId) {
+  const { content, fileName } = convert(exported)
+  return importEQ(content, { fileName, formatId })
+}
+
+describe('parametric round trips', () => {
+  const cases: { name: string; convert: ExportConverter; formatId: ImportFormatId; channels: boolean }[] = [
+    { name: 'Equalizer APO', convert: convertAPO, formatId: 'equalizer-apo', channels: true },
+    { name: 'Peace EQ', convert: convertPeaceEQ, formatId: 'equalizer-apo', channels: true },
+    { name: 'PowerAmp', convert: convertPowerAmp, formatId: 'equalizer-apo', channels: false },
+    { name: 'eqMac', convert: convertEQMac, formatId: 'eqmac', channels: false },
+    { name: 'JSON', convert: convertJSON, formatId: 'json', channels: true },
+  ]
+
+  for (const { name, convert, formatId, channels } of cases) {
+    describe(name, () => {
+      it('keeps frequency, gain, Q, type and preamp', () => {
+        const result = roundTrip(convert, input(SHARED_BANDS))
+        expect(result.formatId).toBe(formatId)
+        expect(result.preampDb).toBeCloseTo(-6.5, 6)
+        expectSameBands(result.bands, SHARED_BANDS)
+      })
+
+      it('collapses sloped pass filters back into one band', () => {
+        const result = roundTrip(convert, input(SLOPED_BANDS, 0))
+        expect(result.preampDb).toBe(0)
+        expectSameBands(result.bands, SLOPED_BANDS)
+      })
+
+      if (channels) {
+        it('keeps L/R/M/S channel bands', () => {
+          const bands = [...SHARED_BANDS, ...CHANNEL_BANDS, ...SLOPED_BANDS]
+          const result = roundTrip(convert, input(bands))
+          expectSameBands(result.bands, bands)
+        })
+      }
+    })
+  }
+
+  it('detects the format from the exported file', () => {
+    expect(roundTrip(convertAPO, input(SHARED_BANDS)).formatId).toBe('equalizer-apo')
+    expect(roundTrip(convertEQMac, input(SHARED_BANDS)).formatId).toBe('eqmac')
+    expect(roundTrip(convertJSON, input(SHARED_BANDS)).formatId).toBe('json')
+    expect(roundTrip(convertWavelet, input(SHARED_BANDS)).formatId).toBe('wavelet')
+  })
+
+  it('takes the profile name from the file name', () => {
+    expect(roundTrip(convertAPO, input(SHARED_BANDS)).profileName).toBe('Round trip')
+    expect(roundTrip(convertJSON, input(SHARED_BANDS)).profileName).toBe('Round trip')
+  })
+})
+
+describe('Wavelet round trip', () => {
+  // GraphicEQ stores the curve, so bands are refitted: compare responses
+  const freqs = logFrequencies(20, 20000, 64)
+  const response = (bands: EQBand[], preampDb: number) =>
+    combinedMagnitudeAt(bands, freqs).map((db) => db + preampDb)
+
+  it('keeps the combined curve and preamp', () => {
+    const bands = SHARED_BANDS.filter((band) => usesGain(band.type))
+    const result = roundTrip(convertWavelet, input(bands))
+    const want = response(bands, -6.5)
+    const got = response(result.bands, result.preampDb)
+    const rms = Math.sqrt(got.reduce((sum, db, i) => sum + (db - want[i]) ** 2, 0) / freqs.length)
+    expect(rms).toBeLessThan(0.5)
+  })
+})
@@ -0,0 +1,23 @@
+import type { EQBand } from '@/lib/models/EQBand'
+import type { ExportFormatId } from '../eqExport/types'
+
+/** Text export formats that can be read back, plus AutoEQ's ParametricEQ.txt. */
+export type ImportFormatId =
+  | Extract<ExportFormatId, 'equalizer-apo' | 'peace-eq' | 'wavelet' | 'poweramp' | 'eqmac' | 'json'>
+  | 'autoeq-parametric'
+
+export interface ImportResult {
+  formatId: ImportFormatId
+  profileName?: string
+  bands: EQBand[]
+  preampDb: number
+}
+
+export type ImportParser = (content: string) => Omit<ImportResult, 'formatId'>
+
+export class EQImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EQImportError'
+  }
+}
@@ -0,0 +1,23 @@
+import { EQProfile } from '../models/EQProfile';
+
+/**
+ * Combine a stack of profiles into one: every layer's bands (ids prefixed with
+ * their profile's so they stay unique) and the summed volume. Filters in a
+ * chain commute, so the order of the layers doesn't change the result. A
+ * single profile is returned as is.
+ */
+export function flattenProfiles(profiles: EQProfile[]): EQProfile | null {
+  if (profiles.length === 0) return null;
+  if (profiles.length === 1) return profiles[0];
+
+  return {
+    id: profiles.map((profile) => profile.id).join('+'),
+    name: profiles.map((profile) => profile.name).join(' + '),
+    bands: profiles.flatMap((profile) =>
+      (profile.bands ?? []).map((band) => ({ ...band, id: `${profile.id}/${band.id}` })),
+    ),
+    volume: profiles.reduce((sum, profile) => sum + (profile.volume ?? 0), 0),
+    lastModified: Math.max(...profiles.map((profile) => profile.lastModified)),
+    syncStatus: 'synced',
+  };
+}
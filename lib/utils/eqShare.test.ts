@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import type { EQBand } from '@/lib/models/EQBand'
+import { buildShareUrl, decodeSharedProfile, encodeSharedProfile, EQShareError, SHARE_PARAM, type SharedProfile } from './eqShare'
+
+const BANDS: EQBand[] = [
+  { id: 'a', frequency: 31.5, gain: 5.25, q: 0.71, type: 'lowshelf' },
+  { id: 'b', frequency: 1000, gain: -3.5, q: 1.41, type: 'peaking' },
+  { id: 'c', frequency: 12500, gain: -12.75, q: 0.5, type: 'highshelf', channel: 'side' },
+  { id: 'd', frequency: 250, gain: 2, q: 4.3, channel: 'left' },
+  { id: 'e', frequency: 260, gain: -2, q: 4.3, channel: 'right' },
+  { id: 'f', frequency: 3000, gain: 1.5, q: 2, type: 'peaking', channel: 'mid' },
+  { id: 'g', frequency: 20, gain: 0, q: 0.7071, type: 'highpass', slope: 36 },
+  { id: 'h', frequency: 19000, gain: 0, q: 0.9, type: 'lowpass', slope: 12 },
+  { id: 'i', frequency: 6000, gain: 0, q: 30, type: 'notch' },
+  { id: 'j', frequency: 800, gain: 0, q: 0.05, type: 'allpass' },
+  { id: 'k', frequency: 5000, gain: 0, q: 2, type: 'bandpass' },
+]
+
+const PROFILE: SharedProfile = { name: 'Studio — Flat', bands: BANDS, volume: -4.5 }
+
+// The code is base64url; these let tests tamper with the raw bytes
+function toBytes(code: string): Uint8Array {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), (c) => c.charCodeAt(0))
+}
+
+function toCode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** CRC-16/CCITT-FALSE, bit by bit, independent of the table in eqShare. */
+function crc16(data: Uint8Array): number {
+  let crc = 0xffff
+  for (const byte of data) {
+    crc ^= byte << 8
+    for (let k = 0; k < 8; k++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+  }
+  return crc
+}
+
+/** Rewrite the trailing checksum so an edited payload passes the CRC check. */
+function withChecksum(bytes: Uint8Array): Uint8Array {
+  const out = bytes.slice()
+  new DataView(out.buffer).setUint16(out.length - 2, crc16(out.subarray(0, out.length - 2)))
+  return out
+}
+
+function expectShareError(code: string, message: RegExp) {
+  expect(() => decodeSharedProfile(code)).toThrow(EQShareError)
+  expect(() => decodeSharedProfile(code)).toThrow(message)
+}
+
+describe('encodeSharedProfile / decodeSharedProfile', () => {
+  it('keeps frequency, gain, Q, type, slope and channel within the encoding precision', () => {
+    const decoded = decodeSharedProfile(encodeSharedProfile(PROFILE))
+
+    expect(decoded.name).toBe(PROFILE.name)
+    expect(decoded.volume).toBe(-4.5)
+    expect(decoded.bands).toHaveLength(BANDS.length)
+    decoded.bands.forEach((band, i) => {
+      const want = BANDS[i]
+      // 16-bit log codes: one step is under 0.016% of the value
+      expect(Math.abs(band.frequency / want.frequency - 1)).toBeLessThan(1e-4)
+      expect(Math.abs(band.q / want.q - 1)).toBeLessThan(1e-4)
+      expect(band.gain).toBe(want.gain)
+      expect(band.type).toBe(want.type ?? 'peaking')
+      expect(band.channel).toBe(want.channel)
+      expect(band.slope).toBe(want.slope)
+      expect(band.id).not.toBe(want.id)
+    })
+  })
+
+  it('rounds gain and volume to centi-dB and clamps out-of-range values', () => {
+    const decoded = decodeSharedProfile(encodeSharedProfile({
+      name: 'Edges',
+      volume: 400,
+      bands: [
+        { id: 'a', frequency: 0.5, gain: 1.234, q: 0.001, type: 'peaking' },
+        { id: 'b', frequency: 96000, gain: -500, q: 500, type: 'peaking' },
+      ],
+    }))
+
+    expect(decoded.volume).toBe(327)
+    expect(decoded.bands[0]).toMatchObject({ frequency: 1, gain: 1.23, q: 0.01 })
+    expect(decoded.bands[1]).toMatchObject({ frequency: 24000, gain: -327, q: 100 })
+  })
+
+  it('produces URL-safe output that decodes identically when re-encoded', () => {
+    const code = encodeSharedProfile(PROFILE)
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(encodeSharedProfile(decodeSharedProfile(code))).toBe(code)
+  })
+
+  it('handles a profile with no bands and an empty name', () => {
+    const decoded = decodeSharedProfile(encodeSharedProfile({ name: '', bands: [], volume: 0 }))
+    expect(decoded).toEqual({ name: '', bands: [], volume: 0 })
+  })
+
+  it('keeps up to 255 bands and drops the rest', () => {
+    const many = (count: number): EQBand[] => Array.from({ length: count }, (_, i) => ({
+      id: `b${i}`, frequency: 20 + i * 50, gain: (i % 24) - 12, q: 1, type: 'peaking' as const,
+    }))
+
+    const full = decodeSharedProfile(encodeSharedProfile({ name: 'Full', bands: many(255), volume: 0 }))
+    expect(full.bands).toHaveLength(255)
+    expect(full.bands[254].gain).toBe((254 % 24) - 12)
+
+    const over = decodeSharedProfile(encodeSharedProfile({ name: 'Over', bands: many(300), volume: 0 }))
+    expect(over.bands).toHaveLength(255)
+    expect(Math.abs(over.bands[254].frequency / (20 + 254 * 50) - 1)).toBeLessThan(1e-4)
+  })
+
+  it('trims long names to 64 bytes without splitting a character', () => {
+    const decoded = decodeSharedProfile(encodeSharedProfile({ name: 'é'.repeat(40), bands: [], volume: 0 }))
+    expect(decoded.name).toBe('é'.repeat(32))
+  })
+})
+
+describe('decodeSharedProfile errors', () => {
+  const code = encodeSharedProfile(PROFILE)
+
+  it('rejects a checksum mismatch', () => {
+    const bytes = toBytes(code)
+    bytes[5] ^= 0x01
+    expectShareError(toCode(bytes), /checksum/)
+
+    const crc = toBytes(code)
+    crc[crc.length - 1] ^= 0x80
+    expectShareError(toCode(crc), /checksum/)
+  })
+
+  it('rejects every truncation of a valid code', () => {
+    for (let length = 0; length < code.length; length++) {
+      expect(() => decodeSharedProfile(code.slice(0, length)), `length ${length}`).toThrow(EQShareError)
+    }
+  })
+
+  it('rejects a band count that disagrees with the payload, even with a valid checksum', () => {
+    const bytes = toBytes(code)
+    const nameLength = bytes[3]
+    bytes[4 + nameLength] += 1
+    expectShareError(toCode(withChecksum(bytes)), /incomplete/)
+  })
+
+  it('rejects an unknown version byte', () => {
+    const bytes = toBytes(code)
+    bytes[0] = 2
+    expectShareError(toCode(withChecksum(bytes)), /newer version.*v2/)
+  })
+
+  it('rejects an unknown channel', () => {
+    const bytes = toBytes(encodeSharedProfile({ name: '', bands: [BANDS[1]], volume: 0 }))
+    bytes[5] = (bytes[5] & 0x07) | (7 << 3)
+    expectShareError(toCode(withChecksum(bytes)), /unknown channel/)
+  })
+
+  it('rejects characters outside base64url', () => {
+    for (const bad of [code.slice(0, 8) + '+' + code.slice(8), code.slice(0, 8) + '/' + code.slice(8), code + '=', 'ab cd', 'ab.cd', 'é']) {
+      expectShareError(bad, /invalid characters/)
+    }
+  })
+
+  it('accepts surrounding whitespace', () => {
+    expect(decodeSharedProfile(`  ${code}\n`).name).toBe(PROFILE.name)
+  })
+})
+
+describe('buildShareUrl', () => {
+  it('puts the code in the share parameter', () => {
+    const url = new URL(buildShareUrl(PROFILE, 'https://example.com'))
+    expect(url.origin).toBe('https://example.com')
+    expect(decodeSharedProfile(url.searchParams.get(SHARE_PARAM)!).name).toBe(PROFILE.name)
+  })
+})
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { EQBand, EQBandChannel } from '@/lib/models/EQBand'
+import { FILTER_SLOPES, hasSlope, normalizeSlope } from '@/lib/utils/filterStages'
+
+/**
+ * Compact, URL-safe encoding of an EQ profile for share links (`/?eq=…`).
+ *
+ * Version 1 layout (big-endian), base64url-encoded without padding:
+ *
+ *   u8   version (1)
+ *   i16  volume, centi-dB
+ *   u8   name length in bytes, then the UTF-8 name
+ *   u8   band count, then per band:
+ *          u8   type (bits 0–2) | channel (bits 3–5) | slope index (bits 6–7)
+ *          u16  frequency, log scale over FREQ_RANGE
+ *          i16  gain, centi-dB
+ *          u16  Q, log scale over Q_RANGE
+ *   u16  CRC-16/CCITT of everything before it
+ *
+ * Dynamic band settings aren't carried; shared bands play static.
+ */
+
+export const SHARE_PARAM = 'eq'
+const SHARE_VERSION = 1
+
+// Index order is part of the format: only ever append
+const FILTER_TYPES: BiquadFilterType[] = [
+  'peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass', 'bandpass', 'notch', 'allpass',
+]
+const CHANNELS: EQBandChannel[] = ['both', 'left', 'right', 'mid', 'side']
+
+const FREQ_RANGE = { min: 1, max: 24000 }
+const Q_RANGE = { min: 0.01, max: 100 }
+const MAX_NAME_BYTES = 64
+const MAX_BANDS = 255
+const BAND_BYTES = 7
+
+/** A profile as carried by a share link. */
+export interface SharedProfile {
+  name: string
+  bands: EQBand[]
+  volume: number
+}
+
+export class EQShareError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EQShareError'
+  }
+}
+
+const CRC16_TABLE = new Uint16Array(256)
+for (let i = 0; i < 256; i++) {
+  let c = i << 8
+  for (let k = 0; k < 8; k++) c = c & 0x8000 ? (c << 1) ^ 0x1021 : c << 1
+  CRC16_TABLE[i] = c & 0xffff
+}
+
+/** CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF). */
+function crc16(data: Uint8Array): number {
+  let crc = 0xffff
+  for (const byte of data) crc = ((crc << 8) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff]) & 0xffff
+  return crc
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Map a value on a log scale over `range` to 0–65535, and back. */
+function toLogU16(value: number, range: { min: number; max: number }): number {
+  const t = Math.log(clamp(value, range.min, range.max) / range.min) / Math.log(range.max / range.min)
+  return Math.round(t * 0xffff)
+}
+
+function fromLogU16(code: number, range: { min: number; max: number }): number {
+  return range.min * Math.pow(range.max / range.min, code / 0xffff)
+}
+
+const toCentiDb = (db: number) => Math.round(clamp(db, -327, 327) * 100)
+
+/** Round to the precision the encoding keeps, so values read back tidily. */
+const tidy = (value: number, digits: number) => Number(value.toPrecision(digits))
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+    throw new EQShareError('The share link contains invalid characters')
+  }
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/** Trim a name to at most `max` UTF-8 bytes without splitting a character. */
+function encodeName(name: string, max: number): Uint8Array {
+  const encoder = new TextEncoder()
+  let bytes = encoder.encode(name)
+  let chars = Array.from(name)
+  while (bytes.length > max) {
+    chars = chars.slice(0, -1)
+    bytes = encoder.encode(chars.join(''))
+  }
+  return bytes
+}
+
+/** Encode a profile into a URL-safe string. Bands past the 255th are dropped. */
+export function encodeSharedProfile(profile: SharedProfile): string {
+  const name = encodeName(profile.name.trim(), MAX_NAME_BYTES)
+  const bands = profile.bands.slice(0, MAX_BANDS)
+
+  const bytes = new Uint8Array(1 + 2 + 1 + name.length + 1 + bands.length * BAND_BYTES + 2)
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+  const u8 = (value: number) => view.setUint8(offset++, value)
+  const u16 = (value: number) => {
+    view.setUint16(offset, value)
+    offset += 2
+  }
+  const i16 = (value: number) => {
+    view.setInt16(offset, value)
+    offset += 2
+  }
+
+  u8(SHARE_VERSION)
+  i16(toCentiDb(profile.volume))
+  u8(name.length)
+  bytes.set(name, offset)
+  offset += name.length
+  u8(bands.length)
+
+  for (const band of bands) {
+    const type = band.type ?? 'peaking'
+    const typeIndex = Math.max(0, FILTER_TYPES.indexOf(type))
+    const channelIndex = Math.max(0, CHANNELS.indexOf(band.channel ?? 'both'))
+    const slopeIndex = hasSlope(type)
+      ? FILTER_SLOPES.indexOf(normalizeSlope(band.slope) as typeof FILTER_SLOPES[number])
+      : 0
+
+    u8(typeIndex | (channelIndex << 3) | (slopeIndex << 6))
+    u16(toLogU16(band.frequency, FREQ_RANGE))
+    i16(toCentiDb(band.gain))
+    u16(toLogU16(band.q, Q_RANGE))
+  }
+
+  u16(crc16(bytes.subarray(0, offset)))
+  return toBase64Url(bytes)
+}
+
+/**
+ * Decode a string made by `encodeSharedProfile`. Throws `EQShareError` when
+ * it's truncated, corrupted (checksum mismatch) or from a newer version.
+ */
+export function decodeSharedProfile(code: string): SharedProfile {
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64Url(code.trim())
+  } catch (error) {
+    if (error instanceof EQShareError) throw error
+    throw new EQShareError('The share link is not valid')
+  }
+
+  if (bytes.length < 1 + 2 + 1 + 1 + 2) {
+    throw new EQShareError('The share link is incomplete')
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const end = bytes.length - 2
+  if (view.getUint16(end) !== crc16(bytes.subarray(0, end))) {
+    throw new EQShareError('The share link is damaged (checksum mismatch)')
+  }
+
+  const version = view.getUint8(0)
+  if (version !== SHARE_VERSION) {
+    throw new EQShareError(`This share link needs a newer version of the app (format v${version})`)
+  }
+
+  let offset = 1
+  const u8 = () => view.getUint8(offset++)
+  const u16 = () => {
+    offset += 2
+    return view.getUint16(offset - 2)
+  }
+  const i16 = () => {
+    offset += 2
+    return view.getInt16(offset - 2)
+  }
+
+  const volume = i16() / 100
+  const nameLength = u8()
+  if (offset + nameLength + 1 > end) {
+    throw new EQShareError('The share link is incomplete')
+  }
+  const name = new TextDecoder().decode(bytes.subarray(offset, offset + nameLength))
+  offset += nameLength
+  const bandCount = u8()
+  if (offset + bandCount * BAND_BYTES !== end) {
+    throw new EQShareError('The share link is incomplete')
+  }
+
+  const bands: EQBand[] = []
+  for (let i = 0; i < bandCount; i++) {
+    const flags = u8()
+    const type = FILTER_TYPES[flags & 0x07]
+    const channel = CHANNELS[(flags >> 3) & 0x07]
+    if (!channel) {
+      throw new EQShareError('The share link contains an unknown channel')
+    }
+
+    const band: EQBand = {
+      id: uuidv4(),
+      frequency: tidy(fromLogU16(u16(), FREQ_RANGE), 5),
+      gain: i16() / 100,
+      q: tidy(fromLogU16(u16(), Q_RANGE), 4),
+      type,
+    }
+    if (hasSlope(type)) band.slope = FILTER_SLOPES[flags >> 6]
+    if (channel !== 'both') band.channel = channel
+    bands.push(band)
+  }
+
+  return { name, bands, volume }
+}
+
+/** Absolute link that opens the app with the import prompt for `profile`. */
+export function buildShareUrl(profile: SharedProfile, origin: string): string {
+  return `${origin}/?${SHARE_PARAM}=${encodeSharedProfile(profile)}`
+}
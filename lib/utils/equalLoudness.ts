@@ -0,0 +1,67 @@
+/** ISO 226:2003 equal-loudness contours and the compensation derived from them. */
+
+/** Frequencies (Hz) of the ISO 226:2003 table. */
+const FREQUENCIES = [
+  20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630,
+  800, 1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500,
+];
+
+/** Exponent for loudness perception. */
+const ALPHA_F = [
+  0.532, 0.506, 0.48, 0.455, 0.432, 0.409, 0.387, 0.367, 0.349, 0.33, 0.315, 0.301, 0.288, 0.276, 0.267, 0.259,
+  0.253, 0.25, 0.246, 0.244, 0.243, 0.243, 0.243, 0.242, 0.242, 0.245, 0.254, 0.271, 0.301,
+];
+
+/** Magnitude of the linear transfer function normalized at 1 kHz (dB). */
+const L_U = [
+  -31.6, -27.2, -23.0, -19.1, -15.9, -13.0, -10.3, -8.1, -6.2, -4.5, -3.1, -2.0, -1.1, -0.4, 0.0, 0.3,
+  0.5, 0.0, -2.7, -4.1, -1.0, 1.7, 2.5, 1.2, -2.1, -7.1, -11.2, -10.7, -3.1,
+];
+
+/** Threshold of hearing (dB SPL). */
+const T_F = [
+  78.5, 68.7, 59.5, 51.1, 44.0, 37.5, 31.5, 26.5, 22.1, 17.9, 14.4, 11.4, 8.6, 6.2, 4.4, 3.0,
+  2.2, 2.4, 3.5, 1.7, -1.3, -4.2, -6.0, -5.4, -1.5, 6.0, 12.6, 13.9, 12.3,
+];
+
+/** Loudness levels (phon) the contours are defined for. */
+export const MIN_PHON = 20;
+export const MAX_PHON = 90;
+
+/** SPL (dB) at table index `i` that sounds as loud as `phon` at 1 kHz. */
+function contourSpl(i: number, phon: number): number {
+  const af =
+    4.47e-3 * (Math.pow(10, 0.025 * phon) - 1.15) +
+    Math.pow(0.4 * Math.pow(10, (T_F[i] + L_U[i]) / 10 - 9), ALPHA_F[i]);
+  return (10 / ALPHA_F[i]) * Math.log10(af) - L_U[i] + 94;
+}
+
+/**
+ * Boost (dB) per frequency that makes audio balanced at `referencePhon` sound
+ * equally balanced when played at `listeningPhon`: the difference between the
+ * two contours, relative to 1 kHz. Levels are clamped to the range ISO 226
+ * covers. Frequencies outside the table use its nearest end point; in
+ * between, values are interpolated on a log-frequency axis.
+ */
+export function equalLoudnessCompensationDb(
+  listeningPhon: number,
+  referencePhon: number,
+  frequencies: number[],
+): number[] {
+  const listening = Math.max(MIN_PHON, Math.min(MAX_PHON, listeningPhon));
+  const reference = Math.max(MIN_PHON, Math.min(MAX_PHON, referencePhon));
+
+  const table = FREQUENCIES.map(
+    (_, i) => contourSpl(i, listening) - contourSpl(i, reference) - (listening - reference),
+  );
+
+  return frequencies.map((frequency) => {
+    if (frequency <= FREQUENCIES[0]) return table[0];
+    const last = FREQUENCIES.length - 1;
+    if (frequency >= FREQUENCIES[last]) return table[last];
+    let i = 0;
+    while (FREQUENCIES[i + 1] < frequency) i++;
+    const t = Math.log(frequency / FREQUENCIES[i]) / Math.log(FREQUENCIES[i + 1] / FREQUENCIES[i]);
+    return table[i] + t * (table[i + 1] - table[i]);
+  });
+}
@@ -0,0 +1,131 @@
+import type { EQBand } from '../models/EQBand';
+
+/** Slopes (dB/octave) selectable for lowpass/highpass bands. */
+export const FILTER_SLOPES = [12, 24, 36, 48] as const;
+
+export const DEFAULT_FILTER_SLOPE = 12;
+
+/** A single second-order section of a band. Q is the conventional (linear) Q. */
+export interface FilterStage {
+  type: BiquadFilterType;
+  frequency: number;
+  gain: number;
+  q: number;
+}
+
+/** Whether the filter type has a selectable slope (lowpass/highpass). */
+export function hasSlope(type: BiquadFilterType | undefined): boolean {
+  return type === 'lowpass' || type === 'highpass';
+}
+
+/** Whether the filter type uses the band's gain. Pass/notch/allpass filters ignore it. */
+export function usesGain(type: BiquadFilterType | undefined): boolean {
+  const t = type ?? 'peaking';
+  return t === 'peaking' || t === 'lowshelf' || t === 'highshelf';
+}
+
+/** Clamp a stored slope to one of FILTER_SLOPES. */
+export function normalizeSlope(slope: number | undefined): number {
+  if (!slope || !Number.isFinite(slope)) return DEFAULT_FILTER_SLOPE;
+  const order = Math.round(slope / 12);
+  return Math.max(1, Math.min(FILTER_SLOPES.length, order)) * 12;
+}
+
+/**
+ * Q factors of the second-order sections of an even-order Butterworth filter,
+ * e.g. order 4 → [0.541, 1.307].
+ */
+export function butterworthQs(order: number): number[] {
+  const qs: number[] = [];
+  for (let k = 1; k <= order / 2; k++) {
+    qs.push(1 / (2 * Math.cos(((2 * k - 1) * Math.PI) / (2 * order))));
+  }
+  return qs;
+}
+
+/**
+ * Expand a band into the biquad stages that realise it.
+ *
+ * Lowpass/highpass bands steeper than 12 dB/oct become a cascade of
+ * Butterworth sections (12 dB/oct each); the band's own Q only shapes the
+ * 12 dB/oct case. Every other type is a single stage.
+ */
+export function getBandStages(band: EQBand): FilterStage[] {
+  const type = band.type ?? 'peaking';
+  const slope = hasSlope(type) ? normalizeSlope(band.slope) : DEFAULT_FILTER_SLOPE;
+  const gain = usesGain(type) ? band.gain : 0;
+
+  if (slope === DEFAULT_FILTER_SLOPE) {
+    return [{ type, frequency: band.frequency, gain, q: band.q }];
+  }
+  return butterworthQs(slope / 6).map(q => ({ type, frequency: band.frequency, gain, q }));
+}
+
+/**
+ * Value for BiquadFilterNode.Q. Web Audio interprets Q on lowpass/highpass
+ * filters as a resonance in dB rather than a linear Q, so convert those.
+ */
+export function toWebAudioQ(stage: FilterStage): number {
+  return hasSlope(stage.type) ? 20 * Math.log10(stage.q) : stage.q;
+}
+
+/** Configure a BiquadFilterNode for one stage. */
+export function configureBiquad(filter: BiquadFilterNode, stage: FilterStage): void {
+  filter.type = stage.type;
+  filter.frequency.value = stage.frequency;
+  filter.Q.value = toWebAudioQ(stage);
+  filter.gain.value = stage.gain;
+}
+
+/**
+ * Replace steep lowpass/highpass bands with one 12 dB/oct band per stage, for
+ * formats that can chain filters but have no slope setting.
+ */
+export function expandSlopedBands(bands: EQBand[]): EQBand[] {
+  return bands.flatMap(band => {
+    if (!hasSlope(band.type) || normalizeSlope(band.slope) === DEFAULT_FILTER_SLOPE) return [band];
+    return getBandStages(band).map((stage, i) => ({
+      ...band,
+      id: `${band.id}-${i + 1}`,
+      q: stage.q,
+      slope: DEFAULT_FILTER_SLOPE,
+    }));
+  });
+}
+
+/**
+ * Inverse of expandSlopedBands: merge runs of lowpass/highpass bands at the
+ * same frequency and channel whose Qs match a Butterworth cascade back into
+ * a single band with a slope.
+ */
+export function collapseSlopedBands(bands: EQBand[]): EQBand[] {
+  const out: EQBand[] = [];
+  let i = 0;
+  while (i < bands.length) {
+    const band = bands[i];
+    let merged = false;
+    if (hasSlope(band.type)) {
+      // Try the steepest cascade first
+      for (let stages = FILTER_SLOPES.length; stages >= 2 && !merged; stages--) {
+        const run = bands.slice(i, i + stages);
+        const qs = butterworthQs(stages * 2);
+        const matches = run.length === stages && run.every((b, k) =>
+          b.type === band.type &&
+          (b.channel ?? 'both') === (band.channel ?? 'both') &&
+          Math.abs(b.frequency - band.frequency) < 0.5 &&
+          Math.abs(b.q - qs[k]) < 0.01
+        );
+        if (matches) {
+          out.push({ ...band, q: Math.SQRT1_2, slope: stages * 12 });
+          i += stages;
+          merged = true;
+        }
+      }
+    }
+    if (!merged) {
+      out.push(band);
+      i++;
+    }
+  }
+  return out;
+}
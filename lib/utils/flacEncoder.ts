@@ -0,0 +1,308 @@
+/** Bit depths the FLAC encoder can write. */
+export type FlacBitDepth = 16 | 24
+
+// Samples per frame; 4096 is the reference encoder's default at 44.1/48 kHz
+const BLOCK_SIZE = 4096
+const MAX_FIXED_ORDER = 4
+const MAX_PARTITION_ORDER = 6
+
+/** MSB-first bit writer backed by a growable byte array. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16)
+  private length = 0
+  private acc = 0
+  private accBits = 0
+
+  get byteLength(): number {
+    return this.length
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.length++] = byte
+  }
+
+  /** Write the low `count` bits of `value` (count ≤ 32; negative values are two's complement). */
+  writeBits(value: number, count: number): void {
+    while (count > 0) {
+      const take = Math.min(count, 24 - this.accBits)
+      const shift = count - take
+      const chunk = shift >= 32 ? 0 : Math.floor(value / 2 ** shift) & ((1 << take) - 1)
+      this.acc = (this.acc << take) | chunk
+      this.accBits += take
+      count -= take
+      while (this.accBits >= 8) {
+        this.accBits -= 8
+        this.pushByte((this.acc >>> this.accBits) & 0xff)
+      }
+      this.acc &= (1 << this.accBits) - 1
+    }
+  }
+
+  /** Write `count` zero bits followed by a one (unary code). */
+  writeUnary(count: number): void {
+    while (count >= 24) {
+      this.writeBits(0, 24)
+      count -= 24
+    }
+    this.writeBits(1, count + 1)
+  }
+
+  /** Pad with zero bits to the next byte boundary. */
+  alignToByte(): void {
+    if (this.accBits > 0) this.writeBits(0, 8 - this.accBits)
+  }
+
+  /** Bytes written so far, from `start` (must be byte-aligned). */
+  slice(start: number, end = this.length): Uint8Array {
+    return this.bytes.subarray(start, end)
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.length).buffer
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256)
+const CRC16_TABLE = new Uint16Array(256)
+for (let i = 0; i < 256; i++) {
+  let c8 = i
+  let c16 = i << 8
+  for (let bit = 0; bit < 8; bit++) {
+    c8 = c8 & 0x80 ? ((c8 << 1) ^ 0x07) & 0xff : (c8 << 1) & 0xff
+    c16 = c16 & 0x8000 ? ((c16 << 1) ^ 0x8005) & 0xffff : (c16 << 1) & 0xffff
+  }
+  CRC8_TABLE[i] = c8
+  CRC16_TABLE[i] = c16
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0
+  for (const byte of data) crc = CRC8_TABLE[crc ^ byte]
+  return crc
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0
+  for (const byte of data) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte]
+  return crc
+}
+
+/** Frame numbers use the UTF-8 style variable-length code. */
+function writeFrameNumber(writer: BitWriter, n: number): void {
+  if (n < 0x80) {
+    writer.writeBits(n, 8)
+    return
+  }
+  let continuation = 1
+  while (n >= 2 ** (6 * continuation + 6 - continuation)) continuation++
+  const lead = (0xff00 >> (continuation + 1)) & 0xff
+  writer.writeBits(lead | Math.floor(n / 2 ** (6 * continuation)), 8)
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(n / 2 ** (6 * i)) & 0x3f), 8)
+  }
+}
+
+/** Residual of the fixed polynomial predictor of the given order. */
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const out = new Int32Array(samples.length - order)
+  for (let i = order; i < samples.length; i++) {
+    const s = samples
+    let prediction = 0
+    switch (order) {
+      case 1: prediction = s[i - 1]; break
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break
+    }
+    out[i - order] = s[i] - prediction
+  }
+  return out
+}
+
+const zigzag = (r: number): number => (r >= 0 ? r * 2 : -r * 2 - 1)
+
+interface RicePlan {
+  partitionOrder: number
+  params: number[]
+  bits: number
+}
+
+/**
+ * Cheapest Rice parameter for `count` residuals whose zigzagged values sum to
+ * `sum`, with the estimated cost in bits. The estimate (sum / 2^k for the
+ * quotients) is what the reference encoder uses too; it is only for choosing.
+ */
+function bestRiceParam(sum: number, count: number): { param: number; bits: number } {
+  const mean = count > 0 ? sum / count : 0
+  const guess = mean > 1 ? Math.floor(Math.log2(mean)) : 0
+
+  let best = { param: 0, bits: Infinity }
+  for (let param = Math.max(0, guess - 1); param <= Math.min(30, guess + 1); param++) {
+    const bits = count * (param + 1) + Math.floor(sum / 2 ** param)
+    if (bits < best.bits) best = { param, bits }
+  }
+  return best
+}
+
+/** Pick the partition order and per-partition Rice parameters for a residual. */
+function planRice(residual: Int32Array, blockSize: number, order: number): RicePlan {
+  // Finest usable partitioning: block size divisible, partitions longer than the warm-up
+  let maxOrder = 0
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > order
+  ) {
+    maxOrder++
+  }
+
+  // Zigzag sums per finest partition (the first is shorter by the warm-up samples)
+  const partSize = blockSize >> maxOrder
+  let sums: number[] = []
+  for (let p = 0; p < 1 << maxOrder; p++) {
+    const start = p === 0 ? 0 : p * partSize - order
+    const end = (p + 1) * partSize - order
+    let sum = 0
+    for (let i = start; i < end; i++) sum += zigzag(residual[i])
+    sums.push(sum)
+  }
+
+  // Evaluate every partition order, merging neighbouring sums on the way up
+  let best: RicePlan = { partitionOrder: 0, params: [], bits: Infinity }
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const size = blockSize >> partitionOrder
+    const params: number[] = []
+    let bits = 0
+    sums.forEach((sum, p) => {
+      const { param, bits: partBits } = bestRiceParam(sum, p === 0 ? size - order : size)
+      params.push(param)
+      bits += partBits + 5
+    })
+    if (bits < best.bits) best = { partitionOrder, params, bits }
+
+    const merged: number[] = []
+    for (let p = 0; p < sums.length; p += 2) merged.push(sums[p] + (sums[p + 1] ?? 0))
+    sums = merged
+  }
+  return best
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number): void {
+  const blockSize = samples.length
+
+  if (samples.every((s) => s === samples[0])) {
+    // CONSTANT subframe — silence compresses to a few bytes
+    writer.writeBits(0b00000000, 8)
+    writer.writeBits(samples[0], bitDepth)
+    return
+  }
+
+  let bestOrder = -1
+  let bestPlan: RicePlan | null = null
+  let bestResidual: Int32Array | null = null
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+    const residual = fixedResidual(samples, order)
+    const plan = planRice(residual, blockSize, order)
+    const bits = plan.bits + order * bitDepth
+    if (!bestPlan || bits < bestPlan.bits + bestOrder * bitDepth) {
+      bestOrder = order
+      bestPlan = plan
+      bestResidual = residual
+    }
+  }
+
+  if (!bestPlan || !bestResidual || bestPlan.bits + bestOrder * bitDepth >= blockSize * bitDepth) {
+    // VERBATIM subframe
+    writer.writeBits(0b00000010, 8)
+    for (const s of samples) writer.writeBits(s, bitDepth)
+    return
+  }
+
+  // FIXED subframe: type 001xxx, then warm-up samples and the Rice-coded residual
+  writer.writeBits((0b001000 | bestOrder) << 1, 8)
+  for (let i = 0; i < bestOrder; i++) writer.writeBits(samples[i], bitDepth)
+
+  // Method 0 has 4-bit parameters (max 14); method 1 has 5-bit ones
+  const wide = bestPlan.params.some((p) => p > 14)
+  writer.writeBits(wide ? 1 : 0, 2)
+  writer.writeBits(bestPlan.partitionOrder, 4)
+
+  const partSize = blockSize >> bestPlan.partitionOrder
+  bestPlan.params.forEach((param, p) => {
+    writer.writeBits(param, wide ? 5 : 4)
+    const start = p === 0 ? 0 : p * partSize - bestOrder
+    const end = (p + 1) * partSize - bestOrder
+    const scale = 2 ** param
+    for (let i = start; i < end; i++) {
+      const u = zigzag(bestResidual![i])
+      writer.writeUnary(Math.floor(u / scale))
+      if (param > 0) writer.writeBits(u % scale, param)
+    }
+  })
+}
+
+/**
+ * Encode planar channel data as a FLAC file (up to 8 channels). Samples are
+ * clipped to [-1, 1] and quantized to `bitDepth`; frames use fixed
+ * predictors with partitioned Rice coding. The STREAMINFO MD5 is left unset.
+ */
+export function encodeFlac(channels: Float32Array[], sampleRate: number, bitDepth: FlacBitDepth = 16): ArrayBuffer {
+  const numChannels = channels.length
+  const totalSamples = numChannels > 0 ? channels[0].length : 0
+  const scale = 2 ** (bitDepth - 1)
+  const writer = new BitWriter()
+
+  writer.writeBits(0x664c6143, 32) // "fLaC"
+
+  // STREAMINFO (last metadata block)
+  writer.writeBits(0x80, 8)
+  writer.writeBits(34, 24)
+  writer.writeBits(BLOCK_SIZE, 16)
+  writer.writeBits(BLOCK_SIZE, 16)
+  writer.writeBits(0, 24) // min frame size unknown
+  writer.writeBits(0, 24) // max frame size unknown
+  writer.writeBits(sampleRate, 20)
+  writer.writeBits(numChannels - 1, 3)
+  writer.writeBits(bitDepth - 1, 5)
+  writer.writeBits(Math.floor(totalSamples / 2 ** 32), 4)
+  writer.writeBits(totalSamples >>> 0, 32)
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32) // MD5
+
+  const block = Array.from({ length: numChannels }, () => new Int32Array(BLOCK_SIZE))
+  for (let frame = 0, offset = 0; offset < totalSamples; frame++, offset += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - offset)
+    const frameStart = writer.byteLength
+
+    // Frame header: sync, fixed blocking, 16-bit block size at end of header,
+    // sample rate from STREAMINFO, independent channels, explicit sample size
+    writer.writeBits(0xfff8, 16)
+    writer.writeBits(0b0111, 4)
+    writer.writeBits(0b0000, 4)
+    writer.writeBits(numChannels - 1, 4)
+    writer.writeBits(bitDepth === 24 ? 0b110 : 0b100, 3)
+    writer.writeBits(0, 1)
+    writeFrameNumber(writer, frame)
+    writer.writeBits(blockSize - 1, 16)
+    writer.writeBits(crc8(writer.slice(frameStart)), 8)
+
+    for (let ch = 0; ch < numChannels; ch++) {
+      const samples = block[ch].subarray(0, blockSize)
+      const source = channels[ch]
+      for (let i = 0; i < blockSize; i++) {
+        const clipped = Math.max(-1, Math.min(1, source[offset + i]))
+        samples[i] = Math.max(-scale, Math.min(scale - 1, Math.round(clipped * scale)))
+      }
+      writeSubframe(writer, samples, bitDepth)
+    }
+
+    writer.alignToByte()
+    writer.writeBits(crc16(writer.slice(frameStart)), 16)
+  }
+
+  return writer.toArrayBuffer()
+}
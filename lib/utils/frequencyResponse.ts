@@ -0,0 +1,136 @@
+import type { EQBand } from '@/lib/models/EQBand'
+import { combinedMagnitudeAt, logFrequencies } from './eqExport/biquadMath'
+import { interpolateCurve } from './eqImport/fitParametric'
+
+/** A magnitude response: gains in dB at ascending frequencies. */
+export interface ResponseCurve {
+  frequencies: number[]
+  gains: number[]
+}
+
+export class FrequencyResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FrequencyResponseError'
+  }
+}
+
+// Grid curves are compared on
+export const COMPARE_FREQS = logFrequencies(20, 20000, 256)
+
+// Curves are levelled to 0 dB here, as AutoEQ does
+const NORMALIZE_FREQ = 1000
+
+// Couplers and ear canals make measurements unreliable above this, so the
+// error ignores it
+const ERROR_MAX_FREQ = 10000
+
+const NUMBER_RE = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+
+/**
+ * Parse a frequency response in AutoEQ's CSV (`frequency,raw,…`) or the
+ * plain-text format squig.link and REW export (`freq spl [phase]`, with `*`
+ * comment lines). Uses the `raw` column when a header names one, otherwise
+ * the second. Throws `FrequencyResponseError` when fewer than two points
+ * can be read.
+ */
+export function parseFrequencyResponse(content: string): ResponseCurve {
+  let column = 1
+  const points: { frequency: number; gain: number }[] = []
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('*') || trimmed.startsWith('#')) continue
+
+    const cells = trimmed.split(/[\s,;]+/)
+    if (!NUMBER_RE.test(cells[0])) {
+      // Header row: pick the column to read
+      const names = cells.map((cell) => cell.replace(/"/g, '').toLowerCase())
+      const raw = names.indexOf('raw')
+      if (raw > 0) column = raw
+      continue
+    }
+
+    const frequency = Number(cells[0])
+    const gain = Number(cells[column])
+    if (frequency > 0 && Number.isFinite(frequency) && Number.isFinite(gain)) {
+      points.push({ frequency, gain })
+    }
+  }
+
+  if (points.length < 2) {
+    throw new FrequencyResponseError('No frequency response data found')
+  }
+
+  points.sort((a, b) => a.frequency - b.frequency)
+  return {
+    frequencies: points.map((p) => p.frequency),
+    gains: points.map((p) => p.gain),
+  }
+}
+
+/** Shift a curve so it reads 0 dB at 1 kHz. */
+export function normalizeCurve(curve: ResponseCurve): ResponseCurve {
+  const [level] = interpolateCurve(curve.frequencies, curve.gains, [NORMALIZE_FREQ])
+  return { frequencies: curve.frequencies, gains: curve.gains.map((g) => g - level) }
+}
+
+export interface CurveComparison {
+  frequencies: number[]
+  measurement: number[] | null
+  target: number[] | null
+  /** Measurement + EQ, levelled onto the target when there is one. */
+  corrected: number[] | null
+  /** Corrected − target. */
+  deviation: number[] | null
+  /** RMS of the deviation up to 10 kHz, in dB. */
+  rmsErrorDb: number | null
+}
+
+/**
+ * Sample a measurement and target onto a common grid and work out how far
+ * the measurement plus the EQ is from the target. Only bands on both
+ * channels count; the overall level is ignored, since volume makes it up.
+ */
+export function compareCurves(
+  measurement: ResponseCurve | null,
+  target: ResponseCurve | null,
+  bands: EQBand[],
+  frequencies: number[] = COMPARE_FREQS
+): CurveComparison {
+  const sample = (curve: ResponseCurve | null) =>
+    curve ? interpolateCurve(curve.frequencies, curve.gains, frequencies) : null
+  const measured = sample(measurement)
+  const targeted = sample(target)
+
+  const comparison: CurveComparison = {
+    frequencies,
+    measurement: measured,
+    target: targeted,
+    corrected: null,
+    deviation: null,
+    rmsErrorDb: null,
+  }
+  if (!measured) return comparison
+
+  const eqDb = combinedMagnitudeAt(
+    bands.filter((band) => (band.channel ?? 'both') === 'both'),
+    frequencies
+  )
+  const corrected = measured.map((db, i) => db + eqDb[i])
+  if (!targeted) {
+    comparison.corrected = corrected
+    return comparison
+  }
+
+  const counted = frequencies.map((f) => f <= ERROR_MAX_FREQ)
+  const n = counted.filter(Boolean).length
+  const offset = corrected.reduce((sum, db, i) => (counted[i] ? sum + db - targeted[i] : sum), 0) / n
+
+  comparison.corrected = corrected.map((db) => db - offset)
+  comparison.deviation = comparison.corrected.map((db, i) => db - targeted[i])
+  comparison.rmsErrorDb = Math.sqrt(
+    comparison.deviation.reduce((sum, db, i) => (counted[i] ? sum + db * db : sum), 0) / n
+  )
+  return comparison
+}
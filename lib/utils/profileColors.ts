@@ -0,0 +1,85 @@
+import type { CSSProperties } from 'react';
+
+// Profile colours sit on the app's blue → cyan → green gradient (the same one
+// bands and the particle visualizer use). A profile stores its position on it.
+
+/**
+ * Colour at position t (0–1) of the three-stop gradient:
+ *   t=0   → hue 225 (blue)       sat 80  light 67  (#5577ff)
+ *   t=0.5 → hue 180 (cyan)       sat 100 light 50  (#00ffff)
+ *   t=1   → hue 153 (teal-green) sat 80  light 67  (#55ffaa)
+ * In light mode the colour is darkened for contrast on light backgrounds.
+ */
+export function gradientColor(t: number, alpha: number = 1, isDarkMode: boolean = true): string {
+  const p = Math.min(1, Math.max(0, t));
+  let hue: number, saturation: number, lightness: number;
+
+  if (p < 0.5) {
+    const s = p / 0.5;             // 0→1 across the blue-to-cyan half
+    hue = 225 - s * 45;            // 225 → 180
+    saturation = 80 + s * 20;      // 80 → 100
+    lightness = 67 - s * 17;       // 67 → 50
+  } else {
+    const s = (p - 0.5) / 0.5;     // 0→1 across the cyan-to-green half
+    hue = 180 - s * 27;            // 180 → 153
+    saturation = 100 - s * 20;     // 100 → 80
+    lightness = 50 + s * 17;       // 50 → 67
+  }
+
+  if (!isDarkMode) {
+    lightness = lightness * 0.55;
+    saturation = Math.min(100, saturation * 1.1);
+  }
+
+  return `hsla(${Math.round(hue)}, ${Math.round(saturation)}%, ${Math.round(lightness)}%, ${alpha})`;
+}
+
+// The three original profiles keep their blue, cyan and green
+export const LEGACY_PROFILE_COLORS: Record<string, number> = {
+  'profile-1': 0,
+  'profile-2': 0.5,
+  'profile-3': 1,
+};
+
+/**
+ * Position for a new profile's colour: the middle of the widest gap between
+ * the colours already taken (the gradient ends count as gaps too), so
+ * colours stay as far apart as they can.
+ */
+export function nextProfileColor(taken: number[]): number {
+  if (taken.length === 0) return 0;
+
+  const sorted = [...taken].sort((a, b) => a - b);
+  // Distance to the nearest taken colour, for each candidate position
+  let best = { distance: sorted[0], position: 0 };
+  const consider = (distance: number, position: number) => {
+    if (distance > best.distance) best = { distance, position };
+  };
+  for (let i = 1; i < sorted.length; i++) {
+    consider((sorted[i] - sorted[i - 1]) / 2, (sorted[i] + sorted[i - 1]) / 2);
+  }
+  consider(1 - sorted[sorted.length - 1], 1);
+  return best.position;
+}
+
+/**
+ * CSS variables for a profile's colour; pair with PROFILE_COLOR_CLASSES on
+ * the same element or a descendant.
+ */
+export function profileColorStyle(color: number | undefined): CSSProperties {
+  const t = color ?? 0;
+  return {
+    '--profile-color': gradientColor(t),
+    '--profile-color-light': gradientColor(t, 1, false),
+    '--profile-tint': gradientColor(t, 0.1),
+    '--profile-ring': gradientColor(t, 0.2),
+  } as CSSProperties;
+}
+
+export const PROFILE_COLOR_CLASSES = {
+  text: 'text-[color:var(--profile-color)]',
+  label: 'dark:text-[color:var(--profile-color)] text-[color:var(--profile-color-light)]',
+  bgPanel: 'bg-[color:var(--profile-tint)]',
+  ringPanel: 'ring-[color:var(--profile-ring)]',
+  dot: 'bg-[color:var(--profile-color)]',
+} as const;
@@ -0,0 +1,68 @@
+/** Sample formats the WAV encoder can write. */
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32'
+
+const BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  float32: 4,
+}
+
+function writeString(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i))
+  }
+}
+
+/**
+ * Encode planar channel data as a RIFF/WAVE file. All channels must be the
+ * same length; PCM formats are clipped to [-1, 1].
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number, format: WavSampleFormat = 'float32'): ArrayBuffer {
+  const numChannels = channels.length
+  const frames = numChannels > 0 ? channels[0].length : 0
+  const bytesPerSample = BYTES_PER_SAMPLE[format]
+  const blockAlign = numChannels * bytesPerSample
+  const dataSize = frames * blockAlign
+
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  writeString(view, 0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(view, 8, 'WAVE')
+
+  writeString(view, 12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, format === 'float32' ? 3 : 1, true) // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numChannels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bytesPerSample * 8, true)
+
+  writeString(view, 36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = 44
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = channels[ch][i]
+      if (format === 'float32') {
+        view.setFloat32(offset, sample, true)
+      } else {
+        const clipped = Math.max(-1, Math.min(1, sample))
+        if (format === 'pcm16') {
+          view.setInt16(offset, clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff, true)
+        } else {
+          const value = Math.round(clipped < 0 ? clipped * 0x800000 : clipped * 0x7fffff)
+          view.setUint8(offset, value & 0xff)
+          view.setUint8(offset + 1, (value >> 8) & 0xff)
+          view.setUint8(offset + 2, (value >> 16) & 0xff)
+        }
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return buffer
+}
@@ -0,0 +1,79 @@
+// Gain computer for a dynamic EQ band.
+//
+// The input is the band's sidechain: the signal going into the band, filtered
+// to the band's own frequency region. A peak envelope (separate attack and
+// release) is compared with the threshold, and the output is the gain change
+// in dB (zero or negative), which is added to the band filter's gain param.
+
+const METER_INTERVAL = 0.05; // seconds between meter reports
+
+// One-pole smoothing coefficient for a time constant in milliseconds
+const coefficient = (ms) => 1 - Math.exp(-1 / (Math.max(ms, 0.01) * sampleRate / 1000));
+
+class BandDynamicsProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.envelope = 0;
+    this.enabled = true;
+    this.configure((options && options.processorOptions) || {});
+
+    this.meterReduction = 0;
+    this.meterSamples = 0;
+    this.meterInterval = Math.round(METER_INTERVAL * sampleRate);
+    this.reportedIdle = false;
+
+    this.port.onmessage = (e) => this.configure(e.data || {});
+  }
+
+  configure(data) {
+    if (typeof data.enabled === 'boolean') this.enabled = data.enabled;
+    if (typeof data.threshold === 'number') this.threshold = data.threshold;
+    if (typeof data.ratio === 'number') this.ratio = Math.max(1, data.ratio);
+    if (typeof data.range === 'number') this.range = Math.max(0, data.range);
+    if (typeof data.attack === 'number') this.attackCoef = coefficient(data.attack);
+    if (typeof data.release === 'number') this.releaseCoef = coefficient(data.release);
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const out = outputs[0][0];
+    const frames = out ? out.length : 128;
+    const slope = 1 - 1 / this.ratio;
+
+    for (let i = 0; i < frames; i++) {
+      // Peak of all sidechain channels
+      let level = 0;
+      for (let ch = 0; ch < input.length; ch++) {
+        const a = Math.abs(input[ch][i]);
+        if (a > level) level = a;
+      }
+
+      const coef = level > this.envelope ? this.attackCoef : this.releaseCoef;
+      this.envelope += (level - this.envelope) * coef;
+
+      let reduction = 0;
+      if (this.enabled && this.envelope > 0) {
+        const over = 20 * Math.log10(this.envelope) - this.threshold;
+        if (over > 0) reduction = Math.min(this.range, over * slope);
+      }
+      if (out) out[i] = -reduction;
+      if (reduction > this.meterReduction) this.meterReduction = reduction;
+    }
+
+    this.meterSamples += frames;
+    if (this.meterSamples >= this.meterInterval) {
+      // One idle report is enough; don't keep waking the UI
+      const idle = this.meterReduction === 0;
+      if (!idle || !this.reportedIdle) {
+        this.port.postMessage({ gainReductionDb: this.meterReduction });
+      }
+      this.reportedIdle = idle;
+      this.meterReduction = 0;
+      this.meterSamples = 0;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('band-dynamics', BandDynamicsProcessor);
@@ -0,0 +1,171 @@
+// Lookahead true-peak limiter for the master bus.
+//
+// Peaks are estimated on a 4x oversampled signal (as in ITU-R BS.1770), so
+// inter-sample overs are caught too. The gain needed to keep each peak under
+// the ceiling is held over the lookahead window and smoothed with a moving
+// average of the same length, which ramps the gain down fully by the time the
+// (delayed) peak reaches the output. Release is exponential. Channels are
+// linked so the stereo image doesn't shift.
+
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+const METER_INTERVAL = 0.05; // seconds between meter reports
+
+// Interpolated samples are estimated between history[CENTRE] and
+// history[CENTRE + 1], so peak detection runs this many samples behind input
+const CENTRE = TAPS_PER_PHASE / 2 - 1;
+
+// Polyphase interpolation filters: one windowed-sinc kernel per fractional
+// position between the two centre samples
+function makePhases() {
+  const halfWidth = TAPS_PER_PHASE / 2 + 0.5;
+  const phases = [];
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const frac = p / OVERSAMPLE;
+    const phase = new Float32Array(TAPS_PER_PHASE);
+    let sum = 0;
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      const d = k - CENTRE - frac;
+      const sinc = Math.sin(Math.PI * d) / (Math.PI * d);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * d) / halfWidth);
+      phase[k] = sinc * window;
+      sum += phase[k];
+    }
+    // Unity gain at DC
+    for (let k = 0; k < TAPS_PER_PHASE; k++) phase[k] /= sum;
+    phases.push(phase);
+  }
+  return phases;
+}
+
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.ceiling = Math.pow(10, (opts.ceilingDb ?? -1) / 20);
+    this.enabled = opts.enabled ?? true;
+
+    const lookahead = Math.max(1, Math.round((opts.lookaheadMs ?? 1.5) * sampleRate / 1000));
+    this.lookahead = lookahead;
+    this.releaseCoef = 1 - Math.exp(-1 / ((opts.releaseMs ?? 80) * sampleRate / 1000));
+
+    this.phases = makePhases();
+
+    // Per-channel history for the interpolator, and the delay line. The audio
+    // is delayed by the lookahead plus the detector's own lag.
+    this.history = [new Float32Array(TAPS_PER_PHASE), new Float32Array(TAPS_PER_PHASE)];
+    this.delayLength = lookahead + CENTRE;
+    this.delay = [new Float32Array(this.delayLength), new Float32Array(this.delayLength)];
+    this.delayPos = 0;
+
+    // Required gain over the last lookahead + 1 samples (for the hold)
+    this.required = new Float32Array(lookahead + 1).fill(1);
+    this.requiredPos = 0;
+    // Released gain over the last lookahead samples (for the moving average)
+    this.released = new Float32Array(lookahead).fill(1);
+    this.releasedPos = 0;
+    this.releasedSum = lookahead;
+    this.envelope = 1;
+
+    // Meter state since the last report
+    this.meterPeak = 0;
+    this.meterMinGain = 1;
+    this.meterClipped = false;
+    this.meterSamples = 0;
+    this.meterInterval = Math.round(METER_INTERVAL * sampleRate);
+    this.reportedSilence = false;
+
+    this.port.onmessage = (e) => {
+      const data = e.data || {};
+      if (typeof data.enabled === 'boolean') this.enabled = data.enabled;
+      if (typeof data.ceilingDb === 'number') this.ceiling = Math.pow(10, data.ceilingDb / 20);
+    };
+  }
+
+  // True-peak estimate around the centre of one channel's history
+  truePeak(history) {
+    let peak = Math.max(Math.abs(history[CENTRE]), Math.abs(history[CENTRE + 1]));
+    for (const phase of this.phases) {
+      let acc = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) acc += phase[k] * history[k];
+      const a = Math.abs(acc);
+      if (a > peak) peak = a;
+    }
+    return peak;
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0] ? output[0].length : 128;
+    const inL = input[0];
+    const inR = input[1] || input[0];
+    const lookahead = this.lookahead;
+
+    for (let i = 0; i < frames; i++) {
+      // Shift the newest samples into the interpolator history
+      let peak = 0;
+      for (let ch = 0; ch < 2; ch++) {
+        const src = ch === 0 ? inL : inR;
+        const history = this.history[ch];
+        history.copyWithin(0, 1);
+        history[TAPS_PER_PHASE - 1] = src ? src[i] : 0;
+        const p = this.truePeak(history);
+        if (p > peak) peak = p;
+      }
+
+      // Gain this sample needs, held over the lookahead window
+      this.required[this.requiredPos] = this.enabled && peak > this.ceiling ? this.ceiling / peak : 1;
+      this.requiredPos = (this.requiredPos + 1) % this.required.length;
+      let held = 1;
+      for (let k = 0; k < this.required.length; k++) {
+        if (this.required[k] < held) held = this.required[k];
+      }
+
+      // Instant attack on the held gain, exponential release
+      this.envelope = held < this.envelope ? held : this.envelope + (held - this.envelope) * this.releaseCoef;
+
+      // Moving average over the lookahead window smooths the attack
+      this.releasedSum += this.envelope - this.released[this.releasedPos];
+      this.released[this.releasedPos] = this.envelope;
+      this.releasedPos = (this.releasedPos + 1) % lookahead;
+      const gain = Math.min(1, this.releasedSum / lookahead);
+
+      // Delay the audio by the lookahead and apply the gain
+      for (let ch = 0; ch < 2; ch++) {
+        const line = this.delay[ch];
+        const src = ch === 0 ? inL : inR;
+        const delayed = line[this.delayPos];
+        line[this.delayPos] = src ? src[i] : 0;
+        if (output[ch]) output[ch][i] = delayed * gain;
+      }
+      this.delayPos = (this.delayPos + 1) % this.delayLength;
+
+      if (peak > this.meterPeak) this.meterPeak = peak;
+      if (gain < this.meterMinGain) this.meterMinGain = gain;
+      if (peak > 1) this.meterClipped = true;
+    }
+
+    this.meterSamples += frames;
+    if (this.meterSamples >= this.meterInterval) {
+      // One report of silence is enough; don't keep waking the UI while paused
+      const silent = this.meterPeak === 0 && this.meterMinGain === 1;
+      if (!silent || !this.reportedSilence) {
+        this.port.postMessage({
+          peakDb: this.meterPeak > 0 ? 20 * Math.log10(this.meterPeak) : -Infinity,
+          gainReductionDb: -20 * Math.log10(this.meterMinGain),
+          clipped: this.meterClipped,
+        });
+      }
+      this.reportedSilence = silent;
+      this.meterPeak = 0;
+      this.meterMinGain = 1;
+      this.meterClipped = false;
+      this.meterSamples = 0;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('true-peak-limiter', TruePeakLimiterProcessor);